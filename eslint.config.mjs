@@ -47,12 +47,20 @@ export default [
         HTMLDivElement: 'readonly',
         HTMLButtonElement: 'readonly',
         Event: 'readonly',
+        EventTarget: 'readonly',
         AbortSignal: 'readonly',
         crypto: 'readonly',
         global: 'readonly',
         KeyboardEvent: 'readonly',
         MouseEvent: 'readonly',
+        StorageEvent: 'readonly',
         HTMLImageElement: 'readonly',
+        IDBFactory: 'readonly',
+        IDBDatabase: 'readonly',
+        IDBRequest: 'readonly',
+        IDBTransactionMode: 'readonly',
+        Blob: 'readonly',
+        File: 'readonly',
         React: 'readonly',
       },
     },
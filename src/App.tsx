@@ -1,4 +1,4 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import {
   Routes,
   Route,
@@ -15,8 +15,23 @@ import { SessionListItem } from './components/SessionListItem';
 import { SessionDetail } from './components/SessionDetail';
 import { CreateTaskForm } from './components/CreateTaskForm';
 import { ArchiveSessionDialog } from './components/ArchiveSessionDialog';
+import { BulkActionBar } from './components/BulkActionBar';
+import { CommandPalette } from './components/CommandPalette';
+import {
+  SessionComparison,
+  getCompareUrl,
+} from './components/SessionComparison';
+import { UsageDashboard } from './components/usage/UsageDashboard';
+import { ArchivedSessions } from './components/archive/ArchivedSessions';
+import { NotificationBell } from './components/notifications/NotificationBell';
+import { useNotifications } from './providers/NotificationProvider';
+import { useSubtaskQueue } from './providers/SubtaskQueueProvider';
 import { Button } from './components/ui/button';
 import { MultiSelect } from './components/ui/multi-select';
+import {
+  SessionSearchInput,
+  SessionSearchResults,
+} from './components/SessionSearch';
 
 import {
   DropdownMenu,
@@ -33,9 +48,22 @@ import {
   ChevronLeft,
   ChevronRight,
   RefreshCw,
+  ListChecks,
+  Search,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { useSessions, useCreateSession, useArchiveSession } from './hooks';
+import {
+  useInfiniteSessions,
+  useSession,
+  useCreateSession,
+  useArchiveSession,
+  useUnarchiveSession,
+  useSessionSearch,
+  useKeyboardShortcuts,
+  useSessionSelection,
+  useBulkSessionOperation,
+  BulkAction,
+} from './hooks';
 
 type FilterType = 'pending' | 'in-progress' | 'needs-review' | 'archived';
 
@@ -93,32 +121,83 @@ function AppLayout() {
     return ['needs-review'];
   });
 
-  // Fetch sessions using TanStack Query
+  // Statuses for the selected filters, sent to the backend with each page
+  const allowedStatuses = useMemo(
+    () => filters.flatMap((filter) => filterMap[filter]),
+    [filters]
+  );
+
+  // Fetch sessions page by page using TanStack Query
   const {
-    data: sessions = [],
+    data: sessionPages,
     isLoading: isLoadingSessions,
     refetch: refetchSessions,
     isFetching: isFetchingSessions,
-  } = useSessions();
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteSessions(
+    { uiStatus: allowedStatuses },
+    { enabled: filters.length > 0 }
+  );
+
+  const sessions = useMemo(
+    () => sessionPages?.pages.flat() ?? [],
+    [sessionPages]
+  );
+
+  // The selected session may not be on a loaded page (or may not match the
+  // current filters), so fall back to fetching it directly
+  const listedSession = useMemo(
+    () => (id ? sessions.find((s) => s.id === id) || null : null),
+    [id, sessions]
+  );
+  const { data: fetchedSession, isError: isSessionError } = useSession(
+    id && !isLoadingSessions && !listedSession ? id : ''
+  );
 
   // Mutations
   const createSessionMutation = useCreateSession();
+  const subtaskQueue = useSubtaskQueue();
   const archiveSessionMutation = useArchiveSession();
+  const unarchiveSessionMutation = useUnarchiveSession();
 
   // Derive selectedSession from URL parameter
   const selectedSession = useMemo(() => {
     if (!id) return null;
-    return sessions.find((s) => s.id === id) || null;
-  }, [id, sessions]);
+    return listedSession || (fetchedSession?.id === id ? fetchedSession : null);
+  }, [id, listedSession, fetchedSession]);
+
+  // Opening a session reads its notifications
+  const markSessionRead = useNotifications()?.markSessionRead;
+  useEffect(() => {
+    if (id) markSessionRead?.(id);
+  }, [id, markSessionRead]);
 
   // Handle invalid session IDs
   useEffect(() => {
-    // Only check after sessions have loaded
-    if (!isLoadingSessions && id && !selectedSession) {
+    // Only check after the direct lookup has failed
+    if (id && !selectedSession && isSessionError) {
       toast.error('Session not found');
       navigate('/');
     }
-  }, [id, sessions, selectedSession, navigate, isLoadingSessions]);
+  }, [id, selectedSession, navigate, isSessionError]);
+
+  // Lazy-load the next page when the end of the list scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new window.IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    });
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const [isCreatingTask, setIsCreatingTask] = useState(false);
   const [parentForNewTask, setParentForNewTask] = useState<Session | null>(
@@ -193,8 +272,9 @@ function AppLayout() {
       return rootSessions;
     }
 
-    // Filter sessions based on selected filters using filterMap
-    const allowedStatuses = filters.flatMap((filter) => filterMap[filter]);
+    // Filter sessions based on selected filters using filterMap.
+    // Pages are already filtered by the backend; this keeps optimistic
+    // cache inserts (e.g. a new Pending task) out of unrelated filters.
     const filteredSessions = sessions.filter((s) =>
       allowedStatuses.includes(s.uiStatus)
     );
@@ -220,7 +300,7 @@ function AppLayout() {
     });
 
     return rootSessions;
-  }, [sessions, filters]);
+  }, [sessions, filters, allowedStatuses]);
 
   // Sort sessions by created date (newest first)
   const filteredSessions = useMemo(() => {
@@ -236,6 +316,110 @@ function AppLayout() {
     return sortByDate([...hierarchicalSessions]);
   }, [hierarchicalSessions]);
 
+  // Search covers every listed session, including subtasks
+  const searchableSessions = useMemo(
+    () => sessions.filter((s) => allowedStatuses.includes(s.uiStatus)),
+    [sessions, allowedStatuses]
+  );
+  const {
+    query: searchQuery,
+    results: searchResults,
+    isActive: isSearchActive,
+    isLoadingContent: isSearchLoadingContent,
+    search: searchSessions,
+    clear: clearSearch,
+  } = useSessionSearch(searchableSessions);
+
+  // Multi-select in the session list, in display order (parents before
+  // their subtasks)
+  const visibleSessions = useMemo(() => {
+    const flatten = (sessions: Session[]): Session[] =>
+      sessions.flatMap((session) => [
+        session,
+        ...flatten(session.children || []),
+      ]);
+    return flatten(filteredSessions);
+  }, [filteredSessions]);
+  const visibleSessionIds = useMemo(
+    () => visibleSessions.map((session) => session.id),
+    [visibleSessions]
+  );
+  const selection = useSessionSelection(visibleSessionIds);
+  const [selectionMode, setSelectionMode] = useState(false);
+  const bulkOperation = useBulkSessionOperation();
+  const selectedSessions = useMemo(
+    () =>
+      visibleSessions.filter((session) =>
+        selection.selectedIds.includes(session.id)
+      ),
+    [visibleSessions, selection.selectedIds]
+  );
+  const isSelecting = selectionMode || selection.selectedIds.length > 0;
+
+  const handleExitSelection = () => {
+    selection.clear();
+    setSelectionMode(false);
+    bulkOperation.reset();
+  };
+
+  const handleBulkAction = async (action: BulkAction) => {
+    const result = await bulkOperation.run(action, selectedSessions);
+    const removed = action.type === 'archive' || action.type === 'delete';
+    if (
+      removed &&
+      selectedSession &&
+      result.succeeded.includes(selectedSession.id)
+    ) {
+      navigate('/');
+    }
+    // Keep the selection around when something failed so it can be retried
+    if (result.failed.length === 0) {
+      selection.clear();
+    }
+  };
+
+  // Command palette and keyboard navigation through the session list
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  const selectAdjacentSession = (offset: number) => {
+    if (visibleSessions.length === 0) return;
+    const index = visibleSessions.findIndex(
+      (session) => session.id === selectedSession?.id
+    );
+    const next =
+      index === -1
+        ? 0
+        : Math.min(Math.max(index + offset, 0), visibleSessions.length - 1);
+    navigate(`/session/${visibleSessions[next].id}`);
+  };
+
+  useKeyboardShortcuts({
+    'mod+k': () => setPaletteOpen((open) => !open),
+    j: () => !paletteOpen && selectAdjacentSession(1),
+    k: () => !paletteOpen && selectAdjacentSession(-1),
+  });
+
+  const handleToggleFilter = (filter: string) => {
+    setFilters((current) =>
+      current.includes(filter as FilterType)
+        ? current.filter((f) => f !== filter)
+        : [...current, filter as FilterType]
+    );
+  };
+
+  const handleNewTask = () => {
+    setParentForNewTask(null);
+    navigate('/');
+    setIsCreatingTask(true);
+  };
+
+  const handleSelectSearchResult = (sessionId: string, messageId?: string) => {
+    const params = new URLSearchParams();
+    if (messageId) params.set('message', messageId);
+    const query = params.toString();
+    navigate(`/session/${sessionId}${query ? `?${query}` : ''}`);
+  };
+
   const handleCreateTask = (task: CreateSessionData) => {
     createSessionMutation.mutate(task, {
       onSuccess: (newSession) => {
@@ -246,6 +430,21 @@ function AppLayout() {
     });
   };
 
+  const handleQueueSubtask = (task: CreateSessionData) => {
+    if (!subtaskQueue || !task.parentId) return;
+    subtaskQueue.enqueue({ ...task, parentId: task.parentId });
+    toast.success('Subtask queued', {
+      description: 'It starts when the parent session needs review',
+    });
+    navigate(`/session/${task.parentId}`);
+    setIsCreatingTask(false);
+    setParentForNewTask(null);
+  };
+
+  const handleCompareSubtasks = (parent: Session) => {
+    navigate(getCompareUrl((parent.children || []).map((child) => child.id)));
+  };
+
   const handleCreateSubtask = (parentId: string) => {
     const parent = sessions.find((s) => s.id === parentId);
     setParentForNewTask(parent || null);
@@ -290,35 +489,34 @@ function AppLayout() {
     }
   };
 
-  const performArchive = (sessionId: string, archiveChildren: boolean) => {
+  const performArchive = async (
+    sessionId: string,
+    archiveChildren: boolean
+  ) => {
     if (archiveChildren) {
-      // Archive parent and all children
+      // Archive all children first; failed subtask IDs are reported by the
+      // bulk operation
       const session = sessions.find((s) => s.id === sessionId);
-      const childIds = session?.children?.map((c) => c.id) || [];
-
-      // Archive all children first
-      const archivePromises = childIds.map((childId) =>
-        archiveSessionMutation.mutateAsync(childId)
+      const result = await bulkOperation.run(
+        { type: 'archive' },
+        session?.children || []
       );
+      if (result.failed.length > 0) {
+        console.error('[App] Failed to archive children:', result.failed);
+        return;
+      }
 
-      Promise.all(archivePromises)
-        .then(() => {
-          // Then archive the parent
-          archiveSessionMutation.mutate(sessionId, {
-            onSuccess: () => {
-              console.log('[App] Archive mutation succeeded (with children)');
-              if (selectedSession?.id === sessionId) {
-                navigate('/');
-              }
-              setArchiveDialogOpen(false);
-              setSessionToArchive(null);
-            },
-          });
-        })
-        .catch((error) => {
-          console.error('[App] Failed to archive children:', error);
-          toast.error('Failed to archive some subtasks');
-        });
+      // Then archive the parent
+      archiveSessionMutation.mutate(sessionId, {
+        onSuccess: () => {
+          console.log('[App] Archive mutation succeeded (with children)');
+          if (selectedSession?.id === sessionId) {
+            navigate('/');
+          }
+          setArchiveDialogOpen(false);
+          setSessionToArchive(null);
+        },
+      });
     } else {
       // Archive only the parent
       archiveSessionMutation.mutate(sessionId, {
@@ -380,6 +578,15 @@ function AppLayout() {
                       <DropdownMenuItem onSelect={() => navigate('/')}>
                         Home
                       </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => navigate('/usage')}>
+                        Token usage
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => navigate('/archive')}>
+                        Archived sessions
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => navigate('/viewer')}>
+                        Transcript viewer
+                      </DropdownMenuItem>
                       <DropdownMenuItem
                         variant="destructive"
                         onSelect={() => logout()}
@@ -390,6 +597,27 @@ function AppLayout() {
                   </DropdownMenu>
                 )}
                 <div className="flex-1" />
+                <NotificationBell />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setPaletteOpen(true)}
+                  title="Command palette (⌘K)"
+                >
+                  <Search className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant={isSelecting ? 'secondary' : 'ghost'}
+                  className="h-6 w-6 p-0"
+                  onClick={() =>
+                    isSelecting ? handleExitSelection() : setSelectionMode(true)
+                  }
+                  title="Select tasks"
+                >
+                  <ListChecks className="w-4 h-4" />
+                </Button>
                 <Button
                   size="sm"
                   variant="ghost"
@@ -429,8 +657,26 @@ function AppLayout() {
                   className="h-6 text-xs w-full"
                 />
               </div>
+              <div className="w-full mt-2">
+                <SessionSearchInput
+                  onSearch={searchSessions}
+                  onClear={clearSearch}
+                />
+              </div>
             </div>
 
+            {isSelecting && !isSearchActive && (
+              <BulkActionBar
+                selectedSessions={selectedSessions}
+                totalCount={visibleSessions.length}
+                operation={bulkOperation.state}
+                onRun={handleBulkAction}
+                onSelectAll={selection.selectAll}
+                onClear={handleExitSelection}
+                onDismissOperation={bulkOperation.reset}
+              />
+            )}
+
             {/* Sessions List */}
             <div className="flex-1 overflow-auto">
               <div className="p-2">
@@ -438,17 +684,44 @@ function AppLayout() {
                   <div className="flex items-center justify-center py-8">
                     <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
                   </div>
+                ) : isSearchActive ? (
+                  <SessionSearchResults
+                    query={searchQuery}
+                    results={searchResults}
+                    isLoadingContent={isSearchLoadingContent}
+                    onSelect={handleSelectSearchResult}
+                  />
                 ) : filteredSessions.length > 0 ? (
-                  filteredSessions.map((session) => (
-                    <SessionListItem
-                      key={session.id}
-                      session={session}
-                      isActive={selectedSession?.id === session.id}
-                      onSelect={(session) => navigate(`/session/${session.id}`)}
-                      onCreateSubtask={handleCreateSubtask}
-                      onArchive={handleArchive}
-                    />
-                  ))
+                  <>
+                    {filteredSessions.map((session) => (
+                      <SessionListItem
+                        key={session.id}
+                        session={session}
+                        isActive={selectedSession?.id === session.id}
+                        onSelect={(session) =>
+                          navigate(`/session/${session.id}`)
+                        }
+                        onCreateSubtask={handleCreateSubtask}
+                        onArchive={handleArchive}
+                        onCompareSubtasks={handleCompareSubtasks}
+                        onToggleSelect={(session, modifiers) =>
+                          selection.select(session.id, modifiers)
+                        }
+                        isSelected={selection.isSelected}
+                        selectionMode={isSelecting}
+                      />
+                    ))}
+                    {hasNextPage && (
+                      <div
+                        ref={loadMoreRef}
+                        className="flex items-center justify-center py-4"
+                      >
+                        {isFetchingNextPage && (
+                          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+                        )}
+                      </div>
+                    )}
+                  </>
                 ) : (
                   <div className="text-center py-8 text-gray-500 text-sm">
                     {filters.length === 0
@@ -461,6 +734,7 @@ function AppLayout() {
           </>
         ) : (
           <div className="flex-1 flex flex-col items-center pt-4 gap-3">
+            <NotificationBell />
             <Button
               size="sm"
               variant="ghost"
@@ -507,6 +781,7 @@ function AppLayout() {
         {isCreatingTask ? (
           <CreateTaskForm
             onSubmit={handleCreateTask}
+            onQueue={subtaskQueue ? handleQueueSubtask : undefined}
             onCancel={handleCancelCreate}
             parentSession={parentForNewTask}
             repositories={sortedRepositories}
@@ -534,6 +809,23 @@ function AppLayout() {
         )}
       </div>
 
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        sessions={sessions}
+        currentSession={selectedSession}
+        filters={filterOptions.map((option) => ({
+          ...option,
+          isActive: filters.includes(option.value as FilterType),
+        }))}
+        onSelectSession={(session) => navigate(`/session/${session.id}`)}
+        onCreateTask={handleNewTask}
+        onCreateSubtask={handleCreateSubtask}
+        onToggleFilter={handleToggleFilter}
+        onArchive={handleArchive}
+        onUnarchive={(sessionId) => unarchiveSessionMutation.mutate(sessionId)}
+      />
+
       {/* Archive Session Dialog */}
       <ArchiveSessionDialog
         open={archiveDialogOpen}
@@ -552,6 +844,9 @@ export default function App() {
     <Routes>
       <Route path="/" element={<AppLayout />} />
       <Route path="/session/:id" element={<AppLayout />} />
+      <Route path="/compare" element={<SessionComparison />} />
+      <Route path="/usage" element={<UsageDashboard />} />
+      <Route path="/archive" element={<ArchivedSessions />} />
     </Routes>
   );
 
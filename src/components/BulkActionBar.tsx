@@ -0,0 +1,264 @@
+import { useState } from 'react';
+import {
+  Archive,
+  ArchiveRestore,
+  MessageSquarePlus,
+  Pencil,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { Session } from '../types/session';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Progress } from './ui/progress';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import {
+  BulkAction,
+  BulkOperationState,
+} from '../hooks/useBulkSessionOperation';
+import { applyTitlePattern } from '@/utils/bulkOperations';
+
+const progressLabels: Record<BulkAction['type'], string> = {
+  archive: 'Archiving',
+  unarchive: 'Unarchiving',
+  delete: 'Deleting',
+  retitle: 'Renaming',
+  prompt: 'Sending prompt',
+};
+
+interface BulkActionBarProps {
+  selectedSessions: Session[];
+  totalCount: number;
+  operation: BulkOperationState | null;
+  onRun: (action: BulkAction) => void;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onDismissOperation: () => void;
+}
+
+/**
+ * Actions for the sessions selected in the sidebar, with the progress and
+ * failures of the last bulk operation.
+ */
+export function BulkActionBar({
+  selectedSessions,
+  totalCount,
+  operation,
+  onRun,
+  onSelectAll,
+  onClear,
+  onDismissOperation,
+}: BulkActionBarProps) {
+  const [editor, setEditor] = useState<'retitle' | 'prompt' | null>(null);
+  const [pattern, setPattern] = useState('{title}');
+  const [followUp, setFollowUp] = useState('');
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const count = selectedSessions.length;
+  const isRunning = !!operation?.isRunning;
+  const disabled = count === 0 || isRunning;
+
+  const run = (action: BulkAction) => {
+    setEditor(null);
+    onRun(action);
+  };
+
+  return (
+    <div className="border-b p-3 space-y-2 bg-gray-50 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="font-medium">{count} selected</span>
+        {count < totalCount && (
+          <button
+            type="button"
+            className="text-blue-600 hover:underline"
+            onClick={onSelectAll}
+          >
+            Select all {totalCount}
+          </button>
+        )}
+        <div className="flex-1" />
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={onClear}
+          title="Exit selection"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 px-2 text-xs"
+          disabled={disabled}
+          onClick={() => run({ type: 'archive' })}
+        >
+          <Archive className="w-3 h-3 mr-1" />
+          Archive
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 px-2 text-xs"
+          disabled={disabled}
+          onClick={() => run({ type: 'unarchive' })}
+        >
+          <ArchiveRestore className="w-3 h-3 mr-1" />
+          Unarchive
+        </Button>
+        <Button
+          size="sm"
+          variant={editor === 'retitle' ? 'secondary' : 'outline'}
+          className="h-6 px-2 text-xs"
+          disabled={disabled}
+          onClick={() => setEditor(editor === 'retitle' ? null : 'retitle')}
+        >
+          <Pencil className="w-3 h-3 mr-1" />
+          Rename
+        </Button>
+        <Button
+          size="sm"
+          variant={editor === 'prompt' ? 'secondary' : 'outline'}
+          className="h-6 px-2 text-xs"
+          disabled={disabled}
+          onClick={() => setEditor(editor === 'prompt' ? null : 'prompt')}
+        >
+          <MessageSquarePlus className="w-3 h-3 mr-1" />
+          Follow-up
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-6 px-2 text-xs text-red-600"
+          disabled={disabled}
+          onClick={() => setConfirmDelete(true)}
+        >
+          <Trash2 className="w-3 h-3 mr-1" />
+          Delete
+        </Button>
+      </div>
+
+      {editor === 'retitle' && (
+        <div className="space-y-1">
+          <div className="flex gap-1">
+            <Input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              aria-label="Title pattern"
+              className="h-7 text-xs"
+            />
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              disabled={disabled || !pattern.trim()}
+              onClick={() => run({ type: 'retitle', pattern })}
+            >
+              Apply
+            </Button>
+          </div>
+          <p className="text-muted-foreground">
+            Use {'{title}'}, {'{repo}'}, {'{branch}'} and {'{n}'}.
+            {count > 0 &&
+              ` First: "${applyTitlePattern(pattern, selectedSessions[0], 0)}"`}
+          </p>
+        </div>
+      )}
+
+      {editor === 'prompt' && (
+        <div className="space-y-1">
+          <Textarea
+            value={followUp}
+            onChange={(e) => setFollowUp(e.target.value)}
+            placeholder="Prompt to send to every selected task..."
+            aria-label="Follow-up prompt"
+            className="text-xs min-h-16"
+          />
+          <div className="flex justify-end">
+            <Button
+              size="sm"
+              className="h-7 text-xs"
+              disabled={disabled || !followUp.trim()}
+              onClick={() => {
+                run({ type: 'prompt', content: followUp.trim() });
+                setFollowUp('');
+              }}
+            >
+              Send to {count}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {operation?.isRunning && (
+        <div className="space-y-1">
+          <p>
+            {progressLabels[operation.action]} {operation.completed}/
+            {operation.total}
+          </p>
+          <Progress
+            value={(operation.completed / Math.max(operation.total, 1)) * 100}
+          />
+        </div>
+      )}
+
+      {operation && !operation.isRunning && operation.failed.length > 0 && (
+        <div className="border border-red-200 rounded p-2 text-red-700 space-y-1">
+          <div className="flex items-center justify-between">
+            <span>
+              Failed for {operation.failed.length} of {operation.total}{' '}
+              sessions:
+            </span>
+            <button
+              type="button"
+              className="hover:underline"
+              onClick={onDismissOperation}
+            >
+              Dismiss
+            </button>
+          </div>
+          <ul className="font-mono space-y-0.5">
+            {operation.failed.map((failure) => (
+              <li key={failure.id} title={failure.error}>
+                {failure.id}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {count} tasks</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the selected tasks and their
+              conversations. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => run({ type: 'delete' })}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
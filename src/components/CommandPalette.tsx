@@ -0,0 +1,177 @@
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  GitPullRequest,
+  KeyRound,
+  ListPlus,
+  MessageSquare,
+  Plus,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Session } from '../types/session';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from './ui/command';
+import { getGitHubCompareUrl } from '@/utils/stringUtils';
+
+export interface CommandPaletteFilter {
+  label: string;
+  value: string;
+  isActive: boolean;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessions: Session[];
+  currentSession: Session | null;
+  filters: CommandPaletteFilter[];
+  onSelectSession: (session: Session) => void;
+  onCreateTask: () => void;
+  onCreateSubtask: (parentId: string) => void;
+  onToggleFilter: (value: string) => void;
+  onArchive: (sessionId: string) => void;
+  onUnarchive: (sessionId: string) => void;
+}
+
+const isArchived = (session: Session) =>
+  session.sessionStatus === 'Archived' || session.uiStatus === 'Archived';
+
+/**
+ * Global Cmd+K palette: jump to a session by title, run actions on the
+ * current session and toggle the sidebar filters.
+ */
+export function CommandPalette({
+  open,
+  onOpenChange,
+  sessions,
+  currentSession,
+  filters,
+  onSelectSession,
+  onCreateTask,
+  onCreateSubtask,
+  onToggleFilter,
+  onArchive,
+  onUnarchive,
+}: CommandPaletteProps) {
+  // Close the palette before running the command
+  const run = (command: () => void) => () => {
+    onOpenChange(false);
+    command();
+  };
+
+  const copyBorrowToken = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(token);
+      toast.success('Borrow token copied');
+    } catch (err) {
+      console.error('Failed to copy borrow token:', err);
+      toast.error('Failed to copy borrow token');
+    }
+  };
+
+  const borrowToken: string | undefined =
+    currentSession?.sbxConfig?.borrow_token;
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Command Palette"
+      description="Jump to a session or run a command"
+    >
+      <CommandInput placeholder="Type a command or search sessions..." />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        <CommandGroup heading="Actions">
+          <CommandItem onSelect={run(onCreateTask)}>
+            <Plus />
+            Create task
+          </CommandItem>
+          {currentSession && (
+            <>
+              <CommandItem
+                onSelect={run(() => onCreateSubtask(currentSession.id))}
+              >
+                <ListPlus />
+                Create subtask of current session
+              </CommandItem>
+              {isArchived(currentSession) ? (
+                <CommandItem
+                  onSelect={run(() => onUnarchive(currentSession.id))}
+                >
+                  <ArchiveRestore />
+                  Unarchive current session
+                </CommandItem>
+              ) : (
+                <CommandItem onSelect={run(() => onArchive(currentSession.id))}>
+                  <Archive />
+                  Archive current session
+                </CommandItem>
+              )}
+              {borrowToken && (
+                <CommandItem
+                  onSelect={run(() => void copyBorrowToken(borrowToken))}
+                >
+                  <KeyRound />
+                  Copy borrow token
+                </CommandItem>
+              )}
+              <CommandItem
+                onSelect={run(() =>
+                  window.open(getGitHubCompareUrl(currentSession), '_blank')
+                )}
+              >
+                <GitPullRequest />
+                Open GitHub compare view
+              </CommandItem>
+            </>
+          )}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Filters">
+          {filters.map((filter) => (
+            <CommandItem
+              key={filter.value}
+              value={`filter ${filter.label}`}
+              onSelect={() => onToggleFilter(filter.value)}
+            >
+              <Check className={filter.isActive ? undefined : 'invisible'} />
+              {filter.isActive ? 'Hide' : 'Show'} {filter.label}
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Sessions">
+          {sessions.map((session) => (
+            <CommandItem
+              key={session.id}
+              value={`${session.title} ${session.id}`}
+              keywords={[session.repo, session.branch]}
+              onSelect={run(() => onSelectSession(session))}
+            >
+              <MessageSquare />
+              <span className="truncate">{session.title}</span>
+              <CommandShortcut className="tracking-normal truncate max-w-40">
+                {session.repo}
+              </CommandShortcut>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -1,25 +1,41 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { z } from 'zod';
 import { Label } from './ui/label';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
 import { Session } from '../types/session';
 import { CreateSessionData } from '../services/api/types';
+import { SUBTASK_START_STATUSES } from '../services/subtasks';
 import { RepositoryCombobox } from './RepositoryCombobox';
 import { BranchCombobox } from './BranchCombobox';
 import { MonacoEditor } from './MonacoEditor';
+import { PromptTemplatePanel } from './templates/PromptTemplatePanel';
+import { TemplateVariablesForm } from './templates/TemplateVariablesForm';
 import { useGitHubBranches } from '../hooks';
-import { X, Loader2 } from 'lucide-react';
+import { fillTemplate, getTemplateVariables } from '@/utils/promptTemplates';
+import { X, Loader2, BookText } from 'lucide-react';
 
 // Zod schema for form validation
 const createTaskFormSchema = z.object({
   repo: z.string().trim().min(1, 'Repository is required'),
   targetBranch: z.string().trim().min(1, 'Target branch is required'),
   prompt: z.string().trim().min(1, 'Prompt is required'),
+  /**
+   * Variables of the applied template still left in the prompt
+   */
+  templateVariables: z
+    .array(z.string())
+    .max(0, 'Fill in the template variables before creating the task'),
 });
 
 interface CreateTaskFormProps {
   onSubmit: (task: CreateSessionData) => void;
+  /**
+   * Queues a subtask to start once the parent session needs review. Without
+   * it subtasks always start right away.
+   */
+  onQueue?: (task: CreateSessionData) => void;
   onCancel: () => void;
   parentSession?: Session | null;
   repositories: string[];
@@ -31,6 +47,7 @@ type CreateTaskFormData = z.infer<typeof createTaskFormSchema>;
 
 export function CreateTaskForm({
   onSubmit,
+  onQueue,
   onCancel,
   parentSession,
   repositories,
@@ -39,10 +56,33 @@ export function CreateTaskForm({
   const [repo, setRepo] = useState(parentSession?.repo || '');
   const [targetBranch, setTargetBranch] = useState(parentSession?.branch || '');
   const [prompt, setPrompt] = useState('');
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [startAfterParent, setStartAfterParent] = useState(false);
+  // A parent that already needs review would start the subtask right away
+  const canQueue =
+    !!onQueue &&
+    !!parentSession &&
+    !SUBTASK_START_STATUSES.includes(parentSession.uiStatus);
+  const isQueueing = canQueue && startAfterParent;
   const [errors, setErrors] = useState<
     Partial<Record<keyof CreateTaskFormData, string>>
   >({});
 
+  // Variables of the last applied template. Other {{...}} in the prompt
+  // (GitHub Actions expressions, Jinja, ...) are left alone.
+  const [appliedTemplateVariables, setAppliedTemplateVariables] = useState<
+    string[]
+  >([]);
+
+  // Placeholders left from a template, filled in through a small form
+  const templateVariables = useMemo(
+    () =>
+      getTemplateVariables(prompt).filter((name) =>
+        appliedTemplateVariables.includes(name)
+      ),
+    [prompt, appliedTemplateVariables]
+  );
+
   // Fetch branches from GitHub API based on selected repository
   const {
     branches,
@@ -91,6 +131,7 @@ export function CreateTaskForm({
       repo,
       targetBranch,
       prompt,
+      templateVariables,
     });
 
     if (!result.success) {
@@ -99,7 +140,10 @@ export function CreateTaskForm({
 
       // Zod errors are in the 'issues' property
       result.error.issues.forEach((issue) => {
-        const field = issue.path[0] as keyof CreateTaskFormData;
+        const field =
+          issue.path[0] === 'templateVariables'
+            ? 'prompt'
+            : (issue.path[0] as keyof CreateTaskFormData);
         if (field && !fieldErrors[field]) {
           fieldErrors[field] = issue.message;
         }
@@ -117,16 +161,22 @@ export function CreateTaskForm({
     const validatedData = result.data;
     console.log('[CreateTaskForm] Submitting with:', validatedData);
 
-    onSubmit({
+    const task: CreateSessionData = {
       repo: validatedData.repo,
       targetBranch: validatedData.targetBranch,
       messages: [{ content: validatedData.prompt }], // Send as array to match backend API
       parentId: parentSession?.id || null,
-    });
+    };
+    if (isQueueing && onQueue) {
+      onQueue(task);
+    } else {
+      onSubmit(task);
+    }
 
     setRepo('');
     setTargetBranch('main');
     setPrompt('');
+    setAppliedTemplateVariables([]);
   };
 
   return (
@@ -250,7 +300,41 @@ export function CreateTaskForm({
 
           {/* Monaco Editor for Prompt - fills remaining space */}
           <div className="flex-1 space-y-2 overflow-hidden">
-            <Label htmlFor="prompt">Prompt</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="prompt">Prompt</Label>
+              <Button
+                type="button"
+                variant={showTemplates ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-6 text-xs"
+                onClick={() => setShowTemplates((show) => !show)}
+              >
+                <BookText className="w-3 h-3 mr-1" />
+                Templates
+              </Button>
+            </div>
+            {showTemplates && (
+              <PromptTemplatePanel
+                prompt={prompt}
+                onSelect={(template) => {
+                  setPrompt(template.content);
+                  setAppliedTemplateVariables(
+                    getTemplateVariables(template.content)
+                  );
+                  setShowTemplates(false);
+                  setErrors((prev) => ({ ...prev, prompt: undefined }));
+                }}
+              />
+            )}
+            {templateVariables.length > 0 && (
+              <TemplateVariablesForm
+                variables={templateVariables}
+                onApply={(values) => {
+                  setPrompt(fillTemplate(prompt, values));
+                  setErrors((prev) => ({ ...prev, prompt: undefined }));
+                }}
+              />
+            )}
             <MonacoEditor
               value={prompt}
               onChange={(value) => {
@@ -270,6 +354,21 @@ export function CreateTaskForm({
         </div>
 
         <div className="border-t p-4 flex gap-2 justify-end">
+          {canQueue && (
+            <div className="mr-auto flex items-center gap-2">
+              <Checkbox
+                id="startAfterParent"
+                checked={startAfterParent}
+                onCheckedChange={(checked) =>
+                  setStartAfterParent(checked === true)
+                }
+                disabled={isSubmitting}
+              />
+              <Label htmlFor="startAfterParent" className="text-sm">
+                Start when parent needs review
+              </Label>
+            </div>
+          )}
           <Button
             type="button"
             variant="outline"
@@ -287,6 +386,8 @@ export function CreateTaskForm({
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                 Creating...
               </>
+            ) : isQueueing ? (
+              'Queue Subtask'
             ) : (
               'Create Task'
             )}
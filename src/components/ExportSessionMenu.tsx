@@ -0,0 +1,69 @@
+import { Download, FileJson, FileText } from 'lucide-react';
+import { Session } from '../types/session';
+import { ConversationItem } from '../hooks/useMessages';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import {
+  createSessionBundle,
+  getExportFileName,
+  serializeSessionBundle,
+  sessionToMarkdown,
+} from '@/utils/sessionExport';
+import { downloadFile } from '@/utils/download';
+
+interface ExportSessionMenuProps {
+  session: Session;
+  conversation: ConversationItem[];
+  disabled?: boolean;
+}
+
+/**
+ * Downloads a session as a Markdown transcript or as a JSON bundle that can
+ * be opened in the transcript viewer.
+ */
+export function ExportSessionMenu({
+  session,
+  conversation,
+  disabled = false,
+}: ExportSessionMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          onSelect={() =>
+            downloadFile(
+              getExportFileName(session, 'md'),
+              sessionToMarkdown(session, conversation),
+              'text/markdown'
+            )
+          }
+        >
+          <FileText className="w-4 h-4" />
+          Markdown transcript
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() =>
+            downloadFile(
+              getExportFileName(session, 'json'),
+              serializeSessionBundle(createSessionBundle(session, conversation))
+            )
+          }
+        >
+          <FileJson className="w-4 h-4" />
+          JSON bundle
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,315 @@
+import { useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  GitBranch,
+  Loader2,
+} from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from './ui/collapsible';
+import { useSession } from '../hooks/useSessions';
+import { useSessionConversation } from '../hooks/useMessages';
+import { FileEdits, summarizeConversation } from '@/utils/sessionComparison';
+import { truncateBranchName } from '@/utils/stringUtils';
+
+/**
+ * Parses the comma-separated `ids` search param, dropping blanks and
+ * duplicates.
+ */
+export function parseCompareIds(value: string | null): string[] {
+  if (!value) return [];
+  return Array.from(
+    new Set(
+      value
+        .split(',')
+        .map((id) => id.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+/**
+ * Builds the URL of the comparison view for the given sessions.
+ */
+export function getCompareUrl(sessionIds: string[]) {
+  return `/compare?ids=${sessionIds.map(encodeURIComponent).join(',')}`;
+}
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+function FileEditsList({ file }: { file: FileEdits }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const fileName = file.path.split('/').pop() || file.path;
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <button
+          className="w-full flex items-center gap-1 text-left text-xs hover:bg-gray-50 rounded px-1 py-0.5"
+          title={file.path}
+        >
+          {isOpen ? (
+            <ChevronDown className="w-3 h-3 flex-shrink-0" />
+          ) : (
+            <ChevronRight className="w-3 h-3 flex-shrink-0" />
+          )}
+          <span className="truncate flex-1 font-mono">{fileName}</span>
+          <span className="text-gray-500">
+            {file.edits.length} {file.edits.length === 1 ? 'edit' : 'edits'}
+          </span>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="space-y-2 py-2 pl-4">
+          <p className="text-xs text-gray-500 break-all">{file.path}</p>
+          {file.edits.map((edit, index) => (
+            <div
+              key={`${edit.messageId}-${index}`}
+              className="border rounded text-xs font-mono overflow-hidden"
+            >
+              <div className="px-2 py-1 bg-gray-50 text-gray-600 border-b">
+                {edit.command}
+              </div>
+              {edit.oldStr && (
+                <pre className="px-2 py-1 bg-red-50 text-red-800 whitespace-pre-wrap break-words">
+                  {edit.oldStr}
+                </pre>
+              )}
+              {edit.newStr && (
+                <pre className="px-2 py-1 bg-green-50 text-green-800 whitespace-pre-wrap break-words">
+                  {edit.newStr}
+                </pre>
+              )}
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+interface SessionComparisonColumnProps {
+  sessionId: string;
+}
+
+function SessionComparisonColumn({ sessionId }: SessionComparisonColumnProps) {
+  const navigate = useNavigate();
+  const { data: session, isLoading, isError } = useSession(sessionId);
+  const { conversation, isLoading: isLoadingConversation } =
+    useSessionConversation(sessionId);
+
+  const summary = useMemo(
+    () => summarizeConversation(conversation),
+    [conversation]
+  );
+  const toolCalls = Object.entries(summary.toolCallCounts).sort(
+    ([, a], [, b]) => b - a
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  if (isError || !session) {
+    return (
+      <div className="p-4 text-sm text-red-600">
+        Session {sessionId} could not be loaded
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4 p-4">
+      {/* Header */}
+      <div className="space-y-1">
+        <button
+          className="text-left text-sm font-medium hover:underline"
+          onClick={() => navigate(`/session/${session.id}`)}
+        >
+          {session.title}
+        </button>
+        <div className="flex items-center gap-1 text-xs text-gray-500">
+          <GitBranch className="w-3 h-3" />
+          <span className="truncate" title={session.branch}>
+            {truncateBranchName(session.branch)}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{session.uiStatus}</Badge>
+          {session.prUrl && (
+            <a
+              href={session.prUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-xs text-blue-600 hover:underline"
+            >
+              Pull request
+              <ExternalLink className="w-3 h-3" />
+            </a>
+          )}
+        </div>
+      </div>
+
+      {/* Diff stats */}
+      <section>
+        <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+          Changes
+        </h3>
+        {session.diffStats ? (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-green-600">
+              +{session.diffStats.additions}
+            </span>
+            <span className="text-red-600">-{session.diffStats.deletions}</span>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">No diff yet</p>
+        )}
+      </section>
+
+      {isLoadingConversation ? (
+        <div className="flex items-center gap-2 text-xs text-gray-500">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Loading conversation...
+        </div>
+      ) : (
+        <>
+          {/* Token usage */}
+          <section>
+            <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+              Token usage
+            </h3>
+            <dl className="grid grid-cols-2 gap-x-2 text-xs">
+              <dt className="text-gray-500">Input</dt>
+              <dd>{formatTokens(summary.tokenUsage.inputTokens)}</dd>
+              <dt className="text-gray-500">Output</dt>
+              <dd>{formatTokens(summary.tokenUsage.outputTokens)}</dd>
+              <dt className="text-gray-500">Cache read</dt>
+              <dd>{formatTokens(summary.tokenUsage.cacheReadInputTokens)}</dd>
+              <dt className="text-gray-500">Cache write</dt>
+              <dd>
+                {formatTokens(summary.tokenUsage.cacheCreationInputTokens)}
+              </dd>
+            </dl>
+          </section>
+
+          {/* Tool calls */}
+          <section>
+            <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+              Tool calls ({summary.totalToolCalls})
+            </h3>
+            {toolCalls.length > 0 ? (
+              <ul className="text-xs space-y-0.5">
+                {toolCalls.map(([toolName, count]) => (
+                  <li key={toolName} className="flex justify-between gap-2">
+                    <span className="truncate font-mono" title={toolName}>
+                      {toolName}
+                    </span>
+                    <span>{count}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No tool calls</p>
+            )}
+          </section>
+
+          {/* Edits per file */}
+          <section>
+            <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+              Edited files ({summary.fileEdits.length})
+            </h3>
+            {summary.fileEdits.length > 0 ? (
+              <div className="space-y-0.5">
+                {summary.fileEdits.map((file) => (
+                  <FileEditsList key={file.path} file={file} />
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No edits</p>
+            )}
+          </section>
+
+          {/* Final summary */}
+          <section>
+            <h3 className="text-xs font-semibold uppercase text-gray-500 mb-1">
+              Final summary
+            </h3>
+            {summary.finalSummary ? (
+              <div className="markdown-content prose prose-sm max-w-none break-words">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                  {summary.finalSummary}
+                </ReactMarkdown>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">No summary yet</p>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of sessions listed in the `ids` search param,
+ * e.g. `/compare?ids=a,b`. Used to pick between sibling subtasks that
+ * tried alternative approaches.
+ */
+export function SessionComparison() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const sessionIds = parseCompareIds(searchParams.get('ids'));
+
+  return (
+    <div className="flex flex-col h-screen bg-white">
+      <div className="flex items-center gap-2 border-b p-3 flex-shrink-0">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => navigate('/')}
+          title="Back to sessions"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <h2 className="text-sm font-medium">
+          Comparing {sessionIds.length} sessions
+        </h2>
+      </div>
+
+      {sessionIds.length < 2 ? (
+        <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+          Select at least two sessions to compare
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-auto">
+          <div
+            className="grid divide-x min-w-full"
+            style={{
+              gridTemplateColumns: `repeat(${sessionIds.length}, minmax(320px, 1fr))`,
+            }}
+          >
+            {sessionIds.map((sessionId) => (
+              <SessionComparisonColumn key={sessionId} sessionId={sessionId} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
   X,
   GitPullRequest,
   Container,
+  Files,
+  ChartGantt,
 } from 'lucide-react';
 import { useSessionConversation } from '../hooks/useMessages';
 import { AssistantRuntimeProvider } from '@assistant-ui/react';
@@ -15,18 +17,52 @@ import { Thread } from '@assistant-ui/react-ui';
 import { useAssistantRuntime } from '../hooks/useAssistantRuntime';
 import { MarkdownTextPrimitive } from '@assistant-ui/react-markdown';
 import { ToolFallback } from './ToolFallback';
-import { truncateBranchName } from '@/utils/stringUtils';
+import { ExportSessionMenu } from './ExportSessionMenu';
+import { SessionFilesPanel } from './SessionFilesPanel';
+import { SessionTimeline } from './SessionTimeline';
+import { collectSessionFiles } from '@/utils/sessionFiles';
+import {
+  findFirstUnseenMessageId,
+  getLatestMessageAt,
+} from '@/utils/sessionSeen';
+import { getGitHubCompareUrl, truncateBranchName } from '@/utils/stringUtils';
 import { useUpdateSession } from '../hooks/useSessionMutations';
+import { useMarkSessionSeen, useSeenCursors } from '../hooks/useSeenCursors';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  AnchoredAssistantMessage,
+  AnchoredReadOnlyUserMessage,
+  AnchoredUserMessage,
+  FirstUnseenMessageProvider,
+  MessageTarget,
+  MessageTargetProvider,
+} from './chat/MessageAnchors';
 import '@assistant-ui/react-ui/styles/index.css';
 
 interface SessionDetailProps {
   session: Session;
+  /**
+   * Hides the composer and disables title editing, e.g. when viewing an
+   * exported bundle
+   */
+  readOnly?: boolean;
+}
+
+const NoComposer = () => null;
+
+function highlightMessage(element: HTMLElement) {
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  element.classList.add('message-highlight');
+  setTimeout(() => element.classList.remove('message-highlight'), 2000);
 }
 
-export function SessionDetail({ session }: SessionDetailProps) {
+export function SessionDetail({
+  session,
+  readOnly = false,
+}: SessionDetailProps) {
   const { conversation, isLoading } = useSessionConversation(session.id);
   const runtime = useAssistantRuntime(
     session.id,
@@ -37,8 +73,20 @@ export function SessionDetail({ session }: SessionDetailProps) {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [titleValue, setTitleValue] = useState(session.title);
   const [copySuccess, setCopySuccess] = useState(false);
+  const [showFiles, setShowFiles] = useState(false);
+  const [showTimeline, setShowTimeline] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const threadRef = useRef<HTMLDivElement>(null);
+  const scrolledToMessageRef = useRef<string | null>(null);
   const updateSession = useUpdateSession();
+  const [searchParams] = useSearchParams();
+  const targetMessageId = searchParams.get('message');
+  const { data: seenCursors } = useSeenCursors();
+  const { mutate: markSessionSeen } = useMarkSessionSeen();
+  const [openedCursor, setOpenedCursor] = useState<{
+    sessionId: string;
+    seenAt?: number;
+  } | null>(null);
 
   // Reset title value when session changes
   useEffect(() => {
@@ -53,6 +101,82 @@ export function SessionDetail({ session }: SessionDetailProps) {
     }
   }, [isEditingTitle]);
 
+  // Scroll to the message linked from search results once it has rendered
+  const messageTarget = useMemo<MessageTarget | null>(
+    () =>
+      targetMessageId
+        ? {
+            messageId: targetMessageId,
+            onRendered: (element) => {
+              if (scrolledToMessageRef.current === targetMessageId) return;
+              scrolledToMessageRef.current = targetMessageId;
+              highlightMessage(element);
+            },
+          }
+        : null,
+    [targetMessageId]
+  );
+
+  const files = useMemo(
+    () => collectSessionFiles(conversation || []),
+    [conversation]
+  );
+
+  // Keep the cursor from when the session was opened, so the new messages
+  // divider stays put while the messages are marked seen
+  useEffect(() => {
+    if (readOnly || !seenCursors || openedCursor?.sessionId === session.id) {
+      return;
+    }
+    setOpenedCursor({ sessionId: session.id, seenAt: seenCursors[session.id] });
+  }, [readOnly, seenCursors, openedCursor, session.id]);
+
+  const latestMessageAt = useMemo(
+    () =>
+      getLatestMessageAt(
+        (conversation || []).flatMap((item) =>
+          item.type === 'prompt' ? item.messages : [item.data]
+        )
+      ),
+    [conversation]
+  );
+
+  // The session list compares the cursor with the session's update time, so
+  // an open session is seen up to whichever is newer
+  const updatedAt = session.updatedAt?.getTime();
+  useEffect(() => {
+    const seenAt = Math.max(
+      latestMessageAt ?? -Infinity,
+      updatedAt ?? -Infinity
+    );
+    if (readOnly || !seenCursors || seenAt === -Infinity) return;
+    if ((seenCursors[session.id] ?? -Infinity) >= seenAt) return;
+    markSessionSeen({ sessionId: session.id, seenAt });
+  }, [
+    readOnly,
+    seenCursors,
+    latestMessageAt,
+    updatedAt,
+    session.id,
+    markSessionSeen,
+  ]);
+
+  const firstUnseenMessageId = useMemo(
+    () =>
+      openedCursor?.sessionId === session.id &&
+      openedCursor.seenAt !== undefined
+        ? findFirstUnseenMessageId(conversation || [], openedCursor.seenAt)
+        : null,
+    [openedCursor, session.id, conversation]
+  );
+
+  const handleShowMessage = (messageId: string) => {
+    const element = threadRef.current?.querySelector<HTMLElement>(
+      `[data-message-ids~="${messageId}"]`
+    );
+    if (element) highlightMessage(element);
+  };
+
   const handleSaveTitle = () => {
     const trimmedTitle = titleValue.trim();
     if (trimmedTitle && trimmedTitle !== session.title) {
@@ -149,8 +273,12 @@ export function SessionDetail({ session }: SessionDetailProps) {
                 </div>
               ) : (
                 <h2
-                  className="flex-1 cursor-pointer hover:text-gray-600 transition-colors"
-                  onClick={() => setIsEditingTitle(true)}
+                  className={
+                    readOnly
+                      ? 'flex-1'
+                      : 'flex-1 cursor-pointer hover:text-gray-600 transition-colors'
+                  }
+                  onClick={() => !readOnly && setIsEditingTitle(true)}
                 >
                   {session.title}
                 </h2>
@@ -207,15 +335,38 @@ export function SessionDetail({ session }: SessionDetailProps) {
               variant="outline"
               size="sm"
               onClick={() =>
-                window.open(
-                  `https://github.com/${session.repo}/compare/${session.targetBranch}...${session.branch}`,
-                  '_blank'
-                )
+                window.open(getGitHubCompareUrl(session), '_blank')
               }
             >
               <GitPullRequest className="w-4 h-4 mr-2" />
               View Diff on Github
             </Button>
+            <Button
+              variant={showTimeline ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowTimeline(!showTimeline)}
+            >
+              <ChartGantt className="w-4 h-4 mr-2" />
+              Timeline
+            </Button>
+            <Button
+              variant={showFiles ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowFiles(!showFiles)}
+            >
+              <Files className="w-4 h-4 mr-2" />
+              Files
+              {files.length > 0 && (
+                <span className="ml-1 text-muted-foreground">
+                  {files.length}
+                </span>
+              )}
+            </Button>
+            <ExportSessionMenu
+              session={session}
+              conversation={conversation || []}
+              disabled={isLoading}
+            />
             {session.sbxConfig?.borrow_token && (
               <Badge
                 variant="outline"
@@ -241,32 +392,64 @@ export function SessionDetail({ session }: SessionDetailProps) {
         </div>
       </div>
 
-      {/* Chat Container */}
-      <div className="flex-1 min-h-0 overflow-auto">
-        <AssistantRuntimeProvider runtime={runtime}>
-          <Thread
-            assistantMessage={{
-              components: {
-                Text: MarkdownTextPrimitive,
-                ToolFallback: ToolFallback,
-              },
-            }}
+      {showTimeline && (
+        <div className="border-b flex-shrink-0 max-h-80 overflow-auto">
+          <SessionTimeline
+            conversation={conversation || []}
+            onShowMessage={handleShowMessage}
           />
-        </AssistantRuntimeProvider>
+        </div>
+      )}
 
-        {session.inboxStatus === 'completed' && session.diffStats && (
-          <div className="p-4 border-t">
-            <div className="bg-white border rounded-lg p-4 space-y-3">
-              <h3 className="text-sm font-medium">Changes</h3>
-              <div className="flex items-center gap-4">
-                <span className="text-sm text-green-600">
-                  +{session.diffStats.additions} additions
-                </span>
-                <span className="text-sm text-red-600">
-                  -{session.diffStats.deletions} deletions
-                </span>
+      <div className="flex flex-1 min-h-0">
+        {/* Chat Container */}
+        <div ref={threadRef} className="flex-1 min-w-0 overflow-auto">
+          <AssistantRuntimeProvider runtime={runtime}>
+            <MessageTargetProvider value={messageTarget}>
+              <FirstUnseenMessageProvider value={firstUnseenMessageId}>
+                <Thread
+                  components={{
+                    UserMessage: readOnly
+                      ? AnchoredReadOnlyUserMessage
+                      : AnchoredUserMessage,
+                    AssistantMessage: AnchoredAssistantMessage,
+                    Composer: readOnly ? NoComposer : undefined,
+                  }}
+                  assistantMessage={{
+                    components: {
+                      Text: MarkdownTextPrimitive,
+                      ToolFallback: ToolFallback,
+                    },
+                  }}
+                />
+              </FirstUnseenMessageProvider>
+            </MessageTargetProvider>
+          </AssistantRuntimeProvider>
+
+          {session.inboxStatus === 'completed' && session.diffStats && (
+            <div className="p-4 border-t">
+              <div className="bg-white border rounded-lg p-4 space-y-3">
+                <h3 className="text-sm font-medium">Changes</h3>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-green-600">
+                    +{session.diffStats.additions} additions
+                  </span>
+                  <span className="text-sm text-red-600">
+                    -{session.diffStats.deletions} deletions
+                  </span>
+                </div>
               </div>
             </div>
+          )}
+        </div>
+
+        {showFiles && (
+          <div className="w-80 flex-shrink-0 border-l">
+            <SessionFilesPanel
+              files={files}
+              onShowMessage={handleShowMessage}
+              onClose={() => setShowFiles(false)}
+            />
           </div>
         )}
       </div>
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  FileIcon,
+  FilePenLine,
+  FilePlus,
+  X,
+} from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { ToolDiffView } from './tools';
+import { SessionFile, SessionFileStatus } from '@/utils/sessionFiles';
+import { getLanguageFromPath } from '@/utils/languageDetection';
+
+const STATUS_ICONS: Record<SessionFileStatus, typeof FileIcon> = {
+  created: FilePlus,
+  modified: FilePenLine,
+  read: FileIcon,
+};
+
+const STATUS_CLASSES: Record<SessionFileStatus, string> = {
+  created: 'bg-green-50 text-green-700 border-green-300',
+  modified: 'bg-blue-50 text-blue-700 border-blue-300',
+  read: 'bg-gray-50 text-gray-700 border-gray-300',
+};
+
+interface SessionFilesPanelProps {
+  files: SessionFile[];
+  /**
+   * Brings the thread message with the given BackendMessage uuid into view
+   */
+  onShowMessage: (messageId: string) => void;
+  onClose: () => void;
+}
+
+function SessionFileRow({
+  file,
+  onShowMessage,
+}: {
+  file: SessionFile;
+  onShowMessage: (messageId: string) => void;
+}) {
+  const [showDiff, setShowDiff] = useState(false);
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const Icon = STATUS_ICONS[file.status];
+
+  // Each click moves on to the next edit, or the next read of read-only files
+  const edits = file.operations.filter(
+    (operation) => file.status === 'read' || operation.kind !== 'read'
+  );
+  const messageIds = edits
+    .map((operation) => operation.messageId)
+    .filter((id, index, ids) => ids.indexOf(id) === index);
+
+  const handleShow = () => {
+    const index = (currentIndex + 1) % messageIds.length;
+    onShowMessage(messageIds[index]);
+    setCurrentIndex(index);
+  };
+
+  const name = file.path.split('/').pop() || file.path;
+
+  return (
+    <li className="border-b last:border-b-0">
+      <div className="flex items-center gap-1 px-2 py-1.5">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 flex-shrink-0"
+          disabled={!file.diff}
+          onClick={() => setShowDiff(!showDiff)}
+          aria-label={showDiff ? 'Hide changes' : 'Show changes'}
+        >
+          {showDiff ? (
+            <ChevronDownIcon className="h-4 w-4" />
+          ) : (
+            <ChevronRightIcon className="h-4 w-4" />
+          )}
+        </Button>
+        <button
+          type="button"
+          className="flex min-w-0 flex-1 items-center gap-2 text-left text-sm hover:text-blue-600"
+          onClick={handleShow}
+          title={file.path}
+        >
+          <Icon className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">{name}</span>
+        </button>
+        {messageIds.length > 1 && (
+          <span className="text-xs text-muted-foreground">
+            {currentIndex < 0
+              ? `${messageIds.length}×`
+              : `${currentIndex + 1}/${messageIds.length}`}
+          </span>
+        )}
+        <Badge variant="outline" className={STATUS_CLASSES[file.status]}>
+          {file.status}
+        </Badge>
+      </div>
+      {showDiff && file.diff && (
+        <div className="px-2 pb-2">
+          <p className="mb-1 truncate text-xs text-muted-foreground">
+            {file.path}
+          </p>
+          <ToolDiffView
+            original={file.diff.original}
+            modified={file.diff.modified}
+            language={getLanguageFromPath(file.path)}
+          />
+        </div>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Files the agent touched in a session, built from the tool calls in its
+ * conversation. Clicking a file steps through the messages that edited it.
+ */
+export function SessionFilesPanel({
+  files,
+  onShowMessage,
+  onClose,
+}: SessionFilesPanelProps) {
+  const counts = files.reduce(
+    (acc, file) => ({ ...acc, [file.status]: acc[file.status] + 1 }),
+    { created: 0, modified: 0, read: 0 }
+  );
+
+  return (
+    <aside className="flex h-full flex-col" aria-label="Files changed">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <div>
+          <h3 className="text-sm font-medium">Files</h3>
+          <p className="text-xs text-muted-foreground">
+            {counts.created} created · {counts.modified} modified ·{' '}
+            {counts.read} read
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onClose}
+          aria-label="Close files panel"
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {files.length === 0 ? (
+        <p className="p-3 text-sm text-muted-foreground">
+          No files touched yet
+        </p>
+      ) : (
+        <ul className="flex-1 overflow-auto">
+          {files.map((file) => (
+            <SessionFileRow
+              key={file.path}
+              file={file}
+              onShowMessage={onShowMessage}
+            />
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
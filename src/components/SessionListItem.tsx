@@ -6,8 +6,39 @@ import {
   CollapsibleContent as _CollapsibleContent,
   CollapsibleTrigger,
 } from './ui/collapsible';
-import { ChevronRight, ChevronDown, Plus, Archive } from 'lucide-react';
+import {
+  ChevronRight,
+  ChevronDown,
+  Plus,
+  Archive,
+  Columns2,
+  Hourglass,
+  Loader2,
+  RotateCcw,
+  TriangleAlert,
+  X,
+} from 'lucide-react';
 import { useState } from 'react';
+import { Checkbox } from './ui/checkbox';
+import { SelectionModifiers } from '../hooks/useSessionSelection';
+import { useHasUnseenMessages } from '../hooks/useSeenCursors';
+import { useQueuedSubtasks } from '../hooks/useQueuedSubtasks';
+import { useSubtaskQueue } from '../providers/SubtaskQueueProvider';
+import { QueuedSubtask } from '../services/subtasks';
+
+const queuedSubtaskLabels: Record<QueuedSubtask['status'], string> = {
+  waiting: 'Starts when this session needs review',
+  starting: 'Starting subtask…',
+  failed: 'Subtask failed to start',
+};
+
+const queuedSubtaskIcons: Record<QueuedSubtask['status'], React.ReactNode> = {
+  waiting: <Hourglass className="w-3 h-3 flex-shrink-0 text-amber-600" />,
+  starting: (
+    <Loader2 className="w-3 h-3 flex-shrink-0 animate-spin text-gray-500" />
+  ),
+  failed: <TriangleAlert className="w-3 h-3 flex-shrink-0 text-red-600" />,
+};
 
 interface SessionListItemProps {
   session: Session;
@@ -15,6 +46,14 @@ interface SessionListItemProps {
   onSelect: (session: Session) => void;
   onCreateSubtask: (parentId: string) => void;
   onArchive: (sessionId: string) => void;
+  onCompareSubtasks?: (session: Session) => void;
+  /**
+   * Multi-select: shift/cmd/ctrl-click toggles selection instead of opening
+   * the session, as does any click while in selection mode
+   */
+  onToggleSelect?: (session: Session, modifiers: SelectionModifiers) => void;
+  isSelected?: (sessionId: string) => boolean;
+  selectionMode?: boolean;
   level?: number;
 }
 
@@ -24,10 +63,20 @@ export function SessionListItem({
   onSelect,
   onCreateSubtask,
   onArchive,
+  onCompareSubtasks,
+  onToggleSelect,
+  isSelected,
+  selectionMode = false,
   level = 0,
 }: SessionListItemProps) {
+  const selected = isSelected?.(session.id) ?? false;
+  const hasUnseenMessages = useHasUnseenMessages(session);
+  const subtaskQueue = useSubtaskQueue();
+  const queuedSubtasks = useQueuedSubtasks(session.id);
   const [isOpen, setIsOpen] = useState(true);
   const hasChildren = session.children && session.children.length > 0;
+  const canCompareSubtasks =
+    !!onCompareSubtasks && (session.children?.length ?? 0) >= 2;
 
   // Disabled for now - status colors not currently displayed
   // const getStatusColor = (status: Session['inboxStatus']) => {
@@ -49,7 +98,7 @@ export function SessionListItem({
     <div>
       <div
         className={`group relative flex items-start gap-2 p-3 cursor-pointer hover:bg-gray-50 transition-colors ${
-          isActive ? 'bg-gray-100' : ''
+          selected ? 'bg-blue-50' : isActive ? 'bg-gray-100' : ''
         }`}
         style={{ paddingLeft: `${12 + level * 24}px` }}
       >
@@ -70,10 +119,50 @@ export function SessionListItem({
           </Collapsible>
         )}
 
-        <div className="flex-1 min-w-0" onClick={() => onSelect(session)}>
+        {selectionMode && onToggleSelect && (
+          <Checkbox
+            checked={selected}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleSelect(session, e);
+            }}
+            className="mt-0.5"
+            aria-label={`Select ${session.title}`}
+          />
+        )}
+
+        <div
+          className="flex-1 min-w-0"
+          onClick={(e) => {
+            if (
+              onToggleSelect &&
+              (selectionMode || e.shiftKey || e.metaKey || e.ctrlKey)
+            ) {
+              e.preventDefault();
+              onToggleSelect(session, e);
+              return;
+            }
+            onSelect(session);
+          }}
+        >
           <div className="flex items-start justify-between gap-2">
             <div className="flex-1 min-w-0">
-              <h3 className="text-sm truncate">{session.title}</h3>
+              <div className="flex items-center gap-1.5">
+                {hasUnseenMessages && (
+                  <span
+                    className="w-2 h-2 flex-shrink-0 rounded-full bg-blue-500"
+                    role="status"
+                    aria-label="New messages"
+                  />
+                )}
+                <h3
+                  className={`text-sm truncate ${
+                    hasUnseenMessages ? 'font-semibold' : ''
+                  }`}
+                >
+                  {session.title}
+                </h3>
+              </div>
               <p className="text-xs truncate mt-0.5">
                 <a
                   href={`https://github.com/${session.repo}`}
@@ -121,6 +210,18 @@ export function SessionListItem({
           >
             <Plus className="w-3 h-3 text-gray-600" />
           </button>
+          {canCompareSubtasks && (
+            <button
+              className="flex-shrink-0 hover:bg-gray-200 rounded p-1"
+              onClick={(e) => {
+                e.stopPropagation();
+                onCompareSubtasks(session);
+              }}
+              title="Compare subtasks"
+            >
+              <Columns2 className="w-3 h-3 text-gray-600" />
+            </button>
+          )}
           <button
             className="flex-shrink-0 hover:bg-gray-200 rounded p-1"
             onClick={(e) => {
@@ -138,6 +239,38 @@ export function SessionListItem({
         </div>
       </div>
 
+      {queuedSubtasks.map((item) => (
+        <div
+          key={item.id}
+          className="flex items-center gap-2 py-1.5 pr-3 text-xs text-gray-600"
+          style={{ paddingLeft: `${12 + (level + 1) * 24}px` }}
+          title={item.lastError ?? item.data.messages?.[0]?.content}
+        >
+          {queuedSubtaskIcons[item.status]}
+          <span className="flex-1 min-w-0 truncate">
+            {queuedSubtaskLabels[item.status]}
+          </span>
+          {item.status === 'failed' && (
+            <button
+              className="flex-shrink-0 hover:bg-gray-200 rounded p-1"
+              onClick={() => subtaskQueue?.retry(item.id)}
+              title="Retry queued subtask"
+            >
+              <RotateCcw className="w-3 h-3 text-gray-600" />
+            </button>
+          )}
+          {item.status !== 'starting' && (
+            <button
+              className="flex-shrink-0 hover:bg-gray-200 rounded p-1"
+              onClick={() => subtaskQueue?.remove(item.id)}
+              title="Cancel queued subtask"
+            >
+              <X className="w-3 h-3 text-gray-600" />
+            </button>
+          )}
+        </div>
+      ))}
+
       {hasChildren && isOpen && (
         <div>
           {session.children!.map((child) => (
@@ -148,6 +281,10 @@ export function SessionListItem({
               onSelect={onSelect}
               onCreateSubtask={onCreateSubtask}
               onArchive={onArchive}
+              onCompareSubtasks={onCompareSubtasks}
+              onToggleSelect={onToggleSelect}
+              isSelected={isSelected}
+              selectionMode={selectionMode}
               level={level + 1}
             />
           ))}
@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Search, X, Loader2 } from 'lucide-react';
+import { Input } from './ui/input';
+import {
+  SearchMatchField,
+  SessionSearchResult,
+  getHighlightSegments,
+} from '../utils/sessionSearch';
+
+const fieldLabels: Record<SearchMatchField, string> = {
+  title: 'Title',
+  repo: 'Repository',
+  branch: 'Branch',
+  prompt: 'Prompt',
+  assistant: 'Agent',
+};
+
+interface SessionSearchInputProps {
+  onSearch: (query: string) => void;
+  onClear: () => void;
+}
+
+export function SessionSearchInput({
+  onSearch,
+  onClear,
+}: SessionSearchInputProps) {
+  const [value, setValue] = useState('');
+
+  const handleClear = () => {
+    setValue('');
+    onClear();
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-gray-400" />
+      <Input
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          onSearch(e.target.value);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') handleClear();
+        }}
+        placeholder="Search sessions, prompts, output..."
+        aria-label="Search sessions"
+        className="h-6 text-xs pl-7 pr-7"
+      />
+      {value && (
+        <button
+          className="absolute right-2 top-1/2 -translate-y-1/2 hover:bg-gray-200 rounded p-0.5"
+          onClick={handleClear}
+          title="Clear search"
+        >
+          <X className="w-3 h-3 text-gray-500" />
+        </button>
+      )}
+    </div>
+  );
+}
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  return (
+    <>
+      {getHighlightSegments(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+interface SessionSearchResultsProps {
+  query: string;
+  results: SessionSearchResult[];
+  isLoadingContent: boolean;
+  onSelect: (sessionId: string, messageId?: string) => void;
+}
+
+export function SessionSearchResults({
+  query,
+  results,
+  isLoadingContent,
+  onSelect,
+}: SessionSearchResultsProps) {
+  return (
+    <div>
+      {isLoadingContent && (
+        <div className="flex items-center gap-2 px-3 py-2 text-xs text-gray-500">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Searching conversations...
+        </div>
+      )}
+      {results.length === 0 && !isLoadingContent ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          No matches for &ldquo;{query}&rdquo;
+        </div>
+      ) : (
+        results.map(({ session, matches }) => (
+          <div key={session.id} className="border-b last:border-b-0">
+            <button
+              className="w-full text-left px-3 pt-3 pb-1 hover:bg-gray-50"
+              onClick={() => onSelect(session.id)}
+            >
+              <h3 className="text-sm truncate">
+                <HighlightedText text={session.title} query={query} />
+              </h3>
+              <p className="text-xs text-gray-500 truncate">
+                <HighlightedText text={session.repo} query={query} />
+              </p>
+              {matches.some((match) => match.field === 'branch') && (
+                <p className="text-xs text-gray-500 truncate">
+                  <HighlightedText text={session.branch} query={query} />
+                </p>
+              )}
+            </button>
+            <div className="pb-2">
+              {matches
+                .filter((match) => match.messageId)
+                .map((match, index) => (
+                  <button
+                    key={`${match.messageId}-${index}`}
+                    className="w-full text-left px-3 py-1 hover:bg-gray-50"
+                    onClick={() => onSelect(session.id, match.messageId)}
+                  >
+                    <span className="text-[10px] uppercase tracking-wide text-gray-400 mr-2">
+                      {fieldLabels[match.field]}
+                    </span>
+                    <span className="text-xs text-gray-700 break-words">
+                      <HighlightedText text={match.snippet} query={query} />
+                    </span>
+                  </button>
+                ))}
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
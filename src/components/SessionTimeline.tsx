@@ -0,0 +1,198 @@
+import { useMemo } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip } from './ui/chart';
+import { ConversationItem } from '../hooks/useMessages';
+import { buildSessionTimeline, formatDuration } from '@/utils/sessionTimeline';
+
+const chartConfig = {
+  prompt: { label: 'Prompt', color: 'var(--chart-1)' },
+  tool: { label: 'Tool call', color: 'var(--chart-2)' },
+  error: { label: 'Failed tool call', color: 'var(--destructive)' },
+  idle: { label: 'Idle', color: 'var(--muted-foreground)' },
+} satisfies ChartConfig;
+
+type RowKind = keyof typeof chartConfig;
+
+interface TimelineRow {
+  key: string;
+  label: string;
+  kind: RowKind;
+  /**
+   * Start and end, in milliseconds since the session's first prompt
+   */
+  range: [number, number];
+  detail?: string;
+  messageId?: string;
+}
+
+const ROW_HEIGHT = 22;
+
+function TimelineTooltip({ active, payload }: TooltipProps<number, string>) {
+  const row: TimelineRow | undefined = payload?.[0]?.payload;
+  if (!active || !row) return null;
+
+  return (
+    <div className="max-w-xs rounded-lg border bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <p className="font-medium">
+        {chartConfig[row.kind].label}: {row.label.trim()}
+      </p>
+      <p className="text-muted-foreground">
+        {formatDuration(row.range[1] - row.range[0])}
+      </p>
+      {row.detail && <p className="mt-1 line-clamp-3">{row.detail}</p>}
+    </div>
+  );
+}
+
+interface SessionTimelineProps {
+  conversation: ConversationItem[];
+  /**
+   * Brings the thread message with the given ID into view
+   */
+  onShowMessage?: (messageId: string) => void;
+}
+
+/**
+ * Gantt view of a session: each prompt from its creation to its result,
+ * the tool calls it made, and the pauses where nothing happened.
+ */
+export function SessionTimeline({
+  conversation,
+  onShowMessage,
+}: SessionTimelineProps) {
+  const timeline = useMemo(
+    () => buildSessionTimeline(conversation),
+    [conversation]
+  );
+
+  const rows = useMemo(() => {
+    if (!timeline) return [];
+    const offset = (at: number) => at - timeline.start;
+
+    return timeline.prompts.flatMap(
+      ({ prompt, start, end, toolCalls, idleGaps }, index): TimelineRow[] => [
+        {
+          key: prompt.id,
+          label: `Prompt ${index + 1}`,
+          kind: 'prompt',
+          range: [offset(start), offset(end)],
+          detail: prompt.content,
+          messageId: prompt.id,
+        },
+        ...toolCalls.map(
+          (toolCall): TimelineRow => ({
+            key: toolCall.toolCallId,
+            label: `  ${toolCall.toolName}`,
+            kind: toolCall.isError ? 'error' : 'tool',
+            range: [offset(toolCall.start), offset(toolCall.end)],
+            detail: toolCall.finished ? undefined : 'No result yet',
+            messageId: toolCall.messageId,
+          })
+        ),
+        ...idleGaps.map(
+          (gap, gapIndex): TimelineRow => ({
+            key: `${prompt.id}-idle-${gapIndex}`,
+            label: '  idle',
+            kind: 'idle',
+            range: [offset(gap.start), offset(gap.end)],
+          })
+        ),
+      ]
+    );
+  }, [timeline]);
+
+  if (!timeline) {
+    return <p className="p-4 text-sm text-gray-500">No prompts yet</p>;
+  }
+
+  const labels = new Map(rows.map((row) => [row.key, row.label]));
+
+  return (
+    <div className="space-y-3 p-4">
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+        {timeline.prompts.map(({ prompt, start, end, idleGaps }, index) => (
+          <li key={prompt.id}>
+            <span className="font-medium">Prompt {index + 1}</span>{' '}
+            {formatDuration(end - start)}
+            {idleGaps.length > 0 && (
+              <span className="text-gray-400">
+                {' '}
+                (
+                {formatDuration(
+                  idleGaps.reduce((sum, gap) => sum + gap.end - gap.start, 0)
+                )}{' '}
+                idle)
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      <ChartContainer
+        config={chartConfig}
+        className="aspect-auto w-full"
+        style={{ height: rows.length * ROW_HEIGHT + 40 }}
+      >
+        <BarChart data={rows} layout="vertical" barCategoryGap={3}>
+          <CartesianGrid horizontal={false} />
+          <XAxis
+            type="number"
+            domain={[0, timeline.end - timeline.start]}
+            tickFormatter={(value: number) => formatDuration(value)}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            type="category"
+            dataKey="key"
+            width={140}
+            interval={0}
+            tickFormatter={(key: string) => labels.get(key) ?? ''}
+            tickLine={false}
+            axisLine={false}
+            fontSize={11}
+          />
+          <ChartTooltip content={<TimelineTooltip />} />
+          {timeline.prompts.map(
+            ({ prompt, result }) =>
+              result && (
+                <ReferenceLine
+                  key={prompt.id}
+                  x={result.at - timeline.start}
+                  stroke="var(--color-prompt)"
+                  strokeDasharray="3 3"
+                  label={{ value: 'Result', position: 'top', fontSize: 10 }}
+                />
+              )
+          )}
+          <Bar
+            dataKey="range"
+            minPointSize={2}
+            radius={2}
+            onClick={(_, index) => {
+              const messageId = rows[index]?.messageId;
+              if (messageId) onShowMessage?.(messageId);
+            }}
+          >
+            {rows.map((row) => (
+              <Cell
+                key={row.key}
+                fill={`var(--color-${row.kind})`}
+                fillOpacity={row.kind === 'idle' ? 0.3 : 1}
+                cursor={row.messageId ? 'pointer' : undefined}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
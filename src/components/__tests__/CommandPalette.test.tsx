@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { CommandPalette } from '../CommandPalette';
+import { Session } from '@/types/session';
+
+const createSession = (id: string, title: string): Session => ({
+  id,
+  title,
+  repo: 'acme/web',
+  branch: `feature/${id}`,
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'completed',
+  uiStatus: 'NeedsReview',
+  sbxConfig: null,
+  parentId: null,
+  createdAt: new Date(2025, 0, 1),
+  sessionStatus: 'Active',
+});
+
+describe('CommandPalette', () => {
+  const sessions = [
+    createSession('session-1', 'Fix login redirect'),
+    createSession('session-2', 'Add billing page'),
+  ];
+  const props = {
+    open: true,
+    onOpenChange: vi.fn(),
+    sessions,
+    currentSession: null,
+    filters: [
+      { label: 'Pending', value: 'pending', isActive: false },
+      { label: 'Needs Review', value: 'needs-review', isActive: true },
+    ],
+    onSelectSession: vi.fn(),
+    onCreateTask: vi.fn(),
+    onCreateSubtask: vi.fn(),
+    onToggleFilter: vi.fn(),
+    onArchive: vi.fn(),
+    onUnarchive: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should jump to a session found by title from the keyboard', async () => {
+    const user = userEvent.setup();
+    render(<CommandPalette {...props} />);
+
+    await user.type(screen.getByRole('combobox'), 'billing');
+    expect(screen.queryByText('Fix login redirect')).not.toBeInTheDocument();
+    await user.keyboard('{Enter}');
+
+    expect(props.onSelectSession).toHaveBeenCalledWith(sessions[1]);
+    expect(props.onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should toggle filters', async () => {
+    const user = userEvent.setup();
+    render(<CommandPalette {...props} />);
+
+    await user.click(screen.getByText(/show pending/i));
+
+    expect(props.onToggleFilter).toHaveBeenCalledWith('pending');
+  });
+
+  it('should offer actions for the current session', async () => {
+    const user = userEvent.setup();
+    const archived = {
+      ...sessions[0],
+      uiStatus: 'Archived' as Session['uiStatus'],
+      sbxConfig: { borrow_token: 'token-123' },
+    };
+    render(<CommandPalette {...props} currentSession={archived} />);
+
+    expect(screen.getByText('Copy borrow token')).toBeInTheDocument();
+    expect(
+      screen.queryByText('Archive current session')
+    ).not.toBeInTheDocument();
+
+    await user.click(screen.getByText('Unarchive current session'));
+
+    expect(props.onUnarchive).toHaveBeenCalledWith('session-1');
+  });
+});
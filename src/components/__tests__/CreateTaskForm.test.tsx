@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { render } from '@/test/utils';
@@ -343,4 +343,172 @@ describe('CreateTaskForm', () => {
       expect(promptInput).toBeRequired();
     });
   });
+
+  describe('Prompt Templates', () => {
+    const parentSession: Session = {
+      id: 'parent-1',
+      title: 'Parent Task',
+      repo: 'test/repo-1',
+      branch: 'feature/parent',
+      targetBranch: 'main',
+      messages: null,
+      inboxStatus: 'pending',
+      sbxConfig: null,
+      parentId: null,
+      createdAt: new Date(),
+      uiStatus: 'NeedsReview',
+      sessionStatus: 'Active',
+    };
+
+    beforeEach(() => {
+      window.localStorage.setItem(
+        'promptTemplates',
+        JSON.stringify([
+          {
+            id: 'template-1',
+            name: 'Fix failing test',
+            content: 'Fix the failing test {{test}} in {{file}}',
+            updatedAt: 1,
+          },
+        ])
+      );
+    });
+
+    afterEach(() => {
+      window.localStorage.clear();
+    });
+
+    it('should fill the prompt from a template and its variables', async () => {
+      const user = userEvent.setup();
+      render(
+        <CreateTaskForm {...defaultProps} parentSession={parentSession} />
+      );
+
+      await user.click(screen.getByRole('button', { name: /templates/i }));
+      await user.click(await screen.findByText('Fix failing test'));
+
+      const promptInput = screen.getByLabelText(
+        /prompt/i
+      ) as HTMLTextAreaElement;
+      expect(promptInput.value).toBe(
+        'Fix the failing test {{test}} in {{file}}'
+      );
+
+      await user.type(screen.getByLabelText('test'), 'renders title');
+      await user.type(screen.getByLabelText('file'), 'App.test.tsx');
+      await user.click(
+        screen.getByRole('button', { name: /apply variables/i })
+      );
+
+      expect(promptInput.value).toBe(
+        'Fix the failing test renders title in App.test.tsx'
+      );
+
+      await user.click(screen.getByRole('button', { name: /create task/i }));
+
+      expect(defaultProps.onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: [
+            { content: 'Fix the failing test renders title in App.test.tsx' },
+          ],
+        })
+      );
+    });
+
+    it('should not submit while template variables are unfilled', async () => {
+      const user = userEvent.setup();
+      render(
+        <CreateTaskForm {...defaultProps} parentSession={parentSession} />
+      );
+
+      await user.click(screen.getByRole('button', { name: /templates/i }));
+      await user.click(await screen.findByText('Fix failing test'));
+      await user.click(screen.getByRole('button', { name: /create task/i }));
+
+      expect(
+        screen.getByText(/fill in the template variables before/i)
+      ).toBeInTheDocument();
+      expect(defaultProps.onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should submit prompts with {{...}} when no template was applied', async () => {
+      const user = userEvent.setup();
+      render(
+        <CreateTaskForm {...defaultProps} parentSession={parentSession} />
+      );
+
+      // `{{` types a literal `{` in user-event
+      await user.type(
+        screen.getByLabelText(/prompt/i),
+        'Use ${{{{ secrets.TOKEN }} in the workflow'
+      );
+
+      expect(
+        screen.queryByText(/fill in the template variables/i)
+      ).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /create task/i }));
+
+      expect(defaultProps.onSubmit).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: [{ content: 'Use ${{ secrets.TOKEN }} in the workflow' }],
+        })
+      );
+    });
+  });
+
+  describe('Queued subtasks', () => {
+    const parentSession: Session = {
+      id: 'parent-1',
+      title: 'Parent Task',
+      repo: 'test/repo-1',
+      branch: 'feature/parent',
+      targetBranch: 'main',
+      messages: null,
+      inboxStatus: 'in-progress',
+      uiStatus: 'InProgress',
+      sbxConfig: null,
+      parentId: null,
+      createdAt: new Date(),
+      sessionStatus: 'Active',
+    };
+
+    it('should queue the subtask until the parent needs review', async () => {
+      const user = userEvent.setup();
+      const onQueue = vi.fn();
+      render(
+        <CreateTaskForm
+          {...defaultProps}
+          onQueue={onQueue}
+          parentSession={parentSession}
+        />
+      );
+
+      await user.type(screen.getByLabelText(/prompt/i), 'Write the docs');
+      await user.click(screen.getByLabelText('Start when parent needs review'));
+      await user.click(screen.getByRole('button', { name: 'Queue Subtask' }));
+
+      expect(onQueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          parentId: 'parent-1',
+          messages: [{ content: 'Write the docs' }],
+        })
+      );
+      expect(defaultProps.onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should not offer queueing once the parent needs review', () => {
+      render(
+        <CreateTaskForm
+          {...defaultProps}
+          onQueue={vi.fn()}
+          parentSession={{ ...parentSession, uiStatus: 'NeedsReview' }}
+        />
+      );
+
+      expect(
+        screen.queryByLabelText('Start when parent needs review')
+      ).not.toBeInTheDocument();
+    });
+  });
 });
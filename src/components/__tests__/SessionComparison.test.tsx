@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import { render } from '@/test/utils';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import {
+  SessionComparison,
+  getCompareUrl,
+  parseCompareIds,
+} from '../SessionComparison';
+
+describe('SessionComparison', () => {
+  it('should parse and build compare URLs', () => {
+    expect(parseCompareIds('a, b,,a')).toEqual(['a', 'b']);
+    expect(parseCompareIds(null)).toEqual([]);
+    expect(getCompareUrl(['a', 'b'])).toBe('/compare?ids=a,b');
+  });
+
+  it('should render each session side by side', async () => {
+    const client = createMockBackendClient();
+    render(<SessionComparison />, {
+      client,
+      initialEntries: ['/compare?ids=test-session-2,test-session-3'],
+    });
+
+    expect(screen.getByText('Comparing 2 sessions')).toBeInTheDocument();
+    await waitFor(() => {
+      expect(screen.getByText('Test Session 2')).toBeInTheDocument();
+      expect(
+        screen.getByText('Test Session 3 (Completed)')
+      ).toBeInTheDocument();
+    });
+    expect(screen.getByText('+10')).toBeInTheDocument();
+    expect(screen.getByText('+25')).toBeInTheDocument();
+    expect(screen.getByText('Pull request')).toBeInTheDocument();
+  });
+
+  it('should ask for more sessions when fewer than two are given', () => {
+    render(<SessionComparison />, {
+      client: createMockBackendClient(),
+      initialEntries: ['/compare?ids=test-session-1'],
+    });
+
+    expect(
+      screen.getByText('Select at least two sessions to compare')
+    ).toBeInTheDocument();
+  });
+});
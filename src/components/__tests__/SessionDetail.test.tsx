@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { screen, waitFor } from '@testing-library/react';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
 import { render } from '@/test/utils';
 import { SessionDetail } from '../SessionDetail';
 import { Session, BackendMessage } from '@/types/session';
@@ -405,4 +405,291 @@ describe('SessionDetail', () => {
       });
     });
   });
+
+  describe('Message Links', () => {
+    it('should scroll to and highlight the message from the URL', async () => {
+      const mockClient = createMockClient();
+      const { container } = render(<SessionDetail session={baseSession} />, {
+        client: mockClient,
+        initialEntries: ['/session/test-session-1?message=msg-2'],
+      });
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('Sure, I can help you with that!')
+        ).toBeInTheDocument();
+      });
+
+      await waitFor(() => {
+        const target = container.querySelector('.message-highlight');
+        expect(target).not.toBeNull();
+        expect(target?.getAttribute('data-message-ids')).toContain('msg-2');
+      });
+      expect(HTMLElement.prototype.scrollIntoView).toHaveBeenCalled();
+    });
+  });
+
+  describe('Read-only', () => {
+    it('should hide the composer and not edit the title', async () => {
+      const mockClient = createMockClient();
+      render(<SessionDetail session={baseSession} readOnly />, {
+        client: mockClient,
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Hello, please help me')).toBeInTheDocument();
+      });
+      expect(screen.queryByPlaceholderText(/write a message/i)).toBeNull();
+
+      fireEvent.click(screen.getByText('Test Session'));
+      expect(screen.queryByDisplayValue('Test Session')).toBeNull();
+    });
+  });
+
+  describe('Files panel', () => {
+    it('should list touched files and scroll to their edits', async () => {
+      const mockClient = createMockClient([
+        ...mockBackendMessages,
+        {
+          type: 'assistant',
+          uuid: 'msg-3',
+          message: {
+            role: 'assistant',
+            content: [
+              {
+                type: 'tool_use',
+                id: 'tool-1',
+                name: 'mcp__sandbox__str_replace_editor',
+                input: {
+                  command: 'str_replace',
+                  path: '/repo/src/config.ts',
+                  old_str: 'debug: true',
+                  new_str: 'debug: false',
+                },
+              },
+            ],
+          },
+          session_id: 'test-session-1',
+          parent_tool_use_id: null,
+        },
+      ]);
+      const { container } = render(<SessionDetail session={baseSession} />, {
+        client: mockClient,
+      });
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('mcp__sandbox__str_replace_editor')
+        ).toBeInTheDocument();
+      });
+
+      fireEvent.click(screen.getByRole('button', { name: /Files/ }));
+      expect(
+        screen.getByText('0 created · 1 modified · 0 read')
+      ).toBeInTheDocument();
+
+      fireEvent.click(screen.getByTitle('/repo/src/config.ts'));
+      const target = container.querySelector('.message-highlight');
+      expect(target?.getAttribute('data-message-ids')).toContain('msg-3');
+      expect(HTMLElement.prototype.scrollIntoView).toHaveBeenCalled();
+    });
+  });
+
+  describe('Prompt actions', () => {
+    it('should retry a failed prompt', async () => {
+      const mockClient = createMockClient();
+      mockClient.prompts = {
+        list: vi.fn().mockResolvedValue([{ ...mockPrompt, status: 'failed' }]),
+        create: vi.fn(),
+        cancel: vi.fn(),
+        retry: vi.fn().mockResolvedValue({ ...mockPrompt, status: 'pending' }),
+      };
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      await waitFor(() => {
+        expect(screen.getByText('Prompt failed')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Retry' }));
+
+      await waitFor(() => {
+        expect(mockClient.prompts.retry).toHaveBeenCalledWith('prompt-1');
+      });
+    });
+
+    it('should cancel a running prompt', async () => {
+      const mockClient = createMockClient();
+      mockClient.prompts = {
+        list: vi
+          .fn()
+          .mockResolvedValue([{ ...mockPrompt, status: 'processing' }]),
+        create: vi.fn(),
+        cancel: vi.fn().mockResolvedValue({ ...mockPrompt, status: 'failed' }),
+        retry: vi.fn(),
+      };
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      await waitFor(() => {
+        expect(screen.getByText('Running…')).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      await waitFor(() => {
+        expect(mockClient.prompts.cancel).toHaveBeenCalledWith('prompt-1');
+      });
+    });
+
+    it('should send an edited failed prompt as a new prompt', async () => {
+      const mockClient = createMockClient();
+      mockClient.prompts = {
+        list: vi.fn().mockResolvedValue([{ ...mockPrompt, status: 'failed' }]),
+        create: vi.fn().mockResolvedValue({ ...mockPrompt, id: 'prompt-2' }),
+        cancel: vi.fn(),
+        retry: vi.fn(),
+      };
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      fireEvent.click(
+        await screen.findByRole('button', { name: 'Edit and resend' })
+      );
+      fireEvent.change(screen.getByLabelText('Edit prompt'), {
+        target: { value: 'Test prompt, but better' },
+      });
+      fireEvent.click(
+        screen.getByRole('button', { name: 'Send as new prompt' })
+      );
+
+      await waitFor(() => {
+        expect(mockClient.prompts.create).toHaveBeenCalledWith(
+          'test-session-1',
+          'Test prompt, but better'
+        );
+      });
+    });
+
+    it('should only offer to resend failed prompts', async () => {
+      const mockClient = createMockClient();
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      await waitFor(() => {
+        expect(screen.getByText('Test prompt')).toBeInTheDocument();
+      });
+      expect(
+        screen.queryByRole('button', { name: 'Edit and resend' })
+      ).toBeNull();
+    });
+
+    it('should not offer prompt actions when read-only', async () => {
+      const mockClient = createMockClient();
+      mockClient.prompts.list = vi
+        .fn()
+        .mockResolvedValue([{ ...mockPrompt, status: 'failed' }]);
+      render(<SessionDetail session={baseSession} readOnly />, {
+        client: mockClient,
+      });
+
+      await waitFor(() => {
+        expect(screen.getByText('Test prompt')).toBeInTheDocument();
+      });
+      expect(
+        screen.queryByRole('button', { name: 'Edit and resend' })
+      ).toBeNull();
+      expect(screen.queryByRole('button', { name: 'Retry' })).toBeNull();
+    });
+  });
+
+  describe('Timeline', () => {
+    it('should show how long each prompt took', async () => {
+      const mockClient = createMockClient([
+        { ...mockBackendMessages[0], created_at: '2025-01-01T09:00:10Z' },
+        { ...mockBackendMessages[1], created_at: '2025-01-01T09:00:42Z' },
+      ]);
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('Sure, I can help you with that!')
+        ).toBeInTheDocument();
+      });
+      fireEvent.click(screen.getByRole('button', { name: /Timeline/ }));
+
+      expect(screen.getByText('Prompt 1')).toBeInTheDocument();
+      expect(screen.getByText('42s')).toBeInTheDocument();
+    });
+  });
+
+  describe('Seen tracking', () => {
+    const timedMessages = [
+      { ...mockBackendMessages[0], created_at: '2025-01-01T09:00:10Z' },
+      { ...mockBackendMessages[1], created_at: '2025-01-01T09:00:42Z' },
+    ];
+
+    it('should mark where new messages start and move the cursor', async () => {
+      const seenAt = new Date('2025-01-01T09:00:20Z').getTime();
+      const mockClient: BackendClient = {
+        ...createMockClient(timedMessages),
+        seen: {
+          list: vi.fn().mockResolvedValue({ [baseSession.id]: seenAt }),
+          markSeen: vi.fn().mockResolvedValue(undefined),
+        },
+      };
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      const divider = await screen.findByRole('separator', {
+        name: 'New messages',
+      });
+      expect(
+        divider.closest('[data-message-ids]')?.getAttribute('data-message-ids')
+      ).toContain('msg-2');
+
+      await waitFor(() => {
+        expect(mockClient.seen!.markSeen).toHaveBeenCalledWith(
+          baseSession.id,
+          new Date('2025-01-01T09:00:42Z').getTime()
+        );
+      });
+      // The divider stays where it was when the session was opened
+      expect(
+        screen.getByRole('separator', { name: 'New messages' })
+      ).toBeInTheDocument();
+    });
+
+    it('should move the cursor past a session update newer than its messages', async () => {
+      const updatedAt = new Date('2025-01-01T09:05:00Z');
+      const mockClient: BackendClient = {
+        ...createMockClient(timedMessages),
+        seen: {
+          list: vi.fn().mockResolvedValue({}),
+          markSeen: vi.fn().mockResolvedValue(undefined),
+        },
+      };
+      render(<SessionDetail session={{ ...baseSession, updatedAt }} />, {
+        client: mockClient,
+      });
+
+      await waitFor(() => {
+        expect(mockClient.seen!.markSeen).toHaveBeenCalledWith(
+          baseSession.id,
+          updatedAt.getTime()
+        );
+      });
+    });
+
+    it('should not mark new messages in sessions opened for the first time', async () => {
+      const mockClient: BackendClient = {
+        ...createMockClient(timedMessages),
+        seen: {
+          list: vi.fn().mockResolvedValue({}),
+          markSeen: vi.fn().mockResolvedValue(undefined),
+        },
+      };
+      render(<SessionDetail session={baseSession} />, { client: mockClient });
+
+      await waitFor(() => {
+        expect(mockClient.seen!.markSeen).toHaveBeenCalled();
+      });
+      expect(
+        screen.queryByRole('separator', { name: 'New messages' })
+      ).not.toBeInTheDocument();
+    });
+  });
 });
@@ -0,0 +1,198 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ComponentType } from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { ToolFallback } from '../ToolFallback';
+import { toolRenderers } from '../tools';
+
+vi.mock('@monaco-editor/react', () => ({
+  default: ({ value }: { value: string }) => <pre>{value}</pre>,
+  DiffEditor: ({
+    original,
+    modified,
+  }: {
+    original: string;
+    modified: string;
+  }) => <pre>{`${original} => ${modified}`}</pre>,
+}));
+
+const renderTool = (
+  toolName: string,
+  argsText: string,
+  result?: unknown,
+  {
+    isError = false,
+    expand = true,
+    artifact,
+  }: { isError?: boolean; expand?: boolean; artifact?: unknown } = {}
+) => {
+  // Only the props ToolFallback reads; the rest come from assistant-ui
+  const Component = ToolFallback as unknown as ComponentType<
+    Record<string, unknown>
+  >;
+  render(
+    <Component
+      type="tool-call"
+      toolCallId="tool-1"
+      toolName={toolName}
+      argsText={argsText}
+      args={{}}
+      result={result}
+      isError={isError}
+      artifact={artifact}
+    />
+  );
+  if (expand) fireEvent.click(screen.getByRole('button'));
+};
+
+describe('ToolFallback', () => {
+  const unregister: Array<() => void> = [];
+
+  afterEach(() => {
+    unregister.splice(0).forEach((fn) => fn());
+  });
+
+  it('should render registered renderers with parsed input and result', () => {
+    unregister.push(
+      toolRenderers.register('mcp__github__*', {
+        parseResult: (result) => (result as { url: string }).url,
+        Input: ({ input }: { input: { title: string } }) => (
+          <p>Issue: {input.title}</p>
+        ),
+        Result: ({ result }: { result: string }) => <a href={result}>Link</a>,
+      })
+    );
+
+    renderTool('mcp__github__create_issue', '{"title":"Broken build"}', {
+      url: 'https://github.com/acme/web/issues/1',
+    });
+
+    expect(screen.getByText('Issue: Broken build')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Link' })).toHaveAttribute(
+      'href',
+      'https://github.com/acme/web/issues/1'
+    );
+  });
+
+  it('should fall back to JSON when a renderer fails to parse', () => {
+    unregister.push(
+      toolRenderers.register('Custom', {
+        parseInput: () => {
+          throw new Error('Unexpected input');
+        },
+        Input: () => <p>Custom input</p>,
+      })
+    );
+
+    renderTool('Custom', '{"a":1}', 'done');
+
+    expect(screen.queryByText('Custom input')).toBeNull();
+    expect(screen.getByText(/"a": 1/)).toBeInTheDocument();
+    expect(screen.getByText('done')).toBeInTheDocument();
+  });
+
+  it('should diff str_replace_editor replacements', () => {
+    renderTool(
+      'mcp__sandbox__str_replace_editor',
+      JSON.stringify({
+        command: 'str_replace',
+        path: 'src/app.ts',
+        old_str: 'foo',
+        new_str: 'bar',
+      })
+    );
+
+    expect(screen.getByText('src/app.ts')).toBeInTheDocument();
+    expect(screen.getByText('foo => bar')).toBeInTheDocument();
+  });
+
+  describe('Claude Code tools', () => {
+    it('should show Bash output with the exit status', () => {
+      renderTool(
+        'Bash',
+        JSON.stringify({ command: 'npm test', description: 'Run tests' }),
+        'Exit code 1\n1 test failed',
+        { isError: true }
+      );
+
+      expect(screen.getByText('Run tests')).toBeInTheDocument();
+      expect(screen.getByText('npm test')).toBeInTheDocument();
+      expect(screen.getByText('1 test failed')).toBeInTheDocument();
+      expect(screen.getByText('Exit 1')).toBeInTheDocument();
+    });
+
+    it('should group Grep hits by file', () => {
+      renderTool(
+        'Grep',
+        JSON.stringify({ pattern: 'useApi', output_mode: 'content' }),
+        'src/a.ts:4:useApi();\nsrc/b.ts:9:const api = useApi();'
+      );
+
+      expect(screen.getByText('src/a.ts')).toBeInTheDocument();
+      expect(screen.getByText('src/b.ts')).toBeInTheDocument();
+      expect(screen.getByText('const api = useApi();')).toBeInTheDocument();
+    });
+
+    it('should show TodoWrite as an expanded checklist', () => {
+      renderTool(
+        'TodoWrite',
+        JSON.stringify({
+          todos: [
+            { content: 'Write tests', status: 'completed' },
+            {
+              content: 'Fix bug',
+              status: 'in_progress',
+              activeForm: 'Fixing bug',
+            },
+          ],
+        }),
+        undefined,
+        { expand: false }
+      );
+
+      expect(screen.getByText('1/2 completed')).toBeInTheDocument();
+      expect(screen.getByText('Write tests')).toHaveClass('line-through');
+      expect(screen.getByText('Fixing bug')).toBeInTheDocument();
+    });
+
+    it('should fall back to JSON for unexpected inputs', () => {
+      renderTool('Edit', JSON.stringify({ file_path: 'a.ts' }), 'done');
+
+      expect(screen.getByText(/"file_path": "a.ts"/)).toBeInTheDocument();
+    });
+  });
+
+  it('should nest the sub-agent thread of a Task call', () => {
+    renderTool(
+      'Task',
+      JSON.stringify({ description: 'Find usages', prompt: 'Look for useApi' }),
+      'Found **3** usages',
+      {
+        artifact: {
+          subagent: {
+            messages: [
+              {
+                id: 'sub-1',
+                role: 'assistant',
+                content: [{ type: 'text', text: 'Searching the codebase' }],
+              },
+            ],
+            usage: {
+              inputTokens: 1000,
+              outputTokens: 200,
+              cacheReadInputTokens: 0,
+              cacheCreationInputTokens: 0,
+            },
+          },
+        },
+      }
+    );
+
+    expect(screen.getByText('Look for useApi')).toBeInTheDocument();
+    expect(screen.getByText('3')).toBeInTheDocument();
+    expect(screen.getByText(/1 message · 1,200 tokens/)).toBeInTheDocument();
+    expect(screen.queryByText('Searching the codebase')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: /Sub-agent/ }));
+    expect(screen.getByText('Searching the codebase')).toBeInTheDocument();
+  });
+});
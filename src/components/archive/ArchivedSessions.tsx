@@ -0,0 +1,310 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  ArchiveRestore,
+  ChevronLeft,
+  ExternalLink,
+  Loader2,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from '../ui/pagination';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { DeleteSessionsDialog } from './DeleteSessionsDialog';
+import { useInfiniteSessions, useSubtasks } from '../../hooks/useSessions';
+import {
+  useDeleteSession,
+  useUnarchiveSession,
+} from '../../hooks/useSessionMutations';
+import { useSessionSelection } from '../../hooks/useSessionSelection';
+import { useBulkSessionOperation } from '../../hooks/useBulkSessionOperation';
+import { Session } from '../../types/session';
+import { getAffectedSubtasks, getDeletionRoots } from '@/utils/sessionDeletion';
+
+/**
+ * Number of archived sessions shown per page
+ */
+export const ARCHIVE_PAGE_SIZE = 20;
+
+const formatDate = (date?: Date) => (date ? date.toLocaleDateString() : '—');
+
+/**
+ * Archived sessions, a page at a time, with restore and permanent delete for
+ * single rows or the selection.
+ */
+export function ArchivedSessions() {
+  const navigate = useNavigate();
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pendingDelete, setPendingDelete] = useState<Session[]>([]);
+
+  const { data, isLoading, isFetching, hasNextPage, fetchNextPage } =
+    useInfiniteSessions({ archived: true, limit: ARCHIVE_PAGE_SIZE });
+  // Subtasks may be active while their parent is archived, so they are looked
+  // up for the sessions about to be deleted rather than taken from this page
+  const pendingDeleteIds = useMemo(
+    () => pendingDelete.map((s) => s.id),
+    [pendingDelete]
+  );
+  const { data: subtasks, isLoading: isLoadingSubtasks } =
+    useSubtasks(pendingDeleteIds);
+  const unarchiveSession = useUnarchiveSession();
+  const deleteSession = useDeleteSession();
+  const bulk = useBulkSessionOperation();
+
+  const pages = useMemo(() => data?.pages ?? [], [data]);
+  // Restoring or deleting the last rows of the last page leaves it empty
+  const currentPage = Math.min(pageIndex, Math.max(pages.length - 1, 0));
+  const sessions = useMemo(
+    () => pages[currentPage] ?? [],
+    [pages, currentPage]
+  );
+  const sessionIds = useMemo(() => sessions.map((s) => s.id), [sessions]);
+
+  const selection = useSessionSelection(sessionIds);
+  const selectedSessions = sessions.filter((s) => selection.isSelected(s.id));
+  const allSelected =
+    sessions.length > 0 && selectedSessions.length === sessions.length;
+  const isBusy = !!bulk.state?.isRunning;
+
+  const affectedSubtasks = useMemo(
+    () => getAffectedSubtasks(subtasks, pendingDeleteIds),
+    [subtasks, pendingDeleteIds]
+  );
+
+  const canGoNext = currentPage < pages.length - 1 || !!hasNextPage;
+
+  const goToPage = async (index: number) => {
+    if (index >= pages.length) await fetchNextPage();
+    selection.clear();
+    setPageIndex(index);
+  };
+
+  const restore = async (targets: Session[]) => {
+    if (targets.length === 1) {
+      unarchiveSession.mutate(targets[0].id);
+    } else {
+      await bulk.run({ type: 'unarchive' }, targets);
+    }
+    selection.clear();
+  };
+
+  const confirmDelete = async () => {
+    const targets = pendingDelete;
+    setPendingDelete([]);
+    if (targets.length === 1) {
+      deleteSession.mutate(targets[0].id);
+    } else {
+      await bulk.run({ type: 'delete' }, getDeletionRoots(subtasks, targets));
+    }
+    selection.clear();
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-white">
+      <div className="flex items-center gap-2 border-b p-3 flex-shrink-0">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => navigate('/')}
+          title="Back to sessions"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <h2 className="text-sm font-medium">Archived sessions</h2>
+        {(isFetching || isBusy) && (
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        )}
+        <div className="flex-1" />
+        {selectedSessions.length > 0 && (
+          <>
+            <span className="text-xs text-gray-500">
+              {selectedSessions.length} selected
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs"
+              disabled={isBusy}
+              onClick={() => restore(selectedSessions)}
+            >
+              <ArchiveRestore className="w-3 h-3 mr-1" />
+              Restore selected
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs text-red-600 hover:text-red-700"
+              disabled={isBusy}
+              onClick={() => setPendingDelete(selectedSessions)}
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Delete selected
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-6 space-y-4">
+        {!isLoading && sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No archived sessions</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      checked ? selection.selectAll() : selection.clear()
+                    }
+                    aria-label="Select all on this page"
+                  />
+                </TableHead>
+                <TableHead>Task</TableHead>
+                <TableHead>Repository</TableHead>
+                <TableHead>Archived</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Pull request</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.map((session) => (
+                <TableRow
+                  key={session.id}
+                  data-state={
+                    selection.isSelected(session.id) ? 'selected' : undefined
+                  }
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={selection.isSelected(session.id)}
+                      onClick={(e) => selection.select(session.id, e)}
+                      aria-label={`Select ${session.title}`}
+                    />
+                  </TableCell>
+                  <TableCell
+                    className="max-w-xs truncate"
+                    title={session.title}
+                  >
+                    {session.title}
+                  </TableCell>
+                  <TableCell>{session.repo}</TableCell>
+                  <TableCell>{formatDate(session.updatedAt)}</TableCell>
+                  <TableCell>
+                    {session.diffStats ? (
+                      <span className="space-x-2">
+                        <span className="text-green-600">
+                          +{session.diffStats.additions}
+                        </span>
+                        <span className="text-red-600">
+                          -{session.diffStats.deletions}
+                        </span>
+                      </span>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {session.prUrl ? (
+                      <a
+                        href={session.prUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                      >
+                        View PR
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    ) : (
+                      '—'
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      disabled={isBusy}
+                      onClick={() => restore([session])}
+                      title="Restore"
+                    >
+                      <ArchiveRestore className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0 text-red-600 hover:text-red-700"
+                      disabled={isBusy}
+                      onClick={() => setPendingDelete([session])}
+                      title="Delete permanently"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {(currentPage > 0 || canGoNext) && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  aria-disabled={currentPage === 0}
+                  className={
+                    currentPage === 0 ? 'pointer-events-none opacity-50' : ''
+                  }
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (currentPage > 0) goToPage(currentPage - 1);
+                  }}
+                />
+              </PaginationItem>
+              <PaginationItem className="px-2 text-sm text-gray-500">
+                Page {currentPage + 1}
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  aria-disabled={!canGoNext}
+                  className={!canGoNext ? 'pointer-events-none opacity-50' : ''}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    if (canGoNext) goToPage(currentPage + 1);
+                  }}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+
+      <DeleteSessionsDialog
+        sessions={pendingDelete}
+        subtasks={affectedSubtasks}
+        isLoadingSubtasks={isLoadingSubtasks}
+        onConfirm={confirmDelete}
+        onCancel={() => setPendingDelete([])}
+      />
+    </div>
+  );
+}
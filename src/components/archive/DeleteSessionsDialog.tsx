@@ -0,0 +1,90 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { Session } from '../../types/session';
+
+interface DeleteSessionsDialogProps {
+  /**
+   * Sessions to delete; the dialog is closed while this is empty
+   */
+  sessions: Session[];
+  /**
+   * Subtasks deleted along with `sessions`
+   */
+  subtasks: Session[];
+  /**
+   * Whether the subtasks are still being looked up
+   */
+  isLoadingSubtasks?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const pluralize = (count: number, noun: string) =>
+  `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Confirms permanently deleting sessions, listing the subtasks that go with
+ * them.
+ */
+export function DeleteSessionsDialog({
+  sessions,
+  subtasks,
+  isLoadingSubtasks = false,
+  onConfirm,
+  onCancel,
+}: DeleteSessionsDialogProps) {
+  const title =
+    sessions.length === 1
+      ? `Delete "${sessions[0].title}" permanently`
+      : `Delete ${pluralize(sessions.length, 'task')} permanently`;
+
+  return (
+    <AlertDialog
+      open={sessions.length > 0}
+      onOpenChange={(open) => !open && onCancel()}
+    >
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>
+            This deletes the {sessions.length === 1 ? 'task' : 'tasks'} and{' '}
+            {sessions.length === 1 ? 'its' : 'their'} conversations. This cannot
+            be undone.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {isLoadingSubtasks && subtasks.length === 0 && (
+          <p className="text-sm text-gray-500">Looking for subtasks…</p>
+        )}
+        {subtasks.length > 0 && (
+          <div className="text-sm space-y-1">
+            <p>
+              {pluralize(subtasks.length, 'subtask')} will be deleted as well:
+            </p>
+            <ul className="max-h-40 overflow-auto list-disc pl-5 text-gray-600">
+              {subtasks.map((subtask) => (
+                <li key={subtask.id}>{subtask.title}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-red-600 hover:bg-red-700"
+            onClick={onConfirm}
+          >
+            Delete permanently
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '@/test/utils';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import { ArchivedSessions } from '../ArchivedSessions';
+import { mockSession } from '@/test/mockData';
+import { ListSessionsParams } from '@/services/api/types';
+import { Session } from '@/types/session';
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const archived: Session = {
+  ...mockSession,
+  id: 'archived-1',
+  title: 'Add login page',
+  repo: 'acme/web',
+  sessionStatus: 'Archived',
+  uiStatus: 'Archived',
+  diffStats: { additions: 12, deletions: 3 },
+  prUrl: 'https://github.com/acme/web/pull/7',
+  createdAt: new Date('2025-01-02T10:00:00Z'),
+  updatedAt: new Date('2025-01-05T10:00:00Z'),
+};
+const otherArchived: Session = {
+  ...archived,
+  id: 'archived-2',
+  title: 'Fix footer',
+  diffStats: undefined,
+  prUrl: undefined,
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+};
+const subtask: Session = {
+  ...mockSession,
+  id: 'subtask-1',
+  title: 'Write login tests',
+  parentId: archived.id,
+};
+const nestedSubtask: Session = {
+  ...subtask,
+  id: 'subtask-2',
+  title: 'Fix flaky login test',
+  parentId: subtask.id,
+};
+const sessions = [archived, otherArchived, subtask, nestedSubtask];
+
+describe('ArchivedSessions', () => {
+  let client: ReturnType<typeof createMockBackendClient>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = createMockBackendClient();
+    client.sessions.list = vi
+      .fn()
+      .mockImplementation((params?: ListSessionsParams) =>
+        Promise.resolve(
+          sessions.filter((session) =>
+            params?.parentId !== undefined
+              ? session.parentId === params.parentId
+              : !params?.archived || session.sessionStatus === 'Archived'
+          )
+        )
+      );
+  });
+
+  it('should list archived sessions with their repo, changes and PR', async () => {
+    render(<ArchivedSessions />, { client });
+
+    const row = (await screen.findByText('Add login page')).closest('tr')!;
+    expect(within(row).getByText('acme/web')).toBeInTheDocument();
+    expect(
+      within(row).getByText(archived.updatedAt!.toLocaleDateString())
+    ).toBeInTheDocument();
+    expect(within(row).getByText('+12')).toBeInTheDocument();
+    expect(within(row).getByRole('link', { name: /View PR/ })).toHaveAttribute(
+      'href',
+      archived.prUrl
+    );
+    expect(client.sessions.list).toHaveBeenCalledWith(
+      expect.objectContaining({ archived: true, limit: 20 }),
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('should restore a session', async () => {
+    client.sessions.unarchive = vi
+      .fn()
+      .mockResolvedValue({ ...archived, sessionStatus: 'Active' });
+    render(<ArchivedSessions />, { client });
+
+    const row = (await screen.findByText('Add login page')).closest('tr')!;
+    await userEvent.click(within(row).getByTitle('Restore'));
+
+    await waitFor(() =>
+      expect(client.sessions.unarchive).toHaveBeenCalledWith(archived.id)
+    );
+  });
+
+  it('should list affected subtasks before deleting permanently', async () => {
+    client.sessions.delete = vi.fn().mockResolvedValue(undefined);
+    render(<ArchivedSessions />, { client });
+
+    const row = (await screen.findByText('Add login page')).closest('tr')!;
+    await userEvent.click(within(row).getByTitle('Delete permanently'));
+
+    const dialog = await screen.findByRole('alertdialog');
+    expect(
+      await within(dialog).findByText('Write login tests')
+    ).toBeInTheDocument();
+    expect(
+      await within(dialog).findByText('Fix flaky login test')
+    ).toBeInTheDocument();
+    expect(client.sessions.list).toHaveBeenCalledWith(
+      { parentId: archived.id },
+      expect.any(AbortSignal)
+    );
+    expect(client.sessions.list).not.toHaveBeenCalledWith(
+      undefined,
+      expect.anything()
+    );
+    expect(client.sessions.delete).not.toHaveBeenCalled();
+
+    await userEvent.click(
+      within(dialog).getByRole('button', { name: 'Delete permanently' })
+    );
+
+    await waitFor(() =>
+      expect(client.sessions.delete).toHaveBeenCalledWith(archived.id)
+    );
+  });
+
+  it('should restore every selected session', async () => {
+    client.sessions.unarchive = vi.fn().mockResolvedValue(archived);
+    render(<ArchivedSessions />, { client });
+
+    await screen.findByText('Add login page');
+    await userEvent.click(screen.getByLabelText('Select all on this page'));
+    await userEvent.click(
+      screen.getByRole('button', { name: /Restore selected/ })
+    );
+
+    await waitFor(() =>
+      expect(client.sessions.unarchive).toHaveBeenCalledTimes(2)
+    );
+    expect(client.sessions.unarchive).toHaveBeenCalledWith(otherArchived.id);
+  });
+});
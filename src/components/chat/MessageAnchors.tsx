@@ -0,0 +1,111 @@
+import { createContext, useContext, useEffect, useMemo, useRef } from 'react';
+import {
+  getExternalStoreMessages,
+  useAssistantState,
+} from '@assistant-ui/react';
+import type { ThreadMessageLike } from '@assistant-ui/react';
+import { AssistantMessage, UserMessage } from '@assistant-ui/react-ui';
+import { QueuedPromptStatus } from './QueuedPromptStatus';
+import { PromptActions } from './PromptActions';
+
+/**
+ * A conversation message (prompt ID or BackendMessage uuid) the thread
+ * should bring into view, e.g. when opened from a search result.
+ */
+export interface MessageTarget {
+  messageId: string;
+  onRendered: (element: HTMLElement) => void;
+}
+
+const MessageTargetContext = createContext<MessageTarget | null>(null);
+
+export const MessageTargetProvider = MessageTargetContext.Provider;
+
+/**
+ * uuid of the first message the user hasn't seen yet; the thread marks where
+ * new messages start above it
+ */
+const FirstUnseenMessageContext = createContext<string | null>(null);
+
+export const FirstUnseenMessageProvider = FirstUnseenMessageContext.Provider;
+
+function NewMessagesDivider() {
+  return (
+    <div
+      role="separator"
+      aria-label="New messages"
+      className="mx-auto flex w-full max-w-[var(--aui-thread-max-width)] items-center gap-2 px-4 py-2 text-xs font-medium text-red-600"
+    >
+      <span className="h-px flex-1 bg-red-300" />
+      New messages
+      <span className="h-px flex-1 bg-red-300" />
+    </div>
+  );
+}
+
+/**
+ * Returns the IDs of the conversation messages behind the current thread
+ * message. Consecutive assistant messages are joined into a single thread
+ * message, so there can be several.
+ */
+function useSourceMessageIds() {
+  const message = useAssistantState(({ message }) => message);
+
+  return useMemo(() => {
+    const sources = getExternalStoreMessages<ThreadMessageLike>(message);
+    const ids = sources.flatMap((source) => (source.id ? [source.id] : []));
+    return ids.length > 0 ? ids : [message.id];
+  }, [message]);
+}
+
+function MessageAnchor({ children }: { children: React.ReactNode }) {
+  const ref = useRef<HTMLDivElement>(null);
+  const messageIds = useSourceMessageIds();
+  const target = useContext(MessageTargetContext);
+  const firstUnseenMessageId = useContext(FirstUnseenMessageContext);
+
+  useEffect(() => {
+    if (target && ref.current && messageIds.includes(target.messageId)) {
+      target.onRendered(ref.current);
+    }
+  }, [target, messageIds]);
+
+  return (
+    <div ref={ref} data-message-ids={messageIds.join(' ')}>
+      {firstUnseenMessageId && messageIds.includes(firstUnseenMessageId) && (
+        <NewMessagesDivider />
+      )}
+      {children}
+    </div>
+  );
+}
+
+export function AnchoredUserMessage() {
+  return (
+    <MessageAnchor>
+      <UserMessage />
+      <QueuedPromptStatus />
+      <PromptActions />
+    </MessageAnchor>
+  );
+}
+
+/**
+ * User message without delivery status or prompt actions, for threads that
+ * can't be changed
+ */
+export function AnchoredReadOnlyUserMessage() {
+  return (
+    <MessageAnchor>
+      <UserMessage />
+    </MessageAnchor>
+  );
+}
+
+export function AnchoredAssistantMessage() {
+  return (
+    <MessageAnchor>
+      <AssistantMessage />
+    </MessageAnchor>
+  );
+}
@@ -0,0 +1,52 @@
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+
+interface MessageDraftEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onCancel: () => void;
+  onSubmit: () => void;
+  /**
+   * Accessible name of the text area
+   */
+  label: string;
+  submitLabel: string;
+  isSubmitting?: boolean;
+}
+
+/**
+ * Inline editor for the text of a user message about to be sent again.
+ * Submitting is disabled while the draft is blank.
+ */
+export function MessageDraftEditor({
+  value,
+  onChange,
+  onCancel,
+  onSubmit,
+  label,
+  submitLabel,
+  isSubmitting = false,
+}: MessageDraftEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        aria-label={label}
+        className="text-sm"
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={onSubmit}
+          disabled={!value.trim() || isSubmitting}
+        >
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import { useAssistantState } from '@assistant-ui/react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { MessageDraftEditor } from './MessageDraftEditor';
+import { Prompt } from '../../types/session';
+import {
+  useCancelPrompt,
+  useCreatePrompt,
+  useRetryPrompt,
+} from '../../hooks/useMessages';
+
+interface PromptMetadata {
+  isPrompt?: boolean;
+  status?: Prompt['status'];
+  sessionId?: string;
+}
+
+const statusLabels: Partial<Record<Prompt['status'], string>> = {
+  pending: 'Waiting for the agent',
+  processing: 'Running…',
+  failed: 'Prompt failed',
+};
+
+/**
+ * Lifecycle actions for a sent prompt: cancel it while it runs, or retry a
+ * failed prompt as is or edited and sent as a new prompt.
+ */
+export function PromptActions() {
+  const custom = useAssistantState(
+    ({ message }) => message.metadata.custom as PromptMetadata
+  );
+  const promptId = useAssistantState(({ message }) => message.id);
+  const text = useAssistantState(({ message }) =>
+    message.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join('')
+  );
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const sessionId = custom?.sessionId ?? '';
+  const cancelPrompt = useCancelPrompt(sessionId);
+  const retryPrompt = useRetryPrompt(sessionId);
+  const createPrompt = useCreatePrompt(sessionId);
+
+  if (!custom?.isPrompt || !custom.sessionId || !custom.status) {
+    return null;
+  }
+
+  const status = custom.status;
+  const isRunning = status === 'pending' || status === 'processing';
+  const isBusy =
+    cancelPrompt.isPending || retryPrompt.isPending || createPrompt.isPending;
+
+  const handleResend = () => {
+    if (draft?.trim()) {
+      createPrompt.mutate(draft, { onSuccess: () => setDraft(null) });
+    }
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-[var(--thread-max-width)] px-4 pb-2 text-xs text-gray-500">
+      {draft !== null ? (
+        <MessageDraftEditor
+          value={draft}
+          onChange={setDraft}
+          onCancel={() => setDraft(null)}
+          onSubmit={handleResend}
+          label="Edit prompt"
+          submitLabel="Send as new prompt"
+          isSubmitting={isBusy}
+        />
+      ) : (
+        <div className="flex items-center justify-end gap-2">
+          {status === 'failed' ? (
+            <AlertCircle className="w-3 h-3 text-red-500" />
+          ) : isRunning ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : null}
+          {statusLabels[status] && (
+            <span className={status === 'failed' ? 'text-red-600' : undefined}>
+              {statusLabels[status]}
+            </span>
+          )}
+          {status === 'failed' && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              disabled={isBusy}
+              onClick={() => retryPrompt.mutate(promptId)}
+            >
+              Retry
+            </Button>
+          )}
+          {isRunning && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              disabled={isBusy}
+              onClick={() => cancelPrompt.mutate(promptId)}
+            >
+              Cancel
+            </Button>
+          )}
+          {status === 'failed' && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              disabled={isBusy}
+              onClick={() => setDraft(text)}
+            >
+              Edit and resend
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
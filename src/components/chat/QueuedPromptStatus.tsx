@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { useAssistantState } from '@assistant-ui/react';
+import { AlertCircle, Clock, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { MessageDraftEditor } from './MessageDraftEditor';
+import { useOutbox } from '../../providers/OutboxProvider';
+import { OutboxItemStatus } from '../../services/outbox';
+
+interface QueuedPromptMetadata {
+  queued?: boolean;
+  outboxId?: string;
+  outboxStatus?: OutboxItemStatus;
+  lastError?: string;
+}
+
+const statusLabels: Record<OutboxItemStatus, string> = {
+  queued: 'Queued, waiting for the backend',
+  sending: 'Sending…',
+  failed: 'Failed to send',
+};
+
+/**
+ * Delivery status of a user message waiting in the prompt outbox, with
+ * actions to cancel, edit or retry it. Renders nothing for sent messages.
+ */
+export function QueuedPromptStatus() {
+  const outbox = useOutbox();
+  const custom = useAssistantState(
+    ({ message }) => message.metadata.custom as QueuedPromptMetadata
+  );
+  const text = useAssistantState(({ message }) =>
+    message.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join('')
+  );
+  const [draft, setDraft] = useState<string | null>(null);
+
+  if (!outbox || !custom?.queued || !custom.outboxId || !custom.outboxStatus) {
+    return null;
+  }
+
+  const id = custom.outboxId;
+  const status = custom.outboxStatus;
+  const isSending = status === 'sending';
+
+  const handleSave = () => {
+    if (draft?.trim()) {
+      void outbox.edit(id, draft);
+    }
+    setDraft(null);
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-[var(--thread-max-width)] px-4 pb-2 text-xs text-gray-500">
+      {draft !== null ? (
+        <MessageDraftEditor
+          value={draft}
+          onChange={setDraft}
+          onCancel={() => setDraft(null)}
+          onSubmit={handleSave}
+          label="Edit queued message"
+          submitLabel="Save and send"
+        />
+      ) : (
+        <div className="flex items-center justify-end gap-2">
+          {status === 'failed' ? (
+            <AlertCircle className="w-3 h-3 text-red-500" />
+          ) : isSending ? (
+            <Loader2 className="w-3 h-3 animate-spin" />
+          ) : (
+            <Clock className="w-3 h-3" />
+          )}
+          <span
+            className={status === 'failed' ? 'text-red-600' : undefined}
+            title={custom.lastError}
+          >
+            {statusLabels[status]}
+          </span>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={isSending}
+            onClick={() => void outbox.retry(id)}
+          >
+            Retry
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={isSending}
+            onClick={() => setDraft(text)}
+          >
+            Edit
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={isSending}
+            onClick={() => void outbox.cancel(id)}
+          >
+            Cancel
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useNavigate } from 'react-router-dom';
+import { Bell } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { NotificationSettingsForm } from './NotificationSettingsForm';
+import { useNotifications } from '../../providers/NotificationProvider';
+
+/**
+ * Sidebar button with the number of unread session notifications. Opens
+ * the list of recent notifications and their settings.
+ */
+export function NotificationBell() {
+  const notifications = useNotifications();
+  const navigate = useNavigate();
+
+  if (!notifications) return null;
+
+  const { unreadCount, markAllRead, markSessionRead } = notifications;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="relative h-6 w-6 p-0"
+          title="Notifications"
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -right-1 -top-1 min-w-4 rounded-full bg-red-600 px-1 text-[10px] leading-4 text-white"
+              aria-label={`${unreadCount} unread notifications`}
+            >
+              {unreadCount > 9 ? '9+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <h3 className="text-sm font-medium">Notifications</h3>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-2 text-xs"
+            disabled={unreadCount === 0}
+            onClick={markAllRead}
+          >
+            Mark all read
+          </Button>
+        </div>
+        {notifications.notifications.length === 0 ? (
+          <p className="px-3 py-4 text-sm text-gray-500">
+            No notifications yet
+          </p>
+        ) : (
+          <ul className="max-h-64 overflow-auto">
+            {notifications.notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className="flex w-full items-start gap-2 px-3 py-2 text-left hover:bg-gray-50"
+                  onClick={() => {
+                    markSessionRead(notification.sessionId);
+                    navigate(`/session/${notification.sessionId}`);
+                  }}
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 flex-shrink-0 rounded-full ${
+                      notification.read ? 'bg-transparent' : 'bg-blue-600'
+                    }`}
+                  />
+                  <span className="min-w-0 flex-1">
+                    <span className="block text-sm font-medium">
+                      {notification.title}
+                    </span>
+                    <span className="block truncate text-xs text-gray-500">
+                      {notification.body}
+                    </span>
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {new Date(notification.createdAt).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="border-t px-3 py-2">
+          <NotificationSettingsForm />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,111 @@
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Switch } from '../ui/switch';
+import { useNotifications } from '../../providers/NotificationProvider';
+
+/**
+ * Per-repository opt-in, desktop notifications and quiet hours
+ */
+export function NotificationSettingsForm() {
+  const notifications = useNotifications();
+  if (!notifications) return null;
+
+  const { settings, updateSettings, repos, enableDesktopNotifications } =
+    notifications;
+  const { quietHours } = settings;
+  const isDesktopSupported = !!window.Notification;
+  const listedRepos = Array.from(new Set([...repos, ...settings.repos])).sort();
+
+  const toggleRepo = (repo: string, enabled: boolean) =>
+    updateSettings({
+      repos: enabled
+        ? [...settings.repos, repo]
+        : settings.repos.filter((r) => r !== repo),
+    });
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="notify-desktop">Desktop notifications</Label>
+        <Switch
+          id="notify-desktop"
+          checked={settings.desktop}
+          disabled={!isDesktopSupported}
+          onCheckedChange={(checked) =>
+            checked
+              ? void enableDesktopNotifications()
+              : updateSettings({ desktop: false })
+          }
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="notify-quiet-hours">Quiet hours</Label>
+          <Switch
+            id="notify-quiet-hours"
+            checked={quietHours.enabled}
+            onCheckedChange={(enabled) =>
+              updateSettings({ quietHours: { ...quietHours, enabled } })
+            }
+          />
+        </div>
+        {quietHours.enabled && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              aria-label="Quiet hours start"
+              value={quietHours.start}
+              onChange={(e) =>
+                updateSettings({
+                  quietHours: { ...quietHours, start: e.target.value },
+                })
+              }
+              className="h-7 text-xs"
+            />
+            <span className="text-gray-500">to</span>
+            <Input
+              type="time"
+              aria-label="Quiet hours end"
+              value={quietHours.end}
+              onChange={(e) =>
+                updateSettings({
+                  quietHours: { ...quietHours, end: e.target.value },
+                })
+              }
+              className="h-7 text-xs"
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs uppercase text-gray-500">Notify for</p>
+        {listedRepos.length === 0 ? (
+          <p className="text-xs text-gray-500">No repositories yet</p>
+        ) : (
+          <ul className="max-h-32 space-y-1 overflow-auto">
+            {listedRepos.map((repo) => (
+              <li key={repo} className="flex items-center gap-2">
+                <Checkbox
+                  id={`notify-repo-${repo}`}
+                  checked={settings.repos.includes(repo)}
+                  onCheckedChange={(checked) =>
+                    toggleRepo(repo, checked === true)
+                  }
+                />
+                <Label
+                  htmlFor={`notify-repo-${repo}`}
+                  className="truncate font-normal"
+                >
+                  {repo}
+                </Label>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
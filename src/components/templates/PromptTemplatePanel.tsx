@@ -0,0 +1,185 @@
+import { useRef, useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  useDeletePromptTemplate,
+  usePromptTemplates,
+  useSavePromptTemplates,
+} from '../../hooks/usePromptTemplates';
+import { PromptTemplate } from '../../services/templates';
+import {
+  createTemplateId,
+  getTemplateVariables,
+  parseTemplates,
+  serializeTemplates,
+} from '@/utils/promptTemplates';
+import { downloadFile } from '@/utils/download';
+
+interface PromptTemplatePanelProps {
+  /**
+   * Current prompt, offered to be saved as a new template
+   */
+  prompt: string;
+  onSelect: (template: PromptTemplate) => void;
+}
+
+/**
+ * Library of the user's prompt templates: pick one to fill the prompt, save
+ * the current prompt as a template, and import or export templates as JSON.
+ */
+export function PromptTemplatePanel({
+  prompt,
+  onSelect,
+}: PromptTemplatePanelProps) {
+  const { data: templates = [], isLoading } = usePromptTemplates();
+  const saveTemplates = useSavePromptTemplates();
+  const deleteTemplate = useDeletePromptTemplate();
+  const [name, setName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed || !prompt.trim()) return;
+    // Saving under an existing name replaces that template
+    const existing = templates.find((t) => t.name === trimmed);
+    saveTemplates.mutate(
+      [
+        {
+          id: existing?.id ?? createTemplateId(),
+          name: trimmed,
+          content: prompt,
+          updatedAt: Date.now(),
+        },
+      ],
+      {
+        onSuccess: () => {
+          setName('');
+          toast.success(`Template "${trimmed}" saved`);
+        },
+      }
+    );
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseTemplates(await file.text());
+      saveTemplates.mutate(imported, {
+        onSuccess: () =>
+          toast.success(
+            `Imported ${imported.length} template${imported.length === 1 ? '' : 's'}`
+          ),
+      });
+    } catch (error) {
+      toast.error('Failed to import templates', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-3">
+      <div className="space-y-1 max-h-40 overflow-auto">
+        {isLoading ? (
+          <p className="text-xs text-muted-foreground">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No templates yet. Write a prompt with {'{{variables}}'} and save it
+            below.
+          </p>
+        ) : (
+          templates.map((template) => {
+            const variables = getTemplateVariables(template.content);
+            return (
+              <div key={template.id} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  className="flex-1 min-w-0 text-left text-sm px-2 py-1 rounded hover:bg-gray-100"
+                  onClick={() => onSelect(template)}
+                  title={template.content}
+                >
+                  <span className="font-medium">{template.name}</span>
+                  {variables.length > 0 && (
+                    <span className="ml-2 text-xs text-muted-foreground truncate">
+                      {variables.join(', ')}
+                    </span>
+                  )}
+                </button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={() => deleteTemplate.mutate(template.id)}
+                  title={`Delete ${template.name}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleSave();
+            }
+          }}
+          placeholder="Template name"
+          aria-label="Template name"
+          className="h-7 text-xs"
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={handleSave}
+          disabled={!name.trim() || !prompt.trim()}
+        >
+          <Save className="w-3 h-3 mr-1" />
+          Save prompt
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => fileInputRef.current?.click()}
+          title="Import templates from JSON"
+        >
+          <Upload className="w-3 h-3" />
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() =>
+            downloadFile('prompt-templates.json', serializeTemplates(templates))
+          }
+          disabled={templates.length === 0}
+          title="Export templates as JSON"
+        >
+          <Download className="w-3 h-3" />
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          data-testid="template-import-input"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </div>
+  );
+}
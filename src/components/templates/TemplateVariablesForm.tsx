@@ -0,0 +1,67 @@
+import { useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+
+interface TemplateVariablesFormProps {
+  variables: string[];
+  onApply: (values: Record<string, string>) => void;
+}
+
+/**
+ * Small form asking for the values of the {{variables}} left in a prompt.
+ */
+export function TemplateVariablesForm({
+  variables,
+  onApply,
+}: TemplateVariablesFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const isComplete = variables.every((name) => values[name]?.trim());
+
+  const handleApply = () => {
+    if (!isComplete) return;
+    onApply(values);
+    setValues({});
+  };
+
+  return (
+    <div className="border rounded-md p-3 space-y-2 bg-gray-50">
+      <p className="text-xs text-muted-foreground">
+        Fill in the template variables
+      </p>
+      <div className="grid grid-cols-2 gap-2">
+        {variables.map((name) => (
+          <div key={name} className="space-y-1">
+            <Label htmlFor={`template-variable-${name}`} className="text-xs">
+              {name}
+            </Label>
+            <Input
+              id={`template-variable-${name}`}
+              value={values[name] ?? ''}
+              onChange={(e) =>
+                setValues((current) => ({ ...current, [name]: e.target.value }))
+              }
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleApply();
+                }
+              }}
+              className="h-7 text-xs"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          size="sm"
+          onClick={handleApply}
+          disabled={!isComplete}
+        >
+          Apply variables
+        </Button>
+      </div>
+    </div>
+  );
+}
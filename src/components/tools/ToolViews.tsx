@@ -0,0 +1,99 @@
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+
+interface ToolCodeViewProps {
+  value: string;
+  language?: string;
+  height?: string;
+  lineNumbers?: boolean;
+  /**
+   * Number shown for the first line, when the value is an excerpt
+   */
+  firstLineNumber?: number;
+}
+
+/**
+ * Read-only Monaco editor for tool inputs and results
+ */
+export function ToolCodeView({
+  value,
+  language = 'plaintext',
+  height = '200px',
+  lineNumbers = false,
+  firstLineNumber = 1,
+}: ToolCodeViewProps) {
+  const { theme } = useTheme();
+
+  return (
+    <div className="border rounded-md overflow-hidden">
+      <Editor
+        height={height}
+        language={language}
+        value={value}
+        theme={theme === 'dark' ? 'vs-dark' : 'light'}
+        options={{
+          readOnly: true,
+          minimap: { enabled: false },
+          scrollBeyondLastLine: false,
+          wordWrap: 'on',
+          lineNumbers: !lineNumbers
+            ? 'off'
+            : firstLineNumber === 1
+              ? 'on'
+              : (line) => String(line + firstLineNumber - 1),
+          folding: false,
+          renderLineHighlight: 'none',
+        }}
+      />
+    </div>
+  );
+}
+
+interface ToolDiffViewProps {
+  original: string;
+  modified: string;
+  language?: string;
+  height?: string;
+}
+
+/**
+ * Read-only side-by-side Monaco diff for file edits
+ */
+export function ToolDiffView({
+  original,
+  modified,
+  language = 'plaintext',
+  height = '300px',
+}: ToolDiffViewProps) {
+  const { theme } = useTheme();
+
+  return (
+    <div className="border rounded-md overflow-hidden">
+      <DiffEditor
+        height={height}
+        language={language}
+        original={original}
+        modified={modified}
+        theme={theme === 'dark' ? 'vs-dark' : 'light'}
+        options={{
+          readOnly: true,
+          minimap: { enabled: false },
+          scrollBeyondLastLine: false,
+          wordWrap: 'on',
+          renderSideBySide: true,
+          renderLineHighlight: 'none',
+          enableSplitViewResizing: false,
+        }}
+      />
+    </div>
+  );
+}
+
+export function ToolFilePath({ path }: { path?: string }) {
+  if (!path) return null;
+  return (
+    <p className="text-sm text-muted-foreground mb-2">
+      <b>File:</b> {path}
+    </p>
+  );
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { ToolRenderer, ToolRendererRegistry } from '../registry';
+
+const renderer = (): ToolRenderer => ({ Input: () => null });
+
+describe('ToolRendererRegistry', () => {
+  it('should match exact names and globs', () => {
+    const registry = new ToolRendererRegistry();
+    const bash = renderer();
+    const github = renderer();
+    registry.register('Bash', bash);
+    registry.register('mcp__github__*', github);
+
+    expect(registry.resolve('Bash')).toBe(bash);
+    expect(registry.resolve('mcp__github__create_issue')).toBe(github);
+    expect(registry.resolve('mcp__gitlab__create_issue')).toBeUndefined();
+    expect(registry.resolve('BashOutput')).toBeUndefined();
+  });
+
+  it('should prefer exact names, then more specific globs', () => {
+    const registry = new ToolRendererRegistry();
+    const exact = renderer();
+    const specific = renderer();
+    const broad = renderer();
+    registry.register('mcp__github__create_issue', exact);
+    registry.register('mcp__github__*', specific);
+    registry.register('mcp__*', broad);
+
+    expect(registry.resolve('mcp__github__create_issue')).toBe(exact);
+    expect(registry.resolve('mcp__github__list_prs')).toBe(specific);
+    expect(registry.resolve('mcp__slack__post')).toBe(broad);
+  });
+
+  it('should let later registrations override and be removed', () => {
+    const registry = new ToolRendererRegistry();
+    const builtin = renderer();
+    const custom = renderer();
+    registry.register('mcp__sandbox__*', builtin);
+    const unregister = registry.register('mcp__sandbox__*', custom);
+
+    expect(registry.resolve('mcp__sandbox__execute_code')).toBe(custom);
+
+    unregister();
+    expect(registry.resolve('mcp__sandbox__execute_code')).toBeUndefined();
+  });
+
+  it('should treat regex characters in patterns literally', () => {
+    const registry = new ToolRendererRegistry();
+    const dotted = renderer();
+    registry.register('tool.v1', dotted);
+
+    expect(registry.resolve('tool.v1')).toBe(dotted);
+    expect(registry.resolve('toolxv1')).toBeUndefined();
+  });
+});
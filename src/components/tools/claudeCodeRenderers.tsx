@@ -0,0 +1,442 @@
+import { ReactNode } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { CheckSquare, CircleDot, ExternalLink, Square } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { defineToolRenderer } from './registry';
+import { ToolCodeView, ToolDiffView, ToolFilePath } from './ToolViews';
+import { DefaultToolResult } from './defaultRenderer';
+import { getLanguageFromPath } from '@/utils/languageDetection';
+import {
+  EditInput,
+  MultiEditInput,
+  ReadInput,
+  Todo,
+  WriteInput,
+  getBashExitCode,
+  getBashOutput,
+  parseGlobResult,
+  parseGrepResult,
+  parseReadResult,
+  stripSystemReminders,
+} from '@/utils/claudeCodeTools';
+
+/**
+ * Parses a tool input and checks the fields a renderer relies on, so
+ * unexpected inputs fall back to the default renderer
+ */
+function parseInputWith<T>(
+  argsText: string,
+  isValid: (input: Record<string, unknown>) => boolean
+): T {
+  const input = JSON.parse(argsText);
+  if (!input || typeof input !== 'object' || !isValid(input)) {
+    throw new Error('Unexpected tool input');
+  }
+  return input as T;
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+function Terminal({ children }: { children: ReactNode }) {
+  return (
+    <pre className="bg-gray-900 text-gray-100 text-xs font-mono rounded-md p-3 overflow-auto max-h-80 whitespace-pre-wrap break-words">
+      {children}
+    </pre>
+  );
+}
+
+function ExitStatus({ code }: { code: number | null }) {
+  const succeeded = code === 0;
+  return (
+    <Badge
+      variant="outline"
+      className={
+        succeeded
+          ? 'bg-green-50 text-green-700 border-green-300'
+          : 'bg-red-50 text-red-700 border-red-300'
+      }
+    >
+      {code === null ? 'Failed' : `Exit ${code}`}
+    </Badge>
+  );
+}
+
+interface BashInput {
+  command: string;
+  description?: string;
+  run_in_background?: boolean;
+}
+
+/**
+ * Bash: the command and its output as a terminal, with the exit status
+ */
+export const bashRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<BashInput>(argsText, (input) => isString(input.command)),
+  parseResult: (result) => String(result),
+  summary: (input) => input.description,
+  Input: ({ input }) => (
+    <Terminal>
+      <span className="text-green-400 select-none">$ </span>
+      {input.command}
+      {input.run_in_background && (
+        <span className="text-gray-400"> (in background)</span>
+      )}
+    </Terminal>
+  ),
+  Result: ({ result, isError }) => {
+    const output = getBashOutput(result);
+    return (
+      <div className="space-y-2">
+        <Terminal>
+          {output || <span className="italic text-gray-400">No output</span>}
+        </Terminal>
+        <ExitStatus code={getBashExitCode(result, isError)} />
+      </div>
+    );
+  },
+});
+
+/**
+ * Edit: the replacement as a diff
+ */
+export const editRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<EditInput>(
+      argsText,
+      (input) =>
+        isString(input.file_path) &&
+        isString(input.old_string) &&
+        isString(input.new_string)
+    ),
+  summary: (input) => input.file_path,
+  Input: ({ input }) => (
+    <>
+      <ToolFilePath path={input.file_path} />
+      {input.replace_all && (
+        <p className="text-xs text-muted-foreground mb-2">
+          Replacing all occurrences
+        </p>
+      )}
+      <ToolDiffView
+        original={input.old_string}
+        modified={input.new_string}
+        language={getLanguageFromPath(input.file_path)}
+      />
+    </>
+  ),
+});
+
+/**
+ * MultiEdit: each replacement as a diff, in the order they are applied
+ */
+export const multiEditRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<MultiEditInput>(
+      argsText,
+      (input) =>
+        isString(input.file_path) &&
+        Array.isArray(input.edits) &&
+        input.edits.every(
+          (edit) => isString(edit?.old_string) && isString(edit?.new_string)
+        )
+    ),
+  summary: (input) =>
+    `${input.file_path} (${input.edits.length} edit${input.edits.length === 1 ? '' : 's'})`,
+  Input: ({ input }) => (
+    <>
+      <ToolFilePath path={input.file_path} />
+      <div className="space-y-3">
+        {input.edits.map((edit, index) => (
+          <div key={index}>
+            <p className="text-xs text-muted-foreground mb-1">
+              Edit {index + 1} of {input.edits.length}
+              {edit.replace_all && ', all occurrences'}
+            </p>
+            <ToolDiffView
+              original={edit.old_string}
+              modified={edit.new_string}
+              language={getLanguageFromPath(input.file_path)}
+              height="200px"
+            />
+          </div>
+        ))}
+      </div>
+    </>
+  ),
+});
+
+/**
+ * Write: the new file contents
+ */
+export const writeRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<WriteInput>(
+      argsText,
+      (input) => isString(input.file_path) && isString(input.content)
+    ),
+  summary: (input) => input.file_path,
+  Input: ({ input }) => (
+    <>
+      <ToolFilePath path={input.file_path} />
+      <ToolCodeView
+        value={input.content}
+        language={getLanguageFromPath(input.file_path)}
+        height="300px"
+        lineNumbers
+      />
+    </>
+  ),
+});
+
+/**
+ * Read: the file contents with their line numbers
+ */
+export const readRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<ReadInput>(argsText, (input) => isString(input.file_path)),
+  parseResult: (result) => parseReadResult(String(result)),
+  summary: (input) => input.file_path,
+  Input: ({ input }) => (
+    <>
+      <ToolFilePath path={input.file_path} />
+      {(input.offset !== undefined || input.limit !== undefined) && (
+        <p className="text-xs text-muted-foreground">
+          {input.limit !== undefined ? `${input.limit} lines` : 'Lines'} from
+          line {input.offset ?? 1}
+        </p>
+      )}
+    </>
+  ),
+  Result: ({ input, result, rawResult }) =>
+    result ? (
+      <ToolCodeView
+        value={result.content}
+        language={getLanguageFromPath(input.file_path)}
+        height="400px"
+        lineNumbers
+        firstLineNumber={result.firstLine}
+      />
+    ) : (
+      <DefaultToolResult rawResult={rawResult} />
+    ),
+});
+
+interface GrepInput {
+  pattern: string;
+  path?: string;
+  glob?: string;
+  type?: string;
+  output_mode?: string;
+}
+
+/**
+ * Grep: the hits grouped by file
+ */
+export const grepRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<GrepInput>(argsText, (input) => isString(input.pattern)),
+  parseResult: (result, input) =>
+    parseGrepResult(String(result), input.output_mode, input.path),
+  summary: (input) => input.pattern,
+  Input: ({ input }) => (
+    <div className="text-sm space-y-1">
+      <p>
+        <b>Pattern:</b> <code className="font-mono">{input.pattern}</code>
+      </p>
+      {(input.path || input.glob || input.type) && (
+        <p className="text-muted-foreground">
+          <b>In:</b>{' '}
+          {[input.path, input.glob, input.type && `*.${input.type}`]
+            .filter(Boolean)
+            .join(' ')}
+        </p>
+      )}
+    </div>
+  ),
+  Result: ({ result }) =>
+    result.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No matches</p>
+    ) : (
+      <div className="border rounded-md divide-y max-h-96 overflow-auto text-xs">
+        {result.map((group) => {
+          const hits =
+            group.count ?? group.lines.filter((line) => !line.isContext).length;
+          return (
+            <div key={group.file} className="py-1">
+              <div className="flex items-center gap-2 px-2 py-1 font-mono font-medium">
+                <span className="truncate">{group.file || '(file)'}</span>
+                {hits > 0 && (
+                  <Badge variant="secondary" className="text-xs">
+                    {hits}
+                  </Badge>
+                )}
+              </div>
+              {group.lines.map((line, index) => (
+                <div
+                  key={index}
+                  className={`flex gap-2 px-2 font-mono ${
+                    line.isContext ? 'text-gray-400' : ''
+                  }`}
+                >
+                  <span className="w-10 flex-shrink-0 text-right text-gray-400 select-none">
+                    {line.line ?? ''}
+                  </span>
+                  <span className="whitespace-pre-wrap break-all">
+                    {line.text}
+                  </span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    ),
+});
+
+/**
+ * Glob: the matching files
+ */
+export const globRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<{ pattern: string; path?: string }>(argsText, (input) =>
+      isString(input.pattern)
+    ),
+  parseResult: (result) => parseGlobResult(String(result)),
+  summary: (input) => input.pattern,
+  Input: ({ input }) => (
+    <p className="text-sm">
+      <b>Pattern:</b> <code className="font-mono">{input.pattern}</code>
+      {input.path && (
+        <span className="text-muted-foreground"> in {input.path}</span>
+      )}
+    </p>
+  ),
+  Result: ({ result }) => (
+    <div className="text-xs space-y-1">
+      <p className="text-muted-foreground">
+        {result.length} file{result.length === 1 ? '' : 's'}
+      </p>
+      {result.length > 0 && (
+        <ul className="border rounded-md p-2 font-mono max-h-72 overflow-auto">
+          {result.map((file) => (
+            <li key={file} className="truncate">
+              {file}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  ),
+});
+
+/**
+ * WebFetch: the URL and the question asked about it, and the answer
+ */
+export const webFetchRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<{ url: string; prompt?: string }>(argsText, (input) =>
+      isString(input.url)
+    ),
+  parseResult: (result) => stripSystemReminders(String(result)),
+  summary: (input) => input.url,
+  Input: ({ input }) => (
+    <div className="text-sm space-y-1">
+      <a
+        href={input.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-1 text-blue-600 hover:underline break-all"
+      >
+        {input.url}
+        <ExternalLink className="w-3 h-3 flex-shrink-0" />
+      </a>
+      {input.prompt && <p className="text-muted-foreground">{input.prompt}</p>}
+    </div>
+  ),
+  Result: ({ result }) => (
+    <ToolCodeView value={result} language="markdown" height="300px" />
+  ),
+});
+
+const todoIcons = {
+  completed: <CheckSquare className="w-4 h-4 text-green-600 flex-shrink-0" />,
+  in_progress: <CircleDot className="w-4 h-4 text-blue-600 flex-shrink-0" />,
+  pending: <Square className="w-4 h-4 text-gray-400 flex-shrink-0" />,
+};
+
+/**
+ * TodoWrite: the agent's todo list as a checklist, shown expanded so the
+ * latest call reads as the current plan
+ */
+export const todoWriteRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<{ todos: Todo[] }>(
+      argsText,
+      (input) =>
+        Array.isArray(input.todos) &&
+        input.todos.every(
+          (todo) => isString(todo?.content) && todo.status in todoIcons
+        )
+    ),
+  summary: (input) => {
+    const done = input.todos.filter((t) => t.status === 'completed').length;
+    return `${done}/${input.todos.length} completed`;
+  },
+  defaultExpanded: true,
+  Input: ({ input }) => (
+    <ul className="space-y-1 text-sm">
+      {input.todos.map((todo, index) => (
+        <li key={index} className="flex items-start gap-2">
+          <span className="mt-0.5">{todoIcons[todo.status]}</span>
+          <span
+            className={
+              todo.status === 'completed'
+                ? 'line-through text-muted-foreground'
+                : todo.status === 'in_progress'
+                  ? 'font-medium'
+                  : undefined
+            }
+          >
+            {todo.status === 'in_progress' && todo.activeForm
+              ? todo.activeForm
+              : todo.content}
+          </span>
+        </li>
+      ))}
+    </ul>
+  ),
+});
+
+interface TaskInput {
+  description?: string;
+  prompt: string;
+  subagent_type?: string;
+}
+
+/**
+ * Task: the instructions given to the sub-agent and its final report. The
+ * sub-agent's own messages are nested under the call by ToolFallback.
+ */
+export const taskRenderer = defineToolRenderer({
+  parseInput: (argsText) =>
+    parseInputWith<TaskInput>(argsText, (input) => isString(input.prompt)),
+  parseResult: (result) => stripSystemReminders(String(result)),
+  summary: (input) => input.description,
+  Input: ({ input }) => (
+    <div className="text-sm space-y-1">
+      {input.subagent_type && (
+        <p className="text-muted-foreground">
+          <b>Agent:</b> {input.subagent_type}
+        </p>
+      )}
+      <p className="whitespace-pre-wrap">{input.prompt}</p>
+    </div>
+  ),
+  Result: ({ result }) => (
+    <div className="prose prose-sm max-w-none break-words">
+      <ReactMarkdown remarkPlugins={[remarkGfm]}>{result}</ReactMarkdown>
+    </div>
+  ),
+});
@@ -0,0 +1,25 @@
+import { defineToolRenderer } from './registry';
+import { ToolCodeView } from './ToolViews';
+import { formatToolData } from '@/utils/toolData';
+
+/**
+ * Result view used by renderers that don't provide their own: the result
+ * pretty-printed as JSON, or as plain text
+ */
+export function DefaultToolResult({ rawResult }: { rawResult: unknown }) {
+  const { text, language } = formatToolData(rawResult);
+  return <ToolCodeView value={text} language={language} />;
+}
+
+/**
+ * Renderer for tools without a registered renderer, and for calls whose
+ * input or result a renderer fails to parse
+ */
+export const defaultToolRenderer = defineToolRenderer<string>({
+  parseInput: (argsText) => argsText,
+  Input: ({ input }) => {
+    const { text, language } = formatToolData(input);
+    return <ToolCodeView value={text} language={language} />;
+  },
+  Result: DefaultToolResult,
+});
@@ -0,0 +1,74 @@
+/**
+ * Tool call renderers
+ */
+
+import { ToolRendererRegistry } from './registry';
+import {
+  executeCodeRenderer,
+  fileOperationsRenderer,
+  strReplaceEditorRenderer,
+} from './sandboxRenderers';
+import {
+  bashRenderer,
+  editRenderer,
+  globRenderer,
+  grepRenderer,
+  multiEditRenderer,
+  readRenderer,
+  taskRenderer,
+  todoWriteRenderer,
+  webFetchRenderer,
+  writeRenderer,
+} from './claudeCodeRenderers';
+
+export * from './registry';
+export * from './ToolViews';
+export { defaultToolRenderer, DefaultToolResult } from './defaultRenderer';
+export {
+  executeCodeRenderer,
+  fileOperationsRenderer,
+  strReplaceEditorRenderer,
+  bashRenderer,
+  editRenderer,
+  globRenderer,
+  grepRenderer,
+  multiEditRenderer,
+  readRenderer,
+  taskRenderer,
+  todoWriteRenderer,
+  webFetchRenderer,
+  writeRenderer,
+};
+
+/**
+ * Registry used by ToolFallback. Register renderers for your own tools here,
+ * before the app renders.
+ *
+ * @example
+ * ```tsx
+ * toolRenderers.register('mcp__github__*', {
+ *   Input: ({ input }) => <GitHubCall input={input} />,
+ * });
+ * ```
+ */
+export const toolRenderers = new ToolRendererRegistry();
+
+// Sandbox MCP tools
+toolRenderers.register(
+  'mcp__sandbox__str_replace_editor',
+  strReplaceEditorRenderer
+);
+toolRenderers.register('mcp__sandbox__execute_code', executeCodeRenderer);
+toolRenderers.register('mcp__sandbox__file_operations', fileOperationsRenderer);
+
+// Claude Code built-in tools
+toolRenderers.register('Bash', bashRenderer);
+toolRenderers.register('Edit', editRenderer);
+toolRenderers.register('MultiEdit', multiEditRenderer);
+toolRenderers.register('Write', writeRenderer);
+toolRenderers.register('Read', readRenderer);
+toolRenderers.register('Grep', grepRenderer);
+toolRenderers.register('Glob', globRenderer);
+toolRenderers.register('WebFetch', webFetchRenderer);
+toolRenderers.register('TodoWrite', todoWriteRenderer);
+toolRenderers.register('Task', taskRenderer);
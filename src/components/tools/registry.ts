@@ -0,0 +1,144 @@
+import { ComponentType } from 'react';
+
+export interface ToolInputProps<TInput = unknown> {
+  toolName: string;
+  input: TInput;
+  argsText: string;
+}
+
+export interface ToolResultProps<TInput = unknown, TResult = unknown> {
+  toolName: string;
+  input: TInput;
+  result: TResult;
+  /**
+   * Result as received, before parseResult
+   */
+  rawResult: unknown;
+  /**
+   * Whether the tool reported a failure
+   */
+  isError?: boolean;
+}
+
+/**
+ * Renders the input and result of a tool call.
+ *
+ * The parsers run before rendering; when either throws, the call is shown
+ * with the default JSON renderer instead.
+ */
+export interface ToolRenderer<TInput = unknown, TResult = unknown> {
+  /**
+   * Parses the tool input. Defaults to JSON.parse.
+   */
+  parseInput?: (argsText: string) => TInput;
+  /**
+   * Parses the tool result. Defaults to passing it through as is.
+   */
+  parseResult?: (result: unknown, input: TInput) => TResult;
+  Input: ComponentType<ToolInputProps<TInput>>;
+  /**
+   * Defaults to the result pretty-printed as JSON or plain text
+   */
+  Result?: ComponentType<ToolResultProps<TInput, TResult>>;
+  /**
+   * Short description shown next to the tool name, e.g. the command run
+   */
+  summary?: (input: TInput) => string | undefined;
+  /**
+   * Show the call expanded instead of collapsed
+   */
+  defaultExpanded?: boolean;
+}
+
+/**
+ * Identity helper that infers a renderer's input and result types from its
+ * parsers.
+ */
+export function defineToolRenderer<TInput, TResult = unknown>(
+  renderer: ToolRenderer<TInput, TResult>
+): ToolRenderer<TInput, TResult> {
+  return renderer;
+}
+
+interface Registration {
+  pattern: string;
+  matcher: RegExp;
+  renderer: ToolRenderer;
+}
+
+/**
+ * Forgets a renderer's input and result types. Sound as long as its
+ * components only get values from its own parsers, as ToolFallback does.
+ */
+export function toUntypedToolRenderer<TInput, TResult>(
+  renderer: ToolRenderer<TInput, TResult>
+): ToolRenderer {
+  return renderer as unknown as ToolRenderer;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
+
+// Exact names beat globs; among globs, the one with more literal characters
+// is more specific
+function getSpecificity(pattern: string): number {
+  return pattern.includes('*')
+    ? pattern.replace(/\*/g, '').length
+    : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Maps tool names to renderers. A name can be exact (`Bash`) or a glob where
+ * `*` matches any characters (`mcp__github__*`). When several patterns match,
+ * the most specific wins, then the most recently registered.
+ */
+export class ToolRendererRegistry {
+  private registrations: Registration[] = [];
+
+  /**
+   * Registers a renderer for a tool name or glob, replacing any renderer
+   * registered for the same pattern.
+   *
+   * @returns A function that removes the registration
+   */
+  register<TInput, TResult>(
+    pattern: string,
+    renderer: ToolRenderer<TInput, TResult>
+  ): () => void {
+    this.registrations = this.registrations.filter(
+      (registration) => registration.pattern !== pattern
+    );
+    const registration: Registration = {
+      pattern,
+      matcher: globToRegExp(pattern),
+      renderer: toUntypedToolRenderer(renderer),
+    };
+    this.registrations.push(registration);
+
+    return () => {
+      this.registrations = this.registrations.filter((r) => r !== registration);
+    };
+  }
+
+  /**
+   * Finds the renderer for a tool, or undefined when none matches.
+   */
+  resolve(toolName: string): ToolRenderer | undefined {
+    let best: Registration | undefined;
+    for (const registration of this.registrations) {
+      if (!registration.matcher.test(toolName)) continue;
+      if (
+        !best ||
+        getSpecificity(registration.pattern) >= getSpecificity(best.pattern)
+      ) {
+        best = registration;
+      }
+    }
+    return best?.renderer;
+  }
+}
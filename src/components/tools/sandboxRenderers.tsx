@@ -0,0 +1,146 @@
+import { defineToolRenderer } from './registry';
+import { ToolCodeView, ToolDiffView, ToolFilePath } from './ToolViews';
+import { DefaultToolResult } from './defaultRenderer';
+import { getLanguageFromPath } from '@/utils/languageDetection';
+import { formatToolData } from '@/utils/toolData';
+import {
+  FileOperationsInput,
+  StrReplaceEditorInput,
+} from '@/utils/sessionComparison';
+
+/**
+ * Parses a JSON result (or takes an already parsed one) as an object whose
+ * fields still need checking. Throws on malformed JSON.
+ */
+function parseResultObject(result: unknown): Record<string, unknown> | null {
+  const data: unknown =
+    typeof result === 'string' ? JSON.parse(result) : result;
+  return data && typeof data === 'object'
+    ? (data as Record<string, unknown>)
+    : null;
+}
+
+const getString = (
+  data: Record<string, unknown> | null,
+  key: string
+): string | undefined =>
+  typeof data?.[key] === 'string' ? (data[key] as string) : undefined;
+
+/**
+ * mcp__sandbox__str_replace_editor: replacements as a diff of the old and
+ * new strings, and the whole file as a diff when the result includes it
+ */
+export const strReplaceEditorRenderer = defineToolRenderer({
+  parseInput: (argsText): StrReplaceEditorInput => JSON.parse(argsText),
+  parseResult: (result) => {
+    try {
+      const data = parseResultObject(result);
+      const original = getString(data, 'old_content');
+      const modified =
+        getString(data, 'new_content') || getString(data, 'output');
+      if (original && modified) {
+        return { original, modified };
+      }
+    } catch {
+      // Plain text result
+    }
+    return null;
+  },
+  Input: ({ input, argsText }) => (
+    <>
+      <ToolFilePath path={input.path} />
+      {input.command === 'str_replace' && input.old_str && input.new_str ? (
+        <ToolDiffView
+          original={input.old_str}
+          modified={input.new_str}
+          language={getLanguageFromPath(input.path)}
+        />
+      ) : (
+        <ToolCodeView {...toCodeViewProps(argsText)} />
+      )}
+    </>
+  ),
+  Result: ({ input, result, rawResult }) =>
+    result ? (
+      <ToolDiffView
+        original={result.original}
+        modified={result.modified}
+        language={getLanguageFromPath(input.path)}
+      />
+    ) : (
+      <ToolCodeView
+        value={
+          typeof rawResult === 'string'
+            ? rawResult
+            : JSON.stringify(rawResult, null, 2)
+        }
+      />
+    ),
+});
+
+/**
+ * mcp__sandbox__execute_code: the code in its language, and the combined
+ * stdout and stderr
+ */
+export const executeCodeRenderer = defineToolRenderer({
+  parseInput: (argsText): { code?: string; language?: string } =>
+    JSON.parse(argsText),
+  parseResult: (result) => {
+    const data = parseResultObject(result);
+    if (!data) return null;
+    const output = [
+      getString(data, 'stdout'),
+      getString(data, 'stderr'),
+    ].filter(Boolean);
+    return output.join('\n') || 'No output';
+  },
+  Input: ({ input, argsText }) =>
+    input.code && input.language ? (
+      <ToolCodeView value={input.code} language={input.language} />
+    ) : (
+      <ToolCodeView value={argsText} />
+    ),
+  Result: ({ result, rawResult }) =>
+    result === null ? (
+      <DefaultToolResult rawResult={rawResult} />
+    ) : (
+      <ToolCodeView value={result} />
+    ),
+});
+
+/**
+ * mcp__sandbox__file_operations: file contents with line numbers for reads,
+ * JSON for everything else
+ */
+export const fileOperationsRenderer = defineToolRenderer({
+  parseInput: (argsText): FileOperationsInput => JSON.parse(argsText),
+  parseResult: (result) => {
+    const data = parseResultObject(result);
+    return { data, content: getString(data, 'content') };
+  },
+  Input: ({ input }) => (
+    <>
+      <ToolFilePath path={input.path} />
+      <ToolCodeView value={JSON.stringify(input, null, 2)} language="json" />
+    </>
+  ),
+  Result: ({ input, result }) =>
+    input.action === 'read' && result.content ? (
+      <ToolCodeView
+        value={result.content}
+        language={getLanguageFromPath(input.path)}
+        height="400px"
+        lineNumbers
+      />
+    ) : (
+      <ToolCodeView
+        value={JSON.stringify(result.data, null, 2)}
+        language="json"
+      />
+    ),
+});
+
+function toCodeViewProps(data: unknown) {
+  const { text, language } = formatToolData(data);
+  return { value: text, language };
+}
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { ModelPrice, PriceTable } from '@/utils/usageAnalytics';
+
+const priceFields: Array<{ key: keyof ModelPrice; label: string }> = [
+  { key: 'input', label: 'Input' },
+  { key: 'output', label: 'Output' },
+  { key: 'cacheRead', label: 'Cache read' },
+  { key: 'cacheWrite', label: 'Cache write' },
+];
+
+interface PriceTableEditorProps {
+  priceTable: PriceTable;
+  onChange: (model: string, price: ModelPrice) => void;
+  onRemove: (model: string) => void;
+  onReset: () => void;
+}
+
+/**
+ * Editable table of USD prices per million tokens, keyed by model prefix.
+ */
+export function PriceTableEditor({
+  priceTable,
+  onChange,
+  onRemove,
+  onReset,
+}: PriceTableEditorProps) {
+  const [newModel, setNewModel] = useState('');
+
+  const handleAdd = () => {
+    const model = newModel.trim();
+    if (!model || priceTable[model]) return;
+    onChange(model, { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 });
+    setNewModel('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Model prefix</TableHead>
+            {priceFields.map((field) => (
+              <TableHead key={field.key}>{field.label}</TableHead>
+            ))}
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {Object.entries(priceTable).map(([model, price]) => (
+            <TableRow key={model}>
+              <TableCell className="font-mono text-xs">{model}</TableCell>
+              {priceFields.map((field) => (
+                <TableCell key={field.key}>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={price[field.key]}
+                    onChange={(e) =>
+                      onChange(model, {
+                        ...price,
+                        [field.key]: Number(e.target.value) || 0,
+                      })
+                    }
+                    aria-label={`${model} ${field.label} price`}
+                    className="h-7 w-24 text-xs"
+                  />
+                </TableCell>
+              ))}
+              <TableCell>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 w-6 p-0"
+                  onClick={() => onRemove(model)}
+                  title={`Remove ${model}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <div className="flex items-center gap-2">
+        <Input
+          value={newModel}
+          onChange={(e) => setNewModel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          placeholder="Add model prefix, e.g. claude-sonnet-4"
+          className="h-7 text-xs max-w-xs"
+        />
+        <Button size="sm" variant="outline" onClick={handleAdd}>
+          <Plus className="w-3 h-3 mr-1" />
+          Add
+        </Button>
+        <div className="flex-1" />
+        <Button size="sm" variant="ghost" onClick={onReset}>
+          <RotateCcw className="w-3 h-3 mr-1" />
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { ChevronLeft, Loader2 } from 'lucide-react';
+import { Button } from '../ui/button';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '../ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '../ui/table';
+import { PriceTableEditor } from './PriceTableEditor';
+import { useInfiniteSessions } from '../../hooks/useSessions';
+import { useSessionConversations } from '../../hooks/useSessionConversations';
+import { usePriceTable } from '../../hooks/usePriceTable';
+import {
+  UsageTotals,
+  aggregateUsage,
+  getCacheHitRatio,
+  getTotalTokens,
+} from '@/utils/usageAnalytics';
+
+/**
+ * Number of most expensive sessions listed in the per-session table
+ */
+const TOP_SESSIONS = 20;
+
+/**
+ * Most sessions whose conversations are loaded for one view; each costs a
+ * prompts request plus one messages request per prompt
+ */
+export const MAX_USAGE_SESSIONS = 100;
+
+/**
+ * Selectable periods, in days
+ */
+const USAGE_RANGES = [7, 30, 90] as const;
+type UsageRange = (typeof USAGE_RANGES)[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const chartConfig = {
+  inputTokens: { label: 'Input', color: 'var(--chart-1)' },
+  outputTokens: { label: 'Output', color: 'var(--chart-2)' },
+  cacheReadInputTokens: { label: 'Cache read', color: 'var(--chart-3)' },
+  cacheCreationInputTokens: { label: 'Cache write', color: 'var(--chart-4)' },
+} satisfies ChartConfig;
+
+const formatTokens = (value: number) => value.toLocaleString();
+
+const formatCost = (totals: UsageTotals) =>
+  `$${totals.cost.toFixed(2)}${totals.hasUnpricedUsage ? '*' : ''}`;
+
+const formatRatio = (ratio: number | null) =>
+  ratio === null ? '–' : `${(ratio * 100).toFixed(1)}%`;
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="border rounded-lg p-4">
+      <p className="text-xs uppercase text-gray-500">{label}</p>
+      <p className="text-2xl font-semibold mt-1">{value}</p>
+    </div>
+  );
+}
+
+/**
+ * Token usage and estimated cost of the sessions started in a recent period,
+ * aggregated per day, repo, session and model from the conversations the
+ * client loads.
+ *
+ * There is no usage endpoint, so every session costs a few requests. Sessions
+ * are listed newest first and only the pages covering the period are loaded,
+ * capped at {@link MAX_USAGE_SESSIONS}.
+ */
+export function UsageDashboard() {
+  const navigate = useNavigate();
+  const [rangeDays, setRangeDays] = useState<UsageRange>(7);
+  const since = useMemo(() => Date.now() - rangeDays * DAY_MS, [rangeDays]);
+
+  const {
+    data,
+    isLoading: isLoadingSessions,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteSessions();
+  const loadedSessions = useMemo(() => data?.pages.flat() ?? [], [data]);
+  const oldestLoaded = loadedSessions[loadedSessions.length - 1];
+  const needsOlderSessions =
+    !!oldestLoaded &&
+    oldestLoaded.createdAt.getTime() >= since &&
+    loadedSessions.length < MAX_USAGE_SESSIONS;
+
+  // Pages are newest first: keep loading until one reaches past the period
+  useEffect(() => {
+    if (needsOlderSessions && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [needsOlderSessions, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const sessionsInRange = useMemo(
+    () =>
+      loadedSessions.filter((session) => session.createdAt.getTime() >= since),
+    [loadedSessions, since]
+  );
+  const sessions = useMemo(
+    () => sessionsInRange.slice(0, MAX_USAGE_SESSIONS),
+    [sessionsInRange]
+  );
+  const isCapped =
+    sessionsInRange.length > MAX_USAGE_SESSIONS ||
+    (sessions.length === MAX_USAGE_SESSIONS && !!hasNextPage);
+
+  const { conversations, isLoading: isLoadingConversations } =
+    useSessionConversations(sessions);
+  const { priceTable, setModelPrice, removeModel, resetPriceTable } =
+    usePriceTable();
+
+  const analytics = useMemo(
+    () => aggregateUsage(sessions, conversations, priceTable),
+    [sessions, conversations, priceTable]
+  );
+  const dailyData = analytics.byDay.map(({ day, usage }) => ({
+    day,
+    ...usage,
+  }));
+
+  return (
+    <div className="flex flex-col h-screen bg-white">
+      <div className="flex items-center gap-2 border-b p-3 flex-shrink-0">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => navigate('/')}
+          title="Back to sessions"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <h2 className="text-sm font-medium">Token usage</h2>
+        {(isLoadingSessions ||
+          isFetchingNextPage ||
+          isLoadingConversations) && (
+          <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+        )}
+        <div className="flex-1" />
+        <span className="text-xs text-gray-500">
+          Sessions started in the last
+        </span>
+        {USAGE_RANGES.map((days) => (
+          <Button
+            key={days}
+            size="sm"
+            variant={rangeDays === days ? 'secondary' : 'ghost'}
+            className="h-6 px-2 text-xs"
+            aria-pressed={rangeDays === days}
+            onClick={() => setRangeDays(days)}
+          >
+            {days} days
+          </Button>
+        ))}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto p-6 space-y-8">
+        {/* Totals */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          <StatCard
+            label="Total tokens"
+            value={formatTokens(getTotalTokens(analytics.totals.usage))}
+          />
+          <StatCard
+            label="Cache hit ratio"
+            value={formatRatio(getCacheHitRatio(analytics.totals.usage))}
+          />
+          <StatCard
+            label="Estimated cost"
+            value={formatCost(analytics.totals)}
+          />
+          <StatCard label="Sessions" value={String(sessions.length)} />
+        </div>
+        {isCapped && (
+          <p className="text-xs text-gray-500">
+            Showing the {MAX_USAGE_SESSIONS} most recent sessions of this
+            period.
+          </p>
+        )}
+        {analytics.totals.hasUnpricedUsage && (
+          <p className="text-xs text-gray-500">
+            * Excludes models missing from the price table below.
+          </p>
+        )}
+
+        {/* Per day */}
+        <section>
+          <h3 className="text-sm font-medium mb-2">Tokens per day</h3>
+          {dailyData.length > 0 ? (
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={dailyData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: number) =>
+                    Intl.NumberFormat(undefined, {
+                      notation: 'compact',
+                    }).format(value)
+                  }
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {Object.keys(chartConfig).map((key) => (
+                  <Bar
+                    key={key}
+                    dataKey={key}
+                    stackId="tokens"
+                    fill={`var(--color-${key})`}
+                  />
+                ))}
+              </BarChart>
+            </ChartContainer>
+          ) : (
+            <p className="text-sm text-gray-500">No usage recorded yet</p>
+          )}
+        </section>
+
+        {/* Per model */}
+        <section>
+          <h3 className="text-sm font-medium mb-2">Cost by model</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cache hit</TableHead>
+                <TableHead className="text-right">Estimated cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.byModel.map((row) => (
+                <TableRow key={row.model}>
+                  <TableCell className="font-mono text-xs">
+                    {row.model}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatTokens(getTotalTokens(row.usage))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRatio(getCacheHitRatio(row.usage))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.price ? formatCost(row) : 'No price'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+
+        {/* Per repo */}
+        <section>
+          <h3 className="text-sm font-medium mb-2">Usage by repository</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Repository</TableHead>
+                <TableHead className="text-right">Sessions</TableHead>
+                <TableHead className="text-right">Input</TableHead>
+                <TableHead className="text-right">Output</TableHead>
+                <TableHead className="text-right">Cache hit</TableHead>
+                <TableHead className="text-right">Estimated cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.byRepo.map((row) => (
+                <TableRow key={row.repo}>
+                  <TableCell>{row.repo}</TableCell>
+                  <TableCell className="text-right">
+                    {row.sessionCount}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatTokens(row.usage.inputTokens)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatTokens(row.usage.outputTokens)}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRatio(getCacheHitRatio(row.usage))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCost(row)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+
+        {/* Per session */}
+        <section>
+          <h3 className="text-sm font-medium mb-2">Most expensive sessions</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Session</TableHead>
+                <TableHead>Repository</TableHead>
+                <TableHead className="text-right">Tokens</TableHead>
+                <TableHead className="text-right">Cache hit</TableHead>
+                <TableHead className="text-right">Estimated cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {analytics.bySession.slice(0, TOP_SESSIONS).map((row) => (
+                <TableRow
+                  key={row.session.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/session/${row.session.id}`)}
+                >
+                  <TableCell className="max-w-xs truncate">
+                    {row.session.title}
+                  </TableCell>
+                  <TableCell>{row.session.repo}</TableCell>
+                  <TableCell className="text-right">
+                    {formatTokens(getTotalTokens(row.usage))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatRatio(getCacheHitRatio(row.usage))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCost(row)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+
+        {/* Prices */}
+        <section>
+          <h3 className="text-sm font-medium mb-1">Price table</h3>
+          <p className="text-xs text-gray-500 mb-2">
+            USD per million tokens. Models are matched by the longest prefix.
+          </p>
+          <PriceTableEditor
+            priceTable={priceTable}
+            onChange={setModelPrice}
+            onRemove={removeModel}
+            onReset={resetPriceTable}
+          />
+        </section>
+      </div>
+    </div>
+  );
+}
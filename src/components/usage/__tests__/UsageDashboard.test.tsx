@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { render } from '@/test/utils';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import { UsageDashboard } from '../UsageDashboard';
+import { BackendMessage } from '@/types/session';
+
+describe('UsageDashboard', () => {
+  const message: BackendMessage = {
+    type: 'assistant',
+    uuid: 'msg-1',
+    message: {
+      id: 'api-msg-1',
+      role: 'assistant',
+      model: 'claude-sonnet-4-5-20250929',
+      usage: {
+        input_tokens: 1000,
+        output_tokens: 2000,
+        cache_read_input_tokens: 3000,
+        cache_creation_input_tokens: 0,
+      },
+      content: [{ type: 'text', text: 'Done' }],
+    },
+    session_id: 'test-session-1',
+  };
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    // The mock sessions start on Jan 1-3, 2025
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-04T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should aggregate usage from session conversations', async () => {
+    const client = createMockBackendClient();
+    client.prompts.list = vi.fn().mockImplementation((sessionId: string) =>
+      Promise.resolve(
+        sessionId === 'test-session-1'
+          ? [
+              {
+                id: 'prompt-1',
+                sessionId,
+                content: 'Do it',
+                createdAt: new Date('2025-01-01T10:00:00Z'),
+                status: 'completed',
+              },
+            ]
+          : []
+      )
+    );
+    client.messages.list = vi.fn().mockResolvedValue([message]);
+
+    render(<UsageDashboard />, { client });
+
+    await waitFor(() => {
+      expect(screen.getAllByText('6,000').length).toBeGreaterThan(0);
+    });
+    expect(screen.getAllByText('75.0%').length).toBeGreaterThan(0);
+    // 1000 input at $3/M + 2000 output at $15/M + 3000 cache reads at $0.3/M
+    expect(screen.getAllByText('$0.03').length).toBeGreaterThan(0);
+    expect(
+      screen.getAllByText('claude-sonnet-4-5-20250929').length
+    ).toBeGreaterThan(0);
+  });
+
+  it('should only load conversations of sessions started in the period', async () => {
+    vi.setSystemTime(new Date('2025-01-09T12:00:00Z'));
+    const client = createMockBackendClient();
+
+    render(<UsageDashboard />, { client });
+
+    // Only Jan 3 is within the last 7 days
+    await waitFor(() =>
+      expect(client.prompts.list).toHaveBeenCalledWith(
+        'test-session-3',
+        expect.any(AbortSignal)
+      )
+    );
+    expect(client.prompts.list).toHaveBeenCalledTimes(1);
+
+    await userEvent.click(screen.getByRole('button', { name: '30 days' }));
+
+    await waitFor(() => expect(client.prompts.list).toHaveBeenCalledTimes(3));
+  });
+});
@@ -0,0 +1,137 @@
+import { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ChevronLeft, FileJson, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { SessionDetail } from '../SessionDetail';
+import { ApiProvider } from '../../providers/ApiProvider';
+import { StaticBackendClient } from '../../services/api';
+import { SessionBundle, parseSessionBundle } from '@/utils/sessionExport';
+
+/**
+ * Read-only transcript viewer for exported session bundles. A bundle is
+ * loaded by drag-and-drop or the file picker and rendered through the
+ * regular SessionDetail, backed by a StaticBackendClient, so it can be
+ * inspected without backend access.
+ */
+export function SessionViewer() {
+  const navigate = useNavigate();
+  const [bundle, setBundle] = useState<SessionBundle | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Each bundle gets its own cache so it never mixes with backend data
+  const viewer = useMemo(
+    () =>
+      bundle && {
+        client: new StaticBackendClient(bundle),
+        queryClient: new QueryClient({
+          defaultOptions: { queries: { staleTime: Infinity, retry: false } },
+        }),
+      },
+    [bundle]
+  );
+
+  const handleOpen = async (file: File) => {
+    try {
+      setBundle(parseSessionBundle(await file.text()));
+    } catch (error) {
+      toast.error('Failed to open bundle', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <div
+      className="flex flex-col h-screen bg-white"
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setIsDragging(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        const file = e.dataTransfer.files[0];
+        if (file) void handleOpen(file);
+      }}
+    >
+      <div className="flex items-center gap-2 border-b p-3 flex-shrink-0">
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0"
+          onClick={() => navigate('/')}
+          title="Back to sessions"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <h2 className="text-sm font-medium">Transcript viewer</h2>
+        {bundle && (
+          <>
+            <span className="text-xs text-gray-500">
+              Exported {new Date(bundle.exportedAt).toLocaleString()}
+            </span>
+            <div className="flex-1" />
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              onClick={() => setBundle(null)}
+            >
+              <X className="w-3 h-3 mr-1" />
+              Close
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {viewer && bundle ? (
+          <ApiProvider client={viewer.client}>
+            <QueryClientProvider client={viewer.queryClient}>
+              <SessionDetail session={bundle.session} readOnly />
+            </QueryClientProvider>
+          </ApiProvider>
+        ) : (
+          <div className="flex items-center justify-center h-full p-6">
+            <div
+              className={`w-full max-w-md border-2 border-dashed rounded-lg p-8 text-center space-y-3 transition-colors ${
+                isDragging ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+              }`}
+            >
+              <FileJson className="w-10 h-10 mx-auto text-gray-400" />
+              <p className="text-sm text-gray-600">
+                Drop a session bundle here to view its transcript
+              </p>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Choose file
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                data-testid="bundle-input"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleOpen(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ResponseError } from '@wholelottahoopla/prompt-backend-client';
 import { useCreatePrompt } from '../useMessages';
 import { ApiProvider } from '../../providers/ApiProvider';
+import { OutboxProvider } from '../../providers/OutboxProvider';
+import { MemoryOutboxStore } from '../../services/outbox';
 import React from 'react';
 
 const mockClient = {
@@ -68,4 +71,35 @@ describe('useCreatePrompt', () => {
 
     expect(result.current.error).toEqual(new Error('Network error'));
   });
+
+  it('should queue the prompt in the outbox when the backend is down', async () => {
+    mockClient.prompts.create.mockRejectedValue(
+      new ResponseError(new Response(null, { status: 503 }))
+    );
+    const store = new MemoryOutboxStore();
+    const queryClient = new QueryClient({
+      defaultOptions: { mutations: { retry: false } },
+    });
+    const outboxWrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={queryClient}>
+        <ApiProvider client={mockClient}>
+          <OutboxProvider store={store}>{children}</OutboxProvider>
+        </ApiProvider>
+      </QueryClientProvider>
+    );
+
+    const { result } = renderHook(() => useCreatePrompt('session-456'), {
+      wrapper: outboxWrapper,
+    });
+
+    result.current.mutate('Hello world');
+
+    await waitFor(async () => expect(await store.list()).toHaveLength(1));
+    const [item] = await store.list();
+    expect(item).toMatchObject({
+      sessionId: 'session-456',
+      content: 'Hello world',
+      status: 'queued',
+    });
+  });
 });
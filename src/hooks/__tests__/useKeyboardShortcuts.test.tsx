@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useKeyboardShortcuts } from '../useKeyboardShortcuts';
+
+const press = (
+  key: string,
+  init: { metaKey?: boolean; ctrlKey?: boolean } = {},
+  target?: Element
+) =>
+  (target ?? window).dispatchEvent(
+    new KeyboardEvent('keydown', { key, bubbles: true, ...init })
+  );
+
+describe('useKeyboardShortcuts', () => {
+  it('should run mod shortcuts with Cmd or Ctrl', () => {
+    const handler = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ 'mod+k': handler }));
+
+    press('k', { metaKey: true });
+    press('k', { ctrlKey: true });
+    press('k');
+
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore plain keys while typing', () => {
+    const handler = vi.fn();
+    renderHook(() => useKeyboardShortcuts({ j: handler }));
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    press('j', {}, input);
+    press('j');
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    input.remove();
+  });
+});
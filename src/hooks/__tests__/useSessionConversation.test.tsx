@@ -85,11 +85,20 @@ describe('useSessionConversation', () => {
 
       // CORRECT BEHAVIOR: messages.list should be called with promptId, not sessionId
       // First, prompts should be fetched
-      expect(mockClient.prompts.list).toHaveBeenCalledWith('session-123');
+      expect(mockClient.prompts.list).toHaveBeenCalledWith(
+        'session-123',
+        expect.any(AbortSignal)
+      );
 
       // Then messages should be fetched for ALL promptIds (not sessionId!)
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-1');
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-2');
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-1',
+        expect.any(AbortSignal)
+      );
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-2',
+        expect.any(AbortSignal)
+      );
       expect(mockClient.messages.list).toHaveBeenCalledTimes(2); // Once for each prompt
     });
 
@@ -166,9 +175,18 @@ describe('useSessionConversation', () => {
       expect(result.current.prompts).toHaveLength(3);
 
       // Verify messages.list was called for EACH prompt with correct promptId
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-1');
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-2');
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-3');
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-1',
+        expect.any(AbortSignal)
+      );
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-2',
+        expect.any(AbortSignal)
+      );
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-3',
+        expect.any(AbortSignal)
+      );
       expect(mockClient.messages.list).toHaveBeenCalledTimes(3);
 
       // Verify all messages from all prompts are combined
@@ -215,7 +233,10 @@ describe('useSessionConversation', () => {
       });
 
       // Should call with promptId from the prompts, not sessionId
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-1');
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-1',
+        expect.any(AbortSignal)
+      );
 
       // Change session ID
       mockClient.messages.list = vi.fn().mockResolvedValue([]);
@@ -226,7 +247,10 @@ describe('useSessionConversation', () => {
       rerender({ sessionId: 'session-456' });
 
       await waitFor(() => {
-        expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-456');
+        expect(mockClient.messages.list).toHaveBeenCalledWith(
+          'prompt-456',
+          expect.any(AbortSignal)
+        );
       });
     });
   });
@@ -243,7 +267,10 @@ describe('useSessionConversation', () => {
 
       expect(result.current.data).toEqual(mockBackendMessages);
       // Should be called with promptId, not sessionId
-      expect(mockClient.messages.list).toHaveBeenCalledWith('prompt-123');
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'prompt-123',
+        expect.any(AbortSignal)
+      );
     });
 
     it('should handle different message types correctly', async () => {
@@ -336,7 +363,10 @@ describe('useSessionConversation', () => {
       });
 
       expect(result.current.data).toEqual(mockPrompts);
-      expect(mockClient.prompts.list).toHaveBeenCalledWith('session-123');
+      expect(mockClient.prompts.list).toHaveBeenCalledWith(
+        'session-123',
+        expect.any(AbortSignal)
+      );
     });
 
     it('should return empty array when no prompts exist', async () => {
@@ -412,7 +442,10 @@ describe('useSessionConversation', () => {
       );
 
       // This demonstrates the bug - we're calling with sessionId
-      expect(mockClient.messages.list).toHaveBeenCalledWith('session-123');
+      expect(mockClient.messages.list).toHaveBeenCalledWith(
+        'session-123',
+        expect.any(AbortSignal)
+      );
       // But the backend expects promptId, not sessionId
       // This is why we get "Required parameter 'promptId' was null or undefined"
     });
@@ -430,7 +463,10 @@ describe('useSessionConversation', () => {
       );
 
       // Prompts correctly use sessionId
-      expect(mockClient.prompts.list).toHaveBeenCalledWith('session-123');
+      expect(mockClient.prompts.list).toHaveBeenCalledWith(
+        'session-123',
+        expect.any(AbortSignal)
+      );
     });
 
     it('demonstrates the correct flow: session → prompts → messages', async () => {
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { TestProviders, createTestQueryClient } from '@/test/utils';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import {
+  mockMessagesForPrompt1,
+  mockPrompts,
+  mockSession,
+} from '@/test/mockData';
+import { useSessionConversations } from '../useSessionConversations';
+
+describe('useSessionConversations', () => {
+  const sessions = [mockSession];
+
+  const setup = () => {
+    const client = createMockBackendClient();
+    vi.mocked(client.prompts.list).mockResolvedValue(mockPrompts);
+    vi.mocked(client.messages.list).mockResolvedValue(mockMessagesForPrompt1);
+    const queryClient = createTestQueryClient();
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <TestProviders client={client} queryClient={queryClient}>
+        {children}
+      </TestProviders>
+    );
+    return { client, queryClient, wrapper };
+  };
+
+  it('should build the conversation of each session', async () => {
+    const { wrapper } = setup();
+    const { result } = renderHook(() => useSessionConversations(sessions), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    const conversation = result.current.conversations.get(mockSession.id);
+    expect(conversation).toHaveLength(mockPrompts.length);
+    expect(conversation?.[0]).toMatchObject({
+      type: 'prompt',
+      messages: mockMessagesForPrompt1,
+    });
+  });
+
+  it('should keep the conversations while their data is unchanged', async () => {
+    const { queryClient, wrapper } = setup();
+    const { result, rerender } = renderHook(
+      () => useSessionConversations(sessions),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    const { conversations } = result.current;
+
+    rerender();
+    expect(result.current.conversations).toBe(conversations);
+
+    await queryClient.refetchQueries();
+    expect(result.current.conversations).toBe(conversations);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import {
+  InfiniteData,
+  QueryClient,
+  QueryClientProvider,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+import React from 'react';
+import {
+  useArchiveSession,
+  useCreateSession,
+  useDeleteSession,
+  useUpdateSession,
+} from '../useSessionMutations';
+import { queryKeys } from '../queryKeys';
+import { ApiProvider } from '../../providers/ApiProvider';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import { mockSession } from '@/test/mockData';
+import { Session } from '@/types/session';
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const mockClient = createMockBackendClient();
+
+const subtask: Session = {
+  ...mockSession,
+  id: 'subtask-1',
+  title: 'Write the tests',
+  parentId: mockSession.id,
+};
+const other: Session = { ...mockSession, id: 'other', title: 'Other task' };
+
+const listParams = { uiStatus: ['InProgress' as const], limit: 20 };
+const infiniteKey = queryKeys.sessions.infinite(listParams);
+const archivedKey = queryKeys.sessions.list({ archived: true });
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+describe('useSessionMutations', () => {
+  let queryClient: QueryClient;
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>
+      <ApiProvider client={mockClient}>{children}</ApiProvider>
+    </QueryClientProvider>
+  );
+
+  const getListedIds = () =>
+    queryClient
+      .getQueryData<InfiniteData<Session[]>>(infiniteKey)
+      ?.pages.flat()
+      .map((session) => session.id);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false },
+        mutations: { retry: false },
+      },
+    });
+    queryClient.setQueryData(queryKeys.sessions.detail(mockSession.id), {
+      ...mockSession,
+    });
+    queryClient.setQueryData<InfiniteData<Session[]>>(infiniteKey, {
+      pages: [[mockSession, subtask], [other]],
+      pageParams: [undefined, 'subtask-1'],
+    });
+    queryClient.setQueryData<Session[]>(archivedKey, []);
+  });
+
+  it('should show title edits before the server answers and keep its response', async () => {
+    const response = deferred<Session>();
+    vi.mocked(mockClient.sessions.update).mockReturnValue(response.promise);
+    const { result } = renderHook(() => useUpdateSession(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ id: mockSession.id, data: { title: 'Renamed' } });
+    });
+
+    await waitFor(() =>
+      expect(
+        queryClient.getQueryData<Session>(
+          queryKeys.sessions.detail(mockSession.id)
+        )?.title
+      ).toBe('Renamed')
+    );
+    expect(
+      queryClient.getQueryData<InfiniteData<Session[]>>(infiniteKey)
+        ?.pages[0][0].title
+    ).toBe('Renamed');
+
+    await act(async () => {
+      response.resolve({ ...mockSession, title: 'Renamed by server' });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(
+      queryClient.getQueryData<Session>(
+        queryKeys.sessions.detail(mockSession.id)
+      )?.title
+    ).toBe('Renamed by server');
+    expect(
+      queryClient.getQueryData<InfiniteData<Session[]>>(infiniteKey)
+        ?.pages[0][0].title
+    ).toBe('Renamed by server');
+  });
+
+  it('should drop archived sessions from filtered lists and restore them on error', async () => {
+    const response = deferred<Session>();
+    vi.mocked(mockClient.sessions.archive).mockReturnValue(response.promise);
+    const { result } = renderHook(() => useArchiveSession(), { wrapper });
+
+    act(() => {
+      result.current.mutate(other.id);
+    });
+
+    await waitFor(() =>
+      expect(getListedIds()).toEqual([mockSession.id, subtask.id])
+    );
+
+    await act(async () => {
+      response.reject(new Error('Network error'));
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(getListedIds()).toEqual([mockSession.id, subtask.id, other.id]);
+    expect(toast.error).toHaveBeenCalledWith(
+      'Failed to archive task',
+      expect.anything()
+    );
+  });
+
+  it('should remove deleted sessions with their subtasks', async () => {
+    vi.mocked(mockClient.sessions.delete).mockResolvedValue(undefined);
+    const { result } = renderHook(() => useDeleteSession(), { wrapper });
+
+    act(() => {
+      result.current.mutate(mockSession.id);
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(getListedIds()).toEqual([other.id]);
+    expect(
+      queryClient.getQueryData(queryKeys.sessions.detail(mockSession.id))
+    ).toBeUndefined();
+  });
+
+  it('should add created sessions only to cached lists they match', async () => {
+    const created: Session = {
+      ...mockSession,
+      id: 'created',
+      createdAt: new Date('2030-01-01'),
+    };
+    const pendingKey = queryKeys.sessions.list({ parentId: null });
+    queryClient.getQueryCache().build(queryClient, { queryKey: pendingKey });
+    vi.mocked(mockClient.sessions.create).mockResolvedValue(created);
+    const { result } = renderHook(() => useCreateSession(), { wrapper });
+
+    act(() => {
+      result.current.mutate({
+        repo: created.repo,
+        targetBranch: 'main',
+        messages: [],
+      });
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(getListedIds()).toEqual([
+      created.id,
+      mockSession.id,
+      subtask.id,
+      other.id,
+    ]);
+    expect(queryClient.getQueryData(archivedKey)).toEqual([]);
+    expect(queryClient.getQueryData(pendingKey)).toBeUndefined();
+  });
+});
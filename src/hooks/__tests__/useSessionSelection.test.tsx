@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useSessionSelection } from '../useSessionSelection';
+
+const click = { shiftKey: false, metaKey: true, ctrlKey: false };
+const shiftClick = { shiftKey: true, metaKey: false, ctrlKey: false };
+
+describe('useSessionSelection', () => {
+  const ids = ['a', 'b', 'c', 'd', 'e'];
+
+  it('should toggle sessions on click', () => {
+    const { result } = renderHook(() => useSessionSelection(ids));
+
+    act(() => result.current.select('b', click));
+    act(() => result.current.select('d', click));
+    expect(result.current.selectedIds).toEqual(['b', 'd']);
+
+    act(() => result.current.select('b', click));
+    expect(result.current.selectedIds).toEqual(['d']);
+  });
+
+  it('should select a range on shift-click', () => {
+    const { result } = renderHook(() => useSessionSelection(ids));
+
+    act(() => result.current.select('d', click));
+    act(() => result.current.select('b', shiftClick));
+
+    expect(result.current.selectedIds).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should ignore sessions that are no longer listed', () => {
+    const { result, rerender } = renderHook(
+      ({ ids }) => useSessionSelection(ids),
+      { initialProps: { ids } }
+    );
+
+    act(() => result.current.selectAll());
+    rerender({ ids: ['a', 'c'] });
+
+    expect(result.current.selectedIds).toEqual(['a', 'c']);
+  });
+});
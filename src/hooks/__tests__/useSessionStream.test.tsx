@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { ReactNode } from 'react';
+import { TestProviders, createTestQueryClient } from '@/test/utils';
+import { FakeStreamServer } from '@/test/fakeStreamServer';
+import { BackendClientImpl } from '@/services/api/backendClient';
+import { HttpClient } from '@/services/http/types';
+import { useSessionConversation } from '../useMessages';
+
+const STREAM_PATH = '/api/sessions/session-1/stream';
+
+const ok = (data: any) => ({
+  data,
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+});
+
+describe('useSessionStream', () => {
+  let server: FakeStreamServer;
+  let httpClient: HttpClient;
+  let queryClient: ReturnType<typeof createTestQueryClient>;
+
+  beforeEach(() => {
+    server = new FakeStreamServer();
+    queryClient = createTestQueryClient();
+    httpClient = {
+      get: vi.fn().mockImplementation((url: string) => {
+        if (url === '/api/sessions/session-1/prompts') {
+          return Promise.resolve(
+            ok([
+              {
+                id: 'prompt-1',
+                session_id: 'session-1',
+                content: 'Fix the tests',
+                status: 'processing',
+                created_at: '2025-01-01T10:00:00Z',
+              },
+            ])
+          );
+        }
+        return Promise.resolve(ok([]));
+      }),
+      post: vi.fn(),
+      put: vi.fn(),
+      patch: vi.fn(),
+      delete: vi.fn(),
+    };
+  });
+
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <TestProviders
+      client={new BackendClientImpl(httpClient, server)}
+      queryClient={queryClient}
+    >
+      {children}
+    </TestProviders>
+  );
+
+  it('subscribes to the session stream and reports it as streaming', async () => {
+    const { result } = renderHook(() => useSessionConversation('session-1'), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    expect(server.connectionCount(STREAM_PATH)).toBe(1);
+    expect(result.current.isStreaming).toBe(true);
+  });
+
+  it('writes pushed messages into the conversation cache', async () => {
+    const { result } = renderHook(() => useSessionConversation('session-1'), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.conversation).toHaveLength(1));
+
+    act(() => {
+      server.send(STREAM_PATH, {
+        type: 'message',
+        prompt_id: 'prompt-1',
+        message: {
+          id: 'row-1',
+          prompt_id: 'prompt-1',
+          data: {
+            type: 'assistant',
+            uuid: 'msg-1',
+            session_id: 'session-1',
+            message: {
+              role: 'assistant',
+              content: [{ type: 'text', text: 'Working on it' }],
+            },
+          },
+        },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.conversation[0]).toMatchObject({
+        type: 'prompt',
+        messages: [{ uuid: 'msg-1' }],
+      });
+    });
+  });
+
+  it('updates prompt status from pushed prompt events', async () => {
+    const { result } = renderHook(() => useSessionConversation('session-1'), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.prompts).toHaveLength(1));
+
+    act(() => {
+      server.send(STREAM_PATH, {
+        type: 'prompt',
+        prompt: {
+          id: 'prompt-1',
+          session_id: 'session-1',
+          content: 'Fix the tests',
+          status: 'completed',
+          created_at: '2025-01-01T10:00:00Z',
+        },
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.prompts[0].status).toBe('completed');
+    });
+  });
+
+  it('falls back to polling when the stream drops and refetches on reconnect', async () => {
+    const { result } = renderHook(() => useSessionConversation('session-1'), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(result.current.isStreaming).toBe(true));
+
+    act(() => server.drop(STREAM_PATH));
+    expect(result.current.isStreaming).toBe(false);
+
+    vi.mocked(httpClient.get).mockClear();
+    act(() => server.open(STREAM_PATH));
+
+    expect(result.current.isStreaming).toBe(true);
+    await waitFor(() => {
+      expect(httpClient.get).toHaveBeenCalledWith(
+        '/api/sessions/session-1/prompts',
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+  });
+
+  it('closes the stream on unmount', async () => {
+    const { unmount } = renderHook(() => useSessionConversation('session-1'), {
+      wrapper,
+    });
+
+    await waitFor(() => expect(server.connectionCount(STREAM_PATH)).toBe(1));
+    unmount();
+
+    expect(server.connectionCount(STREAM_PATH)).toBe(0);
+  });
+});
@@ -5,5 +5,16 @@
 export * from './queryKeys';
 export * from './useSessions';
 export * from './useSessionMutations';
+export * from './useSessionSelection';
+export * from './useBulkSessionOperation';
 export * from './useMessages';
+export * from './useSessionStream';
+export * from './useQueuedPrompts';
+export * from './useQueuedSubtasks';
+export * from './useSessionConversations';
+export * from './useSessionSearch';
+export * from './useKeyboardShortcuts';
+export * from './usePriceTable';
+export * from './usePromptTemplates';
 export * from './useGitHubBranches';
+export * from './useSeenCursors';
@@ -11,6 +11,10 @@ export const queryKeys = {
     lists: () => [...queryKeys.sessions.all, 'list'] as const,
     list: (params?: ListSessionsParams) =>
       [...queryKeys.sessions.lists(), params] as const,
+    infinite: (params?: ListSessionsParams) =>
+      [...queryKeys.sessions.lists(), 'infinite', params] as const,
+    subtasks: (id: string) =>
+      [...queryKeys.sessions.all, 'subtasks', id] as const,
     details: () => [...queryKeys.sessions.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.sessions.details(), id] as const,
   },
@@ -30,4 +34,16 @@ export const queryKeys = {
     list: (sessionId: string) =>
       [...queryKeys.messages.lists(), sessionId] as const,
   },
+
+  // Prompt template query keys
+  templates: {
+    all: ['templates'] as const,
+    list: () => [...queryKeys.templates.all, 'list'] as const,
+  },
+
+  // Seen cursor query keys
+  seen: {
+    all: ['seen'] as const,
+    list: () => [...queryKeys.seen.all, 'list'] as const,
+  },
 } as const;
@@ -4,6 +4,7 @@ import type { ExternalStoreAdapter } from '@assistant-ui/react';
 import { ConversationItem } from './useMessages';
 import { convertConversationToThreadMessages } from '@/utils/assistantUiAdapter';
 import { useCreatePrompt } from './useMessages';
+import { useQueuedPrompts } from './useQueuedPrompts';
 
 export function useAssistantRuntime(
   sessionId: string,
@@ -11,10 +12,11 @@ export function useAssistantRuntime(
   isLoading: boolean
 ) {
   const createPrompt = useCreatePrompt(sessionId);
+  const queued = useQueuedPrompts(sessionId);
 
   const messages = useMemo(
-    () => convertConversationToThreadMessages(conversation),
-    [conversation]
+    () => convertConversationToThreadMessages(conversation, queued),
+    [conversation, queued]
   );
 
   const adapter: ExternalStoreAdapter = useMemo(
@@ -0,0 +1,139 @@
+import { useCallback, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useApi } from '../providers/ApiProvider';
+import { Session } from '../types/session';
+import {
+  BulkProgress,
+  BulkResult,
+  applyTitlePattern,
+  runBulkOperation,
+} from '../utils/bulkOperations';
+import { queryKeys } from './queryKeys';
+
+export type BulkAction =
+  | { type: 'archive' }
+  | { type: 'unarchive' }
+  | { type: 'delete' }
+  | { type: 'retitle'; pattern: string }
+  | { type: 'prompt'; content: string };
+
+export interface BulkOperationState extends BulkProgress {
+  action: BulkAction['type'];
+  isRunning: boolean;
+}
+
+const actionLabels: Record<BulkAction['type'], string> = {
+  archive: 'archive',
+  unarchive: 'unarchive',
+  delete: 'delete',
+  retitle: 'rename',
+  prompt: 'send the prompt to',
+};
+
+const pluralize = (count: number) => `${count} task${count === 1 ? '' : 's'}`;
+
+/**
+ * Hook to run one action across many sessions, e.g. the sidebar selection.
+ *
+ * Features:
+ * - Runs a few requests at a time and reports progress
+ * - Keeps going when some sessions fail and reports their IDs
+ * - Refreshes session lists once, after the whole batch
+ *
+ * @example
+ * ```tsx
+ * const bulk = useBulkSessionOperation();
+ *
+ * const result = await bulk.run({ type: 'archive' }, selectedSessions);
+ * console.log(result.failed.map((failure) => failure.id));
+ * ```
+ */
+export function useBulkSessionOperation() {
+  const api = useApi();
+  const queryClient = useQueryClient();
+  const [state, setState] = useState<BulkOperationState | null>(null);
+
+  const run = useCallback(
+    async (action: BulkAction, sessions: Session[]): Promise<BulkResult> => {
+      const indexes = new Map(sessions.map((s, index) => [s.id, index]));
+      const byId = new Map(sessions.map((s) => [s.id, s]));
+
+      const operation = (id: string): Promise<unknown> => {
+        switch (action.type) {
+          case 'archive':
+            return api.sessions.archive(id);
+          case 'unarchive':
+            return api.sessions.unarchive(id);
+          case 'delete':
+            return api.sessions.delete(id);
+          case 'retitle':
+            return api.sessions.update(id, {
+              title: applyTitlePattern(
+                action.pattern,
+                byId.get(id)!,
+                indexes.get(id)!
+              ),
+            });
+          case 'prompt':
+            return api.prompts.create(id, action.content);
+        }
+      };
+
+      setState({
+        action: action.type,
+        isRunning: true,
+        total: sessions.length,
+        completed: 0,
+        failed: [],
+      });
+
+      const result = await runBulkOperation(
+        sessions.map((s) => s.id),
+        operation,
+        (progress) =>
+          setState({ action: action.type, isRunning: true, ...progress })
+      );
+
+      setState({
+        action: action.type,
+        isRunning: false,
+        total: sessions.length,
+        completed: sessions.length,
+        failed: result.failed,
+      });
+
+      if (action.type === 'delete') {
+        result.succeeded.forEach((id) =>
+          queryClient.removeQueries({ queryKey: queryKeys.sessions.detail(id) })
+        );
+      }
+      if (action.type === 'prompt') {
+        result.succeeded.forEach((id) =>
+          queryClient.invalidateQueries({
+            queryKey: queryKeys.prompts.list(id),
+          })
+        );
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.sessions.all });
+
+      if (result.failed.length === 0) {
+        toast.success(`Done: ${pluralize(result.succeeded.length)}`);
+      } else {
+        toast.error(
+          `Failed to ${actionLabels[action.type]} ${pluralize(result.failed.length)}`,
+          {
+            description: result.failed.map((failure) => failure.id).join(', '),
+          }
+        );
+      }
+
+      return result;
+    },
+    [api, queryClient]
+  );
+
+  const reset = useCallback(() => setState(null), []);
+
+  return { state, run, reset };
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Handlers keyed by shortcut, e.g. `mod+k` (Cmd on macOS, Ctrl elsewhere)
+ * or a plain key like `j`
+ */
+export type ShortcutHandlers = Record<string, (event: KeyboardEvent) => void>;
+
+/**
+ * Whether the event comes from a field the user is typing in, where plain
+ * key shortcuts must not fire.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target.getAttribute('role') === 'combobox' ||
+    !!target.closest('.monaco-editor')
+  );
+}
+
+function getShortcut(event: KeyboardEvent): string {
+  const key = event.key.toLowerCase();
+  return event.metaKey || event.ctrlKey ? `mod+${key}` : key;
+}
+
+/**
+ * Hook to register global keyboard shortcuts.
+ *
+ * `mod+` shortcuts fire everywhere; plain keys are ignored while typing in
+ * an input, textarea or editor, and when Alt is held.
+ *
+ * @example
+ * ```tsx
+ * useKeyboardShortcuts({
+ *   'mod+k': () => setPaletteOpen(true),
+ *   j: () => selectNext(),
+ * });
+ * ```
+ */
+export function useKeyboardShortcuts(handlers: ShortcutHandlers) {
+  // Read the latest handlers without re-registering the listener
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.altKey) return;
+
+      const shortcut = getShortcut(event);
+      const handler = handlersRef.current[shortcut];
+      if (!handler) return;
+      if (!shortcut.startsWith('mod+') && isEditableTarget(event.target)) {
+        return;
+      }
+
+      event.preventDefault();
+      handler(event);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
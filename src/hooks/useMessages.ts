@@ -7,10 +7,18 @@ import {
   UseMutationOptions,
 } from '@tanstack/react-query';
 import { useApi } from '../providers/ApiProvider';
+import { useOutbox } from '../providers/OutboxProvider';
+import { isTransientApiError } from '../utils/apiErrorHandler';
 import { Message, BackendMessage, Prompt } from '../types/session';
 import { queryKeys } from './queryKeys';
 import { toast } from 'sonner';
 import { useMemo } from 'react';
+import { useSessionStream } from './useSessionStream';
+
+/**
+ * Polling interval used when no real-time stream is available
+ */
+export const POLL_INTERVAL_MS = 2000;
 
 /**
  * Hook to fetch messages for a specific prompt with polling.
@@ -31,9 +39,9 @@ export function useMessages(
 
   return useQuery({
     queryKey: queryKeys.messages.list(promptId),
-    queryFn: () => api.messages.list(promptId),
+    queryFn: ({ signal }) => api.messages.list(promptId, signal),
     enabled: !!promptId,
-    refetchInterval: 2000, // Poll every 2 seconds
+    refetchInterval: POLL_INTERVAL_MS, // Poll every 2 seconds
     refetchIntervalInBackground: true, // Continue polling when tab is not focused
     ...options,
   });
@@ -148,6 +156,7 @@ export function useCreateMessage(
  * Features:
  * - Automatically invalidates prompt cache
  * - Shows success/error toasts
+ * - Queues the prompt in the outbox when the backend is unreachable
  *
  * @example
  * ```tsx
@@ -164,6 +173,7 @@ export function useCreatePrompt(
 ) {
   const api = useApi();
   const queryClient = useQueryClient();
+  const outbox = useOutbox();
 
   return useMutation({
     mutationFn: (content: string) => api.prompts.create(sessionId, content),
@@ -178,13 +188,110 @@ export function useCreatePrompt(
     },
     onError: (error, content, context) => {
       console.error('Failed to send message:', error);
-      toast.error('Failed to send message');
+      if (outbox && isTransientApiError(error)) {
+        void outbox.enqueue(sessionId, content, error);
+        toast.info('Message queued', {
+          description: 'It will be sent when the backend is reachable again.',
+        });
+      } else {
+        toast.error('Failed to send message');
+      }
       options?.onError?.(error, content, context);
     },
     ...options,
   });
 }
 
+/**
+ * Replaces a prompt in its session's prompt list with the version returned
+ * by the backend, so its new status shows before the next refetch
+ */
+function useUpdatePromptInCache(sessionId: string) {
+  const queryClient = useQueryClient();
+
+  return (prompt: Prompt) => {
+    queryClient.setQueryData<Prompt[]>(
+      queryKeys.prompts.list(sessionId),
+      (prompts) =>
+        prompts?.map((existing) =>
+          existing.id === prompt.id ? prompt : existing
+        )
+    );
+    queryClient.invalidateQueries({
+      queryKey: queryKeys.prompts.list(sessionId),
+    });
+  };
+}
+
+/**
+ * Hook to cancel a pending or processing prompt.
+ *
+ * @example
+ * ```tsx
+ * const cancelPrompt = useCancelPrompt('session-123');
+ * cancelPrompt.mutate('prompt-456');
+ * ```
+ */
+export function useCancelPrompt(
+  sessionId: string,
+  options?: Omit<UseMutationOptions<Prompt, Error, string>, 'mutationFn'>
+) {
+  const api = useApi();
+  const updatePromptInCache = useUpdatePromptInCache(sessionId);
+
+  return useMutation({
+    mutationFn: (promptId: string) => api.prompts.cancel(promptId),
+    onSuccess: (prompt, promptId, onMutateResult, context) => {
+      updatePromptInCache(prompt);
+      toast.success('Prompt cancelled');
+      options?.onSuccess?.(prompt, promptId, onMutateResult, context);
+    },
+    onError: (error, promptId, onMutateResult, context) => {
+      console.error('Failed to cancel prompt:', error);
+      toast.error('Failed to cancel prompt');
+      options?.onError?.(error, promptId, onMutateResult, context);
+    },
+    ...options,
+  });
+}
+
+/**
+ * Hook to run a failed prompt again. Its messages are refetched, since the
+ * backend replaces them.
+ *
+ * @example
+ * ```tsx
+ * const retryPrompt = useRetryPrompt('session-123');
+ * retryPrompt.mutate('prompt-456');
+ * ```
+ */
+export function useRetryPrompt(
+  sessionId: string,
+  options?: Omit<UseMutationOptions<Prompt, Error, string>, 'mutationFn'>
+) {
+  const api = useApi();
+  const queryClient = useQueryClient();
+  const updatePromptInCache = useUpdatePromptInCache(sessionId);
+
+  return useMutation({
+    mutationFn: (promptId: string) => api.prompts.retry(promptId),
+    onSuccess: (prompt, promptId, onMutateResult, context) => {
+      updatePromptInCache(prompt);
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.messages.list(promptId),
+      });
+      toast.success('Retrying prompt');
+      options?.onSuccess?.(prompt, promptId, onMutateResult, context);
+    },
+    onError: (error, promptId, onMutateResult, context) => {
+      console.error('Failed to retry prompt:', error);
+      toast.error('Failed to retry prompt');
+      options?.onError?.(error, promptId, onMutateResult, context);
+    },
+    ...options,
+  });
+}
+
 /**
  * Hook to fetch prompts for a specific session.
  *
@@ -204,9 +311,9 @@ export function usePrompts(
 
   return useQuery({
     queryKey: queryKeys.prompts.list(sessionId),
-    queryFn: () => api.prompts.list(sessionId),
+    queryFn: ({ signal }) => api.prompts.list(sessionId, signal),
     enabled: !!sessionId,
-    refetchInterval: 2000, // Poll every 2 seconds
+    refetchInterval: POLL_INTERVAL_MS, // Poll every 2 seconds
     refetchIntervalInBackground: true,
     ...options,
   });
@@ -219,6 +326,8 @@ export type ConversationItem =
 /**
  * Combined hook to fetch and format session conversation data.
  * Fetches prompts for a session, then fetches messages for each prompt.
+ * Updates arrive over the backend stream when available; polling is only
+ * used while the stream is unavailable or has dropped.
  *
  * @param sessionId - The session ID to fetch data for
  *
@@ -229,16 +338,21 @@ export type ConversationItem =
  */
 export function useSessionConversation(sessionId: string) {
   const api = useApi();
-  const { data: prompts = [], isLoading: promptsLoading } =
-    usePrompts(sessionId);
+  const { isStreaming } = useSessionStream(sessionId);
+  const pollInterval = isStreaming ? false : POLL_INTERVAL_MS;
+
+  const { data: prompts = [], isLoading: promptsLoading } = usePrompts(
+    sessionId,
+    { refetchInterval: pollInterval }
+  );
 
   // Fetch messages for ALL prompts in parallel
   const messageQueries = useQueries({
     queries: prompts.map((prompt) => ({
       queryKey: queryKeys.messages.list(prompt.id),
-      queryFn: () => api.messages.list(prompt.id),
+      queryFn: ({ signal }) => api.messages.list(prompt.id, signal),
       enabled: !!prompt.id,
-      refetchInterval: 2000,
+      refetchInterval: pollInterval,
       refetchIntervalInBackground: true,
     })),
   });
@@ -304,5 +418,6 @@ export function useSessionConversation(sessionId: string) {
     prompts,
     conversation,
     isLoading: promptsLoading || messagesLoading,
+    isStreaming,
   };
 }
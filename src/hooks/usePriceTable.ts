@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_PRICE_TABLE,
+  ModelPrice,
+  PriceTable,
+} from '../utils/usageAnalytics';
+
+const STORAGE_KEY = 'modelPriceTable';
+
+function loadPriceTable(): PriceTable {
+  const saved = window.localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      return JSON.parse(saved);
+    } catch {
+      // Fall back to the defaults
+    }
+  }
+  return DEFAULT_PRICE_TABLE;
+}
+
+/**
+ * Hook to read and edit the model price table used for cost estimates.
+ * Changes are persisted to localStorage.
+ *
+ * @example
+ * ```tsx
+ * const { priceTable, setModelPrice } = usePriceTable();
+ * setModelPrice('claude-sonnet-4', { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 });
+ * ```
+ */
+export function usePriceTable() {
+  const [priceTable, setPriceTable] = useState<PriceTable>(loadPriceTable);
+
+  useEffect(() => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(priceTable));
+  }, [priceTable]);
+
+  const setModelPrice = (model: string, price: ModelPrice) => {
+    setPriceTable((current) => ({ ...current, [model]: price }));
+  };
+
+  const removeModel = (model: string) => {
+    setPriceTable((current) => {
+      const { [model]: _removed, ...rest } = current;
+      return rest;
+    });
+  };
+
+  const resetPriceTable = () => setPriceTable(DEFAULT_PRICE_TABLE);
+
+  return { priceTable, setModelPrice, removeModel, resetPriceTable };
+}
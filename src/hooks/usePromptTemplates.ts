@@ -0,0 +1,83 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useApi } from '../providers/ApiProvider';
+import {
+  LocalStorageTemplateStore,
+  PromptTemplate,
+  TemplateStore,
+} from '../services/templates';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Returns the backend's template store, or localStorage when the backend
+ * does not store templates.
+ */
+function useTemplateStore(): TemplateStore {
+  const api = useApi();
+  return useMemo(() => api.templates ?? new LocalStorageTemplateStore(), [api]);
+}
+
+/**
+ * Hook to fetch the user's prompt templates, sorted by name.
+ *
+ * @example
+ * ```tsx
+ * const { data: templates = [] } = usePromptTemplates();
+ * ```
+ */
+export function usePromptTemplates() {
+  const store = useTemplateStore();
+
+  return useQuery({
+    queryKey: queryKeys.templates.list(),
+    queryFn: async () =>
+      (await store.list()).sort((a, b) => a.name.localeCompare(b.name)),
+  });
+}
+
+/**
+ * Hook to create or update prompt templates. Accepts several templates at
+ * once so imports are saved in one go.
+ *
+ * @example
+ * ```tsx
+ * const saveTemplates = useSavePromptTemplates();
+ * saveTemplates.mutate([{ id, name: 'Fix test', content, updatedAt }]);
+ * ```
+ */
+export function useSavePromptTemplates() {
+  const store = useTemplateStore();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (templates: PromptTemplate[]) =>
+      Promise.all(templates.map((template) => store.save(template))),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.templates.all });
+    },
+    onError: (error) => {
+      console.error('Failed to save templates:', error);
+      toast.error('Failed to save templates');
+    },
+  });
+}
+
+/**
+ * Hook to delete a prompt template.
+ */
+export function useDeletePromptTemplate() {
+  const store = useTemplateStore();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => store.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.templates.all });
+    },
+    onError: (error) => {
+      console.error('Failed to delete template:', error);
+      toast.error('Failed to delete template');
+    },
+  });
+}
@@ -0,0 +1,32 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useOutbox } from '../providers/OutboxProvider';
+import { OutboxItem } from '../services/outbox';
+
+const noItems: OutboxItem[] = [];
+
+/**
+ * Hook returning the prompts of a session that are waiting in the outbox,
+ * in submission order. Empty outside of an OutboxProvider.
+ *
+ * @param sessionId - The session ID to return queued prompts for
+ *
+ * @example
+ * ```tsx
+ * const queued = useQueuedPrompts('session-123');
+ * ```
+ */
+export function useQueuedPrompts(sessionId: string): OutboxItem[] {
+  const outbox = useOutbox();
+  const subscribe = useCallback(
+    (listener: () => void) => outbox?.subscribe(listener) ?? (() => {}),
+    [outbox]
+  );
+  const items = useSyncExternalStore(subscribe, () =>
+    outbox ? outbox.getItems() : noItems
+  );
+
+  return useMemo(
+    () => items.filter((item) => item.sessionId === sessionId),
+    [items, sessionId]
+  );
+}
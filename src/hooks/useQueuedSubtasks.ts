@@ -0,0 +1,32 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useSubtaskQueue } from '../providers/SubtaskQueueProvider';
+import { QueuedSubtask } from '../services/subtasks';
+
+const noItems: QueuedSubtask[] = [];
+
+/**
+ * Hook returning the subtasks waiting for a session, in the order they were
+ * queued. Empty outside of a SubtaskQueueProvider.
+ *
+ * @param parentId - The parent session ID to return queued subtasks for
+ *
+ * @example
+ * ```tsx
+ * const queued = useQueuedSubtasks('session-123');
+ * ```
+ */
+export function useQueuedSubtasks(parentId: string): QueuedSubtask[] {
+  const queue = useSubtaskQueue();
+  const subscribe = useCallback(
+    (listener: () => void) => queue?.subscribe(listener) ?? (() => {}),
+    [queue]
+  );
+  const items = useSyncExternalStore(subscribe, () =>
+    queue ? queue.getItems() : noItems
+  );
+
+  return useMemo(
+    () => items.filter((item) => item.parentId === parentId),
+    [items, parentId]
+  );
+}
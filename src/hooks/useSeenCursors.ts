@@ -0,0 +1,91 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useApi } from '../providers/ApiProvider';
+import { Session } from '../types/session';
+import {
+  LocalStorageSeenStore,
+  SeenCursors,
+  SeenStore,
+} from '../services/seen';
+import { hasUnseenChanges } from '../utils/sessionSeen';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Returns the backend's seen cursor store, or localStorage when the backend
+ * does not sync cursors.
+ */
+function useSeenStore(): SeenStore {
+  const api = useApi();
+  return useMemo(() => api.seen ?? new LocalStorageSeenStore(), [api]);
+}
+
+/**
+ * Hook to fetch when the user last looked at each session.
+ *
+ * @example
+ * ```tsx
+ * const { data: cursors = {} } = useSeenCursors();
+ * const seenAt = cursors[session.id];
+ * ```
+ */
+export function useSeenCursors() {
+  const store = useSeenStore();
+
+  return useQuery({
+    queryKey: queryKeys.seen.list(),
+    queryFn: () => store.list(),
+  });
+}
+
+/**
+ * Hook to move a session's seen cursor forward. The cached cursors are
+ * updated right away so unread indicators clear without waiting for the
+ * store.
+ *
+ * @example
+ * ```tsx
+ * const markSeen = useMarkSessionSeen();
+ * markSeen.mutate({ sessionId, seenAt: latestMessageAt });
+ * ```
+ */
+export function useMarkSessionSeen() {
+  const store = useSeenStore();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      sessionId,
+      seenAt,
+    }: {
+      sessionId: string;
+      seenAt: number;
+    }) => store.markSeen(sessionId, seenAt),
+    onMutate: ({ sessionId, seenAt }) => {
+      queryClient.setQueryData<SeenCursors>(
+        queryKeys.seen.list(),
+        (cursors = {}) =>
+          (cursors[sessionId] ?? 0) >= seenAt
+            ? cursors
+            : { ...cursors, [sessionId]: seenAt }
+      );
+    },
+    onError: (error) => {
+      console.error('Failed to save seen cursor:', error);
+    },
+  });
+}
+
+/**
+ * Hook telling whether a session changed since the user last looked at it.
+ * Only the session itself and the shared cursors are read, so list rows
+ * don't fetch anything of their own.
+ *
+ * @example
+ * ```tsx
+ * const hasUnseenMessages = useHasUnseenMessages(session);
+ * ```
+ */
+export function useHasUnseenMessages(session: Session): boolean {
+  const { data: cursors } = useSeenCursors();
+  return !!cursors && hasUnseenChanges(session, cursors[session.id]);
+}
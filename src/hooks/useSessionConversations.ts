@@ -0,0 +1,89 @@
+import { useMemo } from 'react';
+import { UseQueryResult, useQueries } from '@tanstack/react-query';
+import { useApi } from '../providers/ApiProvider';
+import { Session } from '../types/session';
+import { queryKeys } from './queryKeys';
+import { ConversationItem } from './useMessages';
+
+/**
+ * Reduces the queries to their data and loading state. useQueries keeps the
+ * combined result structurally shared, so it only changes when the data
+ * does, not on every fetch status change.
+ */
+function combineQueries<TData>(results: UseQueryResult<TData>[]) {
+  return {
+    data: results.map((result) => result.data),
+    isLoading: results.some((result) => result.isLoading),
+  };
+}
+
+/**
+ * Hook to load the conversations of several sessions at once.
+ *
+ * Uses the same prompts/messages queries as the session thread, so anything
+ * already fetched is served from the cache. Conversations are rebuilt from
+ * whatever has loaded so far; sessions whose prompts have not loaded yet are
+ * missing from the map.
+ *
+ * @example
+ * ```tsx
+ * const { conversations, isLoading } = useSessionConversations(sessions);
+ * const items = conversations.get(session.id) ?? [];
+ * ```
+ */
+export function useSessionConversations(
+  sessions: Session[],
+  options?: { enabled?: boolean }
+) {
+  const api = useApi();
+  const enabled = options?.enabled ?? true;
+
+  const prompts = useQueries({
+    queries: sessions.map((session) => ({
+      queryKey: queryKeys.prompts.list(session.id),
+      queryFn: ({ signal }) => api.prompts.list(session.id, signal),
+      enabled,
+    })),
+    combine: combineQueries,
+  });
+
+  const promptIds = useMemo(
+    () =>
+      prompts.data.flatMap((data) => (data || []).map((prompt) => prompt.id)),
+    [prompts.data]
+  );
+
+  const messages = useQueries({
+    queries: promptIds.map((promptId) => ({
+      queryKey: queryKeys.messages.list(promptId),
+      queryFn: ({ signal }) => api.messages.list(promptId, signal),
+      enabled,
+    })),
+    combine: combineQueries,
+  });
+
+  const conversations = useMemo(() => {
+    const messagesByPromptId = new Map(
+      messages.data.map((data, index) => [promptIds[index], data || []])
+    );
+    const result = new Map<string, ConversationItem[]>();
+    prompts.data.forEach((data, index) => {
+      const session = sessions[index];
+      if (!session || !data) return;
+      result.set(
+        session.id,
+        data.map((prompt) => ({
+          type: 'prompt' as const,
+          data: prompt,
+          messages: messagesByPromptId.get(prompt.id) || [],
+        }))
+      );
+    });
+    return result;
+  }, [sessions, prompts.data, messages.data, promptIds]);
+
+  return {
+    conversations,
+    isLoading: enabled && (prompts.isLoading || messages.isLoading),
+  };
+}
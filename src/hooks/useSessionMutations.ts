@@ -2,10 +2,18 @@ import {
   useMutation,
   useQueryClient,
   UseMutationOptions,
+  InfiniteData,
+  QueryClient,
+  QueryKey,
 } from '@tanstack/react-query';
 import { useApi } from '../providers/ApiProvider';
 import { Session } from '../types/session';
-import { CreateSessionData, UpdateSessionData } from '../services/api/types';
+import {
+  CreateSessionData,
+  ListSessionsParams,
+  UpdateSessionData,
+} from '../services/api/types';
+import { applyListSessionsParams } from '../services/api/listParams';
 import { queryKeys } from './queryKeys';
 import { toast } from 'sonner';
 
@@ -35,10 +43,26 @@ export function useCreateSession(
   options?: Omit<
     UseMutationOptions<Session, Error, CreateSessionData>,
     'mutationFn'
-  >
+  > & {
+    /**
+     * Whether to confirm the created task with a toast, for callers that
+     * show their own (defaults to true)
+     */
+    successToast?: boolean;
+    /**
+     * Whether to report a failure with a toast, for callers that show their
+     * own (defaults to true)
+     */
+    errorToast?: boolean;
+  }
 ) {
   const api = useApi();
   const queryClient = useQueryClient();
+  const {
+    successToast = true,
+    errorToast = true,
+    ...mutationOptions
+  } = options ?? {};
 
   return useMutation({
     mutationFn: (data: CreateSessionData) => api.sessions.create(data),
@@ -49,15 +73,31 @@ export function useCreateSession(
         newSession
       );
 
-      // Optimistically add the new session to all list caches
-      queryClient.setQueriesData(
-        { queryKey: queryKeys.sessions.lists() },
-        (oldSessions: Session[] | undefined) => {
-          if (!oldSessions) return [newSession];
-          // Add the new session to the beginning of the list
-          return [newSession, ...oldSessions];
-        }
-      );
+      // Add the new session to the cached lists whose filters it matches
+      queryClient
+        .getQueriesData<SessionListData>({
+          queryKey: queryKeys.sessions.lists(),
+        })
+        .forEach(([queryKey, data]) => {
+          if (
+            !data ||
+            !matchesListParams(newSession, getListParams(queryKey))
+          ) {
+            return;
+          }
+          queryClient.setQueryData<SessionListData>(
+            queryKey,
+            // Paginated lists: add the new session to the first page
+            'pages' in data
+              ? {
+                  ...data,
+                  pages: data.pages.map((page, index) =>
+                    index === 0 ? [newSession, ...page] : page
+                  ),
+                }
+              : [newSession, ...data]
+          );
+        });
 
       // Invalidate and refetch to ensure consistency with backend
       queryClient.invalidateQueries({
@@ -65,29 +105,181 @@ export function useCreateSession(
         refetchType: 'active',
       });
 
-      toast.success('Task created successfully');
+      if (successToast) toast.success('Task created successfully');
 
       // Call user-provided onSuccess if it exists
-      options?.onSuccess?.(newSession, variables, context);
+      mutationOptions.onSuccess?.(newSession, variables, context);
     },
     onError: (error, variables, context) => {
       console.error('Failed to create session:', error);
-      toast.error('Failed to create task');
+      if (errorToast) toast.error('Failed to create task');
 
       // Call user-provided onError if it exists
-      options?.onError?.(error, variables, context);
+      mutationOptions.onError?.(error, variables, context);
     },
-    ...options,
+    ...mutationOptions,
   });
 }
 
+type SessionListData = Session[] | InfiniteData<Session[]>;
+
+/**
+ * Cached session data from before an optimistic change, for rollback
+ */
+interface SessionCacheSnapshot {
+  lists: [QueryKey, SessionListData | undefined][];
+  detail: Session | undefined;
+}
+
+/**
+ * Options of the optimistic session hooks. `onMutate` is left out because
+ * the hooks use it for the optimistic change and its rollback snapshot.
+ */
+type OptimisticSessionMutationOptions<TData, TVariables> = Omit<
+  UseMutationOptions<TData, Error, TVariables, SessionCacheSnapshot>,
+  'mutationFn' | 'onMutate'
+>;
+
+/**
+ * List params a cached list was fetched with, taken from its query key
+ */
+function getListParams(queryKey: QueryKey): ListSessionsParams | undefined {
+  const params = queryKey[2] === 'infinite' ? queryKey[3] : queryKey[2];
+  return params && typeof params === 'object'
+    ? (params as ListSessionsParams)
+    : undefined;
+}
+
+/**
+ * Whether a session still belongs in a list fetched with `params`
+ */
+function matchesListParams(session: Session, params?: ListSessionsParams) {
+  return (
+    applyListSessionsParams([session], {
+      ...params,
+      limit: undefined,
+      offset: undefined,
+      cursor: undefined,
+    }).length > 0
+  );
+}
+
+/**
+ * Rewrites every cached session list, including each page of paginated ones
+ */
+function updateSessionLists(
+  queryClient: QueryClient,
+  update: (sessions: Session[], params?: ListSessionsParams) => Session[]
+) {
+  queryClient
+    .getQueriesData<SessionListData>({ queryKey: queryKeys.sessions.lists() })
+    .forEach(([queryKey, data]) => {
+      if (!data) return;
+      const params = getListParams(queryKey);
+      queryClient.setQueryData<SessionListData>(
+        queryKey,
+        'pages' in data
+          ? { ...data, pages: data.pages.map((page) => update(page, params)) }
+          : update(data, params)
+      );
+    });
+}
+
+/**
+ * Replaces a session in the detail cache and every list (nested subtasks
+ * included), dropping it from lists whose filters it no longer matches
+ */
+function setSessionInCache(queryClient: QueryClient, session: Session) {
+  const replace = (sessions: Session[], params?: ListSessionsParams) =>
+    sessions.flatMap((existing): Session[] => {
+      if (existing.id === session.id) {
+        return matchesListParams(session, params) ? [session] : [];
+      }
+      return existing.children
+        ? [{ ...existing, children: replace(existing.children) }]
+        : [existing];
+    });
+
+  if (queryClient.getQueryData(queryKeys.sessions.detail(session.id))) {
+    queryClient.setQueryData(queryKeys.sessions.detail(session.id), session);
+  }
+  updateSessionLists(queryClient, replace);
+}
+
+/**
+ * Cancels in-flight session fetches, so they can't overwrite an optimistic
+ * change, and snapshots what they would have changed
+ */
+async function snapshotSessionCache(
+  queryClient: QueryClient,
+  id: string
+): Promise<SessionCacheSnapshot> {
+  await Promise.all([
+    queryClient.cancelQueries({ queryKey: queryKeys.sessions.detail(id) }),
+    queryClient.cancelQueries({ queryKey: queryKeys.sessions.lists() }),
+  ]);
+  return {
+    lists: queryClient.getQueriesData<SessionListData>({
+      queryKey: queryKeys.sessions.lists(),
+    }),
+    detail: queryClient.getQueryData<Session>(queryKeys.sessions.detail(id)),
+  };
+}
+
+/**
+ * Every session in the cached lists, subtasks included
+ */
+function getCachedSessions(snapshot: SessionCacheSnapshot): Session[] {
+  const flatten = (sessions: Session[]): Session[] =>
+    sessions.flatMap((session) => [
+      session,
+      ...flatten(session.children ?? []),
+    ]);
+  return snapshot.lists.flatMap(([, data]) =>
+    data ? flatten('pages' in data ? data.pages.flat() : data) : []
+  );
+}
+
+/**
+ * Applies `changes` to a session everywhere it is cached and returns the
+ * snapshot to roll back to
+ */
+async function patchCachedSession(
+  queryClient: QueryClient,
+  id: string,
+  changes: Partial<Session>
+): Promise<SessionCacheSnapshot> {
+  const snapshot = await snapshotSessionCache(queryClient, id);
+  const session =
+    snapshot.detail ??
+    getCachedSessions(snapshot).find((cached) => cached.id === id);
+  if (session) {
+    setSessionInCache(queryClient, { ...session, ...changes });
+  }
+  return snapshot;
+}
+
+function restoreSessionCache(
+  queryClient: QueryClient,
+  id: string,
+  snapshot: SessionCacheSnapshot | undefined
+) {
+  if (!snapshot) return;
+  snapshot.lists.forEach(([queryKey, data]) =>
+    queryClient.setQueryData(queryKey, data)
+  );
+  if (snapshot.detail) {
+    queryClient.setQueryData(queryKeys.sessions.detail(id), snapshot.detail);
+  }
+}
+
 /**
  * Hook to update an existing session.
  *
  * Features:
- * - Optimistic updates for better UX
- * - Automatically invalidates affected caches
- * - Rollback on error
+ * - Optimistic updates of the session's detail and list entries
+ * - Rollback with an error toast on failure
+ * - Reconciles the caches with the server response
  *
  * @example
  * ```tsx
@@ -102,82 +294,50 @@ export function useCreateSession(
  * ```
  */
 export function useUpdateSession(
-  options?: Omit<
-    UseMutationOptions<Session, Error, { id: string; data: UpdateSessionData }>,
-    'mutationFn'
+  options?: OptimisticSessionMutationOptions<
+    Session,
+    { id: string; data: UpdateSessionData }
   >
 ) {
   const api = useApi();
   const queryClient = useQueryClient();
 
   return useMutation({
+    ...options,
     mutationFn: ({ id, data }: { id: string; data: UpdateSessionData }) =>
       api.sessions.update(id, data),
-    onMutate: async ({ id, data }) => {
-      // Cancel outgoing refetches
-      await queryClient.cancelQueries({
-        queryKey: queryKeys.sessions.detail(id),
-      });
-
-      // Snapshot the previous value
-      const previousSession = queryClient.getQueryData<Session>(
-        queryKeys.sessions.detail(id)
-      );
-
-      // Optimistically update to the new value
-      if (previousSession) {
-        queryClient.setQueryData<Session>(queryKeys.sessions.detail(id), {
-          ...previousSession,
-          ...data,
-        });
-      }
-
-      // Return context with the snapshot
-      return { previousSession };
-    },
-    onSuccess: (updatedSession, variables, context) => {
-      // Update the cache with the server response
-      queryClient.setQueryData(
-        queryKeys.sessions.detail(updatedSession.id),
-        updatedSession
-      );
-
-      // Invalidate session lists to reflect changes in the sidebar
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.sessions.lists(),
-        refetchType: 'active',
-      });
-
+    onMutate: ({ id, data }) => patchCachedSession(queryClient, id, data),
+    onSuccess: (updatedSession, variables, context, mutation) => {
+      setSessionInCache(queryClient, updatedSession);
       toast.success('Task updated successfully');
 
-      options?.onSuccess?.(updatedSession, variables, context);
+      options?.onSuccess?.(updatedSession, variables, context, mutation);
     },
-    onError: (error, variables, context) => {
-      // Rollback to the previous value on error
-      if (context?.previousSession) {
-        queryClient.setQueryData(
-          queryKeys.sessions.detail(variables.id),
-          context.previousSession
-        );
-      }
+    onError: (error, variables, context, mutation) => {
+      restoreSessionCache(queryClient, variables.id, context);
 
       console.error('Failed to update session:', error);
-      toast.error('Failed to update task');
+      toast.error('Failed to update task', {
+        description: 'Your changes have been undone.',
+      });
 
-      options?.onError?.(error, variables, context);
+      options?.onError?.(error, variables, context, mutation);
     },
-    onSettled: (data, error, variables) => {
-      // Always refetch after error or success to ensure consistency
+    onSettled: (...args) => {
+      // Other lists may now include the session
       queryClient.invalidateQueries({
-        queryKey: queryKeys.sessions.detail(variables.id),
+        queryKey: queryKeys.sessions.lists(),
+        refetchType: 'active',
       });
+
+      options?.onSettled?.(...args);
     },
-    ...options,
   });
 }
 
 /**
- * Hook to archive a session.
+ * Hook to archive a session. The session leaves lists of active sessions
+ * right away and comes back if archiving fails.
  *
  * @example
  * ```tsx
@@ -189,65 +349,43 @@ export function useUpdateSession(
  * ```
  */
 export function useArchiveSession(
-  options?: Omit<UseMutationOptions<Session, Error, string>, 'mutationFn'>
+  options?: OptimisticSessionMutationOptions<Session, string>
 ) {
   const api = useApi();
   const queryClient = useQueryClient();
 
   return useMutation({
+    ...options,
     mutationFn: (id: string) => api.sessions.archive(id),
-    onMutate: async (id) => {
-      await queryClient.cancelQueries({
-        queryKey: queryKeys.sessions.detail(id),
-      });
-
-      const previousSession = queryClient.getQueryData<Session>(
-        queryKeys.sessions.detail(id)
-      );
-
-      if (previousSession) {
-        queryClient.setQueryData<Session>(queryKeys.sessions.detail(id), {
-          ...previousSession,
-          sessionStatus: 'Archived',
-          uiStatus: 'Archived',
-        });
-      }
-
-      return { previousSession };
-    },
-    onSuccess: (archivedSession, id, context) => {
-      queryClient.setQueryData(
-        queryKeys.sessions.detail(archivedSession.id),
-        archivedSession
-      );
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.sessions.lists(),
-        refetchType: 'active',
-      });
-
+    onMutate: (id) =>
+      patchCachedSession(queryClient, id, {
+        sessionStatus: 'Archived',
+        uiStatus: 'Archived',
+      }),
+    onSuccess: (archivedSession, id, context, mutation) => {
+      setSessionInCache(queryClient, archivedSession);
       toast.success('Task archived');
 
-      options?.onSuccess?.(archivedSession, id, context);
+      options?.onSuccess?.(archivedSession, id, context, mutation);
     },
-    onError: (error, id, context) => {
-      if (context?.previousSession) {
-        queryClient.setQueryData(
-          queryKeys.sessions.detail(id),
-          context.previousSession
-        );
-      }
+    onError: (error, id, context, mutation) => {
+      restoreSessionCache(queryClient, id, context);
 
       console.error('Failed to archive session:', error);
-      toast.error('Failed to archive task');
+      toast.error('Failed to archive task', {
+        description: 'The task has been restored.',
+      });
 
-      options?.onError?.(error, id, context);
+      options?.onError?.(error, id, context, mutation);
     },
-    onSettled: (data, error, id) => {
+    onSettled: (...args) => {
       queryClient.invalidateQueries({
-        queryKey: queryKeys.sessions.detail(id),
+        queryKey: queryKeys.sessions.lists(),
+        refetchType: 'active',
       });
+
+      options?.onSettled?.(...args);
     },
-    ...options,
   });
 }
 
@@ -264,39 +402,47 @@ export function useArchiveSession(
  * ```
  */
 export function useUnarchiveSession(
-  options?: Omit<UseMutationOptions<Session, Error, string>, 'mutationFn'>
+  options?: OptimisticSessionMutationOptions<Session, string>
 ) {
   const api = useApi();
   const queryClient = useQueryClient();
 
   return useMutation({
+    ...options,
     mutationFn: (id: string) => api.sessions.unarchive(id),
-    onSuccess: (unarchivedSession, id, context) => {
-      queryClient.setQueryData(
-        queryKeys.sessions.detail(unarchivedSession.id),
-        unarchivedSession
-      );
-      queryClient.invalidateQueries({
-        queryKey: queryKeys.sessions.lists(),
-        refetchType: 'active',
-      });
-
+    // The status it returns to is only known once the server answers
+    onMutate: (id) =>
+      patchCachedSession(queryClient, id, { sessionStatus: 'Active' }),
+    onSuccess: (unarchivedSession, id, context, mutation) => {
+      setSessionInCache(queryClient, unarchivedSession);
       toast.success('Task unarchived');
 
-      options?.onSuccess?.(unarchivedSession, id, context);
+      options?.onSuccess?.(unarchivedSession, id, context, mutation);
     },
-    onError: (error, id, context) => {
+    onError: (error, id, context, mutation) => {
+      restoreSessionCache(queryClient, id, context);
+
       console.error('Failed to unarchive session:', error);
-      toast.error('Failed to unarchive task');
+      toast.error('Failed to unarchive task', {
+        description: 'The task is still archived.',
+      });
 
-      options?.onError?.(error, id, context);
+      options?.onError?.(error, id, context, mutation);
+    },
+    onSettled: (...args) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.sessions.lists(),
+        refetchType: 'active',
+      });
+
+      options?.onSettled?.(...args);
     },
-    ...options,
   });
 }
 
 /**
- * Hook to delete a session.
+ * Hook to delete a session. The session and its subtasks leave every list
+ * right away and come back if deleting fails.
  *
  * @example
  * ```tsx
@@ -308,33 +454,65 @@ export function useUnarchiveSession(
  * ```
  */
 export function useDeleteSession(
-  options?: Omit<UseMutationOptions<void, Error, string>, 'mutationFn'>
+  options?: OptimisticSessionMutationOptions<void, string>
 ) {
   const api = useApi();
   const queryClient = useQueryClient();
 
   return useMutation({
+    ...options,
     mutationFn: (id: string) => api.sessions.delete(id),
-    onSuccess: (data, id, context) => {
-      // Remove the session from the cache
+    onMutate: async (id) => {
+      const snapshot = await snapshotSessionCache(queryClient, id);
+
+      // Subtasks are deleted with their parent
+      const cached = getCachedSessions(snapshot);
+      const removed = new Set([id]);
+      let size = 0;
+      while (removed.size !== size) {
+        size = removed.size;
+        cached.forEach((session) => {
+          if (session.parentId && removed.has(session.parentId)) {
+            removed.add(session.id);
+          }
+        });
+      }
+      const remove = (sessions: Session[]): Session[] =>
+        sessions.flatMap((session) => {
+          if (removed.has(session.id)) return [];
+          return session.children
+            ? [{ ...session, children: remove(session.children) }]
+            : [session];
+        });
+      updateSessionLists(queryClient, remove);
+
+      return snapshot;
+    },
+    onSuccess: (data, id, context, mutation) => {
+      // The detail query is kept until now so an open session doesn't
+      // refetch a deleted one
       queryClient.removeQueries({ queryKey: queryKeys.sessions.detail(id) });
+      toast.success('Task deleted');
+
+      options?.onSuccess?.(data, id, context, mutation);
+    },
+    onError: (error, id, context, mutation) => {
+      restoreSessionCache(queryClient, id, context);
+
+      console.error('Failed to delete session:', error);
+      toast.error('Failed to delete task', {
+        description: 'The task has been restored.',
+      });
 
-      // Invalidate session lists to update the sidebar
+      options?.onError?.(error, id, context, mutation);
+    },
+    onSettled: (...args) => {
       queryClient.invalidateQueries({
         queryKey: queryKeys.sessions.lists(),
         refetchType: 'active',
       });
 
-      toast.success('Task deleted');
-
-      options?.onSuccess?.(data, id, context);
+      options?.onSettled?.(...args);
     },
-    onError: (error, id, context) => {
-      console.error('Failed to delete session:', error);
-      toast.error('Failed to delete task');
-
-      options?.onError?.(error, id, context);
-    },
-    ...options,
   });
 }
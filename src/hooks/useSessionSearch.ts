@@ -0,0 +1,60 @@
+import { useState, useMemo } from 'react';
+import debounce from 'lodash.debounce';
+import { Session } from '../types/session';
+import { searchSessions } from '../utils/sessionSearch';
+import { useSessionConversations } from './useSessionConversations';
+
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Hook to search sessions by title, repo, branch, prompt content and
+ * assistant output.
+ *
+ * Metadata matches are immediate. Conversation content is loaded for the
+ * given sessions once a query is entered (see useSessionConversations).
+ *
+ * @example
+ * ```tsx
+ * const { results, search, clear, query } = useSessionSearch(sessions);
+ * <input onChange={(e) => search(e.target.value)} />
+ * ```
+ */
+export function useSessionSearch(sessions: Session[]) {
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const isActive = debouncedQuery.length >= MIN_QUERY_LENGTH;
+  const { conversations, isLoading } = useSessionConversations(sessions, {
+    enabled: isActive,
+  });
+
+  const results = useMemo(
+    () =>
+      isActive ? searchSessions(debouncedQuery, sessions, conversations) : [],
+    [isActive, debouncedQuery, sessions, conversations]
+  );
+
+  const debouncedSetQuery = useMemo(
+    () =>
+      debounce((query: string) => {
+        setDebouncedQuery(query.trim());
+      }, 300),
+    []
+  );
+
+  const search = (query: string) => {
+    debouncedSetQuery(query);
+  };
+
+  const clear = () => {
+    debouncedSetQuery.cancel();
+    setDebouncedQuery('');
+  };
+
+  return {
+    query: debouncedQuery,
+    results,
+    isActive,
+    isLoadingContent: isLoading,
+    search,
+    clear,
+  };
+}
@@ -0,0 +1,74 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+export interface SelectionModifiers {
+  shiftKey: boolean;
+  metaKey: boolean;
+  ctrlKey: boolean;
+}
+
+/**
+ * Hook to multi-select sessions in a list.
+ *
+ * Clicking toggles a session; shift-click selects the range from the last
+ * clicked session, following the order of `orderedIds` (the visible list).
+ *
+ * @param orderedIds - IDs of the selectable sessions in display order
+ *
+ * @example
+ * ```tsx
+ * const selection = useSessionSelection(visibleIds);
+ * selection.select('session-123', { shiftKey: true, metaKey: false, ctrlKey: false });
+ * ```
+ */
+export function useSessionSelection(orderedIds: string[]) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  // Drop sessions that are no longer listed (archived, filtered out, ...)
+  const selectedIds = useMemo(
+    () => orderedIds.filter((id) => selected.has(id)),
+    [orderedIds, selected]
+  );
+
+  const isSelected = useCallback((id: string) => selected.has(id), [selected]);
+
+  const select = useCallback(
+    (id: string, modifiers: SelectionModifiers) => {
+      const anchor = anchorRef.current;
+      const from = anchor ? orderedIds.indexOf(anchor) : -1;
+      const to = orderedIds.indexOf(id);
+
+      setSelected((current) => {
+        const next = new Set(current);
+        if (modifiers.shiftKey && from !== -1 && to !== -1) {
+          const range = orderedIds.slice(
+            Math.min(from, to),
+            Math.max(from, to) + 1
+          );
+          range.forEach((rangeId) => next.add(rangeId));
+        } else if (next.has(id)) {
+          next.delete(id);
+        } else {
+          next.add(id);
+        }
+        return next;
+      });
+
+      if (!modifiers.shiftKey) {
+        anchorRef.current = id;
+      }
+    },
+    [orderedIds]
+  );
+
+  const selectAll = useCallback(() => {
+    setSelected(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clear = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return { selectedIds, isSelected, select, selectAll, clear };
+}
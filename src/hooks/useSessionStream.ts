@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useApi } from '../providers/ApiProvider';
+import { BackendMessage, Prompt } from '../types/session';
+import { StreamStatus } from '../services/stream/types';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Hook to subscribe to real-time conversation updates for a session.
+ * Pushed prompts and messages are written straight into the TanStack Query
+ * cache, so any component reading those queries re-renders without polling.
+ *
+ * Returns the connection status; callers should fall back to polling
+ * whenever `isStreaming` is false (no stream support, connecting, dropped).
+ *
+ * @example
+ * ```tsx
+ * const { isStreaming } = useSessionStream('session-123');
+ * const { data: prompts } = usePrompts('session-123', {
+ *   refetchInterval: isStreaming ? false : 2000,
+ * });
+ * ```
+ */
+export function useSessionStream(sessionId: string) {
+  const api = useApi();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<StreamStatus>('closed');
+
+  useEffect(() => {
+    if (!sessionId || !api.stream) {
+      return;
+    }
+
+    let active = true;
+
+    const unsubscribe = api.stream.subscribe(sessionId, {
+      onEvent: (event) => {
+        if (event.type === 'prompt') {
+          // Only patch lists that are already cached; seeding an empty cache
+          // would mark the query as fresh and skip its initial fetch
+          queryClient.setQueryData<Prompt[]>(
+            queryKeys.prompts.list(sessionId),
+            (oldPrompts) => {
+              if (!oldPrompts) return oldPrompts;
+              const exists = oldPrompts.some((p) => p.id === event.prompt.id);
+              return exists
+                ? oldPrompts.map((p) =>
+                    p.id === event.prompt.id ? event.prompt : p
+                  )
+                : [...oldPrompts, event.prompt];
+            }
+          );
+        } else if (event.type === 'message') {
+          queryClient.setQueryData<BackendMessage[]>(
+            queryKeys.messages.list(event.promptId),
+            (oldMessages) => {
+              if (!oldMessages) return oldMessages;
+              const exists = oldMessages.some(
+                (m) => m.uuid === event.message.uuid
+              );
+              return exists
+                ? oldMessages.map((m) =>
+                    m.uuid === event.message.uuid ? event.message : m
+                  )
+                : [...oldMessages, event.message];
+            }
+          );
+        }
+      },
+      onStatusChange: (nextStatus) => {
+        if (!active) return;
+
+        if (nextStatus === 'open') {
+          // Catch up on anything that happened before (re)connecting
+          queryClient.invalidateQueries({
+            queryKey: queryKeys.prompts.list(sessionId),
+          });
+          const prompts = queryClient.getQueryData<Prompt[]>(
+            queryKeys.prompts.list(sessionId)
+          );
+          prompts?.forEach((prompt) => {
+            queryClient.invalidateQueries({
+              queryKey: queryKeys.messages.list(prompt.id),
+            });
+          });
+        }
+
+        setStatus(nextStatus);
+      },
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+      setStatus('closed');
+    };
+  }, [api, queryClient, sessionId]);
+
+  return {
+    status,
+    isStreaming: status === 'open',
+  };
+}
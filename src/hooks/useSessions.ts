@@ -1,9 +1,20 @@
-import { useQuery, UseQueryOptions } from '@tanstack/react-query';
+import {
+  useQuery,
+  useQueries,
+  useInfiniteQuery,
+  UseQueryOptions,
+} from '@tanstack/react-query';
 import { useApi } from '../providers/ApiProvider';
 import { Session } from '../types/session';
 import { ListSessionsParams } from '../services/api/types';
+import { getNextSessionsCursor } from '../services/api/listParams';
 import { queryKeys } from './queryKeys';
 
+/**
+ * Default number of sessions fetched per page
+ */
+export const SESSIONS_PAGE_SIZE = 50;
+
 /**
  * Hook to fetch a list of sessions with optional filters.
  *
@@ -20,11 +31,86 @@ export function useSessions(
 
   return useQuery({
     queryKey: queryKeys.sessions.list(params),
-    queryFn: () => api.sessions.list(params),
+    queryFn: ({ signal }) => api.sessions.list(params, signal),
     ...options,
   });
 }
 
+/**
+ * Hook to fetch sessions page by page with filters applied by the backend.
+ * Pages are cursor based: each page starts after the last session of the
+ * previous one. Use `fetchNextPage` to lazy-load more results.
+ *
+ * @example
+ * ```tsx
+ * const { data, fetchNextPage, hasNextPage } = useInfiniteSessions({
+ *   uiStatus: ['NeedsReview'],
+ * });
+ * const sessions = data?.pages.flat() ?? [];
+ * ```
+ */
+export function useInfiniteSessions(
+  params?: Omit<ListSessionsParams, 'cursor' | 'offset'>,
+  options?: { enabled?: boolean }
+) {
+  const api = useApi();
+  const limit = params?.limit ?? SESSIONS_PAGE_SIZE;
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.sessions.infinite({ ...params, limit }),
+    queryFn: ({ pageParam, signal }) =>
+      api.sessions.list({ ...params, limit, cursor: pageParam }, signal),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => getNextSessionsCursor(lastPage, limit),
+    ...options,
+  });
+}
+
+/**
+ * Hook to fetch the subtasks of sessions at any depth, walking down one
+ * `parentId` filtered list per level. Fetches nothing while `ids` is empty.
+ * Results are always refetched on use, as subtasks start in the background.
+ *
+ * @example
+ * ```tsx
+ * const { data: subtasks, isLoading } = useSubtasks(['session-123']);
+ * ```
+ */
+export function useSubtasks(ids: string[]) {
+  const api = useApi();
+
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: queryKeys.sessions.subtasks(id),
+      queryFn: async ({ signal }: { signal: AbortSignal }) => {
+        const subtasks: Session[] = [];
+        const seen = new Set([id]);
+        let parentIds = [id];
+        while (parentIds.length > 0) {
+          const children = (
+            await Promise.all(
+              parentIds.map((parentId) =>
+                api.sessions.list({ parentId }, signal)
+              )
+            )
+          )
+            .flat()
+            .filter((session) => !seen.has(session.id));
+          children.forEach((session) => seen.add(session.id));
+          subtasks.push(...children);
+          parentIds = children.map((session) => session.id);
+        }
+        return subtasks;
+      },
+      staleTime: 0,
+    })),
+    combine: (results) => ({
+      data: results.flatMap((result) => result.data ?? []),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+}
+
 /**
  * Hook to fetch a single session by ID.
  *
@@ -41,7 +127,7 @@ export function useSession(
 
   return useQuery({
     queryKey: queryKeys.sessions.detail(id),
-    queryFn: () => api.sessions.get(id),
+    queryFn: ({ signal }) => api.sessions.get(id, signal),
     enabled: !!id, // Only fetch if ID is provided
     ...options,
   });
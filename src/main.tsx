@@ -5,8 +5,12 @@ import App from './App.tsx';
 import './index.css';
 import { ApiProvider } from './providers/ApiProvider.tsx';
 import { QueryProvider } from './providers/QueryProvider.tsx';
+import { OutboxProvider } from './providers/OutboxProvider.tsx';
+import { NotificationProvider } from './providers/NotificationProvider.tsx';
+import { SubtaskQueueProvider } from './providers/SubtaskQueueProvider.tsx';
 import { AuthCallback } from './pages/AuthCallback';
 import { SilentCallback } from './pages/SilentCallback';
+import { SessionViewer } from './components/viewer/SessionViewer';
 import { Toaster } from './components/ui/sonner';
 
 const oidcConfiguration = {
@@ -35,17 +39,39 @@ createRoot(document.getElementById('root')!).render(
     )}
   >
     <BrowserRouter>
-      <ApiProvider backendUrl={import.meta.env.VITE_BACKEND_URL}>
+      <ApiProvider
+        backendUrl={import.meta.env.VITE_BACKEND_URL}
+        clientType={
+          import.meta.env.VITE_API_CLIENT ??
+          // Without auth or a backend there is nothing to talk to
+          (import.meta.env.VITE_DISABLE_AUTH === 'true' &&
+          !import.meta.env.VITE_BACKEND_URL
+            ? 'mock'
+            : 'sdk')
+        }
+        streaming={import.meta.env.VITE_ENABLE_STREAMING === 'true'}
+      >
         <QueryProvider>
-          <Toaster position="bottom-right" richColors closeButton />
-          <Routes>
-            <Route path="/authentication/callback" element={<AuthCallback />} />
-            <Route
-              path="/authentication/silent-callback"
-              element={<SilentCallback />}
-            />
-            <Route path="/*" element={<App />} />
-          </Routes>
+          <OutboxProvider>
+            <NotificationProvider>
+              <SubtaskQueueProvider>
+                <Toaster position="bottom-right" richColors closeButton />
+                <Routes>
+                  <Route
+                    path="/authentication/callback"
+                    element={<AuthCallback />}
+                  />
+                  <Route
+                    path="/authentication/silent-callback"
+                    element={<SilentCallback />}
+                  />
+                  {/* Exported bundles can be viewed without signing in */}
+                  <Route path="/viewer" element={<SessionViewer />} />
+                  <Route path="/*" element={<App />} />
+                </Routes>
+              </SubtaskQueueProvider>
+            </NotificationProvider>
+          </OutboxProvider>
         </QueryProvider>
       </ApiProvider>
     </BrowserRouter>
@@ -1,8 +1,24 @@
-import React, { createContext, useContext, ReactNode, useMemo } from 'react';
+import React, {
+  createContext,
+  useContext,
+  ReactNode,
+  useMemo,
+  useRef,
+} from 'react';
 import { BackendClient } from '../services/api/types';
 import { BackendClientImpl } from '../services/api/backendClient';
-import { PromptBackendClient } from '../services/api/promptBackendClient';
-import { MockHttpClient } from '../services/http/mockClient';
+import {
+  PromptBackendClient,
+  resolvePromptBackendUrl,
+} from '../services/api/promptBackendClient';
+import { EventSourceTransport } from '../services/stream/eventSourceTransport';
+import { FetchHttpClient } from '../services/http/fetchClient';
+import {
+  createAuthInterceptor,
+  createCorrelationIdInterceptor,
+  createLoggingInterceptor,
+} from '../services/http/interceptors';
+import { InMemoryBackendClient } from '../services/mockBackend/inMemoryBackendClient';
 
 /**
  * Context for the Backend API client.
@@ -10,11 +26,35 @@ import { MockHttpClient } from '../services/http/mockClient';
  */
 const ApiContext = createContext<BackendClient | null>(null);
 
+/**
+ * Backend client created when none is injected:
+ * - `sdk`: the generated prompt-backend client
+ * - `fetch`: BackendClientImpl over FetchHttpClient
+ * - `mock`: InMemoryBackendClient, a stateful mock backend kept in
+ *   localStorage
+ */
+export type ApiClientType = 'sdk' | 'fetch' | 'mock';
+
 interface ApiProviderProps {
   children: ReactNode;
   client?: BackendClient;
+  /**
+   * Shorthand for `clientType="mock"`
+   */
   useMock?: boolean;
+  clientType?: ApiClientType;
   backendUrl?: string;
+  /**
+   * Token for the fetch client's Authorization header. Without one, requests
+   * rely on the Service Worker to authorize them.
+   */
+  getAccessToken?: () => string | null | undefined | Promise<string | null>;
+  /**
+   * Push conversation updates over Server-Sent Events. Only enable this for
+   * backends that serve the session stream endpoint; otherwise conversations
+   * are polled.
+   */
+  streaming?: boolean;
 }
 
 /**
@@ -32,6 +72,11 @@ interface ApiProviderProps {
  *   <App />
  * </ApiProvider>
  *
+ * // Use BackendClientImpl over fetch
+ * <ApiProvider clientType="fetch" backendUrl="http://localhost:8000">
+ *   <App />
+ * </ApiProvider>
+ *
  * // Or inject a custom client with custom URL
  * const backendClient = new PromptBackendClient('http://localhost:8000');
  * <ApiProvider client={backendClient}>
@@ -43,16 +88,44 @@ export const ApiProvider: React.FC<ApiProviderProps> = ({
   children,
   client,
   useMock = false,
+  clientType = 'sdk',
   backendUrl,
+  getAccessToken,
+  streaming = false,
 }) => {
+  // Read at request time, so a new getter doesn't recreate the client
+  const getAccessTokenRef = useRef(getAccessToken);
+  getAccessTokenRef.current = getAccessToken;
+
   // Create backend client once - Service Worker handles token injection
   const backendClient = useMemo(() => {
     if (client) return client;
-    if (useMock) return new BackendClientImpl(new MockHttpClient());
+    if (useMock || clientType === 'mock') {
+      return new InMemoryBackendClient();
+    }
+    if (clientType === 'fetch') {
+      return new BackendClientImpl(
+        new FetchHttpClient({
+          baseURL: backendUrl,
+          interceptors: [
+            createAuthInterceptor(() => getAccessTokenRef.current?.()),
+            createCorrelationIdInterceptor(),
+            createLoggingInterceptor(),
+          ],
+        }),
+        streaming ? new EventSourceTransport(backendUrl ?? '') : undefined
+      );
+    }
 
     // No token getter needed - Service Worker injects tokens automatically
-    return new PromptBackendClient(backendUrl);
-  }, [client, useMock, backendUrl]);
+    // SSE requests carry cookies so the Service Worker can authorize them too
+    return new PromptBackendClient(
+      backendUrl,
+      streaming
+        ? new EventSourceTransport(resolvePromptBackendUrl(backendUrl))
+        : undefined
+    );
+  }, [client, useMock, clientType, backendUrl, streaming]);
 
   return (
     <ApiContext.Provider value={backendClient}>{children}</ApiContext.Provider>
@@ -0,0 +1,260 @@
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { queryKeys } from '../hooks/queryKeys';
+import { useSessions } from '../hooks/useSessions';
+import { Prompt, Session } from '../types/session';
+import {
+  isInQuietHours,
+  loadNotificationSettings,
+  NotificationSettings,
+  saveNotificationSettings,
+  SessionEvent,
+  SessionNotification,
+  SessionWatcher,
+} from '../services/notifications';
+
+/**
+ * How often session lists are refetched while any repository notifies
+ */
+export const NOTIFICATION_POLL_INTERVAL_MS = 30_000;
+
+/**
+ * Number of notifications kept for the notification list
+ */
+const MAX_NOTIFICATIONS = 50;
+
+const statusTitles: Partial<Record<Session['uiStatus'], string>> = {
+  InProgress: 'Session started',
+  NeedsReview: 'Session needs review',
+  NeedsReviewIpReturned: 'Session needs review',
+};
+
+function describeEvent(event: SessionEvent) {
+  if (event.type === 'status') {
+    return {
+      sessionId: event.session.id,
+      title: statusTitles[event.to] ?? 'Session updated',
+      body: event.session.title || event.session.repo,
+    };
+  }
+  return {
+    sessionId: event.prompt.sessionId,
+    title: 'Prompt failed',
+    body: event.session?.title || event.prompt.content,
+  };
+}
+
+/**
+ * Sessions in a cached query result, including subtasks
+ */
+function getSessionsFromQueryData(data: unknown): Session[] {
+  const sessions: Session[] = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && 'pages' in data
+      ? (data as { pages: Session[][] }).pages.flat()
+      : data && typeof data === 'object' && 'uiStatus' in data
+        ? [data as Session]
+        : [];
+  return sessions.flatMap((session) => [
+    session,
+    ...getSessionsFromQueryData(session.children ?? []),
+  ]);
+}
+
+interface NotificationContextValue {
+  notifications: SessionNotification[];
+  unreadCount: number;
+  markAllRead: () => void;
+  markSessionRead: (sessionId: string) => void;
+  settings: NotificationSettings;
+  updateSettings: (settings: Partial<NotificationSettings>) => void;
+  /**
+   * Repositories of the sessions seen so far, for the opt-in list
+   */
+  repos: string[];
+  /**
+   * Asks for browser notification permission and enables desktop
+   * notifications when granted
+   */
+  enableDesktopNotifications: () => Promise<boolean>;
+}
+
+const NotificationContext = createContext<NotificationContextValue | null>(
+  null
+);
+
+/**
+ * Provider that watches session and prompt query results for status changes
+ * and reports them as toasts, browser notifications and unread items.
+ * Must be used within an ApiProvider, a QueryProvider and a router.
+ */
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({
+  children,
+}) => {
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const watcher = useMemo(() => new SessionWatcher(), []);
+  const [notifications, setNotifications] = useState<SessionNotification[]>([]);
+  const [settings, setSettings] = useState(loadNotificationSettings);
+  const [repos, setRepos] = useState<string[]>([]);
+
+  // Read from the query cache listener, which outlives renders
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  useEffect(() => {
+    saveNotificationSettings(settings);
+  }, [settings]);
+
+  const notify = useCallback(
+    (event: SessionEvent) => {
+      const current = settingsRef.current;
+      if (!event.session || !current.repos.includes(event.session.repo)) {
+        return;
+      }
+
+      const { sessionId, title, body } = describeEvent(event);
+      setNotifications((existing) =>
+        [
+          {
+            id: `${sessionId}-${Date.now()}-${existing.length}`,
+            sessionId,
+            title,
+            body,
+            createdAt: Date.now(),
+            read: false,
+          },
+          ...existing,
+        ].slice(0, MAX_NOTIFICATIONS)
+      );
+
+      if (isInQuietHours(current.quietHours)) return;
+
+      const open = () => navigate(`/session/${sessionId}`);
+      toast(title, {
+        description: body,
+        action: { label: 'Open', onClick: open },
+      });
+      if (
+        current.desktop &&
+        window.Notification &&
+        window.Notification.permission === 'granted'
+      ) {
+        const notification = new window.Notification(title, {
+          body,
+          tag: sessionId,
+        });
+        notification.onclick = () => {
+          window.focus();
+          open();
+        };
+      }
+    },
+    [navigate]
+  );
+
+  useEffect(() => {
+    return queryClient.getQueryCache().subscribe((event) => {
+      if (event.type !== 'updated' || event.action.type !== 'success') {
+        return;
+      }
+      const [root, kind] = event.query.queryKey;
+      const data = event.action.data;
+
+      let events: SessionEvent[] = [];
+      if (root === queryKeys.sessions.all[0]) {
+        const sessionEvents = watcher.observeSessions(
+          getSessionsFromQueryData(data)
+        );
+        // Manual writes are the user's own changes: optimistic updates, their
+        // rollbacks and mutation results. They become the new baseline
+        // without notifying.
+        if (!event.action.manual) events = sessionEvents;
+        const seenRepos = watcher.getRepos();
+        setRepos((existing) =>
+          existing.join() === seenRepos.join() ? existing : seenRepos
+        );
+      } else if (
+        root === queryKeys.prompts.all[0] &&
+        kind === 'list' &&
+        Array.isArray(data)
+      ) {
+        events = watcher.observePrompts(data as Prompt[]);
+      }
+      events.forEach(notify);
+    });
+  }, [queryClient, watcher, notify]);
+
+  const isWatching = settings.repos.length > 0;
+  // The sidebar lists are filtered by status, so a session usually leaves
+  // one before it enters another. Watching every session that isn't
+  // archived keeps its previous status known.
+  useSessions({ archived: false }, { enabled: isWatching });
+
+  // Session lists aren't polled otherwise, so changes would go unnoticed
+  useEffect(() => {
+    if (!isWatching) return;
+    const interval = setInterval(() => {
+      void queryClient.refetchQueries({
+        queryKey: queryKeys.sessions.lists(),
+        type: 'active',
+      });
+    }, NOTIFICATION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [queryClient, isWatching]);
+
+  const value = useMemo<NotificationContextValue>(
+    () => ({
+      notifications,
+      unreadCount: notifications.filter((n) => !n.read).length,
+      markAllRead: () =>
+        setNotifications((existing) =>
+          existing.map((n) => ({ ...n, read: true }))
+        ),
+      markSessionRead: (sessionId) =>
+        setNotifications((existing) =>
+          existing.some((n) => n.sessionId === sessionId && !n.read)
+            ? existing.map((n) =>
+                n.sessionId === sessionId ? { ...n, read: true } : n
+              )
+            : existing
+        ),
+      settings,
+      updateSettings: (changes) =>
+        setSettings((existing) => ({ ...existing, ...changes })),
+      repos,
+      enableDesktopNotifications: async () => {
+        if (!window.Notification) return false;
+        const permission = await window.Notification.requestPermission();
+        const granted = permission === 'granted';
+        setSettings((existing) => ({ ...existing, desktop: granted }));
+        return granted;
+      },
+    }),
+    [notifications, settings, repos]
+  );
+
+  return (
+    <NotificationContext.Provider value={value}>
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+/**
+ * Hook to access session notifications.
+ * Returns null outside of a NotificationProvider.
+ */
+export const useNotifications = (): NotificationContextValue | null =>
+  useContext(NotificationContext);
@@ -0,0 +1,89 @@
+import React, {
+  createContext,
+  ReactNode,
+  useContext,
+  useEffect,
+  useMemo,
+} from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useApi } from './ApiProvider';
+import {
+  createOutboxStore,
+  OutboxStore,
+  PromptOutbox,
+} from '../services/outbox';
+import { isTransientApiError } from '../utils/apiErrorHandler';
+import { queryKeys } from '../hooks/queryKeys';
+
+/**
+ * Context for the prompt outbox.
+ * Prompts that could not be delivered are queued here and retried.
+ */
+const OutboxContext = createContext<PromptOutbox | null>(null);
+
+interface OutboxProviderProps {
+  children: ReactNode;
+  store?: OutboxStore;
+}
+
+/**
+ * Provider component that keeps undelivered prompts in a persistent outbox
+ * and retries them until the backend accepts them.
+ * Must be used within an ApiProvider and a QueryProvider.
+ *
+ * @example
+ * ```tsx
+ * <ApiProvider>
+ *   <QueryProvider>
+ *     <OutboxProvider>
+ *       <App />
+ *     </OutboxProvider>
+ *   </QueryProvider>
+ * </ApiProvider>
+ * ```
+ */
+export const OutboxProvider: React.FC<OutboxProviderProps> = ({
+  children,
+  store,
+}) => {
+  const api = useApi();
+  const queryClient = useQueryClient();
+
+  const outbox = useMemo(
+    () =>
+      new PromptOutbox({
+        store: store ?? createOutboxStore(),
+        send: (sessionId, content) => api.prompts.create(sessionId, content),
+        isTransientError: isTransientApiError,
+        onSent: (item) => {
+          queryClient.invalidateQueries({
+            queryKey: queryKeys.prompts.list(item.sessionId),
+          });
+          toast.success('Queued message sent');
+        },
+        onFailed: (item) => {
+          toast.error('Failed to send queued message', {
+            description: item.lastError,
+          });
+        },
+      }),
+    [api, queryClient, store]
+  );
+
+  useEffect(() => {
+    void outbox.start();
+    return () => outbox.stop();
+  }, [outbox]);
+
+  return (
+    <OutboxContext.Provider value={outbox}>{children}</OutboxContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the prompt outbox.
+ * Returns null outside of an OutboxProvider, in which case failed prompts
+ * are not queued.
+ */
+export const useOutbox = (): PromptOutbox | null => useContext(OutboxContext);
@@ -0,0 +1,122 @@
+import React, {
+  createContext,
+  ReactNode,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+} from 'react';
+import { useQueries } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { useApi } from './ApiProvider';
+import { useCreateSession } from '../hooks/useSessionMutations';
+import { queryKeys } from '../hooks/queryKeys';
+import { SUBTASK_START_STATUSES, SubtaskQueue } from '../services/subtasks';
+
+/**
+ * How often the parents of queued subtasks are refetched
+ */
+export const SUBTASK_POLL_INTERVAL_MS = 15_000;
+
+const SubtaskQueueContext = createContext<SubtaskQueue | null>(null);
+
+interface SubtaskQueueProviderProps {
+  children: ReactNode;
+  queue?: SubtaskQueue;
+}
+
+/**
+ * Provider that holds subtasks queued to start after their parent session,
+ * watches the parents and creates each subtask once its parent needs review.
+ * Must be used within an ApiProvider, a QueryProvider and a router.
+ */
+export const SubtaskQueueProvider: React.FC<SubtaskQueueProviderProps> = ({
+  children,
+  queue: queueProp,
+}) => {
+  const api = useApi();
+  const navigate = useNavigate();
+  const queue = useMemo(() => queueProp ?? new SubtaskQueue(), [queueProp]);
+  const subscribe = useCallback(
+    (listener: () => void) => queue.subscribe(listener),
+    [queue]
+  );
+  const items = useSyncExternalStore(subscribe, () => queue.getItems());
+  // The toasts below report the outcome for the queued subtask instead
+  const { mutateAsync: createSession } = useCreateSession({
+    successToast: false,
+    errorToast: false,
+  });
+
+  const parentIds = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          items
+            .filter((item) => item.status === 'waiting')
+            .map((item) => item.parentId)
+        )
+      ),
+    [items]
+  );
+
+  // Session lists aren't polled, so the parents are watched directly
+  const parentQueries = useQueries({
+    queries: parentIds.map((parentId) => ({
+      queryKey: queryKeys.sessions.detail(parentId),
+      queryFn: ({ signal }) => api.sessions.get(parentId, signal),
+      refetchInterval: SUBTASK_POLL_INTERVAL_MS,
+    })),
+  });
+  const readyParentIds = parentQueries
+    .flatMap(({ data }) =>
+      data && SUBTASK_START_STATUSES.includes(data.uiStatus) ? [data.id] : []
+    )
+    .join(' ');
+
+  useEffect(() => {
+    const ready = new Set(readyParentIds.split(' '));
+    queue
+      .getItems()
+      .filter((item) => item.status === 'waiting' && ready.has(item.parentId))
+      .forEach((item) => {
+        // Another tab watching the same parent may have started it already
+        if (!queue.claim(item.id)) return;
+        createSession(item.data)
+          .then((session) => {
+            queue.remove(item.id);
+            toast.success('Subtask started', {
+              description: session.title || session.repo,
+              action: {
+                label: 'Open',
+                onClick: () => navigate(`/session/${session.id}`),
+              },
+            });
+          })
+          .catch((error) => {
+            const message =
+              error instanceof Error ? error.message : String(error);
+            queue.update(item.id, { status: 'failed', lastError: message });
+            toast.error('Failed to start queued subtask', {
+              description: message,
+            });
+          });
+      });
+  }, [queue, readyParentIds, items, createSession, navigate]);
+
+  return (
+    <SubtaskQueueContext.Provider value={queue}>
+      {children}
+    </SubtaskQueueContext.Provider>
+  );
+};
+
+/**
+ * Hook to access the queued subtasks.
+ * Returns null outside of a SubtaskQueueProvider, in which case subtasks
+ * can't be queued.
+ */
+export const useSubtaskQueue = (): SubtaskQueue | null =>
+  useContext(SubtaskQueueContext);
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, waitFor } from '@testing-library/react';
+import { toast } from 'sonner';
+import { render, createTestQueryClient } from '@/test/utils';
+import { NotificationProvider } from '../NotificationProvider';
+import { queryKeys } from '@/hooks/queryKeys';
+import { useInfiniteSessions } from '@/hooks/useSessions';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import { ListSessionsParams } from '@/services/api/types';
+import { applyListSessionsParams } from '@/services/api/listParams';
+import { saveNotificationSettings } from '@/services/notifications';
+import { mockSession } from '@/test/mockData';
+import { Session } from '@/types/session';
+
+vi.mock('sonner', () => ({
+  toast: Object.assign(vi.fn(), { error: vi.fn(), success: vi.fn() }),
+}));
+
+describe('NotificationProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.localStorage.clear();
+    saveNotificationSettings({
+      desktop: false,
+      repos: [mockSession.repo],
+      quietHours: { enabled: false, start: '22:00', end: '08:00' },
+    });
+  });
+
+  it('should notify about fetched changes but not about manual cache writes', async () => {
+    const queryClient = createTestQueryClient();
+    const key = queryKeys.sessions.detail(mockSession.id);
+    const fetchSession = (uiStatus: Session['uiStatus']) =>
+      act(() =>
+        queryClient.fetchQuery({
+          queryKey: key,
+          queryFn: () => ({ ...mockSession, uiStatus }),
+          staleTime: 0,
+        })
+      );
+    render(<NotificationProvider>{null}</NotificationProvider>, {
+      client: createMockBackendClient(),
+      queryClient,
+    });
+
+    await fetchSession('NeedsReview');
+
+    // An archive that fails: optimistic update, then rollback
+    act(() => {
+      queryClient.setQueryData(key, { ...mockSession, uiStatus: 'Archived' });
+      queryClient.setQueryData(key, {
+        ...mockSession,
+        uiStatus: 'NeedsReview',
+      });
+    });
+    await fetchSession('NeedsReview');
+    expect(toast).not.toHaveBeenCalled();
+
+    await fetchSession('InProgress');
+    expect(toast).toHaveBeenCalledWith('Session started', expect.anything());
+  });
+
+  it('should notify when a session enters the status the sidebar shows', async () => {
+    const queryClient = createTestQueryClient();
+    const client = createMockBackendClient();
+    let session: Session = { ...mockSession, uiStatus: 'InProgress' };
+    client.sessions.list = vi
+      .fn()
+      .mockImplementation((params?: ListSessionsParams) =>
+        Promise.resolve(applyListSessionsParams([session], params))
+      );
+    const NeedsReviewList = () => {
+      useInfiniteSessions({ uiStatus: ['NeedsReview'] });
+      return null;
+    };
+    render(
+      <NotificationProvider>
+        <NeedsReviewList />
+      </NotificationProvider>,
+      { client, queryClient }
+    );
+    await waitFor(() =>
+      expect(
+        queryClient.isFetching({ queryKey: queryKeys.sessions.lists() })
+      ).toBe(0)
+    );
+
+    session = { ...session, uiStatus: 'NeedsReview' };
+    await act(() =>
+      queryClient.refetchQueries({ queryKey: queryKeys.sessions.lists() })
+    );
+
+    expect(toast).toHaveBeenCalledTimes(1);
+    expect(toast).toHaveBeenCalledWith(
+      'Session needs review',
+      expect.anything()
+    );
+  });
+});
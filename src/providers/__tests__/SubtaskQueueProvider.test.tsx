@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { waitFor } from '@testing-library/react';
+import { toast } from 'sonner';
+import { render } from '@/test/utils';
+import { SubtaskQueueProvider } from '../SubtaskQueueProvider';
+import { SubtaskQueue } from '@/services/subtasks';
+import { createMockBackendClient } from '@/test/mockBackendClient';
+import { mockSession } from '@/test/mockData';
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    success: vi.fn(),
+  },
+}));
+
+const task = {
+  repo: 'test-org/test-repo',
+  targetBranch: 'claude/auth-feature',
+  messages: [{ content: 'Write the docs' }],
+  parentId: mockSession.id,
+};
+
+describe('SubtaskQueueProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.localStorage.clear();
+  });
+
+  it('should start a queued subtask once its parent needs review', async () => {
+    const client = createMockBackendClient();
+    vi.mocked(client.sessions.get).mockResolvedValue({
+      ...mockSession,
+      uiStatus: 'NeedsReview',
+    });
+    const queue = new SubtaskQueue();
+    queue.enqueue(task);
+
+    render(<SubtaskQueueProvider queue={queue}>{null}</SubtaskQueueProvider>, {
+      client,
+    });
+
+    await waitFor(() => {
+      expect(client.sessions.create).toHaveBeenCalledWith(task);
+    });
+    await waitFor(() => {
+      expect(queue.getItems()).toEqual([]);
+    });
+    expect(toast.success).toHaveBeenCalledTimes(1);
+    expect(toast.success).toHaveBeenCalledWith(
+      'Subtask started',
+      expect.anything()
+    );
+  });
+
+  it('should start a subtask only once when several tabs are open', async () => {
+    const client = createMockBackendClient();
+    vi.mocked(client.sessions.get).mockResolvedValue({
+      ...mockSession,
+      uiStatus: 'NeedsReview',
+    });
+    const queue = new SubtaskQueue();
+    queue.enqueue(task);
+    const otherTab = new SubtaskQueue();
+
+    render(
+      <>
+        <SubtaskQueueProvider queue={queue}>{null}</SubtaskQueueProvider>
+        <SubtaskQueueProvider queue={otherTab}>{null}</SubtaskQueueProvider>
+      </>,
+      { client }
+    );
+
+    await waitFor(() => {
+      expect(queue.getItems()).toEqual([]);
+    });
+    expect(client.sessions.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a subtask that fails to start once', async () => {
+    const client = createMockBackendClient();
+    vi.mocked(client.sessions.get).mockResolvedValue({
+      ...mockSession,
+      uiStatus: 'NeedsReview',
+    });
+    vi.mocked(client.sessions.create).mockRejectedValue(
+      new Error('Quota exceeded')
+    );
+    const queue = new SubtaskQueue();
+    queue.enqueue(task);
+
+    render(<SubtaskQueueProvider queue={queue}>{null}</SubtaskQueueProvider>, {
+      client,
+    });
+
+    await waitFor(() => {
+      expect(queue.getItems()[0].status).toBe('failed');
+    });
+    expect(toast.error).toHaveBeenCalledTimes(1);
+    expect(toast.error).toHaveBeenCalledWith('Failed to start queued subtask', {
+      description: 'Quota exceeded',
+    });
+  });
+
+  it('should hold the subtask while the parent is still running', async () => {
+    const client = createMockBackendClient();
+    vi.mocked(client.sessions.get).mockResolvedValue({
+      ...mockSession,
+      uiStatus: 'InProgress',
+    });
+    const queue = new SubtaskQueue();
+    queue.enqueue(task);
+
+    render(<SubtaskQueueProvider queue={queue}>{null}</SubtaskQueueProvider>, {
+      client,
+    });
+
+    await waitFor(() => {
+      expect(client.sessions.get).toHaveBeenCalledWith(
+        mockSession.id,
+        expect.any(AbortSignal)
+      );
+    });
+    expect(client.sessions.create).not.toHaveBeenCalled();
+    expect(queue.getItems()[0].status).toBe('waiting');
+  });
+});
@@ -41,6 +41,7 @@ export const SessionSchema = z.object({
   uiStatus: UiStatusSchema,
   sessionStatus: SessionStatusSchema,
   createdAt: z.coerce.date(), // Coerce strings to Date objects
+  updatedAt: z.coerce.date().optional(),
   prUrl: z.string().optional(),
   diffStats: z
     .object({
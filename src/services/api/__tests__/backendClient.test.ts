@@ -46,7 +46,7 @@ describe('BackendClient API Boundaries', () => {
       const sessions = await backendClient.sessions.list();
 
       expect(mockHttpClient.get).toHaveBeenCalledWith('/api/sessions', {
-        params: undefined,
+        signal: expect.any(AbortSignal),
       });
       expect(sessions).toHaveLength(1);
       expect(sessions[0]).toMatchObject({
@@ -71,9 +71,33 @@ describe('BackendClient API Boundaries', () => {
         parentId: 'parent-1',
       });
 
-      expect(mockHttpClient.get).toHaveBeenCalledWith('/api/sessions', {
-        params: { archived: true, parentId: 'parent-1' },
+      expect(mockHttpClient.get).toHaveBeenCalledWith(
+        '/api/sessions?archived=true&parent_id=parent-1',
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should send filters in the query format of the generated client', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValue({
+        data: [],
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      });
+
+      await backendClient.sessions.list({
+        uiStatus: ['NeedsReview', 'InProgress'],
+        parentId: null,
+        limit: 20,
       });
+
+      const [url] = vi.mocked(mockHttpClient.get).mock.calls[0];
+      const query = new URLSearchParams(url.split('?')[1]);
+      expect(url.split('?')[0]).toBe('/api/sessions');
+      expect(query.get('ui_status')).toBe('NeedsReview,InProgress');
+      expect(query.get('parent_id')).toBe('null');
+      expect(query.get('limit')).toBe('20');
+      expect(query.has('uiStatus')).toBe(false);
     });
 
     it('should handle network errors', async () => {
@@ -122,7 +146,8 @@ describe('BackendClient API Boundaries', () => {
       const session = await backendClient.sessions.get('session-1');
 
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        '/api/sessions/session-1'
+        '/api/sessions/session-1',
+        { signal: expect.any(AbortSignal) }
       );
       expect(session).toMatchObject({
         id: 'session-1',
@@ -149,6 +174,43 @@ describe('BackendClient API Boundaries', () => {
         'Not found'
       );
     });
+
+    it('should send one request for identical concurrent reads', async () => {
+      vi.mocked(mockHttpClient.get).mockResolvedValue({
+        data: { id: 'session-1', created_at: '2025-01-01T10:00:00Z' },
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      });
+
+      const [first, second] = await Promise.all([
+        backendClient.sessions.get('session-1'),
+        backendClient.sessions.get('session-1'),
+      ]);
+
+      expect(mockHttpClient.get).toHaveBeenCalledTimes(1);
+      expect(first.id).toBe('session-1');
+      expect(second.id).toBe('session-1');
+    });
+
+    it('should abort the request when its caller aborts', async () => {
+      vi.mocked(mockHttpClient.get).mockImplementation(
+        (_url, config) =>
+          new Promise((_resolve, reject) => {
+            config?.signal?.addEventListener('abort', () =>
+              reject(config.signal?.reason)
+            );
+          })
+      );
+      const controller = new window.AbortController();
+
+      const result = backendClient.sessions.get('session-1', controller.signal);
+      controller.abort();
+
+      await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+      const [, config] = vi.mocked(mockHttpClient.get).mock.calls[0];
+      expect(config?.signal?.aborted).toBe(true);
+    });
   });
 
   describe('sessions.create', () => {
@@ -179,11 +241,15 @@ describe('BackendClient API Boundaries', () => {
         messages: { content: 'Create new feature' },
       });
 
-      expect(mockHttpClient.post).toHaveBeenCalledWith('/api/sessions', {
-        repo: 'test/repo',
-        target_branch: 'main',
-        messages: { content: 'Create new feature' },
-      });
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/api/sessions',
+        {
+          repo: 'test/repo',
+          target_branch: 'main',
+          messages: { content: 'Create new feature' },
+        },
+        { signal: undefined }
+      );
       expect(newSession).toMatchObject({
         id: 'new-session',
         title: 'Create new feature',
@@ -241,7 +307,8 @@ describe('BackendClient API Boundaries', () => {
           title: 'Updated Title',
           inbox_status: 'completed',
           pr_url: 'https://github.com/test/repo/pull/1',
-        }
+        },
+        { signal: undefined }
       );
       expect(updated.title).toBe('Updated Title');
       expect(updated.inboxStatus).toBe('completed');
@@ -262,7 +329,8 @@ describe('BackendClient API Boundaries', () => {
       await backendClient.sessions.delete('session-1');
 
       expect(mockHttpClient.delete).toHaveBeenCalledWith(
-        '/api/sessions/session-1'
+        '/api/sessions/session-1',
+        { signal: undefined }
       );
     });
   });
@@ -293,7 +361,9 @@ describe('BackendClient API Boundaries', () => {
       const archived = await backendClient.sessions.archive('session-1');
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
-        '/api/sessions/session-1/archive'
+        '/api/sessions/session-1/archive',
+        undefined,
+        { signal: undefined }
       );
       expect(archived.sessionStatus).toBe('Archived');
     });
@@ -325,12 +395,64 @@ describe('BackendClient API Boundaries', () => {
       const unarchived = await backendClient.sessions.unarchive('session-1');
 
       expect(mockHttpClient.post).toHaveBeenCalledWith(
-        '/api/sessions/session-1/unarchive'
+        '/api/sessions/session-1/unarchive',
+        undefined,
+        { signal: undefined }
       );
       expect(unarchived.sessionStatus).toBe('Active');
     });
   });
 
+  describe('prompts.cancel and prompts.retry', () => {
+    const promptResponse = (status: string): HttpResponse<any> => ({
+      data: {
+        id: 'prompt-1',
+        session_id: 'session-1',
+        content: 'Fix the tests',
+        status,
+        created_at: '2025-01-01T10:00:00Z',
+      },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+    });
+
+    it('should cancel a prompt', async () => {
+      vi.mocked(mockHttpClient.post).mockResolvedValue(
+        promptResponse('failed')
+      );
+
+      const prompt = await backendClient.prompts.cancel('prompt-1');
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/api/prompts/prompt-1/cancel',
+        undefined,
+        { signal: undefined }
+      );
+      expect(prompt).toMatchObject({
+        id: 'prompt-1',
+        sessionId: 'session-1',
+        status: 'failed',
+        createdAt: expect.any(Date),
+      });
+    });
+
+    it('should retry a prompt', async () => {
+      vi.mocked(mockHttpClient.post).mockResolvedValue(
+        promptResponse('pending')
+      );
+
+      const prompt = await backendClient.prompts.retry('prompt-1');
+
+      expect(mockHttpClient.post).toHaveBeenCalledWith(
+        '/api/prompts/prompt-1/retry',
+        undefined,
+        { signal: undefined }
+      );
+      expect(prompt.status).toBe('pending');
+    });
+  });
+
   describe('messages.list', () => {
     it('should fetch and deserialize messages', async () => {
       // BackendMessage structure (not the old simple Message structure)
@@ -378,7 +500,8 @@ describe('BackendClient API Boundaries', () => {
 
       // Fixed: should use /api/prompts/{promptId}/messages endpoint
       expect(mockHttpClient.get).toHaveBeenCalledWith(
-        '/api/prompts/prompt-1/messages'
+        '/api/prompts/prompt-1/messages',
+        { signal: expect.any(AbortSignal) }
       );
       expect(messages).toHaveLength(2);
       // BackendMessage structure (unwrapped from data field)
@@ -389,6 +512,7 @@ describe('BackendClient API Boundaries', () => {
           role: 'user',
           content: [{ type: 'text', text: 'Hello' }],
         },
+        created_at: '2025-01-01T10:05:00Z',
       });
     });
   });
@@ -419,7 +543,8 @@ describe('BackendClient API Boundaries', () => {
         '/api/sessions/session-1/messages',
         {
           content: 'New message',
-        }
+        },
+        { signal: undefined }
       );
       expect(message).toMatchObject({
         id: 'msg-new',
@@ -493,10 +618,14 @@ describe('BackendClient API Boundaries', () => {
         prUrl: 'http://test.com',
       });
 
-      expect(mockHttpClient.patch).toHaveBeenCalledWith('/api/sessions/test', {
-        inbox_status: 'completed',
-        pr_url: 'http://test.com',
-      });
+      expect(mockHttpClient.patch).toHaveBeenCalledWith(
+        '/api/sessions/test',
+        {
+          inbox_status: 'completed',
+          pr_url: 'http://test.com',
+        },
+        { signal: undefined }
+      );
     });
 
     it('should parse date strings to Date objects', async () => {
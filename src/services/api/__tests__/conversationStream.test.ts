@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FakeStreamServer } from '@/test/fakeStreamServer';
+import { PromptBackendClient } from '../promptBackendClient';
+import { BackendClientImpl } from '../backendClient';
+import { HttpClient } from '@/services/http/types';
+
+const message = {
+  type: 'assistant',
+  uuid: 'msg-1',
+  message: { role: 'assistant', content: [{ type: 'text', text: 'Hi' }] },
+  session_id: 'session-1',
+};
+
+describe('conversation streams', () => {
+  it('should not stream from the SDK client without a transport', () => {
+    expect(new PromptBackendClient('http://localhost:8000').stream).toBe(
+      undefined
+    );
+  });
+
+  it('should subscribe the SDK client to the un-prefixed stream route', () => {
+    const server = new FakeStreamServer();
+    const client = new PromptBackendClient('http://localhost:8000', server);
+    const onEvent = vi.fn();
+
+    client.stream!.subscribe('session-1', { onEvent });
+    server.send('/sessions/session-1/stream', {
+      type: 'message',
+      promptId: 'prompt-1',
+      prompt_id: 'prompt-2',
+      message,
+    });
+
+    expect(onEvent).toHaveBeenCalledWith({
+      type: 'message',
+      promptId: 'prompt-1',
+      message: expect.objectContaining({ uuid: 'msg-1' }),
+    });
+  });
+
+  it('should read stream events the same way in both clients', () => {
+    const server = new FakeStreamServer();
+    const client = new BackendClientImpl({} as HttpClient, server);
+    const onEvent = vi.fn();
+
+    client.stream!.subscribe('session-1', { onEvent });
+    server.send('/api/sessions/session-1/stream', {
+      type: 'message',
+      promptId: 'prompt-1',
+      prompt_id: 'prompt-2',
+      message,
+    });
+    server.send('/api/sessions/session-1/stream', { type: 'unknown' });
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ promptId: 'prompt-1' })
+    );
+  });
+
+  it('should ignore malformed events', () => {
+    const server = new FakeStreamServer();
+    const client = new BackendClientImpl({} as HttpClient, server);
+    const onEvent = vi.fn();
+
+    client.stream!.subscribe('session-1', { onEvent });
+    server.send('/api/sessions/session-1/stream', 'ping');
+    server.send('/api/sessions/session-1/stream', null);
+    server.send('/api/sessions/session-1/stream', {
+      type: 'prompt',
+      prompt: 'prompt-1',
+    });
+    server.send('/api/sessions/session-1/stream', { type: 'message', message });
+
+    expect(onEvent).not.toHaveBeenCalled();
+  });
+});
@@ -72,6 +72,7 @@ describe('Data Wrapper Bug', () => {
       );
       expect(result[0].uuid).toBe('83ba2e18-07f4-4ca4-ba97-812f79fb2ba4');
       expect(result[0].session_id).toBe('424257b8-705a-462e-ad5f-afd041a424dc');
+      expect(result[0].created_at).toBe('2025-11-06 22:41:31.498192 +00:00');
     });
 
     it('shows what the deserialization SHOULD produce', async () => {
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InFlightRequests } from '../inFlightRequests';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('InFlightRequests', () => {
+  it('should share identical requests while they are in flight', async () => {
+    const inFlight = new InFlightRequests();
+    const response = deferred<string>();
+    const request = vi.fn(() => response.promise);
+
+    const first = inFlight.run('sessions', undefined, request);
+    const second = inFlight.run('sessions', undefined, request);
+    const other = inFlight.run('prompts', undefined, async () => 'other');
+    response.resolve('sessions');
+
+    await expect(Promise.all([first, second, other])).resolves.toEqual([
+      'sessions',
+      'sessions',
+      'other',
+    ]);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    await inFlight.run('sessions', undefined, request);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only abort the shared request once every caller has aborted', async () => {
+    const inFlight = new InFlightRequests();
+    const response = deferred<string>();
+    let sharedSignal: AbortSignal | undefined;
+    const request = (signal: AbortSignal) => {
+      sharedSignal = signal;
+      return response.promise;
+    };
+    const first = new window.AbortController();
+    const second = new window.AbortController();
+
+    const firstResult = inFlight.run('sessions', first.signal, request);
+    const secondResult = inFlight.run('sessions', second.signal, request);
+
+    first.abort();
+    await expect(firstResult).rejects.toMatchObject({ name: 'AbortError' });
+    expect(sharedSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondResult).rejects.toMatchObject({ name: 'AbortError' });
+    expect(sharedSignal?.aborted).toBe(true);
+  });
+
+  it('should reject right away when the signal is already aborted', async () => {
+    const inFlight = new InFlightRequests();
+    const controller = new window.AbortController();
+    controller.abort();
+    const request = vi.fn();
+
+    await expect(
+      inFlight.run('sessions', controller.signal, request)
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(request).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyListSessionsParams,
+  getNextSessionsCursor,
+  toListSessionsQuery,
+} from '../listParams';
+import { Session } from '@/types/session';
+
+const makeSession = (overrides: Partial<Session>): Session => ({
+  id: 'session',
+  title: 'Session',
+  repo: 'test/repo',
+  branch: 'feature',
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'pending',
+  uiStatus: 'Pending',
+  sbxConfig: null,
+  parentId: null,
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  sessionStatus: 'Active',
+  ...overrides,
+});
+
+const sessions: Session[] = [
+  makeSession({
+    id: 's1',
+    uiStatus: 'NeedsReview',
+    createdAt: new Date('2025-01-01T10:00:00Z'),
+  }),
+  makeSession({
+    id: 's2',
+    uiStatus: 'Pending',
+    createdAt: new Date('2025-01-02T10:00:00Z'),
+  }),
+  makeSession({
+    id: 's3',
+    uiStatus: 'NeedsReview',
+    parentId: 's1',
+    createdAt: new Date('2025-01-03T10:00:00Z'),
+  }),
+  makeSession({
+    id: 's4',
+    uiStatus: 'Archived',
+    sessionStatus: 'Archived',
+    createdAt: new Date('2025-01-04T10:00:00Z'),
+  }),
+];
+
+describe('toListSessionsQuery', () => {
+  it('returns an empty string without params', () => {
+    expect(toListSessionsQuery()).toBe('');
+    expect(toListSessionsQuery({})).toBe('');
+  });
+
+  it('serializes filters and pagination', () => {
+    const query = new URLSearchParams(
+      toListSessionsQuery({
+        uiStatus: ['NeedsReview', 'NeedsReviewIpReturned'],
+        archived: false,
+        parentId: null,
+        cursor: 's9',
+        limit: 25,
+      })
+    );
+
+    expect(query.get('ui_status')).toBe('NeedsReview,NeedsReviewIpReturned');
+    expect(query.get('archived')).toBe('false');
+    expect(query.get('parent_id')).toBe('null');
+    expect(query.get('cursor')).toBe('s9');
+    expect(query.get('limit')).toBe('25');
+  });
+});
+
+describe('applyListSessionsParams', () => {
+  it('returns the list untouched without params', () => {
+    expect(applyListSessionsParams(sessions)).toBe(sessions);
+  });
+
+  it('filters by uiStatus, archived and parentId', () => {
+    expect(
+      applyListSessionsParams(sessions, { uiStatus: ['NeedsReview'] }).map(
+        (s) => s.id
+      )
+    ).toEqual(['s3', 's1']);
+    expect(
+      applyListSessionsParams(sessions, { archived: true }).map((s) => s.id)
+    ).toEqual(['s4']);
+    expect(
+      applyListSessionsParams(sessions, { parentId: null }).map((s) => s.id)
+    ).toEqual(['s4', 's2', 's1']);
+  });
+
+  it('pages newest first starting after the cursor', () => {
+    const firstPage = applyListSessionsParams(sessions, { limit: 2 });
+    expect(firstPage.map((s) => s.id)).toEqual(['s4', 's3']);
+
+    const secondPage = applyListSessionsParams(sessions, {
+      limit: 2,
+      cursor: getNextSessionsCursor(firstPage, 2),
+    });
+    expect(secondPage.map((s) => s.id)).toEqual(['s2', 's1']);
+  });
+
+  it('is a no-op on a page the backend already filtered', () => {
+    const page = applyListSessionsParams(sessions, { limit: 2, cursor: 's4' });
+    expect(
+      applyListSessionsParams(page, { limit: 2, cursor: 's4' }).map((s) => s.id)
+    ).toEqual(['s3', 's2']);
+  });
+});
+
+describe('getNextSessionsCursor', () => {
+  it('stops when a page comes back short', () => {
+    expect(getNextSessionsCursor(sessions.slice(0, 1), 2)).toBeUndefined();
+    expect(getNextSessionsCursor(sessions.slice(0, 2), 2)).toBe('s2');
+  });
+});
@@ -1,8 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { PromptBackendClient } from '../promptBackendClient';
 import { DefaultApi } from '@wholelottahoopla/prompt-backend-client';
+import { toast } from 'sonner';
 
 vi.mock('@wholelottahoopla/prompt-backend-client');
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+    warning: vi.fn(),
+  },
+}));
 
 describe('PromptBackendClient.prompts.create', () => {
   let client: PromptBackendClient;
@@ -30,13 +37,71 @@ describe('PromptBackendClient.prompts.create', () => {
 
     const result = await client.prompts.create('session-456', 'Hello world');
 
-    expect(mockApi.handlersPromptsCreate).toHaveBeenCalledWith({
-      createPromptInput: {
-        sessionId: 'session-456',
-        data: [{ content: 'Hello world', type: 'text' }],
+    expect(mockApi.handlersPromptsCreate).toHaveBeenCalledWith(
+      {
+        createPromptInput: {
+          sessionId: 'session-456',
+          data: [{ content: 'Hello world', type: 'text' }],
+        },
       },
+      { signal: undefined }
+    );
+
+    expect(result).toEqual({
+      id: 'prompt-123',
+      sessionId: 'session-456',
+      content: 'Hello world',
+      createdAt: expect.any(Date),
+      status: 'pending',
     });
+  });
+
+  it('should leave reporting failures to the caller', async () => {
+    mockApi.handlersPromptsCreate = vi
+      .fn()
+      .mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(
+      client.prompts.create('session-456', 'Hello world')
+    ).rejects.toThrow('Failed to fetch');
+    expect(toast.error).not.toHaveBeenCalled();
+  });
+});
+
+describe('PromptBackendClient.prompts lifecycle', () => {
+  let client: PromptBackendClient;
+  let promptsAction: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    client = new PromptBackendClient();
+    promptsAction = vi.fn().mockResolvedValue({
+      id: 'prompt-123',
+      session_id: 'session-456',
+      created_at: '2025-11-06T00:00:00Z',
+      inbox_status: 'pending',
+      data: [{ content: 'Hello world', type: 'text' }],
+    });
+    (client as any).lifecycleApi = { promptsAction };
+  });
+
+  it('should cancel a prompt', async () => {
+    await client.prompts.cancel('prompt-123');
+
+    expect(promptsAction).toHaveBeenCalledWith(
+      'prompt-123',
+      'cancel',
+      undefined
+    );
+  });
+
+  it('should retry a prompt', async () => {
+    const result = await client.prompts.retry('prompt-123');
 
+    expect(promptsAction).toHaveBeenCalledWith(
+      'prompt-123',
+      'retry',
+      undefined
+    );
     expect(result).toEqual({
       id: 'prompt-123',
       sessionId: 'session-456',
@@ -41,9 +41,12 @@ describe('PromptId Bug in Message Listing', () => {
       expect(result).toEqual([]);
 
       // API was called with promptId (which is correct)
-      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith({
-        promptId,
-      });
+      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith(
+        {
+          promptId,
+        },
+        { signal: expect.any(AbortSignal) }
+      );
     });
 
     it('shows that handlersMessagesList is now called with correct parameter name', async () => {
@@ -53,9 +56,12 @@ describe('PromptId Bug in Message Listing', () => {
       await backendClient.messages.list(promptId);
 
       // Now correctly called with { promptId: 'prompt-123' }
-      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith({
-        promptId,
-      });
+      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith(
+        {
+          promptId,
+        },
+        { signal: expect.any(AbortSignal) }
+      );
     });
 
     it('demonstrates the correct API call stack', async () => {
@@ -86,9 +92,12 @@ describe('PromptId Bug in Message Listing', () => {
 
       const result = await backendClient.messages.list('prompt-123');
       expect(result).toHaveLength(1);
-      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith({
-        promptId: 'prompt-123',
-      });
+      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith(
+        {
+          promptId: 'prompt-123',
+        },
+        { signal: expect.any(AbortSignal) }
+      );
     });
   });
 
@@ -133,9 +142,12 @@ describe('PromptId Bug in Message Listing', () => {
       const sessionId = 'session-123';
       const promptsResponse = await backendClient.prompts.list(sessionId);
 
-      expect(mockApiClient.handlersPromptsList).toHaveBeenCalledWith({
-        sessionId,
-      });
+      expect(mockApiClient.handlersPromptsList).toHaveBeenCalledWith(
+        {
+          sessionId,
+        },
+        { signal: expect.any(AbortSignal) }
+      );
       expect(promptsResponse).toHaveLength(2);
 
       // Step 2: For each prompt, get its messages using promptId
@@ -174,9 +186,12 @@ describe('PromptId Bug in Message Listing', () => {
 
       // Prompts.list correctly uses sessionId
       await backendClient.prompts.list('session-123');
-      expect(mockApiClient.handlersPromptsList).toHaveBeenCalledWith({
-        sessionId: 'session-123',
-      });
+      expect(mockApiClient.handlersPromptsList).toHaveBeenCalledWith(
+        {
+          sessionId: 'session-123',
+        },
+        { signal: expect.any(AbortSignal) }
+      );
 
       // Messages.list now correctly uses promptId
       // The bug has been fixed!
@@ -184,9 +199,12 @@ describe('PromptId Bug in Message Listing', () => {
 
       // The backend client now passes promptId
       await backendClient.messages.list('prompt-123');
-      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith({
-        promptId: 'prompt-123',
-      });
+      expect(mockApiClient.handlersMessagesList).toHaveBeenCalledWith(
+        {
+          promptId: 'prompt-123',
+        },
+        { signal: expect.any(AbortSignal) }
+      );
     });
   });
 
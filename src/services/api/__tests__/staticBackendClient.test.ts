@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { StaticBackendClient } from '../staticBackendClient';
+import { SessionBundle } from '@/utils/sessionExport';
+
+const bundle: SessionBundle = {
+  version: 1,
+  exportedAt: '2025-01-02T00:00:00.000Z',
+  session: {
+    id: 'session-1',
+    title: 'Exported session',
+    repo: 'acme/web',
+    branch: 'feature',
+    targetBranch: 'main',
+    messages: null,
+    inboxStatus: 'completed',
+    uiStatus: 'NeedsReview',
+    sbxConfig: null,
+    parentId: null,
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    sessionStatus: 'Active',
+  },
+  prompts: [
+    {
+      id: 'prompt-1',
+      sessionId: 'session-1',
+      content: 'Hello',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      status: 'completed',
+    },
+  ],
+  messages: {
+    'prompt-1': [
+      {
+        type: 'assistant',
+        uuid: 'msg-1',
+        message: { content: [{ type: 'text', text: 'Hi' }] },
+        session_id: 'session-1',
+      },
+    ],
+  },
+};
+
+describe('StaticBackendClient', () => {
+  const client = new StaticBackendClient(bundle);
+
+  it('should serve the bundled session, prompts and messages', async () => {
+    await expect(client.sessions.list()).resolves.toEqual([bundle.session]);
+    await expect(client.sessions.get('session-1')).resolves.toBe(
+      bundle.session
+    );
+    await expect(client.prompts.list('session-1')).resolves.toEqual(
+      bundle.prompts
+    );
+    await expect(client.messages.list('prompt-1')).resolves.toHaveLength(1);
+    await expect(client.messages.list('unknown')).resolves.toEqual([]);
+  });
+
+  it('should reject other sessions and every write', async () => {
+    await expect(client.sessions.get('session-2')).rejects.toThrow(
+      'Session session-2 is not in this bundle'
+    );
+    await expect(
+      client.prompts.create('session-1', 'More work')
+    ).rejects.toThrow('This session is read-only');
+    await expect(
+      client.sessions.update('session-1', { title: 'Renamed' })
+    ).rejects.toThrow('This session is read-only');
+  });
+});
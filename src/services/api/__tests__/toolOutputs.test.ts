@@ -90,7 +90,8 @@ describe('BackendClient - Tool Outputs', () => {
 
     // Verify the endpoint was called correctly
     expect(mockHttpClient.get).toHaveBeenCalledWith(
-      '/api/prompts/75eeb2a5-09d5-4de8-9b5f-9da1f000685b/messages'
+      '/api/prompts/75eeb2a5-09d5-4de8-9b5f-9da1f000685b/messages',
+      { signal: expect.any(AbortSignal) }
     );
 
     // Verify we got 2 messages back
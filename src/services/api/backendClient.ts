@@ -1,4 +1,5 @@
-import { HttpClient } from '../http/types';
+import { HttpClient, HttpResponse, RequestConfig } from '../http/types';
+import { StreamTransport } from '../stream/types';
 import { Session, Message } from '../../types/session';
 import {
   BackendClient,
@@ -6,6 +7,9 @@ import {
   UpdateSessionData,
   ListSessionsParams,
 } from './types';
+import { applyListSessionsParams, toListSessionsQuery } from './listParams';
+import { InFlightRequests } from './inFlightRequests';
+import { subscribeToConversation } from './conversationStream';
 
 /**
  * Converts snake_case string to camelCase
@@ -69,99 +73,200 @@ function keysToSnake(obj: any): any {
 
 /**
  * Implementation of the BackendClient interface.
- * Uses dependency injection to accept any HTTP client implementation.
+ * Uses dependency injection to accept any HTTP client implementation,
+ * and optionally a stream transport for real-time conversation updates.
  */
 export class BackendClientImpl implements BackendClient {
-  constructor(private httpClient: HttpClient) {}
+  stream?: BackendClient['stream'];
+  private inFlight = new InFlightRequests();
+
+  constructor(
+    private httpClient: HttpClient,
+    private streamTransport?: StreamTransport
+  ) {
+    const transport = this.streamTransport;
+    if (transport) {
+      this.stream = {
+        subscribe: (sessionId, listener) =>
+          subscribeToConversation(
+            transport,
+            `/api/sessions/${sessionId}/stream`,
+            listener,
+            {
+              prompt: (raw) => this.deserializePrompt(raw),
+              message: (raw) => this.deserializeBackendMessages([raw])[0],
+            }
+          ),
+      };
+    }
+  }
 
   sessions = {
-    list: async (params?: ListSessionsParams): Promise<Session[]> => {
-      const response = await this.httpClient.get<any[]>('/api/sessions', {
-        params,
-      });
-      return this.deserializeSessions(response.data);
+    list: async (
+      params?: ListSessionsParams,
+      signal?: AbortSignal
+    ): Promise<Session[]> => {
+      // Same query string as the generated client sends
+      const query = toListSessionsQuery(params);
+      const response = await this.sharedGet<any>(
+        query ? `/api/sessions?${query}` : '/api/sessions',
+        {},
+        signal
+      );
+      // Accept both a bare array and a { sessions } envelope
+      const sessions = Array.isArray(response.data)
+        ? response.data
+        : response.data?.sessions || [];
+      return applyListSessionsParams(
+        this.deserializeSessions(sessions),
+        params
+      );
     },
 
-    get: async (id: string): Promise<Session> => {
-      const response = await this.httpClient.get<any>(`/api/sessions/${id}`);
+    get: async (id: string, signal?: AbortSignal): Promise<Session> => {
+      const response = await this.sharedGet<any>(
+        `/api/sessions/${id}`,
+        {},
+        signal
+      );
       return this.deserializeSession(response.data);
     },
 
-    create: async (data: CreateSessionData): Promise<Session> => {
+    create: async (
+      data: CreateSessionData,
+      signal?: AbortSignal
+    ): Promise<Session> => {
       const snakeData = keysToSnake(data);
       const response = await this.httpClient.post<any>(
         '/api/sessions',
-        snakeData
+        snakeData,
+        { signal }
       );
       return this.deserializeSession(response.data);
     },
 
-    update: async (id: string, data: UpdateSessionData): Promise<Session> => {
+    update: async (
+      id: string,
+      data: UpdateSessionData,
+      signal?: AbortSignal
+    ): Promise<Session> => {
       const snakeData = keysToSnake(data);
       const response = await this.httpClient.patch<any>(
         `/api/sessions/${id}`,
-        snakeData
+        snakeData,
+        { signal }
       );
       return this.deserializeSession(response.data);
     },
 
-    delete: async (id: string): Promise<void> => {
-      await this.httpClient.delete(`/api/sessions/${id}`);
+    delete: async (id: string, signal?: AbortSignal): Promise<void> => {
+      await this.httpClient.delete(`/api/sessions/${id}`, { signal });
     },
 
-    archive: async (id: string): Promise<Session> => {
+    archive: async (id: string, signal?: AbortSignal): Promise<Session> => {
       const response = await this.httpClient.post<any>(
-        `/api/sessions/${id}/archive`
+        `/api/sessions/${id}/archive`,
+        undefined,
+        { signal }
       );
       return this.deserializeSession(response.data);
     },
 
-    unarchive: async (id: string): Promise<Session> => {
+    unarchive: async (id: string, signal?: AbortSignal): Promise<Session> => {
       const response = await this.httpClient.post<any>(
-        `/api/sessions/${id}/unarchive`
+        `/api/sessions/${id}/unarchive`,
+        undefined,
+        { signal }
       );
       return this.deserializeSession(response.data);
     },
   };
 
   prompts = {
-    list: async (sessionId: string) => {
-      const response = await this.httpClient.get<any[]>(
-        `/api/sessions/${sessionId}/prompts`
+    list: async (sessionId: string, signal?: AbortSignal) => {
+      const response = await this.sharedGet<any[]>(
+        `/api/sessions/${sessionId}/prompts`,
+        {},
+        signal
       );
       return this.deserializePrompts(response.data);
     },
 
-    create: async (sessionId: string, content: string) => {
+    create: async (
+      sessionId: string,
+      content: string,
+      signal?: AbortSignal
+    ) => {
       const response = await this.httpClient.post<any>(
         `/api/sessions/${sessionId}/prompts`,
-        { content }
+        { content },
+        { signal }
+      );
+      return this.deserializePrompt(response.data);
+    },
+
+    cancel: async (id: string, signal?: AbortSignal) => {
+      const response = await this.httpClient.post<any>(
+        `/api/prompts/${id}/cancel`,
+        undefined,
+        { signal }
+      );
+      return this.deserializePrompt(response.data);
+    },
+
+    retry: async (id: string, signal?: AbortSignal) => {
+      const response = await this.httpClient.post<any>(
+        `/api/prompts/${id}/retry`,
+        undefined,
+        { signal }
       );
       return this.deserializePrompt(response.data);
     },
   };
 
   messages = {
-    list: async (promptId: string) => {
-      const response = await this.httpClient.get<any>(
-        `/api/prompts/${promptId}/messages`
+    list: async (promptId: string, signal?: AbortSignal) => {
+      const response = await this.sharedGet<any>(
+        `/api/prompts/${promptId}/messages`,
+        {},
+        signal
       );
       // Return BackendMessage[] structure - only convert snake_case to camelCase
       const messages = response.data.messages || response.data;
       return this.deserializeBackendMessages(messages);
     },
 
-    create: async (sessionId: string, content: string): Promise<Message> => {
+    create: async (
+      sessionId: string,
+      content: string,
+      signal?: AbortSignal
+    ): Promise<Message> => {
       const response = await this.httpClient.post<any>(
         `/api/sessions/${sessionId}/messages`,
         {
           content,
-        }
+        },
+        { signal }
       );
       return this.deserializeMessage(response.data);
     },
   };
 
+  /**
+   * GET that shares an identical request already in flight instead of
+   * sending another one
+   */
+  private sharedGet<T>(
+    url: string,
+    config: RequestConfig,
+    signal?: AbortSignal
+  ): Promise<HttpResponse<T>> {
+    const key = `${url} ${JSON.stringify(config.params ?? {})}`;
+    return this.inFlight.run(key, signal, (shared) =>
+      this.httpClient.get<T>(url, { ...config, signal: shared })
+    );
+  }
+
   /**
    * Deserializes a single session, converting snake_case to camelCase and date strings to Date objects
    */
@@ -170,6 +275,9 @@ export class BackendClientImpl implements BackendClient {
     return {
       ...camelSession,
       createdAt: new Date(camelSession.createdAt),
+      updatedAt: camelSession.updatedAt
+        ? new Date(camelSession.updatedAt)
+        : undefined,
       messages: camelSession.messages
         ? this.deserializeMessages(camelSession.messages)
         : null,
@@ -231,8 +339,12 @@ export class BackendClientImpl implements BackendClient {
       const camelMsg = keysToCamel(msg);
 
       // The API wraps BackendMessage in { id, prompt_id, data: BackendMessage, created_at, updated_at }
-      // We need to unwrap the 'data' field to match the BackendMessage type
-      return camelMsg.data || camelMsg;
+      // We need to unwrap the 'data' field to match the BackendMessage type,
+      // keeping the wrapper's timestamp
+      const message = camelMsg.data || camelMsg;
+      return camelMsg.createdAt
+        ? { ...message, created_at: camelMsg.createdAt }
+        : message;
     });
   }
 }
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { BackendMessage, Prompt } from '../../types/session';
+import { StreamTransport } from '../stream/types';
+import { ConversationStreamListener } from './types';
+
+/**
+ * Client-specific conversion of the raw records carried by stream events
+ */
+export interface ConversationStreamDeserializers {
+  prompt(raw: unknown): Prompt;
+  message(raw: unknown): BackendMessage;
+}
+
+const rawRecordSchema = z.record(z.string(), z.unknown());
+
+/**
+ * Stream payloads the conversation understands. Pushed records are checked
+ * by the deserializers, so only the fields needed to route them are here.
+ */
+const streamEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('prompt'), prompt: rawRecordSchema }),
+  z.object({
+    type: z.literal('message'),
+    promptId: z.string().optional(),
+    prompt_id: z.string().optional(),
+    message: rawRecordSchema.and(
+      z.object({ prompt_id: z.string().optional() })
+    ),
+  }),
+]);
+
+/**
+ * Opens a session's event stream and forwards each pushed prompt or message
+ * to the listener. Unknown or incomplete events are ignored.
+ *
+ * @param transport - Transport the stream is opened with
+ * @param path - Stream path, resolved against the transport's base URL
+ * @returns A function that closes the stream
+ */
+export function subscribeToConversation(
+  transport: StreamTransport,
+  path: string,
+  listener: ConversationStreamListener,
+  deserialize: ConversationStreamDeserializers
+): () => void {
+  return transport.connect(path, {
+    onData: (data) => {
+      const result = streamEventSchema.safeParse(data);
+      if (!result.success) return;
+
+      const event = result.data;
+      if (event.type === 'prompt') {
+        listener.onEvent({
+          type: 'prompt',
+          prompt: deserialize.prompt(event.prompt),
+        });
+        return;
+      }
+
+      const promptId =
+        event.promptId || event.prompt_id || event.message.prompt_id;
+      if (promptId) {
+        listener.onEvent({
+          type: 'message',
+          promptId,
+          message: deserialize.message(event.message),
+        });
+      }
+    },
+    onStatusChange: listener.onStatusChange,
+  });
+}
@@ -0,0 +1,79 @@
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: InstanceType<typeof window.AbortController>;
+  /**
+   * Callers still waiting for the result
+   */
+  waiting: number;
+}
+
+/**
+ * Shares identical read requests that are in flight at the same time, so a
+ * list mounted twice or refetched while loading hits the backend once.
+ *
+ * Each caller can abort with its own signal; that only rejects its own
+ * promise. The shared request is aborted once every caller has given up.
+ *
+ * @example
+ * ```ts
+ * const inFlight = new InFlightRequests();
+ * const load = (id: string, signal?: AbortSignal) =>
+ *   inFlight.run(`sessions/${id}`, signal, (shared) =>
+ *     http.get(`/api/sessions/${id}`, { signal: shared })
+ *   );
+ * ```
+ */
+export class InFlightRequests {
+  private requests = new Map<string, InFlightRequest>();
+
+  run<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    request: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    let entry = this.requests.get(key);
+    if (!entry) {
+      const controller = new window.AbortController();
+      const created: InFlightRequest = {
+        controller,
+        waiting: 0,
+        promise: request(controller.signal).finally(() => {
+          if (this.requests.get(key) === created) this.requests.delete(key);
+        }),
+      };
+      // Callers handle the result; this only stops unhandled rejections
+      // once every caller has aborted
+      created.promise.catch(() => {});
+      this.requests.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.waiting++;
+    if (!signal) return shared.promise as Promise<T>;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiting--;
+        if (shared.waiting === 0) {
+          if (this.requests.get(key) === shared) this.requests.delete(key);
+          shared.controller.abort(signal.reason);
+        }
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -3,5 +3,9 @@
  */
 
 export * from './types';
+export * from './listParams';
+export * from './inFlightRequests';
+export * from './conversationStream';
 export * from './backendClient';
 export * from './promptBackendClient';
+export * from './staticBackendClient';
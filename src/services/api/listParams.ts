@@ -0,0 +1,97 @@
+import { Session } from '../../types/session';
+import { ListSessionsParams } from './types';
+
+/**
+ * Serializes list params into the query string understood by the backend.
+ * Returns an empty string when there is nothing to send.
+ */
+export function toListSessionsQuery(params?: ListSessionsParams): string {
+  if (!params) return '';
+
+  const query = new URLSearchParams();
+  if (params.status) query.set('status', params.status);
+  if (params.uiStatus && params.uiStatus.length > 0) {
+    query.set('ui_status', params.uiStatus.join(','));
+  }
+  if (params.archived !== undefined) {
+    query.set('archived', String(params.archived));
+  }
+  if (params.parentId !== undefined) {
+    // An explicit null asks for root sessions only
+    query.set('parent_id', params.parentId ?? 'null');
+  }
+  if (params.cursor) query.set('cursor', params.cursor);
+  if (params.limit !== undefined) query.set('limit', String(params.limit));
+  if (params.offset !== undefined) query.set('offset', String(params.offset));
+
+  return query.toString();
+}
+
+/**
+ * Applies list params to an already-fetched list of sessions.
+ *
+ * Backends that predate server-side filtering return every session and
+ * ignore the query string. Running the same filters locally keeps the page
+ * semantics identical either way: when the backend has already applied
+ * them this is a no-op (the cursor session is no longer in the result and
+ * the page already fits within the limit).
+ */
+export function applyListSessionsParams(
+  sessions: Session[],
+  params?: ListSessionsParams
+): Session[] {
+  if (!params) return sessions;
+
+  let result = sessions.filter((session) => {
+    if (params.status && session.inboxStatus !== params.status) return false;
+    if (
+      params.uiStatus &&
+      params.uiStatus.length > 0 &&
+      !params.uiStatus.includes(session.uiStatus)
+    ) {
+      return false;
+    }
+    if (
+      params.archived !== undefined &&
+      (session.sessionStatus === 'Archived') !== params.archived
+    ) {
+      return false;
+    }
+    if (params.parentId !== undefined && session.parentId !== params.parentId) {
+      return false;
+    }
+    return true;
+  });
+
+  // Pages are ordered newest first so cursors are stable
+  result = [...result].sort(
+    (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+  );
+
+  if (params.cursor) {
+    const cursorIndex = result.findIndex((s) => s.id === params.cursor);
+    if (cursorIndex !== -1) {
+      result = result.slice(cursorIndex + 1);
+    }
+  }
+
+  // Offsets are not idempotent, so only apply them when the backend clearly
+  // ignored pagination (it returned more than a page)
+  const ignoredPagination =
+    params.limit !== undefined && sessions.length > params.limit;
+  const start = ignoredPagination ? (params.offset ?? 0) : 0;
+  const end = params.limit !== undefined ? start + params.limit : undefined;
+  return result.slice(start, end);
+}
+
+/**
+ * Returns the cursor for the page after `lastPage`, or undefined when the
+ * page came back short and there is nothing more to load.
+ */
+export function getNextSessionsCursor(
+  lastPage: Session[],
+  limit: number
+): string | undefined {
+  if (lastPage.length < limit) return undefined;
+  return lastPage[lastPage.length - 1]?.id;
+}
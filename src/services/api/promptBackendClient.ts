@@ -1,6 +1,8 @@
 import {
+  BaseAPI,
   DefaultApi,
   Configuration,
+  JSONApiResponse,
   SessionStatus as SDKSessionStatus,
   UiStatus,
   CreateSessionWithPromptInput as _CreateSessionWithPromptInput,
@@ -19,6 +21,7 @@ import {
   UpdateSessionData,
   ListSessionsParams,
 } from './types';
+import { StreamTransport } from '../stream/types';
 import {
   SessionSchema,
   SessionsArraySchema as _SessionsArraySchema,
@@ -26,7 +29,52 @@ import {
   MessagesArraySchema,
   CreateSessionDataSchema,
 } from '../../schemas/session';
-import { withErrorHandler } from '../../utils/apiErrorHandler';
+import { isAbortError, withErrorHandler } from '../../utils/apiErrorHandler';
+import { applyListSessionsParams, toListSessionsQuery } from './listParams';
+import { InFlightRequests } from './inFlightRequests';
+import { subscribeToConversation } from './conversationStream';
+
+/**
+ * Prompt endpoints the generated client doesn't cover yet. Requests go
+ * through the generated client's request path with its configuration, so
+ * they are sent and authorized the same way.
+ */
+class PromptLifecycleApi extends BaseAPI {
+  /**
+   * @returns The prompt record in the backend's format, unwrapped from its
+   * `{ prompt }` envelope
+   */
+  async promptsAction(
+    id: string,
+    action: 'cancel' | 'retry',
+    signal?: AbortSignal
+  ): Promise<Record<string, unknown>> {
+    const response = await this.request(
+      {
+        path: `/prompts/${encodeURIComponent(id)}/${action}`,
+        method: 'POST',
+        headers: {},
+      },
+      { signal }
+    );
+    const body = await new JSONApiResponse<
+      Record<string, unknown> & { prompt?: Record<string, unknown> }
+    >(response).value();
+    return body.prompt ?? body;
+  }
+}
+
+/**
+ * Backend URL the SDK client talks to: the given one, else `VITE_BACKEND_URL`,
+ * else the production backend.
+ */
+export function resolvePromptBackendUrl(basePath?: string): string {
+  return (
+    basePath ||
+    import.meta.env.VITE_BACKEND_URL ||
+    'https://prompt-backend-production.up.railway.app'
+  );
+}
 
 /**
  * Implementation of BackendClient using the @wholelottahoopla/prompt-backend-client package.
@@ -34,36 +82,75 @@ import { withErrorHandler } from '../../utils/apiErrorHandler';
  */
 export class PromptBackendClient implements BackendClient {
   private api: DefaultApi;
+  private lifecycleApi: PromptLifecycleApi;
+  stream?: BackendClient['stream'];
+  private inFlight = new InFlightRequests();
 
-  constructor(basePath?: string) {
+  /**
+   * @param basePath - Backend URL; see {@link resolvePromptBackendUrl}
+   * @param streamTransport - Pushes conversation updates. Without one the
+   * client has no `stream` and conversations are polled.
+   */
+  constructor(basePath?: string, streamTransport?: StreamTransport) {
     const config = new Configuration({
-      basePath:
-        basePath ||
-        import.meta.env.VITE_BACKEND_URL ||
-        'https://prompt-backend-production.up.railway.app',
+      basePath: resolvePromptBackendUrl(basePath),
       credentials: 'include', // Required for Service Worker to inject Bearer tokens
     });
     this.api = new DefaultApi(config);
+    this.lifecycleApi = new PromptLifecycleApi(config);
+    if (streamTransport) {
+      this.stream = {
+        subscribe: (sessionId, listener) =>
+          subscribeToConversation(
+            streamTransport,
+            `/sessions/${sessionId}/stream`,
+            listener,
+            {
+              prompt: (raw) => this.deserializePrompt(raw),
+              message: (raw) => this.deserializeBackendMessages([raw])[0],
+            }
+          ),
+      };
+    }
   }
 
   sessions = {
     list: withErrorHandler(
-      async (_params?: ListSessionsParams): Promise<Session[]> => {
-        const response = await this.api.handlersSessionsList();
-        // The response should contain an array of sessions
-        // We need to transform the response to match our Session type
-        return this.deserializeSessions(response.sessions || []);
-      },
+      (params?: ListSessionsParams, signal?: AbortSignal): Promise<Session[]> =>
+        this.inFlight.run(
+          `sessions ${toListSessionsQuery(params)}`,
+          signal,
+          async (shared) => {
+            const response = await this.listApi(params).handlersSessionsList({
+              signal: shared,
+            });
+            // The response should contain an array of sessions
+            // We need to transform the response to match our Session type
+            const sessions = this.deserializeSessions(response.sessions || []);
+            // Re-apply filters locally in case the backend ignored the query
+            return applyListSessionsParams(sessions, params);
+          }
+        ),
       'Loading sessions'
     ),
 
-    get: withErrorHandler(async (id: string): Promise<Session> => {
-      const response = await this.api.handlersSessionsRead({ id });
-      return this.deserializeSession(response.session);
-    }, 'Loading session'),
+    get: withErrorHandler(
+      (id: string, signal?: AbortSignal): Promise<Session> =>
+        this.inFlight.run(`sessions/${id}`, signal, async (shared) => {
+          const response = await this.api.handlersSessionsRead(
+            { id },
+            { signal: shared }
+          );
+          return this.deserializeSession(response.session);
+        }),
+      'Loading session'
+    ),
 
     create: withErrorHandler(
-      async (data: CreateSessionData): Promise<Session> => {
+      async (
+        data: CreateSessionData,
+        signal?: AbortSignal
+      ): Promise<Session> => {
         console.log('[PromptBackendClient] Creating session with data:', data);
 
         // Parse input data using Zod
@@ -74,14 +161,17 @@ export class PromptBackendClient implements BackendClient {
         // Use Raw API to access response before SDK transformation
         // The SDK incorrectly transforms snake_case to camelCase, but the backend
         // actually returns camelCase already
-        const rawResponse = await this.api.handlersSessionsCreateWithPromptRaw({
-          createSessionWithPromptInput: {
-            repo: validatedData.repo,
-            targetBranch: validatedData.targetBranch,
-            messages: validatedData.messages,
-            parentId: validatedData.parentId || null,
+        const rawResponse = await this.api.handlersSessionsCreateWithPromptRaw(
+          {
+            createSessionWithPromptInput: {
+              repo: validatedData.repo,
+              targetBranch: validatedData.targetBranch,
+              messages: validatedData.messages,
+              parentId: validatedData.parentId || null,
+            },
           },
-        });
+          { signal }
+        );
 
         // Get the raw JSON before SDK transformation
         const rawJson = await rawResponse.raw.json();
@@ -114,13 +204,17 @@ export class PromptBackendClient implements BackendClient {
         }
 
         // Fetch the full session data
-        return this.sessions.get(sessionId);
+        return this.sessions.get(sessionId, signal);
       },
       'Creating session'
     ),
 
     update: withErrorHandler(
-      async (id: string, data: UpdateSessionData): Promise<Session> => {
+      async (
+        id: string,
+        data: UpdateSessionData,
+        signal?: AbortSignal
+      ): Promise<Session> => {
         console.log(
           '[PromptBackendClient] Updating session:',
           id,
@@ -146,80 +240,139 @@ export class PromptBackendClient implements BackendClient {
 
         console.log('[PromptBackendClient] Update input:', updateInput);
 
-        const response = await this.api.handlersSessionsUpdate({
-          id,
-          updateSessionInput: updateInput,
-        });
+        const response = await this.api.handlersSessionsUpdate(
+          {
+            id,
+            updateSessionInput: updateInput,
+          },
+          { signal }
+        );
         console.log('[PromptBackendClient] Update response:', response);
 
         // Fetch the updated session data
-        return this.sessions.get(id);
+        return this.sessions.get(id, signal);
       },
       'Updating session'
     ),
 
-    delete: withErrorHandler(async (id: string): Promise<void> => {
-      await this.api.handlersSessionsDelete({ id });
-    }, 'Deleting session'),
-
-    archive: withErrorHandler(async (id: string): Promise<Session> => {
-      console.log('[PromptBackendClient] Archiving session:', id);
-      const result = await this.sessions.update(id, {
-        sessionStatus: 'Archived',
-        uiStatus: 'Archived',
-      });
-      console.log('[PromptBackendClient] Archive successful:', result);
-      return result;
-    }, 'Archiving session'),
-
-    unarchive: withErrorHandler(async (id: string): Promise<Session> => {
-      return this.sessions.update(id, { sessionStatus: 'Active' });
-    }, 'Unarchiving session'),
+    delete: withErrorHandler(
+      async (id: string, signal?: AbortSignal): Promise<void> => {
+        await this.api.handlersSessionsDelete({ id }, { signal });
+      },
+      'Deleting session'
+    ),
+
+    archive: withErrorHandler(
+      async (id: string, signal?: AbortSignal): Promise<Session> => {
+        console.log('[PromptBackendClient] Archiving session:', id);
+        const result = await this.sessions.update(
+          id,
+          {
+            sessionStatus: 'Archived',
+            uiStatus: 'Archived',
+          },
+          signal
+        );
+        console.log('[PromptBackendClient] Archive successful:', result);
+        return result;
+      },
+      'Archiving session'
+    ),
+
+    unarchive: withErrorHandler(
+      async (id: string, signal?: AbortSignal): Promise<Session> => {
+        return this.sessions.update(id, { sessionStatus: 'Active' }, signal);
+      },
+      'Unarchiving session'
+    ),
   };
 
   prompts = {
-    list: async (sessionId: string): Promise<Prompt[]> => {
-      try {
-        const response = await this.api.handlersPromptsList({ sessionId });
-        return this.deserializePrompts(response.prompts || []);
-      } catch (error) {
-        console.error('[PromptBackendClient] Failed to list prompts:', error);
-        return [];
-      }
-    },
-
-    create: withErrorHandler(
-      async (sessionId: string, content: string): Promise<Prompt> => {
-        const response = await this.api.handlersPromptsCreate({
+    list: (sessionId: string, signal?: AbortSignal): Promise<Prompt[]> =>
+      this.inFlight.run(`prompts ${sessionId}`, signal, async (shared) => {
+        try {
+          const response = await this.api.handlersPromptsList(
+            { sessionId },
+            { signal: shared }
+          );
+          return this.deserializePrompts(response.prompts || []);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.error('[PromptBackendClient] Failed to list prompts:', error);
+          return [];
+        }
+      }),
+
+    // Not wrapped in withErrorHandler: callers report failures themselves,
+    // since an undelivered prompt may be queued in the outbox instead
+    create: async (
+      sessionId: string,
+      content: string,
+      signal?: AbortSignal
+    ): Promise<Prompt> => {
+      const response = await this.api.handlersPromptsCreate(
+        {
           createPromptInput: {
             sessionId,
             data: [{ content, type: 'text' }],
           },
-        });
+        },
+        { signal }
+      );
 
-        if (!response.prompt) {
-          throw new Error(
-            'Failed to create prompt: Invalid response from backend'
-          );
-        }
+      if (!response.prompt) {
+        throw new Error(
+          'Failed to create prompt: Invalid response from backend'
+        );
+      }
 
-        return this.deserializePrompt(response.prompt);
+      return this.deserializePrompt(response.prompt);
+    },
+
+    cancel: withErrorHandler(
+      async (id: string, signal?: AbortSignal): Promise<Prompt> => {
+        const prompt = await this.lifecycleApi.promptsAction(
+          id,
+          'cancel',
+          signal
+        );
+        return this.deserializePrompt(prompt);
       },
-      'Creating prompt'
+      'Cancelling prompt'
+    ),
+
+    retry: withErrorHandler(
+      async (id: string, signal?: AbortSignal): Promise<Prompt> => {
+        const prompt = await this.lifecycleApi.promptsAction(
+          id,
+          'retry',
+          signal
+        );
+        return this.deserializePrompt(prompt);
+      },
+      'Retrying prompt'
     ),
   };
 
   messages = {
-    list: async (promptId: string): Promise<BackendMessage[]> => {
-      try {
-        // Fetch all messages for the prompt
-        const response = await this.api.handlersMessagesList({ promptId });
-        return this.deserializeBackendMessages(response.messages || []);
-      } catch (error) {
-        console.error('[PromptBackendClient] Failed to list messages:', error);
-        return [];
-      }
-    },
+    list: (promptId: string, signal?: AbortSignal): Promise<BackendMessage[]> =>
+      this.inFlight.run(`messages ${promptId}`, signal, async (shared) => {
+        try {
+          // Fetch all messages for the prompt
+          const response = await this.api.handlersMessagesList(
+            { promptId },
+            { signal: shared }
+          );
+          return this.deserializeBackendMessages(response.messages || []);
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          console.error(
+            '[PromptBackendClient] Failed to list messages:',
+            error
+          );
+          return [];
+        }
+      }),
 
     create: async (_sessionId: string, _content: string): Promise<Message> => {
       // TODO: The new API structure requires creating a Prompt first, then adding Messages to it.
@@ -233,6 +386,23 @@ export class PromptBackendClient implements BackendClient {
     },
   };
 
+  /**
+   * Returns an API instance that appends the list params as a query string.
+   * The generated client does not model these params, so they are added
+   * with a pre-request middleware on a per-call clone.
+   */
+  private listApi(params?: ListSessionsParams): DefaultApi {
+    const query = toListSessionsQuery(params);
+    if (!query) {
+      return this.api;
+    }
+
+    return this.api.withPreMiddleware(async ({ url, init }) => ({
+      url: `${url}${url.includes('?') ? '&' : '?'}${query}`,
+      init,
+    }));
+  }
+
   /**
    * Maps SessionStatus to our local InboxStatus format
    * Note: The new API uses SessionStatus instead of InboxStatus
@@ -299,6 +469,7 @@ export class PromptBackendClient implements BackendClient {
       parentId: session.parent || null,
       createdAt:
         session.createdAt || session.created_at || new Date().toISOString(),
+      updatedAt: session.updatedAt || session.updated_at || undefined,
       diffStats: session.diffStats || session.diff_stats,
       prUrl: session.prUrl || session.pr_url,
       children: session.children
@@ -370,6 +541,10 @@ export class PromptBackendClient implements BackendClient {
         message: data.message || {},
         session_id: data.session_id || data.sessionId || '',
         parent_tool_use_id: data.parent_tool_use_id || null,
+        ...(typeof data.result === 'string' && { result: data.result }),
+        ...((msg.created_at || msg.createdAt) && {
+          created_at: msg.created_at || msg.createdAt,
+        }),
       };
     });
   }
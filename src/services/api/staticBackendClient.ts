@@ -0,0 +1,51 @@
+import { BackendMessage, Message, Prompt, Session } from '../../types/session';
+import type { SessionBundle } from '../../utils/sessionExport';
+import { BackendClient, ListSessionsParams } from './types';
+import { applyListSessionsParams } from './listParams';
+
+function readOnly(): never {
+  throw new Error('This session is read-only');
+}
+
+/**
+ * Read-only implementation of the BackendClient interface, serving a single
+ * exported session bundle. Used by the transcript viewer so bundles can be
+ * inspected without backend access; every write rejects.
+ */
+export class StaticBackendClient implements BackendClient {
+  constructor(private bundle: SessionBundle) {}
+
+  private getSession(id: string): Session {
+    if (id !== this.bundle.session.id) {
+      throw new Error(`Session ${id} is not in this bundle`);
+    }
+    return this.bundle.session;
+  }
+
+  sessions: BackendClient['sessions'] = {
+    list: async (params?: ListSessionsParams): Promise<Session[]> =>
+      applyListSessionsParams([this.bundle.session], params),
+    get: async (id: string): Promise<Session> => this.getSession(id),
+    create: async (): Promise<Session> => readOnly(),
+    update: async (): Promise<Session> => readOnly(),
+    delete: async (): Promise<void> => readOnly(),
+    archive: async (): Promise<Session> => readOnly(),
+    unarchive: async (): Promise<Session> => readOnly(),
+  };
+
+  prompts: BackendClient['prompts'] = {
+    list: async (sessionId: string): Promise<Prompt[]> => {
+      this.getSession(sessionId);
+      return this.bundle.prompts;
+    },
+    create: async (): Promise<Prompt> => readOnly(),
+    cancel: async (): Promise<Prompt> => readOnly(),
+    retry: async (): Promise<Prompt> => readOnly(),
+  };
+
+  messages: BackendClient['messages'] = {
+    list: async (promptId: string): Promise<BackendMessage[]> =>
+      this.bundle.messages[promptId] ?? [],
+    create: async (): Promise<Message> => readOnly(),
+  };
+}
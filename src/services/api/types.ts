@@ -7,44 +7,89 @@ import {
   Prompt,
 } from '../../types/session';
 import { UiStatus } from '@wholelottahoopla/prompt-backend-client';
+import { StreamStatus } from '../stream/types';
+import { TemplateStore } from '../templates/types';
+import { SeenStore } from '../seen/types';
 
 /**
  * Backend API client interface.
  * This defines all the operations that can be performed against the backend.
+ * Every operation takes an optional AbortSignal as its last argument; an
+ * aborted call rejects with the signal's reason.
  */
 export interface BackendClient {
   // Session operations
   sessions: {
-    list(params?: ListSessionsParams): Promise<Session[]>;
-    get(id: string): Promise<Session>;
-    create(data: CreateSessionData): Promise<Session>;
-    update(id: string, data: UpdateSessionData): Promise<Session>;
-    delete(id: string): Promise<void>;
-    archive(id: string): Promise<Session>;
-    unarchive(id: string): Promise<Session>;
+    list(params?: ListSessionsParams, signal?: AbortSignal): Promise<Session[]>;
+    get(id: string, signal?: AbortSignal): Promise<Session>;
+    create(data: CreateSessionData, signal?: AbortSignal): Promise<Session>;
+    update(
+      id: string,
+      data: UpdateSessionData,
+      signal?: AbortSignal
+    ): Promise<Session>;
+    delete(id: string, signal?: AbortSignal): Promise<void>;
+    archive(id: string, signal?: AbortSignal): Promise<Session>;
+    unarchive(id: string, signal?: AbortSignal): Promise<Session>;
   };
 
   // Prompt operations
   prompts: {
-    list(sessionId: string): Promise<Prompt[]>;
-    create(sessionId: string, content: string): Promise<Prompt>;
+    list(sessionId: string, signal?: AbortSignal): Promise<Prompt[]>;
+    create(
+      sessionId: string,
+      content: string,
+      signal?: AbortSignal
+    ): Promise<Prompt>;
+    /**
+     * Stops a pending or processing prompt
+     */
+    cancel(id: string, signal?: AbortSignal): Promise<Prompt>;
+    /**
+     * Runs a failed or cancelled prompt again
+     */
+    retry(id: string, signal?: AbortSignal): Promise<Prompt>;
   };
 
   // Message operations
   messages: {
-    list(promptId: string): Promise<BackendMessage[]>;
-    create(sessionId: string, content: string): Promise<Message>;
+    list(promptId: string, signal?: AbortSignal): Promise<BackendMessage[]>;
+    create(
+      sessionId: string,
+      content: string,
+      signal?: AbortSignal
+    ): Promise<Message>;
   };
+
+  // Real-time conversation updates (optional - clients without a stream are polled)
+  stream?: {
+    subscribe(
+      sessionId: string,
+      listener: ConversationStreamListener
+    ): () => void;
+  };
+
+  // Prompt templates (optional - templates are kept in localStorage otherwise)
+  templates?: TemplateStore;
+
+  // Last-seen cursors (optional - cursors are kept in localStorage otherwise)
+  seen?: SeenStore;
 }
 
 // Request/Response types
 
 export interface ListSessionsParams {
   status?: InboxStatus;
+  uiStatus?: UiStatus[];
   archived?: boolean;
   parentId?: string | null;
   limit?: number;
   offset?: number;
+  /**
+   * ID of the last session of the previous page. Sessions are returned
+   * newest first, starting after this one.
+   */
+  cursor?: string;
 }
 
 export interface CreateSessionData {
@@ -68,3 +113,17 @@ export interface UpdateSessionData {
   branch?: string;
   targetBranch?: string;
 }
+
+// Streaming types
+
+/**
+ * Events pushed by the backend for a session's conversation
+ */
+export type ConversationStreamEvent =
+  | { type: 'prompt'; prompt: Prompt }
+  | { type: 'message'; promptId: string; message: BackendMessage };
+
+export interface ConversationStreamListener {
+  onEvent(event: ConversationStreamEvent): void;
+  onStatusChange?(status: StreamStatus): void;
+}
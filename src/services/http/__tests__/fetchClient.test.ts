@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FetchHttpClient,
+  FetchHttpClientOptions,
+  getBackoffDelay,
+} from '../fetchClient';
+import {
+  createAuthInterceptor,
+  createCorrelationIdInterceptor,
+  createLoggingInterceptor,
+} from '../interceptors';
+import { HttpError } from '../types';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
+
+function createClient(
+  responses: Array<Response | Error>,
+  options: FetchHttpClientOptions = {}
+) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('No more responses');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  const client = new FetchHttpClient({
+    baseURL: 'http://backend.test/',
+    retry: { baseDelayMs: 0 },
+    fetch: fetchMock as unknown as typeof fetch,
+    ...options,
+  });
+  return { client, fetchMock };
+}
+
+const requestAt = (fetchMock: { mock: { calls: unknown[][] } }, index = 0) => {
+  const [url, init] = fetchMock.mock.calls[index];
+  return { url: url as string, init: init as FetchInit };
+};
+
+describe('getBackoffDelay', () => {
+  it('should stay below the exponential ceiling', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+    expect(getBackoffDelay(1, options, () => 1)).toBe(100);
+    expect(getBackoffDelay(3, options, () => 1)).toBe(400);
+    expect(getBackoffDelay(10, options, () => 1)).toBe(1000);
+    expect(getBackoffDelay(3, options, () => 0.5)).toBe(200);
+    expect(getBackoffDelay(3, options, () => 0)).toBe(0);
+  });
+});
+
+describe('FetchHttpClient', () => {
+  it('should send params, headers and JSON bodies', async () => {
+    const { client, fetchMock } = createClient([jsonResponse({ id: '1' })]);
+
+    const response = await client.post(
+      '/api/sessions',
+      { repo: 'test/repo' },
+      {
+        headers: { 'X-Test': 'yes' },
+        params: { archived: false, status: ['a', 'b'], cursor: undefined },
+      }
+    );
+
+    expect(response).toMatchObject({ data: { id: '1' }, status: 200 });
+    const { url, init } = requestAt(fetchMock);
+    expect(url).toBe(
+      'http://backend.test/api/sessions?archived=false&status=a&status=b'
+    );
+    expect(init.method).toBe('POST');
+    expect(init.body).toBe('{"repo":"test/repo"}');
+    expect(init.credentials).toBe('include');
+    expect(init.headers).toMatchObject({
+      'X-Test': 'yes',
+      'Content-Type': 'application/json',
+    });
+  });
+
+  it('should throw HttpError for error responses', async () => {
+    const { client } = createClient([
+      jsonResponse({ message: 'Session not found' }, 404),
+    ]);
+
+    const error = await client.get('/api/sessions/1').catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      message: 'Session not found',
+      status: 404,
+      response: { message: 'Session not found' },
+    });
+  });
+
+  it('should time out slow requests', async () => {
+    const fetchMock = vi.fn(
+      (_url: string, init: FetchInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(new Error('Aborted'))
+          );
+        })
+    );
+    const client = new FetchHttpClient({
+      retry: false,
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+
+    const error = await client
+      .get('/api/sessions', { timeout: 10 })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(408);
+  });
+
+  it('should reject with the reason when the caller aborts', async () => {
+    const { client, fetchMock } = createClient([jsonResponse([])]);
+    const controller = new window.AbortController();
+    controller.abort(new Error('Navigated away'));
+
+    await expect(
+      client.get('/api/sessions', { signal: controller.signal })
+    ).rejects.toThrow('Navigated away');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should retry idempotent requests that fail transiently', async () => {
+    const { client, fetchMock } = createClient([
+      new TypeError('Failed to fetch'),
+      jsonResponse({}, 503),
+      jsonResponse({ id: '1' }),
+    ]);
+
+    const response = await client.get('/api/sessions/1');
+    expect(response.data).toEqual({ id: '1' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the configured retries', async () => {
+    const { client, fetchMock } = createClient(
+      [jsonResponse({}, 503), jsonResponse({}, 503)],
+      { retry: { retries: 1, baseDelayMs: 0 } }
+    );
+
+    await expect(client.get('/api/sessions')).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry non-idempotent or client errors', async () => {
+    const { client, fetchMock } = createClient([
+      jsonResponse({}, 503),
+      jsonResponse({}, 400),
+    ]);
+
+    await expect(client.post('/api/sessions', {})).rejects.toMatchObject({
+      status: 503,
+    });
+    await expect(client.get('/api/sessions')).rejects.toMatchObject({
+      status: 400,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run requests through the interceptors', async () => {
+    const logger = { log: vi.fn(), error: vi.fn() };
+    const { client, fetchMock } = createClient(
+      [
+        new TypeError('Failed to fetch'),
+        jsonResponse([]),
+        jsonResponse({}, 404),
+      ],
+      {
+        interceptors: [
+          createAuthInterceptor(async () => 'token-123'),
+          createCorrelationIdInterceptor('X-Correlation-ID', () => 'corr-1'),
+          createLoggingInterceptor(logger),
+        ],
+      }
+    );
+
+    await client.get('/api/sessions');
+    // Retries are the same request, so they keep its correlation ID
+    for (const index of [0, 1]) {
+      expect(requestAt(fetchMock, index).init.headers).toMatchObject({
+        Authorization: 'Bearer token-123',
+        'X-Correlation-ID': 'corr-1',
+      });
+    }
+    expect(logger.log).toHaveBeenCalledWith(
+      '[FetchHttpClient] GET /api/sessions 200',
+      expect.stringMatching(/ms$/)
+    );
+
+    await client.get('/api/sessions/missing').catch(() => {});
+    expect(logger.error).toHaveBeenCalledWith(
+      '[FetchHttpClient] GET /api/sessions/missing failed',
+      expect.any(String),
+      expect.any(HttpError)
+    );
+  });
+
+  it('should skip the auth header without a token', async () => {
+    const { client, fetchMock } = createClient([jsonResponse([])], {
+      interceptors: [createAuthInterceptor(() => null)],
+    });
+
+    await client.get('/api/sessions');
+    expect(requestAt(fetchMock).init.headers).not.toHaveProperty(
+      'Authorization'
+    );
+  });
+});
@@ -0,0 +1,339 @@
+import {
+  HttpClient,
+  HttpError,
+  HttpInterceptor,
+  HttpMethod,
+  HttpRequest,
+  HttpResponse,
+  RequestConfig,
+} from './types';
+
+type FetchInit = NonNullable<Parameters<typeof fetch>[1]>;
+
+export interface RetryOptions {
+  /**
+   * Attempts made after the first one fails
+   */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /**
+   * Methods safe to send again. Others are never retried, since the first
+   * attempt may have reached the backend.
+   */
+  methods: HttpMethod[];
+  /**
+   * Whether a failed attempt is worth repeating
+   */
+  shouldRetry: (error: unknown) => boolean;
+}
+
+export interface FetchHttpClientOptions {
+  /**
+   * Prefixed to relative request URLs
+   */
+  baseURL?: string;
+  interceptors?: HttpInterceptor[];
+  /**
+   * Retry settings, or false to never retry
+   */
+  retry?: Partial<RetryOptions> | false;
+  /**
+   * Default request timeout in milliseconds, or 0 for none
+   */
+  timeout?: number;
+  /**
+   * Defaults to `include` so the Service Worker can inject tokens
+   */
+  credentials?: FetchInit['credentials'];
+  fetch?: typeof fetch;
+}
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * Network failures and responses that say the backend is busy or restarting
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return RETRYABLE_STATUSES.includes(error.status);
+  }
+  return error instanceof TypeError;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5000,
+  methods: ['GET', 'PUT', 'DELETE'],
+  shouldRetry: isRetryableError,
+};
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Delay before retry number `attempt` (starting at 1): exponential backoff
+ * with full jitter, so clients that failed together don't retry together.
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<RetryOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(random() * ceiling);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function buildQuery(params?: Record<string, any>): string {
+  if (!params) return '';
+  const search = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    (Array.isArray(value) ? value : [value]).forEach((item) =>
+      search.append(key, String(item))
+    );
+  });
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+const isRawBody = (data: unknown) =>
+  typeof data === 'string' || data instanceof FormData || data instanceof Blob;
+
+async function readBody(response: Response): Promise<any> {
+  if (response.status === 204) return undefined;
+  const text = await response.text();
+  if (!text) return undefined;
+  const contentType = response.headers.get('content-type') || '';
+  if (!contentType.includes('json')) return text;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * HttpClient on top of the Fetch API.
+ *
+ * Every request goes through the interceptor chain once; idempotent requests
+ * that fail with a network error or a busy backend are retried with jittered
+ * backoff in between. Non-2xx responses throw HttpError, timeouts throw
+ * HttpError with status 408, and aborting the request's signal rejects with
+ * the signal's reason.
+ *
+ * @example
+ * ```ts
+ * const http = new FetchHttpClient({
+ *   baseURL: 'http://localhost:8000',
+ *   interceptors: [createCorrelationIdInterceptor(), createLoggingInterceptor()],
+ * });
+ * const api = new BackendClientImpl(http);
+ * ```
+ */
+export class FetchHttpClient implements HttpClient {
+  private baseURL: string;
+  private interceptors: HttpInterceptor[];
+  private retry: RetryOptions | null;
+  private timeout: number;
+  private credentials: FetchInit['credentials'];
+  private fetchImpl: typeof fetch;
+
+  constructor(options: FetchHttpClientOptions = {}) {
+    this.baseURL = (options.baseURL ?? '').replace(/\/$/, '');
+    this.interceptors = options.interceptors ?? [];
+    this.retry =
+      options.retry === false
+        ? null
+        : { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT_MS;
+    this.credentials = options.credentials ?? 'include';
+    // Bound so it isn't called with the client as `this`
+    this.fetchImpl = options.fetch ?? ((...args) => fetch(...args));
+  }
+
+  get<T = any>(url: string, config?: RequestConfig): Promise<HttpResponse<T>> {
+    return this.request<T>('GET', url, undefined, config);
+  }
+
+  post<T = any>(
+    url: string,
+    data?: any,
+    config?: RequestConfig
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('POST', url, data, config);
+  }
+
+  put<T = any>(
+    url: string,
+    data?: any,
+    config?: RequestConfig
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('PUT', url, data, config);
+  }
+
+  patch<T = any>(
+    url: string,
+    data?: any,
+    config?: RequestConfig
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('PATCH', url, data, config);
+  }
+
+  delete<T = any>(
+    url: string,
+    config?: RequestConfig
+  ): Promise<HttpResponse<T>> {
+    return this.request<T>('DELETE', url, undefined, config);
+  }
+
+  private async request<T>(
+    method: HttpMethod,
+    url: string,
+    data: any,
+    config: RequestConfig = {}
+  ): Promise<HttpResponse<T>> {
+    let request: HttpRequest = {
+      ...config,
+      method,
+      url,
+      data,
+      headers: { ...config.headers },
+      metadata: {},
+    };
+    for (const interceptor of this.interceptors) {
+      if (interceptor.onRequest) {
+        request = await interceptor.onRequest(request);
+      }
+    }
+
+    const reversed = [...this.interceptors].reverse();
+    let response: HttpResponse;
+    try {
+      response = await this.sendWithRetry(request);
+    } catch (error) {
+      reversed.forEach((interceptor) => interceptor.onError?.(error, request));
+      throw error;
+    }
+
+    for (const interceptor of reversed) {
+      if (interceptor.onResponse) {
+        response = await interceptor.onResponse(response, request);
+      }
+    }
+    return response as HttpResponse<T>;
+  }
+
+  private async sendWithRetry(request: HttpRequest): Promise<HttpResponse> {
+    const retry =
+      this.retry && this.retry.methods.includes(request.method)
+        ? this.retry
+        : null;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(request);
+      } catch (error) {
+        const canRetry =
+          retry &&
+          attempt < retry.retries &&
+          !request.signal?.aborted &&
+          retry.shouldRetry(error);
+        if (!canRetry) throw error;
+        await wait(getBackoffDelay(attempt + 1, retry), request.signal);
+      }
+    }
+  }
+
+  private async send(request: HttpRequest): Promise<HttpResponse> {
+    const url = /^https?:\/\//.test(request.url)
+      ? request.url
+      : `${this.baseURL}${request.url}`;
+    const headers = { ...request.headers };
+    let body: FetchInit['body'];
+    if (request.data !== undefined) {
+      if (isRawBody(request.data)) {
+        body = request.data;
+      } else {
+        body = JSON.stringify(request.data);
+        headers['Content-Type'] ??= 'application/json';
+      }
+    }
+
+    // One signal for the caller's abort and the timeout
+    if (request.signal?.aborted) throw request.signal.reason;
+    const controller = new window.AbortController();
+    const onAbort = () => controller.abort(request.signal?.reason);
+    request.signal?.addEventListener('abort', onAbort, { once: true });
+    const timeout = request.timeout ?? this.timeout;
+    let timedOut = false;
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : undefined;
+
+    try {
+      const response = await this.fetchImpl(
+        `${url}${buildQuery(request.params)}`,
+        {
+          method: request.method,
+          headers: { Accept: 'application/json', ...headers },
+          body,
+          credentials: this.credentials,
+          signal: controller.signal,
+        }
+      );
+      const data = await readBody(response);
+
+      if (!response.ok) {
+        const message =
+          (data && typeof data === 'object' && (data.message || data.error)) ||
+          `HTTP ${response.status} ${response.statusText}`.trim();
+        throw new HttpError(String(message), response.status, data);
+      }
+
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+      return {
+        data,
+        status: response.status,
+        statusText: response.statusText,
+        headers: responseHeaders,
+      };
+    } catch (error) {
+      if (timedOut) {
+        throw new HttpError(`Request timed out after ${timeout}ms`, 408);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
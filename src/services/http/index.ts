@@ -4,3 +4,5 @@
 
 export * from './types';
 export * from './mockClient';
+export * from './fetchClient';
+export * from './interceptors';
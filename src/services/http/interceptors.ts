@@ -0,0 +1,75 @@
+import { HttpInterceptor } from './types';
+
+/**
+ * Sends `Authorization: Bearer <token>` when a token is available. Requests
+ * without a token are sent as they are, e.g. for the Service Worker to
+ * authorize.
+ */
+export function createAuthInterceptor(
+  getToken: () => string | null | undefined | Promise<string | null | undefined>
+): HttpInterceptor {
+  return {
+    async onRequest(request) {
+      const token = await getToken();
+      if (!token) return request;
+      return {
+        ...request,
+        headers: { ...request.headers, Authorization: `Bearer ${token}` },
+      };
+    },
+  };
+}
+
+/**
+ * Tags each request with an ID the backend can log, so a request can be
+ * traced across services. Retries keep the ID of the original request.
+ */
+export function createCorrelationIdInterceptor(
+  headerName = 'X-Correlation-ID',
+  createId: () => string = () => crypto.randomUUID()
+): HttpInterceptor {
+  return {
+    onRequest(request) {
+      if (request.headers[headerName]) return request;
+      return {
+        ...request,
+        headers: { ...request.headers, [headerName]: createId() },
+      };
+    },
+  };
+}
+
+/**
+ * Logs each request's outcome and duration
+ */
+export function createLoggingInterceptor(
+  logger: Pick<typeof console, 'log' | 'error'> = console
+): HttpInterceptor {
+  const elapsed = (metadata: Record<string, unknown>) =>
+    typeof metadata.startedAt === 'number'
+      ? `${Math.round(Date.now() - metadata.startedAt)}ms`
+      : '';
+
+  return {
+    onRequest(request) {
+      return {
+        ...request,
+        metadata: { ...request.metadata, startedAt: Date.now() },
+      };
+    },
+    onResponse(response, request) {
+      logger.log(
+        `[FetchHttpClient] ${request.method} ${request.url} ${response.status}`,
+        elapsed(request.metadata)
+      );
+      return response;
+    },
+    onError(error, request) {
+      logger.error(
+        `[FetchHttpClient] ${request.method} ${request.url} failed`,
+        elapsed(request.metadata),
+        error
+      );
+    },
+  };
+}
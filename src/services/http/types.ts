@@ -69,3 +69,39 @@ export class HttpError extends Error {
     this.name = 'HttpError';
   }
 }
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A request as seen by interceptors, before it is sent
+ */
+export interface HttpRequest extends RequestConfig {
+  method: HttpMethod;
+  /**
+   * URL relative to the client's base URL, or absolute
+   */
+  url: string;
+  data?: any;
+  headers: Record<string, string>;
+  /**
+   * Scratch space for interceptors to keep per-request state, e.g. when the
+   * request started
+   */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Hooks around every request. Request hooks run in the order the
+ * interceptors are given, response and error hooks in reverse order.
+ */
+export interface HttpInterceptor {
+  onRequest?(request: HttpRequest): HttpRequest | Promise<HttpRequest>;
+  onResponse?(
+    response: HttpResponse,
+    request: HttpRequest
+  ): HttpResponse | Promise<HttpResponse>;
+  /**
+   * Called when the request failed for good, after any retries
+   */
+  onError?(error: unknown, request: HttpRequest): void;
+}
@@ -3,4 +3,7 @@
  */
 
 export * from './http';
+export * from './stream';
+export * from './outbox';
+export * from './templates';
 export * from './api';
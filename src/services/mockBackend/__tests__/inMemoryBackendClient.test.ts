@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { InMemoryBackendClient } from '../inMemoryBackendClient';
+import { buildAgentScript } from '../fakeAgent';
+import { mockSessions } from '../../../data/mockSessions';
+import { HttpError } from '../../http/types';
+import { Session } from '../../../types/session';
+
+const SCRIPT_DURATION_MS = 10_000;
+
+const parent: Session = {
+  id: 'parent',
+  title: 'Parent task',
+  repo: 'test/repo',
+  branch: 'feature/parent',
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'completed',
+  uiStatus: 'NeedsReview',
+  sbxConfig: null,
+  parentId: null,
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  sessionStatus: 'Active',
+};
+
+const child: Session = {
+  ...parent,
+  id: 'child',
+  title: 'Child task',
+  parentId: 'parent',
+  createdAt: new Date('2025-01-01T11:00:00Z'),
+};
+
+/**
+ * Resolves a client call, letting its simulated latency pass
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  // Handled by the caller, once the latency has passed
+  promise.catch(() => {});
+  await vi.advanceTimersByTimeAsync(0);
+  return promise;
+}
+
+describe('InMemoryBackendClient', () => {
+  let clients: InMemoryBackendClient[];
+  const createClient = (seedSessions = [parent, child]) => {
+    const client = new InMemoryBackendClient({ seedSessions, latencyMs: 0 });
+    clients.push(client);
+    return client;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+    clients = [];
+  });
+
+  afterEach(() => {
+    clients.forEach((client) => client.dispose());
+    vi.useRealTimers();
+  });
+
+  it('should seed finished sessions with a completed agent run', async () => {
+    const client = createClient(mockSessions);
+
+    const sessions = await settle(client.sessions.list());
+    expect(sessions).toHaveLength(mockSessions.length);
+
+    const [prompt] = await settle(client.prompts.list('1'));
+    expect(prompt).toMatchObject({
+      content: 'Deploy multi-mcp project to virtual machines',
+      status: 'completed',
+    });
+    const messages = await settle(client.messages.list(prompt.id));
+    expect(messages).toHaveLength(buildAgentScript(prompt).length);
+    expect(messages.at(-1)?.type).toBe('result');
+  });
+
+  it('should run new prompts through the fake agent', async () => {
+    const client = createClient();
+    const session = await settle(
+      client.sessions.create({
+        repo: 'test/repo',
+        targetBranch: 'main',
+        messages: [{ content: 'Add a health check\nwith details' }],
+      })
+    );
+    expect(session).toMatchObject({
+      title: 'Add a health check',
+      uiStatus: 'InProgress',
+      parentId: null,
+    });
+
+    const [prompt] = await settle(client.prompts.list(session.id));
+    expect(prompt.status).toBe('processing');
+
+    await vi.advanceTimersByTimeAsync(3000);
+    const partial = await settle(client.messages.list(prompt.id));
+    const toolUse = partial[1].message.content[0];
+    expect(toolUse).toMatchObject({ type: 'tool_use', name: 'Grep' });
+    expect(partial[2].message.content[0]).toMatchObject({
+      type: 'tool_result',
+      tool_use_id: toolUse.id,
+    });
+    expect(partial.every((message) => message.session_id === session.id)).toBe(
+      true
+    );
+
+    await vi.advanceTimersByTimeAsync(SCRIPT_DURATION_MS);
+    expect((await settle(client.prompts.list(session.id)))[0].status).toBe(
+      'completed'
+    );
+    expect(await settle(client.sessions.get(session.id))).toMatchObject({
+      uiStatus: 'NeedsReview',
+      inboxStatus: 'needs-review',
+      diffStats: { additions: 2, deletions: 1 },
+    });
+  });
+
+  it('should resume interrupted runs from localStorage', async () => {
+    const first = createClient();
+    const prompt = await settle(first.prompts.create('parent', 'Fix the bug'));
+    await vi.advanceTimersByTimeAsync(3000);
+    const sent = (await settle(first.messages.list(prompt.id))).length;
+    first.dispose();
+
+    const second = createClient();
+    expect(await settle(second.messages.list(prompt.id))).toHaveLength(sent);
+    await vi.advanceTimersByTimeAsync(SCRIPT_DURATION_MS);
+    expect(await settle(second.messages.list(prompt.id))).toHaveLength(
+      buildAgentScript(prompt).length
+    );
+  });
+
+  it('should cancel and retry prompts', async () => {
+    const client = createClient();
+    const prompt = await settle(client.prompts.create('parent', 'Fix the bug'));
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await settle(client.prompts.cancel(prompt.id))).toMatchObject({
+      status: 'failed',
+    });
+    await vi.advanceTimersByTimeAsync(SCRIPT_DURATION_MS);
+    expect((await settle(client.messages.list(prompt.id))).length).toBeLessThan(
+      buildAgentScript(prompt).length
+    );
+
+    expect(await settle(client.prompts.retry(prompt.id))).toMatchObject({
+      status: 'processing',
+    });
+    expect(await settle(client.messages.list(prompt.id))).toEqual([]);
+    await vi.advanceTimersByTimeAsync(SCRIPT_DURATION_MS);
+    expect(
+      (await settle(client.prompts.list('parent'))).find(
+        (p) => p.id === prompt.id
+      )?.status
+    ).toBe('completed');
+  });
+
+  it('should archive, unarchive and delete sessions with their subtasks', async () => {
+    const client = createClient();
+
+    await settle(client.sessions.archive('child'));
+    expect(
+      (await settle(client.sessions.list({ archived: true }))).map((s) => s.id)
+    ).toEqual(['child']);
+    expect(await settle(client.sessions.unarchive('child'))).toMatchObject({
+      sessionStatus: 'Active',
+      uiStatus: 'NeedsReview',
+    });
+
+    await settle(client.sessions.delete('parent'));
+    expect(await settle(client.sessions.list())).toEqual([]);
+    await expect(settle(client.sessions.get('child'))).rejects.toBeInstanceOf(
+      HttpError
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { BackendMessage, Prompt } from '../../types/session';
+
+const MODEL = 'claude-sonnet-4-5-20250929';
+
+/**
+ * One message of a scripted agent run, sent `delayMs` after the previous one
+ */
+export interface AgentStep {
+  delayMs: number;
+  message: Omit<BackendMessage, 'session_id' | 'created_at'>;
+}
+
+const toSlug = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word.length > 2)
+    .slice(0, 3)
+    .join('-') || 'task';
+
+const toCamel = (slug: string) =>
+  slug.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+
+/**
+ * The messages a fake agent sends while working on a prompt: it searches
+ * the code, reads a file, edits it, runs the tests and reports back. The
+ * script only depends on the prompt, so a run interrupted by a page reload
+ * can pick up where it left off.
+ */
+export function buildAgentScript(prompt: Prompt): AgentStep[] {
+  const summary = prompt.content.split('\n')[0].slice(0, 80);
+  const slug = toSlug(summary);
+  const filePath = `src/${slug}.ts`;
+  const functionName = toCamel(slug);
+  const original = `export function ${functionName}() {\n  // TODO\n}\n`;
+  const edited = `  // ${summary}\n  return true;`;
+
+  let index = 0;
+  const uuid = () => `${prompt.id}-${index++}`;
+  const usage = () => ({
+    input_tokens: 1200 + index * 150,
+    output_tokens: 60 + index * 25,
+    cache_read_input_tokens: 800 * index,
+    cache_creation_input_tokens: index === 1 ? 2400 : 0,
+  });
+
+  const assistant = (
+    delayMs: number,
+    content: AgentStep['message']['message']['content']
+  ): AgentStep => ({
+    delayMs,
+    message: {
+      type: 'assistant',
+      uuid: uuid(),
+      message: {
+        role: 'assistant',
+        type: 'message',
+        model: MODEL,
+        content,
+        usage: usage(),
+      },
+    },
+  });
+  const toolUseId = (name: string) => `toolu_${prompt.id}_${name}`;
+  const toolUse = (delayMs: number, name: string, input: unknown) =>
+    assistant(delayMs, [
+      { type: 'tool_use', id: toolUseId(name), name, input },
+    ]);
+  const toolResult = (
+    delayMs: number,
+    name: string,
+    content: string
+  ): AgentStep => ({
+    delayMs,
+    message: {
+      type: 'user',
+      uuid: uuid(),
+      message: {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: toolUseId(name), content },
+        ],
+      },
+    },
+  });
+
+  const done = `Done. I updated \`${filePath}\` for "${summary}" and the tests pass.`;
+
+  return [
+    assistant(600, [
+      {
+        type: 'text',
+        text: `I'll start by finding the code for "${summary}".`,
+      },
+    ]),
+    toolUse(900, 'Grep', {
+      pattern: functionName,
+      path: 'src',
+      output_mode: 'files_with_matches',
+    }),
+    toolResult(700, 'Grep', `${filePath}\nsrc/index.ts`),
+    toolUse(800, 'Read', { file_path: filePath }),
+    toolResult(
+      500,
+      'Read',
+      original
+        .split('\n')
+        .map((line, i) => `${String(i + 1).padStart(6)}\t${line}`)
+        .join('\n')
+    ),
+    toolUse(1200, 'Edit', {
+      file_path: filePath,
+      old_string: '  // TODO',
+      new_string: edited,
+    }),
+    toolResult(500, 'Edit', `The file ${filePath} has been updated.`),
+    toolUse(1000, 'Bash', {
+      command: 'npm test',
+      description: 'Run the test suite',
+    }),
+    toolResult(
+      2000,
+      'Bash',
+      'Test Files  12 passed (12)\n     Tests  84 passed (84)'
+    ),
+    assistant(800, [{ type: 'text', text: done }]),
+    {
+      delayMs: 200,
+      message: {
+        type: 'result',
+        uuid: uuid(),
+        message: { content: [] },
+        result: done,
+      },
+    },
+  ];
+}
+
+/**
+ * Lines added and removed by a completed script, for the session's diff stats
+ */
+export const AGENT_SCRIPT_DIFF_STATS = { additions: 2, deletions: 1 };
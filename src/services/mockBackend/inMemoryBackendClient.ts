@@ -0,0 +1,417 @@
+import { BackendMessage, Message, Prompt, Session } from '../../types/session';
+import { mockSessions } from '../../data/mockSessions';
+import { HttpError } from '../http/types';
+import {
+  BackendClient,
+  CreateSessionData,
+  ListSessionsParams,
+  UpdateSessionData,
+} from '../api/types';
+import { applyListSessionsParams } from '../api/listParams';
+import { AGENT_SCRIPT_DIFF_STATS, buildAgentScript } from './fakeAgent';
+import {
+  createSeedState,
+  loadMockBackendState,
+  MockBackendState,
+  saveMockBackendState,
+} from './state';
+
+const STORAGE_KEY = 'mockBackend';
+
+export interface InMemoryBackendClientOptions {
+  storageKey?: string;
+  /**
+   * Sessions to start from when nothing is saved yet
+   */
+  seedSessions?: Session[];
+  /**
+   * Simulated response time of every call, in milliseconds
+   */
+  latencyMs?: number;
+}
+
+const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRunning = (prompt: Prompt) =>
+  prompt.status === 'pending' || prompt.status === 'processing';
+
+function notFound(kind: string, id: string): never {
+  throw new HttpError(`${kind} ${id} not found`, 404);
+}
+
+/**
+ * Stateful BackendClient that needs no backend, for local development and
+ * demos. Sessions, prompts and messages live in memory and are saved to
+ * localStorage, seeded from the fixture sessions on first use.
+ *
+ * New and retried prompts are worked on by a scripted fake agent that sends
+ * tool calls and results over a few seconds, then moves the session to
+ * needs-review. A session runs one prompt at a time; runs interrupted by a
+ * reload resume where they stopped.
+ */
+export class InMemoryBackendClient implements BackendClient {
+  private storageKey: string;
+  private latencyMs: number;
+  private state: MockBackendState;
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private started = false;
+
+  constructor(options: InMemoryBackendClientOptions = {}) {
+    this.storageKey = options.storageKey ?? STORAGE_KEY;
+    this.latencyMs = options.latencyMs ?? 150;
+    this.state =
+      loadMockBackendState(this.storageKey) ??
+      createSeedState(options.seedSessions ?? mockSessions);
+  }
+
+  /**
+   * Stops every running agent. Their prompts resume on the next instance.
+   */
+  dispose() {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.started = false;
+  }
+
+  sessions: BackendClient['sessions'] = {
+    list: (params?: ListSessionsParams, signal?: AbortSignal) =>
+      this.respond(
+        () => [...applyListSessionsParams(this.state.sessions, params)],
+        signal
+      ),
+    get: (id: string, signal?: AbortSignal) =>
+      this.respond(() => this.getSession(id), signal),
+    create: (data: CreateSessionData, signal?: AbortSignal) =>
+      this.respond(() => this.createSession(data), signal),
+    update: (id: string, data: UpdateSessionData, signal?: AbortSignal) =>
+      this.respond(() => this.updateSession(id, data), signal),
+    delete: (id: string, signal?: AbortSignal) =>
+      this.respond(() => this.deleteSession(id), signal),
+    archive: (id: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        this.getSession(id);
+        this.state.prompts
+          .filter((prompt) => prompt.sessionId === id && isRunning(prompt))
+          .forEach((prompt) => this.stopPrompt(prompt.id));
+        return this.updateSession(id, {
+          sessionStatus: 'Archived',
+          uiStatus: 'Archived',
+        });
+      }, signal),
+    unarchive: (id: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        this.getSession(id);
+        const hasPrompts = this.state.prompts.some(
+          (prompt) => prompt.sessionId === id
+        );
+        return this.updateSession(id, {
+          sessionStatus: 'Active',
+          uiStatus: hasPrompts ? 'NeedsReview' : 'Pending',
+          inboxStatus: hasPrompts ? 'needs-review' : 'pending',
+        });
+      }, signal),
+  };
+
+  prompts: BackendClient['prompts'] = {
+    list: (sessionId: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        this.getSession(sessionId);
+        return this.state.prompts.filter(
+          (prompt) => prompt.sessionId === sessionId
+        );
+      }, signal),
+    create: (sessionId: string, content: string, signal?: AbortSignal) =>
+      this.respond(() => this.createPrompt(sessionId, content), signal),
+    cancel: (id: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        const prompt = this.getPrompt(id);
+        if (!isRunning(prompt)) {
+          throw new HttpError(`Prompt ${id} is not running`, 409);
+        }
+        this.stopPrompt(id);
+        this.setSessionIdle(prompt.sessionId);
+        this.runNextPrompt(prompt.sessionId);
+        this.save();
+        return this.getPrompt(id);
+      }, signal),
+    retry: (id: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        const prompt = this.getPrompt(id);
+        if (prompt.status !== 'failed') {
+          throw new HttpError(`Prompt ${id} has not failed`, 409);
+        }
+        this.state.messages = { ...this.state.messages, [id]: [] };
+        this.updatePrompt(id, { status: 'pending' });
+        this.runNextPrompt(prompt.sessionId);
+        this.save();
+        return this.getPrompt(id);
+      }, signal),
+  };
+
+  messages: BackendClient['messages'] = {
+    list: (promptId: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        this.getPrompt(promptId);
+        return [...(this.state.messages[promptId] ?? [])];
+      }, signal),
+    create: (sessionId: string, content: string, signal?: AbortSignal) =>
+      this.respond(() => {
+        const session = this.getSession(sessionId);
+        const message: Message = {
+          id: createId('message'),
+          role: 'user',
+          content,
+          createdAt: new Date(),
+        };
+        this.replaceSession({
+          ...session,
+          messages: [...(session.messages ?? []), message],
+        });
+        this.save();
+        return message;
+      }, signal),
+  };
+
+  /**
+   * Runs `handler` after the simulated latency, unless `signal` aborts
+   * first. Agents start with the first call, so instances that are created
+   * and dropped never touch storage.
+   */
+  private respond<T>(handler: () => T, signal?: AbortSignal): Promise<T> {
+    if (!this.started) {
+      this.started = true;
+      this.state.sessions.forEach((session) => this.runNextPrompt(session.id));
+    }
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        try {
+          resolve(handler());
+        } catch (error) {
+          reject(error);
+        }
+      }, this.latencyMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private save() {
+    saveMockBackendState(this.storageKey, this.state);
+  }
+
+  private getSession(id: string): Session {
+    return (
+      this.state.sessions.find((session) => session.id === id) ??
+      notFound('Session', id)
+    );
+  }
+
+  private getPrompt(id: string): Prompt {
+    return (
+      this.state.prompts.find((prompt) => prompt.id === id) ??
+      notFound('Prompt', id)
+    );
+  }
+
+  // Stored objects are replaced rather than changed, so ones already
+  // returned to callers stay as they were
+  private replaceSession(session: Session) {
+    this.state.sessions = this.state.sessions.map((existing) =>
+      existing.id === session.id ? session : existing
+    );
+  }
+
+  private updateSession(id: string, data: UpdateSessionData): Session {
+    const session = { ...this.getSession(id), ...data, updatedAt: new Date() };
+    this.replaceSession(session);
+    this.save();
+    return session;
+  }
+
+  private updatePrompt(id: string, data: Partial<Prompt>) {
+    this.state.prompts = this.state.prompts.map((prompt) =>
+      prompt.id === id ? { ...prompt, ...data } : prompt
+    );
+  }
+
+  private createSession(data: CreateSessionData): Session {
+    if (data.parentId) this.getSession(data.parentId);
+
+    const content: string | undefined = data.messages?.[0]?.content;
+    const id = createId('session');
+    const session: Session = {
+      id,
+      title: content?.split('\n')[0].slice(0, 80) || `New task in ${data.repo}`,
+      repo: data.repo,
+      branch: `claude/${id}`,
+      targetBranch: data.targetBranch,
+      messages: null,
+      inboxStatus: 'pending',
+      uiStatus: 'Pending',
+      sbxConfig: null,
+      parentId: data.parentId ?? null,
+      createdAt: new Date(),
+      sessionStatus: 'Active',
+    };
+    this.state.sessions = [...this.state.sessions, session];
+    this.save();
+
+    if (content) this.createPrompt(id, content);
+    return this.getSession(id);
+  }
+
+  private deleteSession(id: string) {
+    this.getSession(id);
+
+    // Subtasks go with their parent
+    const removed = new Set([id]);
+    let size = 0;
+    while (removed.size !== size) {
+      size = removed.size;
+      this.state.sessions.forEach((session) => {
+        if (session.parentId && removed.has(session.parentId)) {
+          removed.add(session.id);
+        }
+      });
+    }
+
+    const prompts = this.state.prompts.filter((prompt) =>
+      removed.has(prompt.sessionId)
+    );
+    const messages = { ...this.state.messages };
+    prompts.forEach((prompt) => {
+      this.stopTimer(prompt.id);
+      delete messages[prompt.id];
+    });
+    this.state = {
+      sessions: this.state.sessions.filter(
+        (session) => !removed.has(session.id)
+      ),
+      prompts: this.state.prompts.filter(
+        (prompt) => !removed.has(prompt.sessionId)
+      ),
+      messages,
+    };
+    this.save();
+  }
+
+  private createPrompt(sessionId: string, content: string): Prompt {
+    const session = this.getSession(sessionId);
+    if (session.sessionStatus === 'Archived') {
+      throw new HttpError(`Session ${sessionId} is archived`, 409);
+    }
+    const prompt: Prompt = {
+      id: createId('prompt'),
+      sessionId,
+      content,
+      createdAt: new Date(),
+      status: 'pending',
+    };
+    this.state.prompts = [...this.state.prompts, prompt];
+    this.state.messages = { ...this.state.messages, [prompt.id]: [] };
+    this.runNextPrompt(sessionId);
+    this.save();
+    return this.getPrompt(prompt.id);
+  }
+
+  /**
+   * Starts the session's oldest unfinished prompt, unless one is running
+   */
+  private runNextPrompt(sessionId: string) {
+    const prompts = this.state.prompts.filter(
+      (prompt) => prompt.sessionId === sessionId
+    );
+    if (prompts.some((prompt) => this.timers.has(prompt.id))) return;
+
+    const next = prompts
+      .filter(isRunning)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+    if (!next || this.getSession(sessionId).sessionStatus === 'Archived') {
+      return;
+    }
+
+    this.updatePrompt(next.id, { status: 'processing' });
+    this.replaceSession({
+      ...this.getSession(sessionId),
+      inboxStatus: 'in-progress',
+      uiStatus: 'InProgress',
+    });
+    this.save();
+    this.scheduleNextStep(next.id);
+  }
+
+  private scheduleNextStep(promptId: string) {
+    const prompt = this.getPrompt(promptId);
+    const sent = this.state.messages[promptId] ?? [];
+    const step = buildAgentScript(prompt)[sent.length];
+    if (!step) {
+      this.completePrompt(prompt);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(promptId);
+      const message: BackendMessage = {
+        ...step.message,
+        session_id: prompt.sessionId,
+        created_at: new Date().toISOString(),
+      };
+      this.state.messages = {
+        ...this.state.messages,
+        [promptId]: [...sent, message],
+      };
+      this.save();
+      this.scheduleNextStep(promptId);
+    }, step.delayMs);
+    this.timers.set(promptId, timer);
+  }
+
+  private completePrompt(prompt: Prompt) {
+    this.updatePrompt(prompt.id, { status: 'completed' });
+    const session = this.getSession(prompt.sessionId);
+    const diffStats = session.diffStats ?? { additions: 0, deletions: 0 };
+    this.replaceSession({
+      ...session,
+      inboxStatus: 'needs-review',
+      uiStatus: 'NeedsReview',
+      diffStats: {
+        additions: diffStats.additions + AGENT_SCRIPT_DIFF_STATS.additions,
+        deletions: diffStats.deletions + AGENT_SCRIPT_DIFF_STATS.deletions,
+      },
+    });
+    this.save();
+    this.runNextPrompt(prompt.sessionId);
+  }
+
+  private stopTimer(promptId: string) {
+    clearTimeout(this.timers.get(promptId));
+    this.timers.delete(promptId);
+  }
+
+  /**
+   * Ends a pending or processing prompt as failed
+   */
+  private stopPrompt(promptId: string) {
+    this.stopTimer(promptId);
+    this.updatePrompt(promptId, { status: 'failed' });
+  }
+
+  private setSessionIdle(sessionId: string) {
+    const session = this.getSession(sessionId);
+    if (session.sessionStatus === 'Archived') return;
+    this.replaceSession({
+      ...session,
+      inboxStatus: 'needs-review',
+      uiStatus: 'NeedsReview',
+    });
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * In-memory mock backend module exports
+ */
+
+export * from './fakeAgent';
+export * from './state';
+export * from './inMemoryBackendClient';
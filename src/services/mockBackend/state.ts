@@ -0,0 +1,116 @@
+import { BackendMessage, Message, Prompt, Session } from '../../types/session';
+import { buildAgentScript } from './fakeAgent';
+
+/**
+ * Everything the mock backend knows, as kept in localStorage
+ */
+export interface MockBackendState {
+  sessions: Session[];
+  prompts: Prompt[];
+  /**
+   * Messages sent by the fake agent, by prompt ID
+   */
+  messages: Record<string, BackendMessage[]>;
+}
+
+const reviveMessage = (message: Message): Message => ({
+  ...message,
+  // Older seed data names the field `timestamp`
+  createdAt: new Date(
+    message.createdAt ?? (message as { timestamp?: Date }).timestamp
+  ),
+});
+
+const reviveSession = (session: Session): Session => ({
+  ...session,
+  messages: session.messages ? session.messages.map(reviveMessage) : null,
+  createdAt: new Date(session.createdAt),
+  updatedAt: session.updatedAt ? new Date(session.updatedAt) : undefined,
+});
+
+const revivePrompt = (prompt: Prompt): Prompt => ({
+  ...prompt,
+  createdAt: new Date(prompt.createdAt),
+});
+
+/**
+ * Reads saved state, or returns null when there is none or it is unreadable
+ */
+export function loadMockBackendState(
+  storageKey: string
+): MockBackendState | null {
+  const saved = window.localStorage.getItem(storageKey);
+  if (!saved) return null;
+  try {
+    const state = JSON.parse(saved);
+    if (!Array.isArray(state?.sessions) || !Array.isArray(state?.prompts)) {
+      return null;
+    }
+    return {
+      sessions: state.sessions.map(reviveSession),
+      prompts: state.prompts.map(revivePrompt),
+      messages: state.messages ?? {},
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function saveMockBackendState(
+  storageKey: string,
+  state: MockBackendState
+) {
+  window.localStorage.setItem(storageKey, JSON.stringify(state));
+}
+
+const seedPromptStatus: Record<Session['inboxStatus'], Prompt['status']> = {
+  pending: 'pending',
+  'in-progress': 'processing',
+  'needs-review': 'completed',
+  'needs-review-ip-returned': 'completed',
+  completed: 'completed',
+  failed: 'failed',
+};
+
+/**
+ * Builds the initial state from fixture sessions. Each session gets one
+ * prompt from its first message (or its title): finished sessions come with
+ * the whole agent script, running ones with the first half so the agent
+ * picks up from there, and pending ones with none.
+ */
+export function createSeedState(seedSessions: Session[]): MockBackendState {
+  const state: MockBackendState = { sessions: [], prompts: [], messages: {} };
+
+  for (const seed of seedSessions) {
+    const session = reviveSession(seed);
+    const prompt: Prompt = {
+      id: `prompt-${session.id}`,
+      sessionId: session.id,
+      content: session.messages?.[0]?.content || session.title,
+      createdAt: session.createdAt,
+      status: seedPromptStatus[session.inboxStatus] ?? 'completed',
+    };
+
+    const script = buildAgentScript(prompt);
+    const sent =
+      prompt.status === 'completed'
+        ? script.length
+        : prompt.status === 'pending'
+          ? 0
+          : Math.floor(script.length / 2);
+    let at = prompt.createdAt.getTime();
+    state.messages[prompt.id] = script.slice(0, sent).map((step) => {
+      at += step.delayMs;
+      return {
+        ...step.message,
+        session_id: session.id,
+        created_at: new Date(at).toISOString(),
+      };
+    });
+
+    state.sessions.push(session);
+    state.prompts.push(prompt);
+  }
+
+  return state;
+}
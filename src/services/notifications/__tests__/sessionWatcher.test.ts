@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SessionWatcher } from '../sessionWatcher';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  isInQuietHours,
+  loadNotificationSettings,
+  saveNotificationSettings,
+} from '../settings';
+import { mockSession } from '@/test/mockData';
+import { Prompt, Session } from '@/types/session';
+
+const createSession = (uiStatus: Session['uiStatus']): Session => ({
+  ...mockSession,
+  uiStatus,
+});
+
+const createPrompt = (status: Prompt['status']): Prompt => ({
+  id: 'prompt-1',
+  sessionId: mockSession.id,
+  content: 'Fix the tests',
+  createdAt: new Date(),
+  status,
+});
+
+describe('SessionWatcher', () => {
+  let watcher: SessionWatcher;
+
+  beforeEach(() => {
+    watcher = new SessionWatcher();
+  });
+
+  it('should only record sessions the first time it sees them', () => {
+    expect(watcher.observeSessions([createSession('NeedsReview')])).toEqual([]);
+    expect(watcher.getRepos()).toEqual(['test-org/test-repo']);
+  });
+
+  it('should report sessions entering a notifying status', () => {
+    watcher.observeSessions([createSession('Pending')]);
+
+    const events = watcher.observeSessions([createSession('InProgress')]);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'status',
+        from: 'Pending',
+        to: 'InProgress',
+      }),
+    ]);
+
+    expect(watcher.observeSessions([createSession('InProgress')])).toEqual([]);
+    expect(watcher.observeSessions([createSession('NeedsReview')])).toEqual([
+      expect.objectContaining({ from: 'InProgress', to: 'NeedsReview' }),
+    ]);
+  });
+
+  it('should not report other status changes', () => {
+    watcher.observeSessions([createSession('NeedsReview')]);
+    expect(watcher.observeSessions([createSession('Archived')])).toEqual([]);
+  });
+
+  it('should report prompts that fail with their session', () => {
+    watcher.observeSessions([createSession('InProgress')]);
+    watcher.observePrompts([createPrompt('processing')]);
+
+    const events = watcher.observePrompts([createPrompt('failed')]);
+    expect(events).toEqual([
+      expect.objectContaining({
+        type: 'prompt-failed',
+        session: expect.objectContaining({ id: mockSession.id }),
+      }),
+    ]);
+    expect(watcher.observePrompts([createPrompt('failed')])).toEqual([]);
+  });
+
+  it('should not report prompts that had already failed when first seen', () => {
+    expect(watcher.observePrompts([createPrompt('failed')])).toEqual([]);
+  });
+});
+
+describe('notification settings', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should fall back to the defaults', () => {
+    expect(loadNotificationSettings()).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+
+    window.localStorage.setItem('notificationSettings', '{not json');
+    expect(loadNotificationSettings()).toEqual(DEFAULT_NOTIFICATION_SETTINGS);
+  });
+
+  it('should round-trip saved settings', () => {
+    const settings = {
+      desktop: true,
+      repos: ['test-org/test-repo'],
+      quietHours: { enabled: true, start: '21:30', end: '07:00' },
+    };
+    saveNotificationSettings(settings);
+    expect(loadNotificationSettings()).toEqual(settings);
+  });
+
+  it('should handle quiet hours that wrap past midnight', () => {
+    const quietHours = { enabled: true, start: '22:00', end: '08:00' };
+    const at = (hours: number, minutes = 0) =>
+      new Date(2025, 0, 1, hours, minutes);
+
+    expect(isInQuietHours(quietHours, at(23))).toBe(true);
+    expect(isInQuietHours(quietHours, at(7, 59))).toBe(true);
+    expect(isInQuietHours(quietHours, at(8))).toBe(false);
+    expect(isInQuietHours(quietHours, at(12))).toBe(false);
+    expect(isInQuietHours({ ...quietHours, enabled: false }, at(23))).toBe(
+      false
+    );
+    expect(
+      isInQuietHours({ enabled: true, start: '09:00', end: '17:00' }, at(12))
+    ).toBe(true);
+  });
+});
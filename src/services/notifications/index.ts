@@ -0,0 +1,7 @@
+/**
+ * Session notification module exports
+ */
+
+export * from './types';
+export * from './settings';
+export * from './sessionWatcher';
@@ -0,0 +1,72 @@
+import { UiStatus } from '@wholelottahoopla/prompt-backend-client';
+import { Prompt, Session } from '../../types/session';
+import { SessionEvent } from './types';
+
+/**
+ * Statuses worth telling the user about when a session enters them
+ */
+const NOTIFYING_STATUSES: UiStatus[] = [
+  'InProgress',
+  'NeedsReview',
+  'NeedsReviewIpReturned',
+];
+
+/**
+ * Diffs successive session and prompt results against what it saw before.
+ * The first result for a session or prompt only records its state, so
+ * loading the app doesn't report everything as new.
+ */
+export class SessionWatcher {
+  private statuses = new Map<string, UiStatus>();
+  private promptStatuses = new Map<string, Prompt['status']>();
+  private sessions = new Map<string, Session>();
+
+  observeSessions(sessions: Session[]): SessionEvent[] {
+    const events: SessionEvent[] = [];
+    for (const session of sessions) {
+      this.sessions.set(session.id, session);
+      const previous = this.statuses.get(session.id);
+      this.statuses.set(session.id, session.uiStatus);
+      if (
+        previous &&
+        previous !== session.uiStatus &&
+        NOTIFYING_STATUSES.includes(session.uiStatus)
+      ) {
+        events.push({
+          type: 'status',
+          session,
+          from: previous,
+          to: session.uiStatus,
+        });
+      }
+    }
+    return events;
+  }
+
+  observePrompts(prompts: Prompt[]): SessionEvent[] {
+    const events: SessionEvent[] = [];
+    for (const prompt of prompts) {
+      const previous = this.promptStatuses.get(prompt.id);
+      this.promptStatuses.set(prompt.id, prompt.status);
+      if (previous && previous !== 'failed' && prompt.status === 'failed') {
+        events.push({
+          type: 'prompt-failed',
+          prompt,
+          session: this.sessions.get(prompt.sessionId) ?? null,
+        });
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Repositories of all sessions seen so far, sorted
+   */
+  getRepos(): string[] {
+    return Array.from(
+      new Set(Array.from(this.sessions.values(), (session) => session.repo))
+    )
+      .filter(Boolean)
+      .sort();
+  }
+}
@@ -0,0 +1,56 @@
+import { NotificationSettings, QuietHours } from './types';
+
+const STORAGE_KEY = 'notificationSettings';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  desktop: false,
+  repos: [],
+  quietHours: { enabled: false, start: '22:00', end: '08:00' },
+};
+
+/**
+ * Reads the saved settings, falling back to the defaults for anything
+ * missing or malformed
+ */
+export function loadNotificationSettings(
+  storageKey = STORAGE_KEY
+): NotificationSettings {
+  const saved = window.localStorage.getItem(storageKey);
+  if (!saved) return DEFAULT_NOTIFICATION_SETTINGS;
+  try {
+    const settings = JSON.parse(saved);
+    return {
+      desktop: settings.desktop === true,
+      repos: Array.isArray(settings.repos) ? settings.repos : [],
+      quietHours: {
+        ...DEFAULT_NOTIFICATION_SETTINGS.quietHours,
+        ...settings.quietHours,
+      },
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+}
+
+export function saveNotificationSettings(
+  settings: NotificationSettings,
+  storageKey = STORAGE_KEY
+) {
+  window.localStorage.setItem(storageKey, JSON.stringify(settings));
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Whether a moment falls in the quiet hours, in local time
+ */
+export function isInQuietHours(quietHours: QuietHours, date = new Date()) {
+  if (!quietHours.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const now = date.getHours() * 60 + date.getMinutes();
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+}
@@ -0,0 +1,40 @@
+import { UiStatus } from '@wholelottahoopla/prompt-backend-client';
+import { Prompt, Session } from '../../types/session';
+
+/**
+ * Daily window in which no toasts or desktop notifications are shown.
+ * Times are local `HH:MM`; a window may wrap past midnight.
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export interface NotificationSettings {
+  /**
+   * Raise browser notifications, once permission has been granted
+   */
+  desktop: boolean;
+  /**
+   * Repositories (owner/name) whose sessions notify; all others are ignored
+   */
+  repos: string[];
+  quietHours: QuietHours;
+}
+
+/**
+ * A change noticed between two successive results for the same data
+ */
+export type SessionEvent =
+  | { type: 'status'; session: Session; from: UiStatus; to: UiStatus }
+  | { type: 'prompt-failed'; prompt: Prompt; session: Session | null };
+
+export interface SessionNotification {
+  id: string;
+  sessionId: string;
+  title: string;
+  body: string;
+  createdAt: number;
+  read: boolean;
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PromptOutbox, getRetryDelay } from '../promptOutbox';
+import { MemoryOutboxStore } from '../memoryStore';
+import { OUTBOX_CLAIM_TIMEOUT_MS, OutboxItem } from '../types';
+import { Prompt } from '@/types/session';
+
+class TransientError extends Error {}
+
+const createPrompt = (sessionId: string, content: string): Prompt => ({
+  id: `prompt-${content}`,
+  sessionId,
+  content,
+  createdAt: new Date(),
+  status: 'pending',
+});
+
+const createItem = (overrides: Partial<OutboxItem> = {}): OutboxItem => ({
+  id: 'outbox-1',
+  sessionId: 'session-1',
+  content: 'Fix the tests',
+  createdAt: 1,
+  status: 'queued',
+  attempts: 1,
+  nextAttemptAt: 0,
+  ...overrides,
+});
+
+describe('getRetryDelay', () => {
+  it('should grow exponentially up to the maximum', () => {
+    const noJitter = () => 1;
+    expect(getRetryDelay(1, noJitter)).toBe(2000);
+    expect(getRetryDelay(2, noJitter)).toBe(4000);
+    expect(getRetryDelay(20, noJitter)).toBe(60000);
+    expect(getRetryDelay(1, () => 0)).toBe(1000);
+  });
+});
+
+describe('PromptOutbox', () => {
+  let store: MemoryOutboxStore;
+  let send: ReturnType<
+    typeof vi.fn<[sessionId: string, content: string], Promise<Prompt>>
+  >;
+  let onSent: ReturnType<typeof vi.fn>;
+  let onFailed: ReturnType<typeof vi.fn>;
+  let outbox: PromptOutbox;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new MemoryOutboxStore();
+    send = vi.fn((sessionId, content) =>
+      Promise.resolve(createPrompt(sessionId, content))
+    );
+    onSent = vi.fn();
+    onFailed = vi.fn();
+    outbox = new PromptOutbox({
+      store,
+      send,
+      isTransientError: (error) => error instanceof TransientError,
+      onSent,
+      onFailed,
+    });
+  });
+
+  afterEach(() => {
+    outbox.stop();
+    vi.useRealTimers();
+  });
+
+  it('should persist queued prompts and send them after the backoff', async () => {
+    await outbox.start();
+    const item = await outbox.enqueue(
+      'session-1',
+      'Fix the tests',
+      new TransientError('down')
+    );
+
+    expect(item.lastError).toBe('down');
+    expect(await store.list()).toHaveLength(1);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(send).toHaveBeenCalledWith('session-1', 'Fix the tests');
+    expect(onSent).toHaveBeenCalledTimes(1);
+    expect(outbox.getItems()).toEqual([]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should restore persisted items on start', async () => {
+    await store.put(createItem({ status: 'sending' }));
+
+    await outbox.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledWith('session-1', 'Fix the tests');
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('should send each item from one tab only', async () => {
+    const otherTab = new PromptOutbox({
+      store,
+      send,
+      isTransientError: () => true,
+    });
+    await store.put(createItem());
+    // Still sending when the other tab looks at the item
+    send.mockImplementation(
+      (sessionId, content) =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve(createPrompt(sessionId, content)), 1000)
+        )
+    );
+
+    await Promise.all([outbox.start(), otherTab.start()]);
+    await vi.advanceTimersByTimeAsync(1000);
+    otherTab.stop();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should leave items another tab is sending until its claim expires', async () => {
+    await store.put(createItem({ status: 'sending', claimedAt: Date.now() }));
+
+    await outbox.start();
+    await vi.advanceTimersByTimeAsync(OUTBOX_CLAIM_TIMEOUT_MS - 1);
+    expect(send).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(send).toHaveBeenCalledWith('session-1', 'Fix the tests');
+  });
+
+  it('should back off and keep the item on transient errors', async () => {
+    send.mockRejectedValueOnce(new TransientError('still down'));
+    await store.put(createItem());
+
+    await outbox.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [item] = outbox.getItems();
+    expect(item.status).toBe('queued');
+    expect(item.attempts).toBe(2);
+    expect(item.lastError).toBe('still down');
+    expect(item.nextAttemptAt).toBeGreaterThan(Date.now());
+
+    await vi.advanceTimersByTimeAsync(4000);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('should stop retrying on other errors until retried manually', async () => {
+    send.mockRejectedValueOnce(new Error('Bad request'));
+    await store.put(createItem());
+
+    await outbox.start();
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(outbox.getItems()[0].status).toBe('failed');
+    expect(onFailed).toHaveBeenCalledTimes(1);
+
+    await outbox.retry('outbox-1');
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(outbox.getItems()).toEqual([]);
+  });
+
+  it('should send edited content right away', async () => {
+    await store.put(createItem({ nextAttemptAt: Date.now() + 60000 }));
+    await outbox.start();
+
+    await outbox.edit('outbox-1', 'Fix the lint errors');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledWith('session-1', 'Fix the lint errors');
+  });
+
+  it('should drop cancelled items', async () => {
+    await store.put(createItem({ nextAttemptAt: Date.now() + 60000 }));
+    await outbox.start();
+
+    await outbox.cancel('outbox-1');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(await store.list()).toEqual([]);
+  });
+
+  it('should retry queued items when the browser comes back online', async () => {
+    await store.put(createItem({ nextAttemptAt: Date.now() + 60000 }));
+    await outbox.start();
+
+    window.dispatchEvent(new Event('online'));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify subscribers of changes', async () => {
+    const listener = vi.fn();
+    outbox.subscribe(listener);
+    await outbox.start();
+
+    await outbox.enqueue('session-1', 'Fix the tests');
+
+    expect(listener).toHaveBeenLastCalledWith([
+      expect.objectContaining({ content: 'Fix the tests', status: 'queued' }),
+    ]);
+  });
+});
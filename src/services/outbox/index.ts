@@ -0,0 +1,8 @@
+/**
+ * Prompt outbox module exports
+ */
+
+export * from './types';
+export * from './memoryStore';
+export * from './indexedDbStore';
+export * from './promptOutbox';
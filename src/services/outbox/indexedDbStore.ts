@@ -0,0 +1,80 @@
+import {
+  isOutboxItemClaimable,
+  OutboxClaim,
+  OutboxItem,
+  OutboxStore,
+} from './types';
+import { MemoryOutboxStore } from './memoryStore';
+
+const DB_NAME = 'prompt-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'prompts';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Outbox store backed by IndexedDB, so queued prompts survive reloads.
+ */
+export class IndexedDbOutboxStore implements OutboxStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private factory: IDBFactory) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = this.factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      this.db = promisify(request);
+    }
+    return this.db;
+  }
+
+  private async objectStore(mode: IDBTransactionMode) {
+    const db = await this.open();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async list(): Promise<OutboxItem[]> {
+    const store = await this.objectStore('readonly');
+    return promisify<OutboxItem[]>(store.getAll());
+  }
+
+  async put(item: OutboxItem): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.put(item));
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisify(store.delete(id));
+  }
+
+  async claim(id: string, claimedAt: number): Promise<OutboxClaim> {
+    // Read and write in one transaction; IndexedDB runs readwrite
+    // transactions on a store one at a time, across tabs too
+    const store = await this.objectStore('readwrite');
+    const item = await promisify<OutboxItem | undefined>(store.get(id));
+    if (!item || !isOutboxItemClaimable(item, claimedAt)) {
+      return { claimed: false, item };
+    }
+    const claimed: OutboxItem = { ...item, status: 'sending', claimedAt };
+    await promisify(store.put(claimed));
+    return { claimed: true, item: claimed };
+  }
+}
+
+/**
+ * Creates the outbox store for this environment: IndexedDB in the browser,
+ * in-memory where IndexedDB is unavailable (e.g. tests).
+ */
+export function createOutboxStore(): OutboxStore {
+  return window.indexedDB
+    ? new IndexedDbOutboxStore(window.indexedDB)
+    : new MemoryOutboxStore();
+}
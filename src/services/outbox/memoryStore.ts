@@ -0,0 +1,36 @@
+import {
+  isOutboxItemClaimable,
+  OutboxClaim,
+  OutboxItem,
+  OutboxStore,
+} from './types';
+
+/**
+ * In-memory outbox store, used when IndexedDB is not available.
+ * Items are lost on reload.
+ */
+export class MemoryOutboxStore implements OutboxStore {
+  private items = new Map<string, OutboxItem>();
+
+  async list(): Promise<OutboxItem[]> {
+    return Array.from(this.items.values());
+  }
+
+  async put(item: OutboxItem): Promise<void> {
+    this.items.set(item.id, item);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.items.delete(id);
+  }
+
+  async claim(id: string, claimedAt: number): Promise<OutboxClaim> {
+    const item = this.items.get(id);
+    if (!item || !isOutboxItemClaimable(item, claimedAt)) {
+      return { claimed: false, item };
+    }
+    const claimed: OutboxItem = { ...item, status: 'sending', claimedAt };
+    this.items.set(id, claimed);
+    return { claimed: true, item: claimed };
+  }
+}
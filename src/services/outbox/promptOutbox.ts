@@ -0,0 +1,312 @@
+import { Prompt } from '../../types/session';
+import {
+  isOutboxItemClaimable,
+  OUTBOX_CLAIM_TIMEOUT_MS,
+  OutboxItem,
+  OutboxStore,
+} from './types';
+
+/**
+ * Delay before the first retry; doubles with every failed attempt
+ */
+export const OUTBOX_RETRY_BASE_MS = 2000;
+
+/**
+ * Upper bound for the delay between retries
+ */
+export const OUTBOX_RETRY_MAX_MS = 60000;
+
+/**
+ * Returns the delay before the next attempt after `attempts` failures.
+ * Exponential with jitter so that many clients coming back online at once
+ * don't retry in lockstep.
+ */
+export function getRetryDelay(attempts: number, random = Math.random) {
+  const delay = Math.min(
+    OUTBOX_RETRY_MAX_MS,
+    OUTBOX_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1)
+  );
+  return delay / 2 + (random() * delay) / 2;
+}
+
+export interface PromptOutboxOptions {
+  store: OutboxStore;
+  /**
+   * Delivers a prompt to the backend
+   */
+  send: (sessionId: string, content: string) => Promise<Prompt>;
+  /**
+   * Whether a delivery error is temporary (backend down, network lost).
+   * Items failing with other errors stop retrying until edited or retried.
+   */
+  isTransientError: (error: unknown) => boolean;
+  onSent?: (item: OutboxItem, prompt: Prompt) => void;
+  onFailed?: (item: OutboxItem, error: unknown) => void;
+}
+
+type Listener = (items: OutboxItem[]) => void;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Queue of prompts waiting to be delivered.
+ *
+ * Queued items are retried in submission order with exponential backoff,
+ * and immediately when the browser reports it is back online. Delivery stops
+ * at the first transient failure, since later items would fail the same way.
+ * Every tab shares the store, so each item is claimed there before it is
+ * sent and only one tab sends it.
+ *
+ * @example
+ * ```ts
+ * const outbox = new PromptOutbox({ store, send, isTransientError });
+ * await outbox.start();
+ * await outbox.enqueue('session-123', 'Fix the failing test', error);
+ * ```
+ */
+export class PromptOutbox {
+  private items: OutboxItem[] = [];
+  private listeners = new Set<Listener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isFlushing = false;
+  private isStarted = false;
+
+  constructor(private options: PromptOutboxOptions) {}
+
+  /**
+   * Loads persisted items and starts retrying them.
+   */
+  async start() {
+    if (this.isStarted) return;
+    this.isStarted = true;
+    window.addEventListener('online', this.handleOnline);
+
+    // Keep items queued before the store finished loading
+    const byId = new Map(
+      (await this.options.store.list()).map((item) => [item.id, item])
+    );
+    this.items.forEach((item) => byId.set(item.id, item));
+    // Items left sending by a closed tab are claimed again once their claim
+    // expires
+    this.setItems(
+      Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt)
+    );
+    this.schedule();
+  }
+
+  stop() {
+    this.isStarted = false;
+    window.removeEventListener('online', this.handleOnline);
+    this.clearTimer();
+  }
+
+  getItems(): OutboxItem[] {
+    return this.items;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queues a prompt whose first delivery attempt failed.
+   */
+  async enqueue(
+    sessionId: string,
+    content: string,
+    error?: unknown
+  ): Promise<OutboxItem> {
+    const now = Date.now();
+    const item: OutboxItem = {
+      id: `outbox-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      sessionId,
+      content,
+      createdAt: now,
+      status: 'queued',
+      attempts: 1,
+      nextAttemptAt: now + getRetryDelay(1),
+      lastError: error === undefined ? undefined : errorMessage(error),
+    };
+    await this.save(item);
+    this.schedule();
+    return item;
+  }
+
+  /**
+   * Removes an item from the queue without sending it.
+   */
+  async cancel(id: string) {
+    const item = this.find(id);
+    if (!item || item.status === 'sending') return;
+    this.setItems(this.items.filter((existing) => existing.id !== id));
+    await this.options.store.delete(id);
+    this.schedule();
+  }
+
+  /**
+   * Replaces the content of a queued item and sends it right away.
+   */
+  async edit(id: string, content: string) {
+    const item = this.find(id);
+    if (!item || item.status === 'sending') return;
+    await this.save({
+      ...item,
+      content,
+      status: 'queued',
+      nextAttemptAt: Date.now(),
+    });
+    void this.flush();
+  }
+
+  /**
+   * Sends an item without waiting for the backoff. Without an ID, every
+   * queued item is retried; failed items are only retried individually.
+   */
+  async retry(id?: string) {
+    const isTarget = (item: OutboxItem) =>
+      id
+        ? item.id === id && item.status !== 'sending'
+        : item.status === 'queued';
+    const now = Date.now();
+    const targets = this.items.filter(isTarget).map((item) => ({
+      ...item,
+      status: 'queued' as const,
+      nextAttemptAt: now,
+    }));
+    await Promise.all(targets.map((item) => this.save(item)));
+    await this.flush();
+  }
+
+  /**
+   * Delivers every item that is due, in submission order.
+   */
+  async flush() {
+    if (this.isFlushing) return;
+    this.isFlushing = true;
+    this.clearTimer();
+
+    try {
+      while (navigator.onLine !== false) {
+        const now = Date.now();
+        const candidate = this.items.find((existing) =>
+          existing.status === 'queued'
+            ? existing.nextAttemptAt <= now
+            : isOutboxItemClaimable(existing, now)
+        );
+        if (!candidate) break;
+
+        const { claimed, item } = await this.options.store.claim(
+          candidate.id,
+          now
+        );
+        if (!claimed || !item) {
+          // Another tab sent it, is sending it or gave up on it
+          if (item) {
+            this.replace(item);
+          } else {
+            this.setItems(
+              this.items.filter((existing) => existing.id !== candidate.id)
+            );
+          }
+          continue;
+        }
+
+        this.replace(item);
+        try {
+          const prompt = await this.options.send(item.sessionId, item.content);
+          this.setItems(
+            this.items.filter((existing) => existing.id !== item.id)
+          );
+          await this.options.store.delete(item.id);
+          this.options.onSent?.(item, prompt);
+        } catch (error) {
+          const attempts = item.attempts + 1;
+          if (this.options.isTransientError(error)) {
+            await this.save({
+              ...item,
+              status: 'queued',
+              claimedAt: undefined,
+              attempts,
+              nextAttemptAt: Date.now() + getRetryDelay(attempts),
+              lastError: errorMessage(error),
+            });
+            break;
+          }
+          const failed: OutboxItem = {
+            ...item,
+            status: 'failed',
+            claimedAt: undefined,
+            attempts,
+            lastError: errorMessage(error),
+          };
+          await this.save(failed);
+          this.options.onFailed?.(failed, error);
+        }
+      }
+    } finally {
+      this.isFlushing = false;
+      this.schedule();
+    }
+  }
+
+  private handleOnline = () => {
+    void this.retry();
+  };
+
+  private find(id: string) {
+    return this.items.find((item) => item.id === id);
+  }
+
+  private async save(item: OutboxItem) {
+    this.replace(item);
+    await this.options.store.put(item);
+  }
+
+  private replace(item: OutboxItem) {
+    this.setItems(
+      this.find(item.id)
+        ? this.items.map((existing) =>
+            existing.id === item.id ? item : existing
+          )
+        : [...this.items, item]
+    );
+  }
+
+  private setItems(items: OutboxItem[]) {
+    this.items = items;
+    this.listeners.forEach((listener) => listener(items));
+  }
+
+  private schedule() {
+    this.clearTimer();
+    if (!this.isStarted || this.isFlushing) return;
+
+    // Items another tab is sending are checked again when its claim expires
+    const next = Math.min(
+      ...this.items.map((item) =>
+        item.status === 'queued'
+          ? item.nextAttemptAt
+          : item.status === 'sending'
+            ? (item.claimedAt ?? 0) + OUTBOX_CLAIM_TIMEOUT_MS
+            : Infinity
+      )
+    );
+    if (Number.isFinite(next)) {
+      this.timer = setTimeout(
+        () => void this.flush(),
+        Math.max(0, next - Date.now())
+      );
+    }
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Persistent outbox for prompts that could not be delivered to the backend.
+ * Items survive page reloads and are retried once the backend is reachable.
+ */
+
+export type OutboxItemStatus = 'queued' | 'sending' | 'failed';
+
+export interface OutboxItem {
+  id: string;
+  sessionId: string;
+  content: string;
+  /**
+   * Time the prompt was first submitted (epoch ms)
+   */
+  createdAt: number;
+  status: OutboxItemStatus;
+  /**
+   * Number of delivery attempts made so far
+   */
+  attempts: number;
+  /**
+   * Earliest time of the next automatic attempt (epoch ms)
+   */
+  nextAttemptAt: number;
+  /**
+   * Time a tab claimed the item to send it (epoch ms)
+   */
+  claimedAt?: number;
+  lastError?: string;
+}
+
+/**
+ * How long a claim to send an item holds. Claims left by a tab that closed
+ * mid-delivery expire after this.
+ */
+export const OUTBOX_CLAIM_TIMEOUT_MS = 60_000;
+
+/**
+ * Whether an item may be claimed at `now`: it is queued, or the tab sending
+ * it has gone away
+ */
+export function isOutboxItemClaimable(item: OutboxItem, now: number) {
+  return (
+    item.status === 'queued' ||
+    (item.status === 'sending' &&
+      now - (item.claimedAt ?? 0) >= OUTBOX_CLAIM_TIMEOUT_MS)
+  );
+}
+
+export interface OutboxStore {
+  list(): Promise<OutboxItem[]>;
+  put(item: OutboxItem): Promise<void>;
+  delete(id: string): Promise<void>;
+  /**
+   * Marks an item as being sent, unless another tab got to it first. Every
+   * tab shares the store, so this must be atomic.
+   */
+  claim(id: string, claimedAt: number): Promise<OutboxClaim>;
+}
+
+export interface OutboxClaim {
+  /**
+   * Whether the caller may send the item
+   */
+  claimed: boolean;
+  /**
+   * The item as stored afterwards; undefined when it is gone
+   */
+  item?: OutboxItem;
+}
@@ -0,0 +1,6 @@
+/**
+ * Seen cursor module exports
+ */
+
+export * from './types';
+export * from './localStorageStore';
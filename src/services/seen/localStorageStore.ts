@@ -0,0 +1,38 @@
+import { SeenCursors, SeenStore } from './types';
+
+const STORAGE_KEY = 'seenCursors';
+
+/**
+ * Seen cursor store kept in localStorage, used when the backend does not
+ * sync cursors. Cursors are per browser profile.
+ */
+export class LocalStorageSeenStore implements SeenStore {
+  constructor(private storageKey = STORAGE_KEY) {}
+
+  async list(): Promise<SeenCursors> {
+    return this.read();
+  }
+
+  async markSeen(sessionId: string, seenAt: number): Promise<void> {
+    const cursors = this.read();
+    if ((cursors[sessionId] ?? 0) >= seenAt) return;
+    this.write({ ...cursors, [sessionId]: seenAt });
+  }
+
+  private read(): SeenCursors {
+    const saved = window.localStorage.getItem(this.storageKey);
+    if (!saved) return {};
+    try {
+      const cursors = JSON.parse(saved);
+      return cursors && typeof cursors === 'object' && !Array.isArray(cursors)
+        ? cursors
+        : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private write(cursors: SeenCursors) {
+    window.localStorage.setItem(this.storageKey, JSON.stringify(cursors));
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * When the user last looked at each session: the time of the newest
+ * message or session update they have seen, in milliseconds since the
+ * epoch, by session ID
+ */
+export type SeenCursors = Record<string, number>;
+
+export interface SeenStore {
+  list(): Promise<SeenCursors>;
+  /**
+   * Moves a session's cursor forward to `seenAt`. Cursors never move back.
+   */
+  markSeen(sessionId: string, seenAt: number): Promise<void>;
+}
@@ -0,0 +1,52 @@
+import { StreamHandlers, StreamTransport } from './types';
+
+/**
+ * Server-Sent Events transport built on the browser EventSource API.
+ * The browser reconnects dropped streams on its own; status changes are
+ * reported so callers can fall back to polling while the stream is down.
+ */
+export class EventSourceTransport implements StreamTransport {
+  constructor(
+    private baseURL: string,
+    private withCredentials: boolean = true
+  ) {}
+
+  connect(path: string, handlers: StreamHandlers): () => void {
+    if (typeof window === 'undefined' || !('EventSource' in window)) {
+      // No SSE support - report the stream as closed so callers keep polling
+      handlers.onStatusChange?.('closed');
+      return () => {};
+    }
+
+    const url = path.startsWith('http') ? path : `${this.baseURL}${path}`;
+    const source = new window.EventSource(url, {
+      withCredentials: this.withCredentials,
+    });
+
+    handlers.onStatusChange?.('connecting');
+
+    source.onopen = () => {
+      handlers.onStatusChange?.('open');
+    };
+
+    source.onmessage = (event) => {
+      try {
+        handlers.onData(JSON.parse(event.data));
+      } catch (error) {
+        console.error('[EventSourceTransport] Invalid event payload:', error);
+      }
+    };
+
+    source.onerror = () => {
+      // readyState is CONNECTING while the browser retries, CLOSED when it gives up
+      handlers.onStatusChange?.(
+        source.readyState === source.CLOSED ? 'closed' : 'connecting'
+      );
+    };
+
+    return () => {
+      source.close();
+      handlers.onStatusChange?.('closed');
+    };
+  }
+}
@@ -0,0 +1,6 @@
+/**
+ * Streaming transport module exports
+ */
+
+export * from './types';
+export * from './eventSourceTransport';
@@ -0,0 +1,28 @@
+/**
+ * Streaming transport interface for server-pushed updates.
+ * This abstraction allows the backend clients to receive real-time events
+ * without depending on a particular wire protocol (SSE, WebSocket, fakes).
+ */
+
+export type StreamStatus = 'connecting' | 'open' | 'closed';
+
+export interface StreamTransport {
+  /**
+   * Opens a stream to the specified path.
+   * Returns a function that closes the stream.
+   */
+  connect(path: string, handlers: StreamHandlers): () => void;
+}
+
+export interface StreamHandlers {
+  /**
+   * Called with the parsed JSON payload of every event received. Payloads
+   * come from the server as is, so handlers check their shape.
+   */
+  onData(data: unknown): void;
+
+  /**
+   * Called whenever the connection state changes
+   */
+  onStatusChange?(status: StreamStatus): void;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SUBTASK_CLAIM_TIMEOUT_MS, SubtaskQueue } from '../subtaskQueue';
+
+const task = {
+  repo: 'test/repo',
+  targetBranch: 'feature/parent',
+  messages: [{ content: 'Write the docs' }],
+  parentId: 'parent-1',
+};
+
+describe('SubtaskQueue', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should keep queued subtasks across page loads', () => {
+    const queue = new SubtaskQueue();
+    const listener = vi.fn();
+    queue.subscribe(listener);
+
+    const item = queue.enqueue(task);
+    expect(item).toMatchObject({ parentId: 'parent-1', status: 'waiting' });
+    expect(listener).toHaveBeenCalledWith([item]);
+
+    expect(new SubtaskQueue().getItems()).toEqual([item]);
+  });
+
+  it('should queue subtasks interrupted while starting again', () => {
+    const queue = new SubtaskQueue();
+    const item = queue.enqueue(task);
+    queue.update(item.id, {
+      status: 'starting',
+      claimedAt: Date.now() - SUBTASK_CLAIM_TIMEOUT_MS,
+    });
+
+    expect(new SubtaskQueue().getItems()[0].status).toBe('waiting');
+  });
+
+  it('should let only one tab claim a subtask', () => {
+    const tab = new SubtaskQueue();
+    const otherTab = new SubtaskQueue();
+    const item = tab.enqueue(task);
+
+    expect(otherTab.claim(item.id)).toBe(true);
+    expect(tab.claim(item.id)).toBe(false);
+    expect(tab.getItems()[0].status).toBe('starting');
+    // Still being started by the other tab
+    expect(new SubtaskQueue().getItems()[0].status).toBe('starting');
+  });
+
+  it('should pick up changes made by other tabs', () => {
+    const tab = new SubtaskQueue();
+    const listener = vi.fn();
+    const unsubscribe = tab.subscribe(listener);
+
+    const item = new SubtaskQueue().enqueue(task);
+    window.dispatchEvent(
+      new StorageEvent('storage', { key: 'queuedSubtasks' })
+    );
+
+    expect(tab.getItems()).toEqual([item]);
+    expect(listener).toHaveBeenCalledWith([item]);
+    unsubscribe();
+  });
+
+  it('should retry failed subtasks and remove cancelled ones', () => {
+    const queue = new SubtaskQueue();
+    const item = queue.enqueue(task);
+    queue.update(item.id, { status: 'failed', lastError: 'Bad request' });
+
+    queue.retry(item.id);
+    expect(queue.getItems()[0]).toMatchObject({
+      status: 'waiting',
+      lastError: undefined,
+    });
+
+    queue.remove(item.id);
+    expect(queue.getItems()).toEqual([]);
+    expect(new SubtaskQueue().getItems()).toEqual([]);
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Queued subtask module exports
+ */
+
+export * from './types';
+export * from './subtaskQueue';
@@ -0,0 +1,149 @@
+import { CreateSessionData } from '../api/types';
+import { QueuedSubtask } from './types';
+
+const STORAGE_KEY = 'queuedSubtasks';
+
+/**
+ * How long a claim to start a subtask holds. Claims left by a tab that closed
+ * while starting one expire after this.
+ */
+export const SUBTASK_CLAIM_TIMEOUT_MS = 60_000;
+
+type Listener = (items: QueuedSubtask[]) => void;
+
+/**
+ * Subtasks waiting for their parent session, kept in localStorage and shared
+ * by every open tab. Starting them is left to the caller, which watches the
+ * parents and claims a subtask before starting it.
+ *
+ * @example
+ * ```ts
+ * const queue = new SubtaskQueue();
+ * queue.enqueue({ repo, targetBranch, messages, parentId: 'session-123' });
+ * ```
+ */
+export class SubtaskQueue {
+  private items: QueuedSubtask[];
+  private listeners = new Set<Listener>();
+
+  constructor(private storageKey = STORAGE_KEY) {
+    this.items = this.read();
+    // Subtasks interrupted while starting are started again, unless another
+    // open tab is still starting them
+    const now = Date.now();
+    const isAbandoned = (item: QueuedSubtask) =>
+      item.status === 'starting' &&
+      now - (item.claimedAt ?? 0) >= SUBTASK_CLAIM_TIMEOUT_MS;
+    if (this.items.some(isAbandoned)) {
+      this.setItems(
+        this.items.map((item) =>
+          isAbandoned(item)
+            ? { ...item, status: 'waiting', claimedAt: undefined }
+            : item
+        )
+      );
+    }
+  }
+
+  getItems(): QueuedSubtask[] {
+    return this.items;
+  }
+
+  /**
+   * Listens for changes, including those made by other tabs.
+   */
+  subscribe(listener: Listener): () => void {
+    if (this.listeners.size === 0) {
+      window.addEventListener('storage', this.handleStorage);
+    }
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        window.removeEventListener('storage', this.handleStorage);
+      }
+    };
+  }
+
+  /**
+   * Queues a subtask until its parent (`data.parentId`) is ready for review.
+   */
+  enqueue(data: CreateSessionData & { parentId: string }): QueuedSubtask {
+    const now = Date.now();
+    const item: QueuedSubtask = {
+      id: `subtask-${now}-${Math.random().toString(36).slice(2, 8)}`,
+      parentId: data.parentId,
+      data,
+      createdAt: now,
+      status: 'waiting',
+    };
+    this.setItems([...this.read(), item]);
+    return item;
+  }
+
+  update(id: string, changes: Partial<Omit<QueuedSubtask, 'id'>>) {
+    this.setItems(
+      this.read().map((item) =>
+        item.id === id ? { ...item, ...changes } : item
+      )
+    );
+  }
+
+  /**
+   * Marks a waiting subtask as starting. Fails when another tab has claimed,
+   * started or removed it since, in which case it must not be started.
+   *
+   * @returns Whether the caller may start the subtask
+   */
+  claim(id: string): boolean {
+    this.refresh();
+    const item = this.items.find((queued) => queued.id === id);
+    if (item?.status !== 'waiting') return false;
+    this.update(id, { status: 'starting', claimedAt: Date.now() });
+    return true;
+  }
+
+  /**
+   * Puts a subtask that failed to start back in the queue.
+   */
+  retry(id: string) {
+    this.update(id, { status: 'waiting', lastError: undefined });
+  }
+
+  /**
+   * Removes a subtask from the queue, after it started or when cancelled.
+   */
+  remove(id: string) {
+    this.setItems(this.read().filter((item) => item.id !== id));
+  }
+
+  private handleStorage = (event: StorageEvent) => {
+    // A null key means another tab cleared the storage
+    if (event.key === this.storageKey || event.key === null) this.refresh();
+  };
+
+  /**
+   * Picks up changes other tabs have stored
+   */
+  private refresh() {
+    this.items = this.read();
+    this.listeners.forEach((listener) => listener(this.items));
+  }
+
+  private setItems(items: QueuedSubtask[]) {
+    this.items = items;
+    window.localStorage.setItem(this.storageKey, JSON.stringify(items));
+    this.listeners.forEach((listener) => listener(items));
+  }
+
+  private read(): QueuedSubtask[] {
+    const saved = window.localStorage.getItem(this.storageKey);
+    if (!saved) return [];
+    try {
+      const items = JSON.parse(saved);
+      return Array.isArray(items) ? items : [];
+    } catch {
+      return [];
+    }
+  }
+}
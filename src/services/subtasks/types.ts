@@ -0,0 +1,33 @@
+import { UiStatus } from '@wholelottahoopla/prompt-backend-client';
+import { CreateSessionData } from '../api/types';
+
+/**
+ * Subtasks held back until their parent session is ready for review, then
+ * created automatically. Items survive page reloads.
+ */
+
+export type QueuedSubtaskStatus = 'waiting' | 'starting' | 'failed';
+
+export interface QueuedSubtask {
+  id: string;
+  parentId: string;
+  data: CreateSessionData;
+  /**
+   * Time the subtask was queued (epoch ms)
+   */
+  createdAt: number;
+  status: QueuedSubtaskStatus;
+  /**
+   * Time a tab claimed the subtask to start it (epoch ms)
+   */
+  claimedAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Parent statuses that start the subtasks waiting on it
+ */
+export const SUBTASK_START_STATUSES: UiStatus[] = [
+  'NeedsReview',
+  'NeedsReviewIpReturned',
+];
@@ -0,0 +1,6 @@
+/**
+ * Prompt template module exports
+ */
+
+export * from './types';
+export * from './localStorageStore';
@@ -0,0 +1,40 @@
+import { PromptTemplate, TemplateStore } from './types';
+
+const STORAGE_KEY = 'promptTemplates';
+
+/**
+ * Template store kept in localStorage, used when the backend does not
+ * provide one. Templates are per browser profile.
+ */
+export class LocalStorageTemplateStore implements TemplateStore {
+  constructor(private storageKey = STORAGE_KEY) {}
+
+  async list(): Promise<PromptTemplate[]> {
+    return this.read();
+  }
+
+  async save(template: PromptTemplate): Promise<PromptTemplate> {
+    const templates = this.read().filter((t) => t.id !== template.id);
+    this.write([...templates, template]);
+    return template;
+  }
+
+  async delete(id: string): Promise<void> {
+    this.write(this.read().filter((t) => t.id !== id));
+  }
+
+  private read(): PromptTemplate[] {
+    const saved = window.localStorage.getItem(this.storageKey);
+    if (!saved) return [];
+    try {
+      const templates = JSON.parse(saved);
+      return Array.isArray(templates) ? templates : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(templates: PromptTemplate[]) {
+    window.localStorage.setItem(this.storageKey, JSON.stringify(templates));
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Reusable prompt skeletons with {{variable}} placeholders
+ */
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /**
+   * Prompt text; `{{name}}` placeholders are filled in before submission
+   */
+  content: string;
+  updatedAt: number;
+}
+
+export interface TemplateStore {
+  list(): Promise<PromptTemplate[]>;
+  save(template: PromptTemplate): Promise<PromptTemplate>;
+  delete(id: string): Promise<void>;
+}
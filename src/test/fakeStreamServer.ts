@@ -0,0 +1,95 @@
+import {
+  StreamHandlers,
+  StreamStatus,
+  StreamTransport,
+} from '@/services/stream/types';
+
+interface FakeConnection {
+  path: string;
+  handlers: StreamHandlers;
+  status: StreamStatus;
+}
+
+/**
+ * In-memory stream server for tests.
+ *
+ * Implements StreamTransport, so it can be passed straight to
+ * BackendClientImpl / PromptBackendClient. Tests then push raw backend
+ * payloads to a path and control the connection state.
+ *
+ * @example
+ * ```ts
+ * const server = new FakeStreamServer();
+ * const client = new BackendClientImpl(httpClient, server);
+ * // ...render something that subscribes...
+ * server.open('/api/sessions/session-1/stream');
+ * server.send('/api/sessions/session-1/stream', { type: 'prompt', prompt });
+ * server.drop('/api/sessions/session-1/stream');
+ * ```
+ */
+export class FakeStreamServer implements StreamTransport {
+  private connections: FakeConnection[] = [];
+
+  /**
+   * When true, new connections open immediately instead of staying in 'connecting'
+   */
+  constructor(private autoOpen: boolean = true) {}
+
+  connect(path: string, handlers: StreamHandlers): () => void {
+    const connection: FakeConnection = {
+      path,
+      handlers,
+      status: 'connecting',
+    };
+    this.connections.push(connection);
+    handlers.onStatusChange?.('connecting');
+
+    if (this.autoOpen) {
+      this.setStatus(connection, 'open');
+    }
+
+    return () => {
+      this.connections = this.connections.filter((c) => c !== connection);
+      this.setStatus(connection, 'closed');
+    };
+  }
+
+  /**
+   * Pushes a payload to every open connection on the path
+   */
+  send(path: string, data: unknown) {
+    this.connectionsFor(path)
+      .filter((c) => c.status === 'open')
+      .forEach((c) => c.handlers.onData(data));
+  }
+
+  /**
+   * Marks every connection on the path as open
+   */
+  open(path: string) {
+    this.connectionsFor(path).forEach((c) => this.setStatus(c, 'open'));
+  }
+
+  /**
+   * Simulates a dropped connection that the client is retrying
+   */
+  drop(path: string) {
+    this.connectionsFor(path).forEach((c) => this.setStatus(c, 'connecting'));
+  }
+
+  /**
+   * Number of active subscribers on the path
+   */
+  connectionCount(path: string): number {
+    return this.connectionsFor(path).length;
+  }
+
+  private connectionsFor(path: string) {
+    return this.connections.filter((c) => c.path === path);
+  }
+
+  private setStatus(connection: FakeConnection, status: StreamStatus) {
+    connection.status = status;
+    connection.handlers.onStatusChange?.(status);
+  }
+}
@@ -142,6 +142,24 @@ export function createMockBackendClient(
             status: 'pending' as const,
           });
         }),
+      cancel: vi.fn().mockImplementation((id: string) =>
+        Promise.resolve({
+          id,
+          sessionId: 'session-1',
+          content: '',
+          createdAt: new Date(),
+          status: 'failed' as const,
+        })
+      ),
+      retry: vi.fn().mockImplementation((id: string) =>
+        Promise.resolve({
+          id,
+          sessionId: 'session-1',
+          content: '',
+          createdAt: new Date(),
+          status: 'pending' as const,
+        })
+      ),
     },
     messages: {
       list: vi.fn().mockResolvedValue(mockMessages),
@@ -196,6 +214,8 @@ export function createErrorMockBackendClient(): BackendClient {
     prompts: {
       list: vi.fn().mockRejectedValue(new Error('Failed to fetch prompts')),
       create: vi.fn().mockRejectedValue(new Error('Failed to create prompt')),
+      cancel: vi.fn().mockRejectedValue(new Error('Failed to cancel prompt')),
+      retry: vi.fn().mockRejectedValue(new Error('Failed to retry prompt')),
     },
     messages: {
       list: vi.fn().mockRejectedValue(new Error('Failed to fetch messages')),
@@ -26,6 +26,7 @@ interface TestProvidersProps {
   children: ReactNode;
   client?: BackendClient;
   queryClient?: QueryClient;
+  initialEntries?: string[];
 }
 
 /**
@@ -35,11 +36,12 @@ export function TestProviders({
   children,
   client,
   queryClient,
+  initialEntries,
 }: TestProvidersProps) {
   const testQueryClient = queryClient || createTestQueryClient();
 
   return (
-    <MemoryRouter>
+    <MemoryRouter initialEntries={initialEntries}>
       <QueryClientProvider client={testQueryClient}>
         <ApiProvider client={client}>{children}</ApiProvider>
       </QueryClientProvider>
@@ -50,6 +52,7 @@ export function TestProviders({
 interface CustomRenderOptions extends Omit<RenderOptions, 'wrapper'> {
   client?: BackendClient;
   queryClient?: QueryClient;
+  initialEntries?: string[];
 }
 
 /**
@@ -57,13 +60,22 @@ interface CustomRenderOptions extends Omit<RenderOptions, 'wrapper'> {
  */
 export function renderWithProviders(
   ui: ReactElement,
-  { client, queryClient, ...renderOptions }: CustomRenderOptions = {}
+  {
+    client,
+    queryClient,
+    initialEntries,
+    ...renderOptions
+  }: CustomRenderOptions = {}
 ) {
   const testQueryClient = queryClient || createTestQueryClient();
 
   function Wrapper({ children }: { children: ReactNode }) {
     return (
-      <TestProviders client={client} queryClient={testQueryClient}>
+      <TestProviders
+        client={client}
+        queryClient={testQueryClient}
+        initialEntries={initialEntries}
+      >
         {children}
       </TestProviders>
     );
@@ -27,6 +27,11 @@ export interface Session {
   };
   prUrl?: string;
   createdAt: Date;
+  /**
+   * When the session last changed; for archived sessions, when they were
+   * archived. Missing when the backend doesn't report it.
+   */
+  updatedAt?: Date;
   children?: Session[];
   sessionStatus: SessionStatus;
 }
@@ -62,12 +67,25 @@ export interface BackendMessage {
       input?: any;
       tool_use_id?: string;
       content?: any;
+      /**
+       * Set on tool_result blocks when the tool failed
+       */
+      is_error?: boolean;
     }>;
     stop_reason?: string | null;
     stop_sequence?: string | null;
   };
   session_id: string;
   parent_tool_use_id?: string | null;
+  /**
+   * Final agent output, present on `result` messages
+   */
+  result?: string;
+  /**
+   * When the backend stored the message, taken from the record wrapping it.
+   * Missing for messages that didn't come from the backend.
+   */
+  created_at?: string;
 }
 
 export interface Prompt {
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  FetchError,
+  ResponseError,
+} from '@wholelottahoopla/prompt-backend-client';
+import { isAbortError, isTransientApiError } from '../apiErrorHandler';
+import { HttpError } from '@/services/http/types';
+
+vi.mock('sonner', () => ({
+  toast: {
+    error: vi.fn(),
+  },
+}));
+
+const responseError = (status: number) =>
+  new ResponseError(
+    new Response(null, { status }),
+    'Response returned an error code'
+  );
+
+const fetchError = (cause: Error) =>
+  new FetchError(
+    cause,
+    'The request failed and the interceptors did not return an alternative response'
+  );
+
+describe('apiErrorHandler', () => {
+  describe('isTransientApiError', () => {
+    it('should retry SDK responses from a backend that is down', () => {
+      expect(isTransientApiError(responseError(502))).toBe(true);
+      expect(isTransientApiError(responseError(503))).toBe(true);
+      expect(isTransientApiError(responseError(504))).toBe(true);
+      expect(isTransientApiError(responseError(400))).toBe(false);
+      expect(isTransientApiError(responseError(500))).toBe(false);
+    });
+
+    it('should retry SDK requests that never got a response', () => {
+      expect(
+        isTransientApiError(fetchError(new TypeError('Load failed')))
+      ).toBe(true);
+      expect(
+        isTransientApiError(fetchError(new TypeError('Failed to fetch')))
+      ).toBe(true);
+    });
+
+    it('should recognize network errors from every browser', () => {
+      expect(isTransientApiError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isTransientApiError(new TypeError('Load failed'))).toBe(true);
+      expect(
+        isTransientApiError(
+          new TypeError('NetworkError when attempting to fetch resource.')
+        )
+      ).toBe(true);
+      expect(
+        isTransientApiError(
+          new TypeError('Cannot read properties of undefined')
+        )
+      ).toBe(false);
+    });
+
+    it('should read the status of HTTP client errors', () => {
+      expect(isTransientApiError(new HttpError('Unavailable', 503))).toBe(true);
+      expect(isTransientApiError(new HttpError('Not found', 404))).toBe(false);
+    });
+
+    it('should not retry aborted requests', () => {
+      const abort = Object.assign(new Error('Aborted'), { name: 'AbortError' });
+
+      expect(isAbortError(fetchError(abort))).toBe(true);
+      expect(isTransientApiError(fetchError(abort))).toBe(false);
+    });
+  });
+});
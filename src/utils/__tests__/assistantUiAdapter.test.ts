@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import type { ThreadMessageLike } from '@assistant-ui/react';
+import {
+  ToolCallPart,
+  convertConversationToThreadMessages,
+  getSubagentThread,
+} from '../assistantUiAdapter';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage } from '@/types/session';
+
+const message = (
+  uuid: string,
+  type: 'assistant' | 'user',
+  content: BackendMessage['message']['content'],
+  parentToolUseId: string | null = null,
+  outputTokens = 0
+): BackendMessage => ({
+  type,
+  uuid,
+  message: {
+    id: uuid,
+    role: type,
+    content,
+    ...(outputTokens && {
+      usage: { input_tokens: 10, output_tokens: outputTokens },
+    }),
+  },
+  session_id: 'session-1',
+  parent_tool_use_id: parentToolUseId,
+});
+
+const toolUse = (id: string, name: string, input: object) => ({
+  type: 'tool_use' as const,
+  id,
+  name,
+  input,
+});
+
+const toolResult = (toolUseId: string, content: string) => ({
+  type: 'tool_result' as const,
+  tool_use_id: toolUseId,
+  content,
+});
+
+const conversation = (messages: BackendMessage[]): ConversationItem[] => [
+  {
+    type: 'prompt',
+    data: {
+      id: 'prompt-1',
+      sessionId: 'session-1',
+      content: 'Investigate',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+      status: 'completed',
+    },
+    messages,
+  },
+];
+
+const getToolCall = (message: ThreadMessageLike): ToolCallPart => {
+  const part =
+    typeof message.content === 'string'
+      ? undefined
+      : message.content.find(
+          (candidate): candidate is ToolCallPart =>
+            candidate.type === 'tool-call'
+        );
+  if (!part) throw new Error(`Message ${message.id} has no tool call`);
+  return part;
+};
+
+describe('convertConversationToThreadMessages sub-agents', () => {
+  const messages = [
+    message('m1', 'assistant', [
+      toolUse('task-1', 'Task', { prompt: 'Find usages' }),
+    ]),
+    message(
+      's1',
+      'assistant',
+      [{ type: 'text', text: 'Searching' }],
+      'task-1',
+      50
+    ),
+    message(
+      's2',
+      'assistant',
+      [toolUse('task-2', 'Task', { prompt: 'Go deeper' })],
+      'task-1',
+      20
+    ),
+    message(
+      'n1',
+      'assistant',
+      [{ type: 'text', text: 'Deep result' }],
+      'task-2',
+      5
+    ),
+    message('s3', 'user', [toolResult('task-2', 'Nested done')], 'task-1'),
+    message('m2', 'user', [toolResult('task-1', 'Found 3 usages')]),
+    message('m3', 'assistant', [{ type: 'text', text: 'All done' }]),
+  ];
+
+  it('should nest sub-agent messages under the spawning tool call', () => {
+    const thread = convertConversationToThreadMessages(conversation(messages));
+
+    expect(thread.map((m) => m.id)).toEqual(['prompt-1', 'm1', 'm3']);
+
+    const task = getToolCall(thread[1]);
+    expect(task.result).toBe('Found 3 usages');
+
+    const subagent = getSubagentThread(task.artifact)!;
+    expect(subagent.messages.map((m) => m.id)).toEqual(['s1', 's2']);
+    expect(subagent.usage.outputTokens).toBe(70);
+  });
+
+  it('should nest recursively', () => {
+    const thread = convertConversationToThreadMessages(conversation(messages));
+    const subagent = getSubagentThread(getToolCall(thread[1]).artifact)!;
+
+    const nestedTask = getToolCall(subagent.messages[1]);
+    expect(nestedTask.result).toBe('Nested done');
+
+    const nested = getSubagentThread(nestedTask.artifact)!;
+    expect(nested.messages.map((m) => m.id)).toEqual(['n1']);
+    expect(nested.usage.outputTokens).toBe(5);
+  });
+
+  it('should keep messages of unknown parents in the main thread', () => {
+    const thread = convertConversationToThreadMessages(
+      conversation([
+        message(
+          'orphan',
+          'assistant',
+          [{ type: 'text', text: 'Hello' }],
+          'missing-tool'
+        ),
+      ])
+    );
+
+    expect(thread.map((m) => m.id)).toEqual(['prompt-1', 'orphan']);
+  });
+
+  it('should date messages with their backend timestamp', () => {
+    const thread = convertConversationToThreadMessages(
+      conversation([
+        {
+          ...message('m1', 'assistant', [{ type: 'text', text: 'Hi' }]),
+          created_at: '2025-01-01T00:00:05Z',
+        },
+      ])
+    );
+
+    expect(thread[1].createdAt).toEqual(new Date('2025-01-01T00:00:05Z'));
+  });
+});
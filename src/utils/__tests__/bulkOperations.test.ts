@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyTitlePattern, runBulkOperation } from '../bulkOperations';
+import { Session } from '@/types/session';
+
+const session: Session = {
+  id: 'session-1',
+  title: 'Fix login bug',
+  repo: 'acme/web',
+  branch: 'fix/login',
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'completed',
+  uiStatus: 'NeedsReview',
+  sbxConfig: null,
+  parentId: null,
+  createdAt: new Date(2025, 0, 1),
+  sessionStatus: 'Active',
+};
+
+describe('runBulkOperation', () => {
+  it('should continue past failures and report failed IDs', async () => {
+    const onProgress = vi.fn();
+    const operation = vi.fn(async (id: string) => {
+      if (id === 'b') throw new Error('Not found');
+    });
+
+    const result = await runBulkOperation(
+      ['a', 'b', 'c'],
+      operation,
+      onProgress,
+      2
+    );
+
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(result.succeeded.sort()).toEqual(['a', 'c']);
+    expect(result.failed).toEqual([{ id: 'b', error: 'Not found' }]);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      total: 3,
+      completed: 3,
+      failed: [{ id: 'b', error: 'Not found' }],
+    });
+  });
+
+  it('should limit the number of operations in flight', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runBulkOperation(
+      ['a', 'b', 'c', 'd', 'e'],
+      async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+      },
+      undefined,
+      2
+    );
+
+    expect(maxInFlight).toBe(2);
+  });
+});
+
+describe('applyTitlePattern', () => {
+  it('should fill in the session placeholders', () => {
+    expect(applyTitlePattern('[Q3] {title}', session, 0)).toBe(
+      '[Q3] Fix login bug'
+    );
+    expect(applyTitlePattern('{repo} #{n}: {branch}', session, 2)).toBe(
+      'acme/web #3: fix/login'
+    );
+  });
+});
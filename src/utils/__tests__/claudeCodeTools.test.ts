@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBashExitCode,
+  getBashOutput,
+  parseGlobResult,
+  parseGrepResult,
+  parseReadResult,
+} from '../claudeCodeTools';
+
+describe('Bash results', () => {
+  it('should read the exit code of failed commands', () => {
+    const result = 'Exit code 2\nnpm ERR! missing script: tset';
+    expect(getBashExitCode(result, true)).toBe(2);
+    expect(getBashOutput(result)).toBe('npm ERR! missing script: tset');
+  });
+
+  it('should treat results without an exit code as success unless failed', () => {
+    expect(getBashExitCode('ok', undefined)).toBe(0);
+    expect(getBashExitCode('Command timed out', true)).toBeNull();
+  });
+});
+
+describe('parseReadResult', () => {
+  it('should strip line numbers and keep the first line number', () => {
+    const result =
+      '    10→const a = 1;\n    11→\n    12→export { a };\n\n<system-reminder>\nNote\n</system-reminder>';
+    expect(parseReadResult(result)).toEqual({
+      content: 'const a = 1;\n\nexport { a };',
+      firstLine: 10,
+    });
+  });
+
+  it('should return null for unnumbered results', () => {
+    expect(parseReadResult('File does not exist.')).toBeNull();
+  });
+});
+
+describe('parseGrepResult', () => {
+  it('should list files with matches', () => {
+    expect(
+      parseGrepResult('Found 2 files\nsrc/a.ts\nsrc/b.ts').map((g) => g.file)
+    ).toEqual(['src/a.ts', 'src/b.ts']);
+  });
+
+  it('should group content lines by file', () => {
+    const groups = parseGrepResult(
+      'src/a.ts-3-import x;\nsrc/a.ts:4:useThing();\n--\nsrc/b.ts:10:useThing(1);',
+      'content'
+    );
+    expect(groups).toEqual([
+      {
+        file: 'src/a.ts',
+        count: null,
+        lines: [
+          { line: 3, text: 'import x;', isContext: true },
+          { line: 4, text: 'useThing();', isContext: false },
+        ],
+      },
+      {
+        file: 'src/b.ts',
+        count: null,
+        lines: [{ line: 10, text: 'useThing(1);', isContext: false }],
+      },
+    ]);
+  });
+
+  it('should use the searched path when lines omit the file', () => {
+    const [group] = parseGrepResult('7:match', 'content', 'src/a.ts');
+    expect(group.file).toBe('src/a.ts');
+    expect(group.lines).toEqual([{ line: 7, text: 'match', isContext: false }]);
+  });
+
+  it('should read counts', () => {
+    expect(parseGrepResult('src/a.ts:3\nsrc/b.ts:1', 'count')).toEqual([
+      { file: 'src/a.ts', count: 3, lines: [] },
+      { file: 'src/b.ts', count: 1, lines: [] },
+    ]);
+  });
+});
+
+describe('parseGlobResult', () => {
+  it('should list matching files', () => {
+    expect(parseGlobResult('/repo/a.ts\n/repo/b.ts\n')).toEqual([
+      '/repo/a.ts',
+      '/repo/b.ts',
+    ]);
+    expect(parseGlobResult('No files found')).toEqual([]);
+  });
+});
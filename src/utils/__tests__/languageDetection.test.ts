@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { getLanguageFromPath } from '../languageDetection';
+
+describe('getLanguageFromPath', () => {
+  it('should map file extensions to Monaco languages', () => {
+    expect(getLanguageFromPath('src/App.tsx')).toBe('typescript');
+    expect(getLanguageFromPath('scripts/deploy.SH')).toBe('shell');
+    expect(getLanguageFromPath('config.yml')).toBe('yaml');
+  });
+
+  it('should fall back to plaintext', () => {
+    expect(getLanguageFromPath(undefined)).toBe('plaintext');
+    expect(getLanguageFromPath('Makefile')).toBe('plaintext');
+    expect(getLanguageFromPath('.config/settings')).toBe('plaintext');
+    expect(getLanguageFromPath('notes.unknown')).toBe('plaintext');
+  });
+});
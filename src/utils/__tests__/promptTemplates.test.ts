@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  fillTemplate,
+  getTemplateVariables,
+  parseTemplates,
+  serializeTemplates,
+} from '../promptTemplates';
+
+describe('getTemplateVariables', () => {
+  it('should return unique variable names in order', () => {
+    expect(
+      getTemplateVariables(
+        'Bump {{dependency}} to {{ version }} ({{dependency}})'
+      )
+    ).toEqual(['dependency', 'version']);
+    expect(getTemplateVariables('No variables here')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('should replace placeholders that have a value', () => {
+    expect(
+      fillTemplate('Bump {{dependency}} to {{ version }}', {
+        dependency: 'react',
+      })
+    ).toBe('Bump react to {{ version }}');
+  });
+
+  it('should allow empty values', () => {
+    expect(fillTemplate('Fix it{{note}}', { note: '' })).toBe('Fix it');
+  });
+});
+
+describe('parseTemplates', () => {
+  it('should round-trip exported templates', () => {
+    const templates = [
+      { id: 't1', name: 'Bump', content: 'Bump {{dep}}', updatedAt: 1 },
+    ];
+
+    expect(parseTemplates(serializeTemplates(templates))).toEqual(templates);
+  });
+
+  it('should accept a bare array and generate missing IDs', () => {
+    const [template] = parseTemplates(
+      JSON.stringify([{ name: 'Migration', content: 'Write {{table}}' }])
+    );
+
+    expect(template.id).toMatch(/^template-/);
+    expect(template.name).toBe('Migration');
+  });
+
+  it('should reject invalid files', () => {
+    expect(() => parseTemplates('not json')).toThrow(/not valid JSON/);
+    expect(() => parseTemplates('[{"content": "x"}]')).toThrow(
+      /name and content/
+    );
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isStrReplaceEditorTool,
+  summarizeConversation,
+} from '../sessionComparison';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage } from '@/types/session';
+
+const usage = {
+  input_tokens: 10,
+  output_tokens: 20,
+  cache_read_input_tokens: 100,
+  cache_creation_input_tokens: 5,
+};
+
+const messages: BackendMessage[] = [
+  {
+    type: 'assistant',
+    uuid: 'msg-1',
+    message: {
+      id: 'api-msg-1',
+      role: 'assistant',
+      usage,
+      content: [{ type: 'text', text: 'Let me update the config.' }],
+    },
+    session_id: 'session-1',
+  },
+  {
+    // Same API message as msg-1, so its usage must not be counted twice
+    type: 'assistant',
+    uuid: 'msg-2',
+    message: {
+      id: 'api-msg-1',
+      role: 'assistant',
+      usage,
+      content: [
+        {
+          type: 'tool_use',
+          id: 'tool-1',
+          name: 'mcp__sandbox__str_replace_editor',
+          input: {
+            command: 'str_replace',
+            path: '/repo/src/config.ts',
+            old_str: 'debug: true',
+            new_str: 'debug: false',
+          },
+        },
+      ],
+    },
+    session_id: 'session-1',
+  },
+  {
+    type: 'assistant',
+    uuid: 'msg-3',
+    message: {
+      id: 'api-msg-2',
+      role: 'assistant',
+      usage: { input_tokens: 1, output_tokens: 2 },
+      content: [
+        {
+          type: 'tool_use',
+          id: 'tool-2',
+          name: 'mcp__sandbox__str_replace_editor',
+          input: { command: 'view', path: '/repo/src/index.ts' },
+        },
+        {
+          type: 'tool_use',
+          id: 'tool-3',
+          name: 'mcp__sandbox__str_replace_editor',
+          input: {
+            command: 'create',
+            path: '/repo/src/new.ts',
+            file_text: 'export {};',
+          },
+        },
+        {
+          type: 'tool_use',
+          id: 'tool-4',
+          name: 'mcp__sandbox__execute_bash',
+          input: { command: 'npm test' },
+        },
+      ],
+    },
+    session_id: 'session-1',
+  },
+  {
+    type: 'result',
+    uuid: 'msg-4',
+    message: { content: [] },
+    result: 'Disabled debug mode and added new.ts',
+    session_id: 'session-1',
+  },
+];
+
+const conversation: ConversationItem[] = [
+  {
+    type: 'prompt',
+    data: {
+      id: 'prompt-1',
+      sessionId: 'session-1',
+      content: 'Turn off debug mode',
+      createdAt: new Date('2025-01-01'),
+      status: 'completed',
+    },
+    messages,
+  },
+];
+
+describe('isStrReplaceEditorTool', () => {
+  it('should match namespaced and bare tool names', () => {
+    expect(isStrReplaceEditorTool('mcp__sandbox__str_replace_editor')).toBe(
+      true
+    );
+    expect(isStrReplaceEditorTool('str_replace_editor')).toBe(true);
+    expect(isStrReplaceEditorTool('my_str_replace_editor')).toBe(false);
+    expect(isStrReplaceEditorTool(undefined)).toBe(false);
+  });
+});
+
+describe('summarizeConversation', () => {
+  it('should count token usage once per API message', () => {
+    expect(summarizeConversation(conversation).tokenUsage).toEqual({
+      inputTokens: 11,
+      outputTokens: 22,
+      cacheReadInputTokens: 100,
+      cacheCreationInputTokens: 5,
+    });
+  });
+
+  it('should count tool calls by name', () => {
+    const summary = summarizeConversation(conversation);
+
+    expect(summary.totalToolCalls).toBe(4);
+    expect(summary.toolCallCounts).toEqual({
+      mcp__sandbox__str_replace_editor: 3,
+      mcp__sandbox__execute_bash: 1,
+    });
+  });
+
+  it('should group str_replace_editor edits per file, skipping views', () => {
+    const summary = summarizeConversation(conversation);
+
+    expect(summary.fileEdits).toEqual([
+      {
+        path: '/repo/src/config.ts',
+        edits: [
+          {
+            command: 'str_replace',
+            oldStr: 'debug: true',
+            newStr: 'debug: false',
+            messageId: 'msg-2',
+          },
+        ],
+      },
+      {
+        path: '/repo/src/new.ts',
+        edits: [
+          {
+            command: 'create',
+            oldStr: undefined,
+            newStr: 'export {};',
+            messageId: 'msg-3',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should prefer the result message as the final summary', () => {
+    expect(summarizeConversation(conversation).finalSummary).toBe(
+      'Disabled debug mode and added new.ts'
+    );
+  });
+
+  it('should fall back to the latest assistant text', () => {
+    const summary = summarizeConversation(
+      messages.slice(0, 2).map((data) => ({ type: 'message', data }))
+    );
+
+    expect(summary.finalSummary).toBe('Let me update the config.');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getAffectedSubtasks, getDeletionRoots } from '../sessionDeletion';
+import { mockSession } from '@/test/mockData';
+import { Session } from '@/types/session';
+
+const createSession = (
+  id: string,
+  parentId: string | null = null
+): Session => ({
+  ...mockSession,
+  id,
+  title: id,
+  parentId,
+});
+
+describe('sessionDeletion', () => {
+  const parent = createSession('parent');
+  const child = createSession('child', 'parent');
+  const grandchild = createSession('grandchild', 'child');
+  const other = createSession('other');
+  const sessions = [parent, child, grandchild, other];
+
+  describe('getAffectedSubtasks', () => {
+    it('should find subtasks at any depth', () => {
+      expect(
+        getAffectedSubtasks(sessions, ['parent']).map((s) => s.id)
+      ).toEqual(['child', 'grandchild']);
+    });
+
+    it('should look into nested children and skip deleted sessions', () => {
+      const nested = [
+        { ...parent, children: [{ ...child, children: [grandchild] }] },
+      ];
+
+      expect(
+        getAffectedSubtasks(nested, ['parent', 'child']).map((s) => s.id)
+      ).toEqual(['grandchild']);
+      expect(getAffectedSubtasks(sessions, ['other'])).toEqual([]);
+    });
+  });
+
+  describe('getDeletionRoots', () => {
+    it('should drop sessions deleted along with a selected ancestor', () => {
+      expect(
+        getDeletionRoots(sessions, [grandchild, other, parent]).map((s) => s.id)
+      ).toEqual(['other', 'parent']);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createSessionBundle,
+  getExportFileName,
+  getToolCallDiff,
+  parseSessionBundle,
+  serializeSessionBundle,
+  sessionToMarkdown,
+} from '../sessionExport';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Session } from '@/types/session';
+
+const session: Session = {
+  id: 'session-1',
+  title: 'Fix login redirect!',
+  repo: 'acme/web',
+  branch: 'fix/login',
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'completed',
+  uiStatus: 'NeedsReview',
+  sbxConfig: { borrow_token: 'secret', image: 'node:20' },
+  parentId: null,
+  createdAt: new Date('2025-01-01T10:00:00Z'),
+  updatedAt: new Date('2025-01-02T10:00:00Z'),
+  sessionStatus: 'Active',
+  children: [],
+};
+
+const assistant = (
+  uuid: string,
+  content: BackendMessage['message']['content']
+): BackendMessage => ({
+  type: 'assistant',
+  uuid,
+  message: { id: uuid, role: 'assistant', content },
+  session_id: 'session-1',
+});
+
+const conversation: ConversationItem[] = [
+  {
+    type: 'prompt',
+    data: {
+      id: 'prompt-1',
+      sessionId: 'session-1',
+      content: 'Fix the login redirect',
+      createdAt: new Date('2025-01-01T10:00:00Z'),
+      status: 'completed',
+    },
+    messages: [
+      assistant('msg-1', [{ type: 'text', text: 'Looking at the router.' }]),
+      assistant('msg-2', [
+        {
+          type: 'tool_use',
+          id: 'tool-1',
+          name: 'Edit',
+          input: {
+            file_path: 'src/router.ts',
+            old_string: "redirect('/')",
+            new_string: "redirect('/home')",
+          },
+        },
+      ]),
+      {
+        type: 'user',
+        uuid: 'msg-3',
+        message: {
+          role: 'user',
+          content: [
+            { type: 'tool_result', tool_use_id: 'tool-1', content: 'Edited' },
+          ],
+        },
+        session_id: 'session-1',
+      },
+    ],
+  },
+];
+
+describe('sessionToMarkdown', () => {
+  it('should render prompts, text and tool calls', () => {
+    const markdown = sessionToMarkdown(session, conversation);
+
+    expect(markdown).toContain('# Fix login redirect!');
+    expect(markdown).toContain('- **Repository:** acme/web');
+    expect(markdown).toContain('## User\n\nFix the login redirect');
+    expect(markdown).toContain('## Assistant\n\nLooking at the router.');
+    expect(markdown).toContain('<summary>Tool: Edit</summary>');
+    expect(markdown).toContain(
+      "```diff\n--- a/src/router.ts\n+++ b/src/router.ts\n@@\n-redirect('/')\n+redirect('/home')\n```"
+    );
+    expect(markdown).toContain('**Result**\n\n```\nEdited\n```');
+  });
+});
+
+describe('getToolCallDiff', () => {
+  it('should ignore tools that do not edit files', () => {
+    expect(getToolCallDiff('Bash', { command: 'ls' })).toBeNull();
+    expect(
+      getToolCallDiff('str_replace_editor', { command: 'view', path: 'a.ts' })
+    ).toBeNull();
+  });
+
+  it('should render new files as additions', () => {
+    expect(
+      getToolCallDiff('Write', { file_path: 'a.ts', content: 'one\ntwo' })?.diff
+    ).toBe('--- a/a.ts\n+++ b/a.ts\n@@\n+one\n+two');
+  });
+});
+
+describe('createSessionBundle', () => {
+  it('should keep the raw data without subtasks or the borrow token', () => {
+    const bundle = createSessionBundle(session, conversation);
+
+    expect(bundle.version).toBe(1);
+    expect(bundle.session.sbxConfig).toEqual({ image: 'node:20' });
+    expect(bundle.session).not.toHaveProperty('children');
+    expect(bundle.prompts.map((prompt) => prompt.id)).toEqual(['prompt-1']);
+    expect(bundle.messages['prompt-1']).toHaveLength(3);
+  });
+});
+
+describe('parseSessionBundle', () => {
+  it('should round-trip a serialized bundle with its dates', () => {
+    const bundle = createSessionBundle(session, conversation);
+    const parsed = parseSessionBundle(serializeSessionBundle(bundle));
+
+    expect(parsed).toEqual(bundle);
+    expect(parsed.session.createdAt).toBeInstanceOf(Date);
+    expect(parsed.session.updatedAt).toBeInstanceOf(Date);
+    expect(parsed.prompts[0].createdAt).toBeInstanceOf(Date);
+  });
+
+  it('should reject files that are not session bundles', () => {
+    expect(() => parseSessionBundle('not json')).toThrow(
+      'Bundle file is not valid JSON'
+    );
+    expect(() => parseSessionBundle('{"templates": []}')).toThrow(
+      'Bundle file must contain a session, its prompts and their messages'
+    );
+  });
+});
+
+describe('getExportFileName', () => {
+  it('should slugify the session title', () => {
+    expect(getExportFileName(session, 'md')).toBe('fix-login-redirect.md');
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import { HUNK_SEPARATOR, collectSessionFiles } from '../sessionFiles';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage } from '@/types/session';
+
+let nextId = 0;
+
+const toolCall = (
+  name: string,
+  input: object,
+  parentToolUseId: string | null = null
+): BackendMessage => {
+  const id = `msg-${++nextId}`;
+  return {
+    type: 'assistant',
+    uuid: id,
+    message: {
+      role: 'assistant',
+      content: [{ type: 'tool_use', id: `tool-${id}`, name, input }],
+    },
+    session_id: 'session-1',
+    parent_tool_use_id: parentToolUseId,
+  };
+};
+
+const conversation = (messages: BackendMessage[]): ConversationItem[] =>
+  messages.map((data) => ({ type: 'message', data }));
+
+const strReplace = 'mcp__sandbox__str_replace_editor';
+
+describe('collectSessionFiles', () => {
+  it('should classify files as created, modified or read', () => {
+    const files = collectSessionFiles(
+      conversation([
+        toolCall(strReplace, {
+          command: 'create',
+          path: '/repo/new.ts',
+          file_text: 'export {};',
+        }),
+        toolCall(strReplace, { command: 'view', path: '/repo/old.ts' }),
+        toolCall(strReplace, {
+          command: 'str_replace',
+          path: '/repo/old.ts',
+          old_str: 'a',
+          new_str: 'b',
+        }),
+        toolCall('mcp__sandbox__file_operations', {
+          action: 'read',
+          path: '/repo/README.md',
+        }),
+      ])
+    );
+
+    expect(files.map(({ path, status }) => [path, status])).toEqual([
+      ['/repo/new.ts', 'created'],
+      ['/repo/old.ts', 'modified'],
+      ['/repo/README.md', 'read'],
+    ]);
+    expect(files[0].diff).toEqual({ original: '', modified: 'export {};' });
+    expect(files[2].diff).toBeNull();
+  });
+
+  it('should compose successive replacements into a net diff', () => {
+    const [file] = collectSessionFiles(
+      conversation([
+        toolCall(strReplace, {
+          command: 'str_replace',
+          path: '/repo/config.ts',
+          old_str: 'debug: true',
+          new_str: 'debug: false',
+        }),
+        toolCall(strReplace, {
+          command: 'str_replace',
+          path: '/repo/config.ts',
+          old_str: 'debug: false',
+          new_str: 'debug: false,\n  verbose: true',
+        }),
+        toolCall(strReplace, {
+          command: 'str_replace',
+          path: '/repo/config.ts',
+          old_str: 'port: 80',
+          new_str: 'port: 8080',
+        }),
+      ])
+    );
+
+    expect(file.operations).toHaveLength(3);
+    expect(file.diff).toEqual({
+      original: ['debug: true', 'port: 80'].join(HUNK_SEPARATOR),
+      modified: ['debug: false,\n  verbose: true', 'port: 8080'].join(
+        HUNK_SEPARATOR
+      ),
+    });
+  });
+
+  it('should apply edits to files created in the session', () => {
+    const [file] = collectSessionFiles(
+      conversation([
+        toolCall('Write', {
+          file_path: '/repo/a.ts',
+          content: 'const a = 1;\nconst b = 2;',
+        }),
+        toolCall('MultiEdit', {
+          file_path: '/repo/a.ts',
+          edits: [
+            { old_string: 'a = 1', new_string: 'a = 10' },
+            { old_string: 'b = 2', new_string: 'b = 20' },
+          ],
+        }),
+      ])
+    );
+
+    expect(file.status).toBe('created');
+    expect(file.diff).toEqual({
+      original: '',
+      modified: 'const a = 10;\nconst b = 20;',
+    });
+  });
+
+  it('should drop edits that cancel out', () => {
+    const [file] = collectSessionFiles(
+      conversation([
+        toolCall('Edit', {
+          file_path: '/repo/a.ts',
+          old_string: 'x',
+          new_string: 'y',
+        }),
+        toolCall('Edit', {
+          file_path: '/repo/a.ts',
+          old_string: 'y',
+          new_string: 'x',
+        }),
+      ])
+    );
+
+    expect(file.status).toBe('modified');
+    expect(file.diff).toBeNull();
+  });
+
+  it('should leave out failed tool calls', () => {
+    const edit = toolCall('Edit', {
+      file_path: '/repo/a.ts',
+      old_string: 'x',
+      new_string: 'y',
+    });
+    const failure: BackendMessage = {
+      type: 'user',
+      uuid: 'result-1',
+      message: {
+        role: 'user',
+        content: [
+          {
+            type: 'tool_result',
+            tool_use_id: edit.message.content[0].id,
+            content: 'String not found',
+            is_error: true,
+          },
+        ],
+      },
+      session_id: 'session-1',
+    };
+
+    expect(collectSessionFiles(conversation([edit, failure]))).toEqual([]);
+  });
+
+  it('should point sub-agent edits at the Task call that spawned them', () => {
+    const task = toolCall('Task', { prompt: 'Fix the config' });
+    const edit = toolCall(
+      'Edit',
+      { file_path: '/repo/a.ts', old_string: 'x', new_string: 'y' },
+      task.message.content[0].id
+    );
+
+    const [file] = collectSessionFiles(conversation([task, edit]));
+
+    expect(file.operations[0].messageId).toBe(task.uuid);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getHighlightSegments,
+  getSnippet,
+  searchSessions,
+} from '../sessionSearch';
+import { ConversationItem } from '@/hooks/useMessages';
+import { Session } from '@/types/session';
+
+const createSession = (overrides: Partial<Session> = {}): Session => ({
+  id: 'session-1',
+  title: 'Add login page',
+  repo: 'acme/web',
+  branch: 'feature/login',
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'completed',
+  uiStatus: 'NeedsReview',
+  sbxConfig: null,
+  parentId: null,
+  createdAt: new Date('2025-01-01'),
+  sessionStatus: 'Active',
+  ...overrides,
+});
+
+const conversation: ConversationItem[] = [
+  {
+    type: 'prompt',
+    data: {
+      id: 'prompt-1',
+      sessionId: 'session-1',
+      content: 'Please fix the flaky OAuth redirect test',
+      createdAt: new Date('2025-01-01'),
+      status: 'completed',
+    },
+    messages: [
+      {
+        type: 'assistant',
+        uuid: 'msg-1',
+        message: {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'The oauth callback was racing the timer.' },
+            { type: 'tool_use', id: 'tool-1', name: 'Bash', input: {} },
+          ],
+        },
+        session_id: 'session-1',
+      },
+      {
+        type: 'user',
+        uuid: 'msg-2',
+        message: {
+          role: 'user',
+          content: [{ type: 'text', text: 'oauth mentioned by a tool result' }],
+        },
+        session_id: 'session-1',
+      },
+    ],
+  },
+];
+
+describe('getSnippet', () => {
+  it('should return null when the query is not found', () => {
+    expect(getSnippet('hello world', 'missing')).toBeNull();
+  });
+
+  it('should trim long text around the match with ellipses', () => {
+    const text = `${'a'.repeat(100)} needle ${'b'.repeat(100)}`;
+    const snippet = getSnippet(text, 'NEEDLE');
+
+    expect(snippet).toMatch(/^….*needle.*…$/);
+    expect(snippet!.length).toBeLessThan(text.length);
+  });
+});
+
+describe('getHighlightSegments', () => {
+  it('should split text into case-insensitive matches', () => {
+    expect(getHighlightSegments('OAuth and oauth', 'oauth')).toEqual([
+      { text: 'OAuth', match: true },
+      { text: ' and ', match: false },
+      { text: 'oauth', match: true },
+    ]);
+  });
+});
+
+describe('searchSessions', () => {
+  it('should match session metadata', () => {
+    const results = searchSessions('login', [createSession()]);
+
+    expect(results).toHaveLength(1);
+    expect(results[0].matches.map((m) => m.field)).toEqual(['title', 'branch']);
+  });
+
+  it('should match prompts and assistant text with message IDs', () => {
+    const results = searchSessions(
+      'oauth',
+      [createSession()],
+      new Map([['session-1', conversation]])
+    );
+
+    expect(results[0].matches).toEqual([
+      expect.objectContaining({ field: 'prompt', messageId: 'prompt-1' }),
+      expect.objectContaining({ field: 'assistant', messageId: 'msg-1' }),
+    ]);
+  });
+
+  it('should skip sessions without matches', () => {
+    const results = searchSessions('billing', [
+      createSession(),
+      createSession({ id: 'session-2', title: 'Billing export' }),
+    ]);
+
+    expect(results.map((r) => r.session.id)).toEqual(['session-2']);
+  });
+});
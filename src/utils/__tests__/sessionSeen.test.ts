@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findFirstUnseenMessageId,
+  getLatestMessageAt,
+  hasUnseenChanges,
+} from '../sessionSeen';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Prompt, Session } from '@/types/session';
+import { mockSession } from '@/test/mockData';
+
+const createMessage = (
+  uuid: string,
+  createdAt?: string,
+  overrides: Partial<BackendMessage> = {}
+): BackendMessage => ({
+  type: 'assistant',
+  uuid,
+  message: { role: 'assistant', content: [{ type: 'text', text: uuid }] },
+  session_id: 'session-1',
+  created_at: createdAt,
+  ...overrides,
+});
+
+const createPrompt = (id: string, createdAt: string): Prompt => ({
+  id,
+  sessionId: 'session-1',
+  content: id,
+  createdAt: new Date(createdAt),
+  status: 'completed',
+});
+
+describe('hasUnseenChanges', () => {
+  const session: Session = {
+    ...mockSession,
+    updatedAt: new Date('2025-01-01T09:00:30Z'),
+  };
+
+  it('should compare the session update time with the cursor', () => {
+    expect(
+      hasUnseenChanges(session, new Date('2025-01-01T09:00:10Z').getTime())
+    ).toBe(true);
+    expect(
+      hasUnseenChanges(session, new Date('2025-01-01T09:00:30Z').getTime())
+    ).toBe(false);
+  });
+
+  it('should treat sessions without a cursor or update time as seen', () => {
+    expect(hasUnseenChanges(session)).toBe(false);
+    expect(hasUnseenChanges({ ...session, updatedAt: undefined }, 0)).toBe(
+      false
+    );
+  });
+});
+
+describe('getLatestMessageAt', () => {
+  it('should ignore messages without a timestamp', () => {
+    expect(
+      getLatestMessageAt([
+        createMessage('a', '2025-01-01T09:00:30Z'),
+        createMessage('b'),
+        createMessage('c', '2025-01-01T09:00:10Z'),
+      ])
+    ).toBe(new Date('2025-01-01T09:00:30Z').getTime());
+    expect(getLatestMessageAt([createMessage('b')])).toBeNull();
+  });
+});
+
+describe('findFirstUnseenMessageId', () => {
+  const conversation: ConversationItem[] = [
+    {
+      type: 'prompt',
+      data: createPrompt('prompt-1', '2025-01-01T09:00:00Z'),
+      messages: [
+        createMessage('seen', '2025-01-01T09:00:10Z'),
+        createMessage('sub-agent', '2025-01-01T09:00:20Z', {
+          parent_tool_use_id: 'task-1',
+        }),
+        createMessage('new', '2025-01-01T09:00:30Z'),
+      ],
+    },
+  ];
+
+  it('should find the first top-level message after the cursor', () => {
+    expect(
+      findFirstUnseenMessageId(
+        conversation,
+        new Date('2025-01-01T09:00:15Z').getTime()
+      )
+    ).toBe('new');
+  });
+
+  it('should return null when everything has been seen', () => {
+    expect(
+      findFirstUnseenMessageId(
+        conversation,
+        new Date('2025-01-01T09:00:30Z').getTime()
+      )
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { buildSessionTimeline, formatDuration } from '../sessionTimeline';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Prompt } from '@/types/session';
+
+const START = Date.parse('2025-01-01T10:00:00Z');
+
+const at = (seconds: number) => new Date(START + seconds * 1000).toISOString();
+
+const message = (
+  uuid: string,
+  seconds: number | null,
+  type: BackendMessage['type'],
+  content: BackendMessage['message']['content'] = [],
+  result?: string
+): BackendMessage => ({
+  type,
+  uuid,
+  message: { content },
+  session_id: 'session-1',
+  ...(seconds !== null && { created_at: at(seconds) }),
+  ...(result !== undefined && { result }),
+});
+
+const prompt = (
+  id: string,
+  seconds: number,
+  status: Prompt['status'] = 'completed'
+): Prompt => ({
+  id,
+  sessionId: 'session-1',
+  content: `Prompt ${id}`,
+  createdAt: new Date(at(seconds)),
+  status,
+});
+
+describe('buildSessionTimeline', () => {
+  const conversation: ConversationItem[] = [
+    {
+      type: 'prompt',
+      data: prompt('prompt-1', 0),
+      messages: [
+        message('m1', 2, 'assistant', [
+          { type: 'tool_use', id: 'tool-1', name: 'Bash', input: {} },
+        ]),
+        message('m2', 50, 'user', [
+          { type: 'tool_result', tool_use_id: 'tool-1', content: 'ok' },
+        ]),
+        message('m3', 51, 'assistant', [
+          { type: 'tool_use', id: 'tool-2', name: 'Read', input: {} },
+        ]),
+        message('m4', 52, 'user', [
+          {
+            type: 'tool_result',
+            tool_use_id: 'tool-2',
+            content: 'missing',
+            is_error: true,
+          },
+        ]),
+        // Untimed messages are left out
+        message('m5', null, 'assistant', [{ type: 'text', text: 'Hmm' }]),
+        message('m6', 120, 'result', [], 'All done'),
+      ],
+    },
+  ];
+
+  it('should span prompts from creation to their result', () => {
+    const timeline = buildSessionTimeline(conversation)!;
+    const [first] = timeline.prompts;
+
+    expect(first.start).toBe(START);
+    expect(first.end).toBe(START + 120_000);
+    expect(first.result).toEqual({
+      at: START + 120_000,
+      text: 'All done',
+      messageId: 'm6',
+    });
+    expect(timeline).toMatchObject({ start: START, end: START + 120_000 });
+  });
+
+  it('should span tool calls from tool_use to tool_result', () => {
+    const [first] = buildSessionTimeline(conversation)!.prompts;
+
+    expect(first.toolCalls).toEqual([
+      {
+        toolCallId: 'tool-1',
+        toolName: 'Bash',
+        messageId: 'm1',
+        start: START + 2_000,
+        end: START + 50_000,
+        finished: true,
+        isError: false,
+      },
+      {
+        toolCallId: 'tool-2',
+        toolName: 'Read',
+        messageId: 'm3',
+        start: START + 51_000,
+        end: START + 52_000,
+        finished: true,
+        isError: true,
+      },
+    ]);
+  });
+
+  it('should find idle gaps no tool call ran through', () => {
+    const [first] = buildSessionTimeline(conversation)!.prompts;
+
+    // 2s to 50s is covered by the Bash call
+    expect(first.idleGaps).toEqual([
+      { start: START + 52_000, end: START + 120_000 },
+    ]);
+  });
+
+  it('should run unfinished prompts and tool calls until now', () => {
+    const timeline = buildSessionTimeline(
+      [
+        {
+          type: 'prompt',
+          data: prompt('prompt-1', 0, 'processing'),
+          messages: [
+            message('m1', 5, 'assistant', [
+              { type: 'tool_use', id: 'tool-1', name: 'Bash', input: {} },
+            ]),
+          ],
+        },
+      ],
+      START + 20_000
+    )!;
+    const [first] = timeline.prompts;
+
+    expect(first.end).toBe(START + 20_000);
+    expect(first.result).toBeNull();
+    expect(first.toolCalls[0]).toMatchObject({
+      end: START + 20_000,
+      finished: false,
+    });
+  });
+
+  it('should return null without prompts', () => {
+    expect(buildSessionTimeline([])).toBeNull();
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format durations compactly', () => {
+    expect(formatDuration(850)).toBe('850ms');
+    expect(formatDuration(42_000)).toBe('42s');
+    expect(formatDuration(185_000)).toBe('3m 05s');
+    expect(formatDuration(3_720_000)).toBe('1h 02m');
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateUsage,
+  estimateCost,
+  findModelPrice,
+  getCacheHitRatio,
+  getUsageEntries,
+  PriceTable,
+} from '../usageAnalytics';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Prompt, Session } from '@/types/session';
+
+const priceTable: PriceTable = {
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-sonnet-4-5': { input: 4, output: 20, cacheRead: 0.4, cacheWrite: 5 },
+};
+
+const createSession = (id: string, repo: string): Session => ({
+  id,
+  title: `Session ${id}`,
+  repo,
+  branch: `feature/${id}`,
+  targetBranch: 'main',
+  messages: null,
+  inboxStatus: 'completed',
+  uiStatus: 'NeedsReview',
+  sbxConfig: null,
+  parentId: null,
+  createdAt: new Date(2025, 0, 1),
+  sessionStatus: 'Active',
+});
+
+const createMessage = (
+  uuid: string,
+  apiId: string,
+  model: string,
+  inputTokens: number
+): BackendMessage => ({
+  type: 'assistant',
+  uuid,
+  message: {
+    id: apiId,
+    role: 'assistant',
+    model,
+    usage: {
+      input_tokens: inputTokens,
+      output_tokens: 1000,
+      cache_read_input_tokens: 3000,
+      cache_creation_input_tokens: 0,
+    },
+    content: [],
+  },
+  session_id: 'session',
+});
+
+const createPromptItem = (
+  id: string,
+  createdAt: Date,
+  messages: BackendMessage[]
+): ConversationItem => {
+  const prompt: Prompt = {
+    id,
+    sessionId: 'session',
+    content: 'Do the thing',
+    createdAt,
+    status: 'completed',
+  };
+  return { type: 'prompt', data: prompt, messages };
+};
+
+describe('getUsageEntries', () => {
+  it('should report usage once per API message', () => {
+    const entries = getUsageEntries([
+      createMessage('msg-1', 'api-1', 'claude-sonnet-4-20250514', 1000),
+      createMessage('msg-2', 'api-1', 'claude-sonnet-4-20250514', 1000),
+      createMessage('msg-3', 'api-2', 'claude-sonnet-4-20250514', 500),
+    ]);
+
+    expect(entries.map((entry) => entry.usage.inputTokens)).toEqual([
+      1000, 500,
+    ]);
+  });
+});
+
+describe('findModelPrice', () => {
+  it('should use the longest matching prefix', () => {
+    expect(findModelPrice('claude-sonnet-4-5-20250929', priceTable)).toBe(
+      priceTable['claude-sonnet-4-5']
+    );
+    expect(findModelPrice('claude-sonnet-4-20250514', priceTable)).toBe(
+      priceTable['claude-sonnet-4']
+    );
+    expect(findModelPrice('gpt-4o', priceTable)).toBeNull();
+  });
+});
+
+describe('estimateCost', () => {
+  it('should price tokens per million', () => {
+    const cost = estimateCost(
+      {
+        inputTokens: 1_000_000,
+        outputTokens: 1_000_000,
+        cacheReadInputTokens: 1_000_000,
+        cacheCreationInputTokens: 1_000_000,
+      },
+      priceTable['claude-sonnet-4']
+    );
+
+    expect(cost).toBeCloseTo(22.05);
+  });
+});
+
+describe('getCacheHitRatio', () => {
+  it('should compare cache reads to all prompt tokens', () => {
+    expect(
+      getCacheHitRatio({
+        inputTokens: 100,
+        outputTokens: 500,
+        cacheReadInputTokens: 300,
+        cacheCreationInputTokens: 0,
+      })
+    ).toBe(0.75);
+    expect(
+      getCacheHitRatio({
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheReadInputTokens: 0,
+        cacheCreationInputTokens: 0,
+      })
+    ).toBeNull();
+  });
+});
+
+describe('aggregateUsage', () => {
+  const sessions = [
+    createSession('a', 'acme/web'),
+    createSession('b', 'acme/web'),
+    createSession('c', 'acme/api'),
+  ];
+  const conversations = new Map<string, ConversationItem[]>([
+    [
+      'a',
+      [
+        createPromptItem('p1', new Date(2025, 0, 1, 10), [
+          createMessage('m1', 'api-1', 'claude-sonnet-4-20250514', 1_000_000),
+        ]),
+        createPromptItem('p2', new Date(2025, 0, 2, 10), [
+          createMessage('m2', 'api-2', 'claude-sonnet-4-5-20250929', 1000),
+        ]),
+      ],
+    ],
+    [
+      'b',
+      [
+        createPromptItem('p3', new Date(2025, 0, 2, 12), [
+          createMessage('m3', 'api-3', 'mystery-model', 1000),
+        ]),
+      ],
+    ],
+  ]);
+
+  it('should total usage per session, repo, day and model', () => {
+    const analytics = aggregateUsage(sessions, conversations, priceTable);
+
+    expect(analytics.totals.usage.inputTokens).toBe(1_002_000);
+    expect(analytics.totals.hasUnpricedUsage).toBe(true);
+
+    expect(analytics.bySession.map((row) => row.session.id)).toEqual([
+      'a',
+      'b',
+      'c',
+    ]);
+    expect(analytics.byRepo.map((row) => [row.repo, row.sessionCount])).toEqual(
+      [
+        ['acme/web', 2],
+        ['acme/api', 1],
+      ]
+    );
+    expect(analytics.byDay.map((row) => row.day)).toEqual([
+      '2025-01-01',
+      '2025-01-02',
+    ]);
+    expect(analytics.byModel.map((row) => row.model)).toEqual([
+      'claude-sonnet-4-20250514',
+      'claude-sonnet-4-5-20250929',
+      'mystery-model',
+    ]);
+  });
+
+  it('should estimate cost only for priced models', () => {
+    const analytics = aggregateUsage(sessions, conversations, priceTable);
+    const unpriced = analytics.byModel.find(
+      (row) => row.model === 'mystery-model'
+    );
+
+    expect(unpriced?.price).toBeNull();
+    expect(unpriced?.cost).toBe(0);
+    // Session a: one claude-sonnet-4 message plus one claude-sonnet-4-5 message
+    expect(analytics.bySession[0].cost).toBeCloseTo(
+      3 + 0.015 + 0.0009 + (0.004 + 0.02 + 0.0012)
+    );
+  });
+});
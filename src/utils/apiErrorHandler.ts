@@ -11,12 +11,47 @@ interface ErrorDetails {
   technical?: string;
 }
 
+/**
+ * Messages browsers give the TypeError fetch rejects with when the request
+ * never got a response: Chrome ("Failed to fetch"), Firefox ("NetworkError
+ * when attempting to fetch resource."), Safari ("Load failed") and Node
+ * ("fetch failed").
+ */
+const NETWORK_ERROR_MESSAGE = /fetch|networkerror|load failed/i;
+
+/**
+ * HTTP status of an error, if it carries one. Our HTTP clients set `status`;
+ * the generated client's ResponseError keeps the Response in `response`.
+ */
+function getErrorStatus(error: object): number | undefined {
+  const { status, response } = error as {
+    status?: unknown;
+    response?: { status?: unknown };
+  };
+  if (typeof status === 'number') return status;
+  if (typeof response?.status === 'number') return response.status;
+  return undefined;
+}
+
 /**
  * Analyzes an error and extracts detailed information about what went wrong
  */
 function analyzeError(error: unknown): ErrorDetails {
+  // The generated client wraps failed fetches in a FetchError, keeping the
+  // original error as its cause
+  if (error instanceof Error && error.name === 'FetchError') {
+    const cause = (error as { cause?: unknown }).cause;
+    return {
+      type: 'network',
+      title: 'Network Error',
+      message:
+        'Unable to connect to the backend. Please check your internet connection.',
+      technical: cause instanceof Error ? cause.message : error.message,
+    };
+  }
+
   // Network failure (fetch failed completely)
-  if (error instanceof TypeError && error.message.includes('fetch')) {
+  if (error instanceof TypeError && NETWORK_ERROR_MESSAGE.test(error.message)) {
     return {
       type: 'network',
       title: 'Network Error',
@@ -27,9 +62,9 @@ function analyzeError(error: unknown): ErrorDetails {
   }
 
   // Response error from fetch API
-  if (error && typeof error === 'object' && 'status' in error) {
-    const status = (error as any).status;
-
+  const status =
+    error && typeof error === 'object' ? getErrorStatus(error) : undefined;
+  if (status !== undefined) {
     // 502 Bad Gateway - Backend is down
     if (status === 502) {
       return {
@@ -179,6 +214,36 @@ function analyzeError(error: unknown): ErrorDetails {
   };
 }
 
+/**
+ * Whether an error is likely temporary (network loss, backend down or
+ * restarting), so that retrying the same request later can succeed.
+ */
+export function isTransientApiError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  const details = analyzeError(error);
+  return (
+    details.type === 'network' ||
+    details.type === 'cors' ||
+    details.status === 502 ||
+    details.status === 503 ||
+    details.status === 504
+  );
+}
+
+/**
+ * Whether an error comes from a request its caller aborted, which is not a
+ * failure worth reporting. The generated client wraps fetch errors, so the
+ * cause is checked too.
+ */
+export function isAbortError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  if ((error as { name?: unknown }).name === 'AbortError') return true;
+  return (
+    (error as { name?: unknown }).name === 'FetchError' &&
+    isAbortError((error as { cause?: unknown }).cause)
+  );
+}
+
 /**
  * Handles API errors and displays appropriate toast notifications
  * @param error The error that occurred
@@ -252,7 +317,7 @@ export function withErrorHandler<T extends (...args: any[]) => Promise<any>>(
     try {
       return await fn(...args);
     } catch (error) {
-      handleApiError(error, context);
+      if (!isAbortError(error)) handleApiError(error, context);
       throw error; // Re-throw so React Query can handle it
     }
   }) as T;
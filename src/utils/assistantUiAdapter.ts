@@ -1,17 +1,191 @@
 import { ConversationItem } from '@/hooks/useMessages';
+import { OutboxItem } from '@/services/outbox';
 import type { ThreadMessageLike } from '@assistant-ui/react';
+import { BackendMessage } from '@/types/session';
+import { TokenUsageTotals, sumTokenUsage } from './usageAnalytics';
+import { getMessageTimestamp } from './sessionTimeline';
 
 /**
- * Converts our conversation data to the format expected by @assistant-ui/react
+ * A content part of a thread message
+ */
+export type ThreadMessagePart = Exclude<
+  ThreadMessageLike['content'],
+  string
+>[number];
+
+export type ToolCallPart = Extract<ThreadMessagePart, { type: 'tool-call' }>;
+
+/**
+ * Converts a prompt waiting in the outbox to a user message, marked as
+ * queued so the thread can offer to cancel, edit or retry it
+ */
+function convertQueuedPrompt(item: OutboxItem): ThreadMessageLike {
+  return {
+    id: item.id,
+    role: 'user',
+    content: [{ type: 'text', text: item.content }],
+    createdAt: new Date(item.createdAt),
+    metadata: {
+      custom: {
+        queued: true,
+        outboxId: item.id,
+        outboxStatus: item.status,
+        lastError: item.lastError,
+      },
+    },
+  };
+}
+
+/**
+ * Messages of a sub-agent, nested under the Task tool call that spawned it
+ */
+export interface SubagentThread {
+  messages: ThreadMessageLike[];
+  /**
+   * Tokens used by the sub-agent itself, excluding its own sub-agents
+   */
+  usage: TokenUsageTotals;
+}
+
+/**
+ * Returns the sub-agent thread attached to a tool call, if any
+ */
+export function getSubagentThread(artifact: unknown): SubagentThread | null {
+  const subagent = (artifact as { subagent?: SubagentThread } | undefined)
+    ?.subagent;
+  return subagent && Array.isArray(subagent.messages) ? subagent : null;
+}
+
+/**
+ * Splits a prompt's messages into the main agent's and those of each
+ * sub-agent, keyed by the tool call that spawned it. Messages whose parent
+ * tool call isn't part of the prompt stay in the main thread.
+ */
+function groupBySubagent(
+  backendMessages: BackendMessage[],
+  toolCallMap: Map<string, ToolCallPart>
+) {
+  const topLevel: BackendMessage[] = [];
+  const byParent = new Map<string, BackendMessage[]>();
+
+  for (const msg of backendMessages) {
+    const parentId = msg.parent_tool_use_id;
+    if (parentId && toolCallMap.has(parentId)) {
+      byParent.set(parentId, [...(byParent.get(parentId) ?? []), msg]);
+    } else {
+      topLevel.push(msg);
+    }
+  }
+
+  return { topLevel, byParent };
+}
+
+/**
+ * Converts BackendMessages to thread messages, replacing tool calls with
+ * their versions merged with results
+ */
+function convertBackendMessages(
+  backendMessages: BackendMessage[],
+  toolCallMap: Map<string, ToolCallPart>
+): ThreadMessageLike[] {
+  const messages: ThreadMessageLike[] = [];
+
+  for (const msg of backendMessages) {
+    // Skip messages without content (like system/init messages)
+    if (
+      !msg.message ||
+      !msg.message.content ||
+      !Array.isArray(msg.message.content)
+    ) {
+      continue;
+    }
+
+    const content = msg.message.content
+      .map((c): ThreadMessagePart | null => {
+        if (c.type === 'text') {
+          // Ensure text is never null or undefined - always use a string
+          const textValue = c.text ?? '';
+          // Skip empty text blocks to avoid rendering issues
+          if (textValue === '') {
+            return null;
+          }
+          return { type: 'text' as const, text: textValue };
+        }
+        if (c.type === 'tool_use') {
+          return toolCallMap.get(c.id) ?? null;
+        }
+        // Skip standalone tool_result (already merged into tool_use)
+        if (c.type === 'tool_result') {
+          return null;
+        }
+        return null;
+      })
+      .filter((c): c is ThreadMessagePart => c !== null && c !== undefined);
+
+    // Skip messages with empty content to prevent rendering errors
+    if (content.length === 0) {
+      continue;
+    }
+
+    // Debug: log if we have tool calls
+    const toolCalls = content.filter((c) => c.type === 'tool-call');
+    if (toolCalls.length > 0) {
+      console.log(
+        `[assistantUiAdapter] Message ${msg.uuid} (role: ${msg.message.role || msg.type}) has ${toolCalls.length} tool calls:`,
+        JSON.stringify(toolCalls, null, 2)
+      );
+    }
+
+    // Validate that all content has proper text values
+    const validatedContent = content.map((c) => {
+      if (c.type === 'text') {
+        return { ...c, text: c.text ?? '' };
+      }
+      if (c.type === 'tool-call') {
+        return {
+          ...c,
+          toolName: c.toolName ?? '',
+          toolCallId: c.toolCallId ?? '',
+          argsText: c.argsText ?? '{}',
+          result: c.result ?? undefined, // result can be undefined if tool hasn't returned yet
+        };
+      }
+      return c;
+    });
+
+    messages.push({
+      id: msg.uuid,
+      role: msg.message.role || (msg.type as 'user' | 'assistant'),
+      content: validatedContent,
+      createdAt: getMessageTimestamp(msg) ?? new Date(),
+      status: { type: 'complete', reason: 'stop' },
+      metadata: {
+        submittedFeedback: undefined,
+        custom: msg.message.usage
+          ? {
+              usage: msg.message.usage,
+            }
+          : undefined,
+      },
+    });
+  }
+
+  return messages;
+}
+
+/**
+ * Converts our conversation data to the format expected by @assistant-ui/react.
+ * Prompts still waiting in the outbox are appended after the conversation.
  */
 export function convertConversationToThreadMessages(
-  conversation: ConversationItem[]
+  conversation: ConversationItem[],
+  queued: OutboxItem[] = []
 ): ThreadMessageLike[] {
   const messages: ThreadMessageLike[] = [];
 
   // Handle empty conversation
   if (!conversation || conversation.length === 0) {
-    return messages;
+    return queued.map(convertQueuedPrompt);
   }
 
   for (const item of conversation) {
@@ -28,12 +202,13 @@ export function convertConversationToThreadMessages(
           custom: {
             isPrompt: true,
             status: item.data.status,
+            sessionId: item.data.sessionId,
           },
         },
       });
 
       // First pass: collect all tool_use and tool_result items across ALL messages in this prompt
-      const toolCallMap = new Map<string, any>();
+      const toolCallMap = new Map<string, ToolCallPart>();
 
       // Collect all tool_use items
       for (const msg of item.messages) {
@@ -72,94 +247,54 @@ export function convertConversationToThreadMessages(
                 resultText = textBlock?.text || JSON.stringify(c.content);
               }
               // Ensure result is always a string, never undefined or null
-              toolCall.result = resultText != null ? String(resultText) : '';
+              toolCallMap.set(c.tool_use_id, {
+                ...toolCall,
+                result: resultText != null ? String(resultText) : '',
+                ...(c.is_error && { isError: true }),
+              });
             }
           }
         }
       }
 
-      // Third pass: add messages to the thread, replacing tool calls with merged versions
-      for (const msg of item.messages) {
-        // Skip messages without content (like system/init messages)
-        if (
-          !msg.message ||
-          !msg.message.content ||
-          !Array.isArray(msg.message.content)
-        ) {
-          continue;
-        }
-
-        const content = msg.message.content
-          .map((c) => {
-            if (c.type === 'text') {
-              // Ensure text is never null or undefined - always use a string
-              const textValue = c.text ?? '';
-              // Skip empty text blocks to avoid rendering issues
-              if (textValue === '') {
-                return null;
-              }
-              return { type: 'text' as const, text: textValue };
-            }
-            if (c.type === 'tool_use') {
-              return toolCallMap.get(c.id) ?? null;
+      // Third pass: nest sub-agent messages under the tool call that
+      // spawned them, then add the rest to the thread
+      const { topLevel, byParent } = groupBySubagent(
+        item.messages,
+        toolCallMap
+      );
+      const attachSubagents = (
+        backendMessages: BackendMessage[],
+        ancestors: Set<string>
+      ) => {
+        for (const msg of backendMessages) {
+          for (const c of msg.message?.content ?? []) {
+            if (
+              c.type !== 'tool_use' ||
+              !c.id ||
+              !byParent.has(c.id) ||
+              ancestors.has(c.id)
+            ) {
+              continue;
             }
-            // Skip standalone tool_result (already merged into tool_use)
-            if (c.type === 'tool_result') {
-              return null;
+            const children = byParent.get(c.id)!;
+            attachSubagents(children, new Set([...ancestors, c.id]));
+            const subagent: SubagentThread = {
+              messages: convertBackendMessages(children, toolCallMap),
+              usage: sumTokenUsage(children),
+            };
+            const toolCall = toolCallMap.get(c.id);
+            if (toolCall) {
+              toolCallMap.set(c.id, { ...toolCall, artifact: { subagent } });
             }
-            return null;
-          })
-          .filter((c) => c !== null && c !== undefined);
-
-        // Skip messages with empty content to prevent rendering errors
-        if (content.length === 0) {
-          continue;
-        }
-
-        // Debug: log if we have tool calls
-        const toolCalls = content.filter((c: any) => c.type === 'tool-call');
-        if (toolCalls.length > 0) {
-          console.log(
-            `[assistantUiAdapter] Message ${msg.uuid} (role: ${msg.message.role || msg.type}) has ${toolCalls.length} tool calls:`,
-            JSON.stringify(toolCalls, null, 2)
-          );
+          }
         }
+      };
+      attachSubagents(topLevel, new Set());
 
-        // Validate that all content has proper text values
-        const validatedContent = content.map((c: any) => {
-          if (c.type === 'text') {
-            return { ...c, text: c.text ?? '' };
-          }
-          if (c.type === 'tool-call') {
-            return {
-              ...c,
-              toolName: c.toolName ?? '',
-              toolCallId: c.toolCallId ?? '',
-              argsText: c.argsText ?? '{}',
-              result: c.result ?? undefined, // result can be undefined if tool hasn't returned yet
-            };
-          }
-          return c;
-        });
-
-        messages.push({
-          id: msg.uuid,
-          role: msg.message.role || (msg.type as 'user' | 'assistant'),
-          content: validatedContent,
-          createdAt: new Date(),
-          status: { type: 'complete', reason: 'stop' },
-          metadata: {
-            submittedFeedback: undefined,
-            custom: msg.message.usage
-              ? {
-                  usage: msg.message.usage,
-                }
-              : undefined,
-          },
-        });
-      }
+      messages.push(...convertBackendMessages(topLevel, toolCallMap));
     }
   }
 
-  return messages;
+  return [...messages, ...queued.map(convertQueuedPrompt)];
 }
@@ -0,0 +1,91 @@
+import { Session } from '@/types/session';
+
+/**
+ * Number of requests a bulk operation keeps in flight at once
+ */
+export const BULK_CONCURRENCY = 4;
+
+export interface BulkFailure {
+  id: string;
+  error: string;
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: BulkFailure[];
+}
+
+export interface BulkProgress {
+  total: number;
+  completed: number;
+  failed: BulkFailure[];
+}
+
+/**
+ * Runs an operation for every ID with limited concurrency. Failures don't
+ * stop the remaining IDs; they are collected in the result instead.
+ *
+ * @param ids - IDs to process
+ * @param operation - Operation to run for one ID
+ * @param onProgress - Called after each ID settles
+ */
+export async function runBulkOperation(
+  ids: string[],
+  operation: (id: string) => Promise<unknown>,
+  onProgress?: (progress: BulkProgress) => void,
+  concurrency = BULK_CONCURRENCY
+): Promise<BulkResult> {
+  const result: BulkResult = { succeeded: [], failed: [] };
+  let next = 0;
+
+  const worker = async () => {
+    while (next < ids.length) {
+      const id = ids[next++];
+      try {
+        await operation(id);
+        result.succeeded.push(id);
+      } catch (error) {
+        result.failed.push({
+          id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      onProgress?.({
+        total: ids.length,
+        completed: result.succeeded.length + result.failed.length,
+        failed: [...result.failed],
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, ids.length) }, worker)
+  );
+  return result;
+}
+
+/**
+ * Builds a session title from a pattern. Supported placeholders:
+ * `{title}` (current title), `{repo}`, `{branch}` and `{n}` (1-based
+ * position in the selection).
+ *
+ * @example
+ * ```ts
+ * applyTitlePattern('[Q3] {title}', session, 0); // '[Q3] Fix login bug'
+ * ```
+ */
+export function applyTitlePattern(
+  pattern: string,
+  session: Session,
+  index: number
+): string {
+  const values: Record<string, string> = {
+    title: session.title,
+    repo: session.repo,
+    branch: session.branch,
+    n: String(index + 1),
+  };
+  return pattern
+    .replace(/\{(title|repo|branch|n)\}/g, (_, key: string) => values[key])
+    .trim();
+}
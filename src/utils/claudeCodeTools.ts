@@ -0,0 +1,188 @@
+/**
+ * Inputs of Claude Code's built-in tools and parsers for their text results
+ */
+
+export interface EditInput {
+  file_path: string;
+  old_string: string;
+  new_string: string;
+  replace_all?: boolean;
+}
+
+export interface MultiEditInput {
+  file_path: string;
+  edits: Array<Omit<EditInput, 'file_path'>>;
+}
+
+export interface ReadInput {
+  file_path: string;
+  offset?: number;
+  limit?: number;
+}
+
+export interface WriteInput {
+  file_path: string;
+  content: string;
+}
+
+const SYSTEM_REMINDER_PATTERN = /<system-reminder>[\s\S]*?<\/system-reminder>/g;
+
+/**
+ * Removes the `<system-reminder>` blocks Claude Code appends to results
+ */
+export function stripSystemReminders(text: string): string {
+  return text.replace(SYSTEM_REMINDER_PATTERN, '').trimEnd();
+}
+
+/**
+ * Exit code of a Bash call. Failed commands start their result with
+ * `Exit code N`; successful ones report nothing, so they count as 0.
+ */
+export function getBashExitCode(
+  result: string,
+  isError: boolean | undefined
+): number | null {
+  const match = /^Exit code (\d+)/.exec(result);
+  if (match) return Number(match[1]);
+  return isError ? null : 0;
+}
+
+/**
+ * Removes the `Exit code N` line from a Bash result
+ */
+export function getBashOutput(result: string): string {
+  return stripSystemReminders(result.replace(/^Exit code \d+\n?/, ''));
+}
+
+export interface ReadResult {
+  content: string;
+  firstLine: number;
+}
+
+/**
+ * Parses a Read result, which is `cat -n` style (`   12→text`), into the
+ * file contents and the number of its first line. Returns null when the
+ * result isn't numbered, e.g. for errors.
+ */
+export function parseReadResult(result: string): ReadResult | null {
+  const lines = stripSystemReminders(result).split('\n');
+  const numbered = lines.map((line) => /^\s*(\d+)(?:→|\t)(.*)$/.exec(line));
+  if (numbered.length === 0 || numbered.some((match) => !match)) return null;
+
+  return {
+    content: numbered.map((match) => match![2]).join('\n'),
+    firstLine: Number(numbered[0]![1]),
+  };
+}
+
+export interface GrepLine {
+  line: number | null;
+  text: string;
+  /**
+   * Context line (from -A/-B/-C) rather than a match
+   */
+  isContext: boolean;
+}
+
+export interface GrepFileHits {
+  file: string;
+  /**
+   * Match count, for the count output mode
+   */
+  count: number | null;
+  lines: GrepLine[];
+}
+
+const RESULT_HEADER_PATTERN = /^Found \d+ (files?|lines?|matches)/;
+const NO_MATCHES_PATTERN = /^No (matches|files) found/;
+
+/**
+ * Groups a Grep result by file. Understands the three output modes:
+ * `files_with_matches` (the default) lists files, `count` lists
+ * `file:count` and `content` lists `file:line:text` (`file-line-text` for
+ * context lines). When a single file is searched the file is omitted from
+ * content lines, so `path` is used instead.
+ */
+export function parseGrepResult(
+  result: string,
+  outputMode = 'files_with_matches',
+  path = ''
+): GrepFileHits[] {
+  const groups = new Map<string, GrepFileHits>();
+  const getGroup = (file: string) => {
+    let group = groups.get(file);
+    if (!group) {
+      group = { file, count: null, lines: [] };
+      groups.set(file, group);
+    }
+    return group;
+  };
+
+  for (const line of stripSystemReminders(result).split('\n')) {
+    if (
+      !line.trim() ||
+      line === '--' ||
+      RESULT_HEADER_PATTERN.test(line) ||
+      NO_MATCHES_PATTERN.test(line)
+    ) {
+      continue;
+    }
+
+    if (outputMode === 'files_with_matches') {
+      getGroup(line);
+      continue;
+    }
+
+    if (outputMode === 'count') {
+      const match = /^(.*):(\d+)$/.exec(line);
+      if (match) getGroup(match[1]).count = Number(match[2]);
+      continue;
+    }
+
+    const match = /^(.*?):(\d+):(.*)$/.exec(line);
+    const context = /^(.*?)-(\d+)-(.*)$/.exec(line);
+    const withoutFile = /^(\d+)([:-])(.*)$/.exec(line);
+    const unnumbered = /^(.*?):(.*)$/.exec(line);
+    if (match || context) {
+      const [, file, number, text] = (match || context)!;
+      getGroup(file).lines.push({
+        line: Number(number),
+        text,
+        isContext: !match,
+      });
+    } else if (withoutFile) {
+      getGroup(path).lines.push({
+        line: Number(withoutFile[1]),
+        text: withoutFile[3],
+        isContext: withoutFile[2] === '-',
+      });
+    } else if (unnumbered) {
+      getGroup(unnumbered[1]).lines.push({
+        line: null,
+        text: unnumbered[2],
+        isContext: false,
+      });
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * Parses a Glob result into the matching file paths
+ */
+export function parseGlobResult(result: string): string[] {
+  return stripSystemReminders(result)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !NO_MATCHES_PATTERN.test(line))
+    .filter((line) => !line.startsWith('(Results are truncated'));
+}
+
+export type TodoStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface Todo {
+  content: string;
+  status: TodoStatus;
+  activeForm?: string;
+}
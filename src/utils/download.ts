@@ -0,0 +1,15 @@
+/**
+ * Saves text content as a file through the browser's download prompt.
+ */
+export function downloadFile(
+  filename: string,
+  content: string,
+  type = 'application/json'
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
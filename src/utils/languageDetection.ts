@@ -0,0 +1,44 @@
+/**
+ * Monaco language IDs by file extension
+ */
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  py: 'python',
+  java: 'java',
+  cpp: 'cpp',
+  c: 'c',
+  cs: 'csharp',
+  go: 'go',
+  rs: 'rust',
+  rb: 'ruby',
+  php: 'php',
+  html: 'html',
+  css: 'css',
+  scss: 'scss',
+  json: 'json',
+  xml: 'xml',
+  yaml: 'yaml',
+  yml: 'yaml',
+  md: 'markdown',
+  sh: 'shell',
+  sql: 'sql',
+};
+
+/**
+ * Infers the Monaco language of a file from its extension, falling back to
+ * plaintext.
+ *
+ * @example
+ * ```ts
+ * getLanguageFromPath('src/App.tsx'); // 'typescript'
+ * ```
+ */
+export function getLanguageFromPath(path: string | undefined): string {
+  const fileName = path?.split('/').pop() ?? '';
+  if (!fileName.includes('.')) return 'plaintext';
+  const ext = fileName.split('.').pop()!.toLowerCase();
+  return LANGUAGE_BY_EXTENSION[ext] ?? 'plaintext';
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { PromptTemplate } from '@/services/templates';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Version of the exported JSON format
+ */
+export const TEMPLATE_EXPORT_VERSION = 1;
+
+const importedTemplateSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().trim().min(1),
+  content: z.string(),
+  updatedAt: z.number().optional(),
+});
+
+const templateExportSchema = z.union([
+  z.object({ templates: z.array(importedTemplateSchema) }),
+  z.array(importedTemplateSchema),
+]);
+
+/**
+ * Returns the unique variable names of a template, in order of appearance.
+ *
+ * @example
+ * ```ts
+ * getTemplateVariables('Bump {{dependency}} to {{ version }}');
+ * // ['dependency', 'version']
+ * ```
+ */
+export function getTemplateVariables(content: string): string[] {
+  const names = Array.from(content.matchAll(VARIABLE_PATTERN), (m) => m[1]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Replaces `{{name}}` placeholders with their values, which may be empty.
+ * Placeholders missing from `values` are left in place.
+ */
+export function fillTemplate(
+  content: string,
+  values: Record<string, string>
+): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined ? values[name] : placeholder
+  );
+}
+
+export const createTemplateId = () =>
+  `template-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Serializes templates to the JSON format accepted by parseTemplates.
+ */
+export function serializeTemplates(templates: PromptTemplate[]): string {
+  return JSON.stringify(
+    {
+      version: TEMPLATE_EXPORT_VERSION,
+      templates: templates.map(({ id, name, content, updatedAt }) => ({
+        id,
+        name,
+        content,
+        updatedAt,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parses exported templates. Accepts either the export format or a bare
+ * array of templates; missing IDs are generated.
+ *
+ * @throws {Error} If the JSON is malformed or a template is invalid
+ */
+export function parseTemplates(json: string): PromptTemplate[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Template file is not valid JSON');
+  }
+
+  const result = templateExportSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      'Template file must contain templates with a name and content'
+    );
+  }
+
+  const templates = Array.isArray(result.data)
+    ? result.data
+    : result.data.templates;
+  const now = Date.now();
+  return templates.map((template) => ({
+    id: template.id || createTemplateId(),
+    name: template.name,
+    content: template.content,
+    updatedAt: template.updatedAt ?? now,
+  }));
+}
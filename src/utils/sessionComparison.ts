@@ -0,0 +1,117 @@
+import { ConversationItem } from '@/hooks/useMessages';
+import { TokenUsageTotals, sumTokenUsage } from './usageAnalytics';
+
+export interface FileEdit {
+  /**
+   * str_replace_editor command (str_replace, create, insert, ...)
+   */
+  command: string;
+  oldStr?: string;
+  newStr?: string;
+  /**
+   * BackendMessage uuid of the tool call
+   */
+  messageId: string;
+}
+
+export interface FileEdits {
+  path: string;
+  edits: FileEdit[];
+}
+
+export interface SessionComparisonSummary {
+  /**
+   * The agent's closing message: the output of the last result message, or
+   * the latest assistant text when the run has not finished
+   */
+  finalSummary: string | null;
+  toolCallCounts: Record<string, number>;
+  totalToolCalls: number;
+  tokenUsage: TokenUsageTotals;
+  fileEdits: FileEdits[];
+}
+
+export interface StrReplaceEditorInput {
+  command?: string;
+  path?: string;
+  old_str?: string;
+  new_str?: string;
+  /**
+   * Contents of the file made by the create command
+   */
+  file_text?: string;
+}
+
+export interface FileOperationsInput {
+  action?: string;
+  path?: string;
+  /**
+   * Contents written by the write action
+   */
+  content?: string;
+}
+
+/**
+ * Whether a tool name refers to the sandbox's str_replace_editor tool.
+ * Matches both the MCP-namespaced and bare names.
+ */
+export function isStrReplaceEditorTool(toolName: string | undefined) {
+  return !!toolName && /(^|__)str_replace_editor$/.test(toolName);
+}
+
+/**
+ * Summarizes a session's conversation for side-by-side comparison.
+ */
+export function summarizeConversation(
+  conversation: ConversationItem[]
+): SessionComparisonSummary {
+  const messages = conversation.flatMap((item) =>
+    item.type === 'prompt' ? item.messages : [item.data]
+  );
+  const toolCallCounts: Record<string, number> = {};
+  const editsByPath = new Map<string, FileEdit[]>();
+  let totalToolCalls = 0;
+  let finalSummary: string | null = null;
+
+  for (const msg of messages) {
+    if (msg.type === 'result' && msg.result) {
+      finalSummary = msg.result;
+      continue;
+    }
+    if (msg.type !== 'assistant' || !Array.isArray(msg.message?.content)) {
+      continue;
+    }
+
+    for (const block of msg.message.content) {
+      if (block.type === 'text' && block.text?.trim()) {
+        finalSummary = block.text;
+      }
+      if (block.type !== 'tool_use' || !block.name) continue;
+
+      totalToolCalls++;
+      toolCallCounts[block.name] = (toolCallCounts[block.name] || 0) + 1;
+
+      const input = block.input;
+      if (isStrReplaceEditorTool(block.name) && input?.path) {
+        // Viewing a file is not an edit
+        if (input.command === 'view') continue;
+        const edits = editsByPath.get(input.path) || [];
+        edits.push({
+          command: input.command || 'unknown',
+          oldStr: input.old_str,
+          newStr: input.new_str ?? input.file_text,
+          messageId: msg.uuid,
+        });
+        editsByPath.set(input.path, edits);
+      }
+    }
+  }
+
+  return {
+    finalSummary,
+    toolCallCounts,
+    totalToolCalls,
+    tokenUsage: sumTokenUsage(messages),
+    fileEdits: Array.from(editsByPath, ([path, edits]) => ({ path, edits })),
+  };
+}
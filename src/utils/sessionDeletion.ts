@@ -0,0 +1,67 @@
+import { Session } from '@/types/session';
+
+/**
+ * Flattens sessions and their nested `children` into a single list.
+ */
+const flatten = (sessions: Session[]): Session[] =>
+  sessions.flatMap((session) => [session, ...flatten(session.children ?? [])]);
+
+/**
+ * Finds the subtasks that deleting `ids` removes as well, at any depth.
+ * The backend deletes subtasks with their parent, so these are gone once
+ * the deletion succeeds. Sessions listed in `ids` themselves are left out.
+ *
+ * @param sessions - Every known session, flat or nested
+ * @param ids - IDs of the sessions to delete
+ */
+export function getAffectedSubtasks(
+  sessions: Session[],
+  ids: string[]
+): Session[] {
+  const all = flatten(sessions);
+  const removed = new Set(ids);
+  const affected = new Map<string, Session>();
+
+  let size = 0;
+  while (removed.size !== size) {
+    size = removed.size;
+    all.forEach((session) => {
+      if (session.parentId && removed.has(session.parentId)) {
+        removed.add(session.id);
+        if (!ids.includes(session.id)) affected.set(session.id, session);
+      }
+    });
+  }
+
+  return [...affected.values()];
+}
+
+/**
+ * Drops sessions whose parent (at any depth) is deleted too. Deleting the
+ * parent takes them with it, so deleting them again would fail.
+ *
+ * @param sessions - Every known session, flat or nested
+ * @param selected - Sessions to delete
+ */
+export function getDeletionRoots(
+  sessions: Session[],
+  selected: Session[]
+): Session[] {
+  const selectedIds = new Set(selected.map((session) => session.id));
+  const byId = new Map(
+    [...flatten(sessions), ...selected].map((session) => [session.id, session])
+  );
+
+  const hasSelectedAncestor = (session: Session) => {
+    const seen = new Set<string>();
+    let parentId = session.parentId;
+    while (parentId && !seen.has(parentId)) {
+      if (selectedIds.has(parentId)) return true;
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId ?? null;
+    }
+    return false;
+  };
+
+  return selected.filter((session) => !hasSelectedAncestor(session));
+}
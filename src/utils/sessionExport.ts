@@ -0,0 +1,322 @@
+import type { ThreadMessageLike } from '@assistant-ui/react';
+import { z } from 'zod';
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Prompt, Session } from '@/types/session';
+import {
+  ThreadMessagePart,
+  ToolCallPart,
+  convertConversationToThreadMessages,
+  getSubagentThread,
+} from './assistantUiAdapter';
+import { EditInput, MultiEditInput, WriteInput } from './claudeCodeTools';
+import {
+  StrReplaceEditorInput,
+  isStrReplaceEditorTool,
+} from './sessionComparison';
+
+/**
+ * Version of the session bundle format
+ */
+export const SESSION_BUNDLE_VERSION = 1;
+
+/**
+ * Lossless export of a session: the raw backend data, from which the
+ * conversation can be rebuilt exactly as the UI shows it.
+ */
+export interface SessionBundle {
+  version: typeof SESSION_BUNDLE_VERSION;
+  /**
+   * ISO timestamp of the export
+   */
+  exportedAt: string;
+  session: Session;
+  prompts: Prompt[];
+  /**
+   * BackendMessages of each prompt, keyed by prompt ID
+   */
+  messages: Record<string, BackendMessage[]>;
+}
+
+/**
+ * Bundles a session with its conversation.
+ *
+ * Subtasks are not included, and the sandbox borrow token is left out since
+ * bundles are meant to be shared.
+ */
+export function createSessionBundle(
+  session: Session,
+  conversation: ConversationItem[]
+): SessionBundle {
+  const { children: _children, ...rest } = session;
+  const sbxConfig = session.sbxConfig
+    ? Object.fromEntries(
+        Object.entries(session.sbxConfig).filter(
+          ([key]) => key !== 'borrow_token'
+        )
+      )
+    : null;
+
+  const prompts: Prompt[] = [];
+  const messages: Record<string, BackendMessage[]> = {};
+  for (const item of conversation) {
+    if (item.type === 'prompt') {
+      prompts.push(item.data);
+      messages[item.data.id] = item.messages;
+    }
+  }
+
+  return {
+    version: SESSION_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: { ...rest, sbxConfig },
+    prompts,
+    messages,
+  };
+}
+
+export function serializeSessionBundle(bundle: SessionBundle): string {
+  return JSON.stringify(bundle, null, 2);
+}
+
+// Only the fields the UI relies on are checked; everything else is kept as is
+const bundleSchema = z.object({
+  version: z.literal(SESSION_BUNDLE_VERSION),
+  exportedAt: z.string(),
+  session: z
+    .object({
+      id: z.string(),
+      title: z.string(),
+      repo: z.string(),
+      branch: z.string(),
+      targetBranch: z.string(),
+      uiStatus: z.string(),
+      createdAt: z.string(),
+      updatedAt: z.string().optional(),
+    })
+    .passthrough(),
+  prompts: z.array(
+    z
+      .object({
+        id: z.string(),
+        sessionId: z.string(),
+        content: z.string(),
+        createdAt: z.string(),
+        status: z.string(),
+      })
+      .passthrough()
+  ),
+  messages: z.record(
+    z.string(),
+    z.array(
+      z
+        .object({
+          type: z.string(),
+          uuid: z.string(),
+          message: z.object({ content: z.array(z.any()) }).passthrough(),
+        })
+        .passthrough()
+    )
+  ),
+});
+
+/**
+ * Parses a bundle written by serializeSessionBundle, restoring its dates.
+ *
+ * @throws {Error} If the JSON is malformed or isn't a session bundle
+ */
+export function parseSessionBundle(json: string): SessionBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Bundle file is not valid JSON');
+  }
+
+  const result = bundleSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(
+      'Bundle file must contain a session, its prompts and their messages'
+    );
+  }
+
+  const bundle = result.data as unknown as SessionBundle;
+  return {
+    ...bundle,
+    session: {
+      ...bundle.session,
+      createdAt: new Date(bundle.session.createdAt),
+      updatedAt: bundle.session.updatedAt
+        ? new Date(bundle.session.updatedAt)
+        : undefined,
+    },
+    prompts: bundle.prompts.map((prompt) => ({
+      ...prompt,
+      createdAt: new Date(prompt.createdAt),
+    })),
+  };
+}
+
+/**
+ * Returns a code fence longer than any backtick run in the content, so the
+ * content can't close it early.
+ */
+function getFence(content: string): string {
+  const longest = Math.max(
+    2,
+    ...Array.from(content.matchAll(/`+/g), (m) => m[0].length)
+  );
+  return '`'.repeat(longest + 1);
+}
+
+function fenced(content: string, language = ''): string {
+  const fence = getFence(content);
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+const diffLines = (prefix: string, text: string | undefined) =>
+  text === undefined || text === ''
+    ? []
+    : text.split('\n').map((line) => `${prefix}${line}`);
+
+/**
+ * Renders the change made by a file editing tool call as a unified-style
+ * diff, or null when the call doesn't edit a file.
+ *
+ * Supports str_replace_editor and Claude Code's Edit, MultiEdit and Write.
+ */
+export function getToolCallDiff(
+  toolName: string,
+  args: unknown
+): { path: string; diff: string } | null {
+  if (!args || typeof args !== 'object') return null;
+
+  let path: string | undefined;
+  let hunks: Array<{ oldStr?: string; newStr?: string }> = [];
+
+  if (isStrReplaceEditorTool(toolName)) {
+    const input = args as StrReplaceEditorInput;
+    if (input.command === 'view') return null;
+    path = input.path;
+    hunks = [
+      { oldStr: input.old_str, newStr: input.new_str ?? input.file_text },
+    ];
+  } else if (toolName === 'Edit') {
+    const input = args as Partial<EditInput>;
+    path = input.file_path;
+    hunks = [{ oldStr: input.old_string, newStr: input.new_string }];
+  } else if (toolName === 'MultiEdit') {
+    const input = args as Partial<MultiEditInput>;
+    if (!Array.isArray(input.edits)) return null;
+    path = input.file_path;
+    hunks = input.edits.map((edit) => ({
+      oldStr: edit.old_string,
+      newStr: edit.new_string,
+    }));
+  } else if (toolName === 'Write') {
+    const input = args as Partial<WriteInput>;
+    path = input.file_path;
+    hunks = [{ newStr: input.content }];
+  }
+
+  if (!path || hunks.length === 0) return null;
+
+  const lines = [`--- a/${path}`, `+++ b/${path}`];
+  for (const hunk of hunks) {
+    lines.push(
+      '@@',
+      ...diffLines('-', hunk.oldStr),
+      ...diffLines('+', hunk.newStr)
+    );
+  }
+  return { path, diff: lines.join('\n') };
+}
+
+function formatToolCall(part: ToolCallPart, depth: number): string {
+  const lines = ['<details>', `<summary>Tool: ${part.toolName}</summary>`, ''];
+  const diff = getToolCallDiff(part.toolName, part.args);
+
+  if (diff) {
+    lines.push(`**${diff.path}**`, '', fenced(diff.diff, 'diff'));
+  } else {
+    lines.push('**Input**', '', fenced(part.argsText || '{}', 'json'));
+  }
+  const subagent = getSubagentThread(part.artifact);
+  if (subagent) {
+    lines.push(
+      '',
+      '**Sub-agent**',
+      '',
+      ...subagent.messages.map((message) => formatMessage(message, depth + 1))
+    );
+  }
+  if (part.result !== undefined && part.result !== '') {
+    lines.push('', '**Result**', '', fenced(String(part.result)));
+  }
+
+  lines.push('', '</details>');
+  return lines.join('\n');
+}
+
+function formatMessage(message: ThreadMessageLike, depth = 2): string {
+  const level = '#'.repeat(Math.min(depth, 6));
+  const heading = `${level} ${message.role === 'user' ? 'User' : 'Assistant'}`;
+  const parts: readonly ThreadMessagePart[] =
+    typeof message.content === 'string'
+      ? [{ type: 'text', text: message.content }]
+      : message.content;
+
+  const body = parts
+    .map((part) => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'tool-call') return formatToolCall(part, depth);
+      return null;
+    })
+    .filter((part): part is string => !!part);
+
+  return [heading, ...body].join('\n\n');
+}
+
+/**
+ * Renders a readable Markdown transcript of a session, for postmortems and
+ * PR descriptions. Tool calls become collapsible blocks; file edits are
+ * shown as diffs.
+ */
+export function sessionToMarkdown(
+  session: Session,
+  conversation: ConversationItem[]
+): string {
+  const details = [
+    `- **Repository:** ${session.repo}`,
+    `- **Branch:** \`${session.branch}\` → \`${session.targetBranch}\``,
+    `- **Status:** ${session.uiStatus}`,
+    `- **Created:** ${new Date(session.createdAt).toISOString()}`,
+  ];
+  if (session.diffStats) {
+    details.push(
+      `- **Changes:** +${session.diffStats.additions} −${session.diffStats.deletions}`
+    );
+  }
+  if (session.prUrl) {
+    details.push(`- **Pull request:** ${session.prUrl}`);
+  }
+
+  const messages = convertConversationToThreadMessages(conversation).map(
+    (message) => formatMessage(message)
+  );
+
+  return (
+    [`# ${session.title}`, details.join('\n'), ...messages].join('\n\n') + '\n'
+  );
+}
+
+/**
+ * File name for an export, derived from the session title.
+ */
+export function getExportFileName(session: Session, extension: string) {
+  const slug = session.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || session.id}.${extension}`;
+}
@@ -0,0 +1,313 @@
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage } from '@/types/session';
+import {
+  EditInput,
+  MultiEditInput,
+  ReadInput,
+  WriteInput,
+} from './claudeCodeTools';
+import {
+  FileOperationsInput,
+  StrReplaceEditorInput,
+  isStrReplaceEditorTool,
+} from './sessionComparison';
+
+export type SessionFileStatus = 'created' | 'modified' | 'read';
+
+export interface SessionFileOperation {
+  kind: 'create' | 'edit' | 'write' | 'read';
+  toolName: string;
+  /**
+   * uuid of the BackendMessage the thread shows the call in. For calls made
+   * by a sub-agent this is the message of the Task call that spawned it.
+   */
+  messageId: string;
+}
+
+export interface SessionFileDiff {
+  original: string;
+  modified: string;
+}
+
+export interface SessionFile {
+  path: string;
+  status: SessionFileStatus;
+  operations: SessionFileOperation[];
+  /**
+   * Net change composed from all edits, or null when the file was only read
+   */
+  diff: SessionFileDiff | null;
+}
+
+/**
+ * Separates unrelated regions of a file in a composed diff
+ */
+export const HUNK_SEPARATOR = '\n⋯\n';
+
+interface Replacement {
+  oldStr: string;
+  newStr: string;
+}
+
+type FileChange =
+  | { type: 'replace'; replacements: Replacement[] }
+  | { type: 'write'; content: string; isNew: boolean };
+
+/**
+ * Normalized file access of a tool call, for the tools the UI knows about:
+ * the sandbox's str_replace_editor and file_operations, and Claude Code's
+ * Read, Write, Edit and MultiEdit.
+ */
+function getFileAccess(
+  toolName: string,
+  args: unknown
+): {
+  path: string;
+  kind: SessionFileOperation['kind'];
+  change?: FileChange;
+} | null {
+  if (!args || typeof args !== 'object') return null;
+
+  if (isStrReplaceEditorTool(toolName)) {
+    const input = args as StrReplaceEditorInput;
+    if (!input.path) return null;
+    switch (input.command) {
+      case 'view':
+        return { path: input.path, kind: 'read' };
+      case 'create':
+        return {
+          path: input.path,
+          kind: 'create',
+          change: {
+            type: 'write',
+            content: input.file_text ?? '',
+            isNew: true,
+          },
+        };
+      case 'str_replace':
+        return {
+          path: input.path,
+          kind: 'edit',
+          change: {
+            type: 'replace',
+            replacements: [
+              { oldStr: input.old_str ?? '', newStr: input.new_str ?? '' },
+            ],
+          },
+        };
+      case 'insert':
+        return {
+          path: input.path,
+          kind: 'edit',
+          change: {
+            type: 'replace',
+            replacements: [{ oldStr: '', newStr: input.new_str ?? '' }],
+          },
+        };
+      default:
+        return null;
+    }
+  }
+
+  if (/(^|__)file_operations$/.test(toolName)) {
+    const input = args as FileOperationsInput;
+    if (!input.path) return null;
+    if (input.action === 'read') return { path: input.path, kind: 'read' };
+    if (input.action === 'write') {
+      return {
+        path: input.path,
+        kind: 'write',
+        change: { type: 'write', content: input.content ?? '', isNew: false },
+      };
+    }
+    return null;
+  }
+
+  switch (toolName) {
+    case 'Read': {
+      const input = args as Partial<ReadInput>;
+      return input.file_path ? { path: input.file_path, kind: 'read' } : null;
+    }
+    case 'Write': {
+      const input = args as Partial<WriteInput>;
+      if (!input.file_path) return null;
+      return {
+        path: input.file_path,
+        kind: 'write',
+        change: { type: 'write', content: input.content ?? '', isNew: false },
+      };
+    }
+    case 'Edit': {
+      const input = args as Partial<EditInput>;
+      if (!input.file_path) return null;
+      return {
+        path: input.file_path,
+        kind: 'edit',
+        change: {
+          type: 'replace',
+          replacements: [
+            { oldStr: input.old_string ?? '', newStr: input.new_string ?? '' },
+          ],
+        },
+      };
+    }
+    case 'MultiEdit': {
+      const input = args as Partial<MultiEditInput>;
+      if (!input.file_path) return null;
+      return {
+        path: input.file_path,
+        kind: 'edit',
+        change: {
+          type: 'replace',
+          replacements: (Array.isArray(input.edits) ? input.edits : []).map(
+            (edit) => ({
+              oldStr: edit.old_string ?? '',
+              newStr: edit.new_string ?? '',
+            })
+          ),
+        },
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+interface Hunk {
+  original: string;
+  current: string;
+}
+
+/**
+ * Net diff of a file from the changes made to it. Only the edited regions
+ * are known, so each replacement is applied to the region it falls in; a
+ * replacement that doesn't fall in any known region starts a new one. Once
+ * the whole file has been written, the rest are applied to its contents.
+ */
+function composeDiff(changes: FileChange[]): SessionFileDiff | null {
+  let hunks: Hunk[] = [];
+
+  for (const change of changes) {
+    if (change.type === 'write') {
+      // The file's previous contents are unknown unless it was new
+      const original = change.isNew
+        ? ''
+        : hunks.map((hunk) => hunk.original).join(HUNK_SEPARATOR);
+      hunks = [{ original, current: change.content }];
+      continue;
+    }
+
+    for (const { oldStr, newStr } of change.replacements) {
+      const hunk = oldStr
+        ? hunks.find((candidate) => candidate.current.includes(oldStr))
+        : undefined;
+      if (hunk) {
+        hunk.current = hunk.current.replace(oldStr, () => newStr);
+      } else {
+        hunks.push({ original: oldStr, current: newStr });
+      }
+    }
+  }
+
+  const changed = hunks.filter((hunk) => hunk.original !== hunk.current);
+  if (changed.length === 0) return null;
+  return {
+    original: changed.map((hunk) => hunk.original).join(HUNK_SEPARATOR),
+    modified: changed.map((hunk) => hunk.current).join(HUNK_SEPARATOR),
+  };
+}
+
+/**
+ * Lists the files a session's agent created, modified or read, in the order
+ * they were first touched, with the net change of each.
+ *
+ * Failed tool calls are left out, since they didn't change anything.
+ */
+export function collectSessionFiles(
+  conversation: ConversationItem[]
+): SessionFile[] {
+  const messages: BackendMessage[] = conversation.flatMap((item) =>
+    item.type === 'prompt' ? item.messages : [item.data]
+  );
+
+  const failedToolUseIds = new Set<string>();
+  const messageIdByToolUseId = new Map<string, string>();
+  for (const msg of messages) {
+    for (const block of msg.message?.content ?? []) {
+      if (block.type === 'tool_result' && block.is_error && block.tool_use_id) {
+        failedToolUseIds.add(block.tool_use_id);
+      }
+      if (block.type === 'tool_use' && block.id) {
+        messageIdByToolUseId.set(block.id, msg.uuid);
+      }
+    }
+  }
+
+  // Sub-agent messages are shown inside the Task call that spawned them
+  const getThreadMessageId = (msg: BackendMessage) => {
+    let messageId = msg.uuid;
+    let parentId = msg.parent_tool_use_id;
+    const seen = new Set<string>();
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parentMessageId = messageIdByToolUseId.get(parentId);
+      if (!parentMessageId) break;
+      messageId = parentMessageId;
+      parentId = messages.find(
+        (candidate) => candidate.uuid === parentMessageId
+      )?.parent_tool_use_id;
+    }
+    return messageId;
+  };
+
+  const files = new Map<
+    string,
+    { operations: SessionFileOperation[]; changes: FileChange[] }
+  >();
+
+  for (const msg of messages) {
+    if (msg.type !== 'assistant' || !Array.isArray(msg.message?.content)) {
+      continue;
+    }
+
+    for (const block of msg.message.content) {
+      if (block.type !== 'tool_use' || !block.name) continue;
+      if (block.id && failedToolUseIds.has(block.id)) continue;
+
+      const access = getFileAccess(block.name, block.input);
+      if (!access) continue;
+
+      let file = files.get(access.path);
+      if (!file) {
+        file = { operations: [], changes: [] };
+        files.set(access.path, file);
+      }
+
+      // A write to a file the agent hasn't seen before is taken to create it
+      const isUnseenWrite =
+        access.kind === 'write' && file.operations.length === 0;
+      file.operations.push({
+        kind: isUnseenWrite ? 'create' : access.kind,
+        toolName: block.name,
+        messageId: getThreadMessageId(msg),
+      });
+      if (access.change) {
+        file.changes.push(
+          isUnseenWrite && access.change.type === 'write'
+            ? { ...access.change, isNew: true }
+            : access.change
+        );
+      }
+    }
+  }
+
+  return Array.from(files, ([path, { operations, changes }]) => {
+    const kinds = new Set(operations.map((operation) => operation.kind));
+    const status: SessionFileStatus = kinds.has('create')
+      ? 'created'
+      : kinds.has('edit') || kinds.has('write')
+        ? 'modified'
+        : 'read';
+    return { path, status, operations, diff: composeDiff(changes) };
+  });
+}
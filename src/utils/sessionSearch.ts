@@ -0,0 +1,157 @@
+import { ConversationItem } from '@/hooks/useMessages';
+import { Session } from '@/types/session';
+
+export type SearchMatchField =
+  | 'title'
+  | 'repo'
+  | 'branch'
+  | 'prompt'
+  | 'assistant';
+
+export interface SearchMatch {
+  field: SearchMatchField;
+  /**
+   * Excerpt of the matched text around the first occurrence of the query
+   */
+  snippet: string;
+  /**
+   * Thread message to jump to (prompt ID or BackendMessage uuid)
+   */
+  messageId?: string;
+}
+
+export interface SessionSearchResult {
+  session: Session;
+  matches: SearchMatch[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const SNIPPET_BEFORE = 40;
+const SNIPPET_AFTER = 80;
+
+/**
+ * Builds a single-line excerpt of `text` around the first match of `query`.
+ * Returns null when the text does not contain the query.
+ */
+export function getSnippet(text: string, query: string): string | null {
+  const index = text.toLowerCase().indexOf(query.toLowerCase());
+  if (index === -1) return null;
+
+  const start = Math.max(0, index - SNIPPET_BEFORE);
+  const end = Math.min(text.length, index + query.length + SNIPPET_AFTER);
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+
+  return `${start > 0 ? '…' : ''}${excerpt}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Splits text into matching and non-matching segments for highlighting.
+ * Matching is case-insensitive.
+ */
+export function getHighlightSegments(
+  text: string,
+  query: string
+): HighlightSegment[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  const haystack = text.toLowerCase();
+  let cursor = 0;
+  let index = haystack.indexOf(needle);
+
+  while (index !== -1) {
+    if (index > cursor) {
+      segments.push({ text: text.slice(cursor, index), match: false });
+    }
+    segments.push({
+      text: text.slice(index, index + needle.length),
+      match: true,
+    });
+    cursor = index + needle.length;
+    index = haystack.indexOf(needle, cursor);
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Searches session metadata and conversation content for a query.
+ *
+ * Matches session title, repo and branch, prompt content, and the text
+ * blocks of assistant messages. Sessions without a loaded conversation are
+ * matched on metadata only. Results keep the order of `sessions`.
+ *
+ * @param query - Case-insensitive search text
+ * @param sessions - Sessions to search
+ * @param conversations - Loaded conversations keyed by session ID
+ */
+export function searchSessions(
+  query: string,
+  sessions: Session[],
+  conversations: Map<string, ConversationItem[]> = new Map()
+): SessionSearchResult[] {
+  const needle = query.trim();
+  if (!needle) return [];
+
+  const results: SessionSearchResult[] = [];
+
+  for (const session of sessions) {
+    const matches: SearchMatch[] = [];
+
+    const metadata: Array<[SearchMatchField, string]> = [
+      ['title', session.title],
+      ['repo', session.repo],
+      ['branch', session.branch],
+    ];
+    for (const [field, value] of metadata) {
+      const snippet = value ? getSnippet(value, needle) : null;
+      if (snippet) matches.push({ field, snippet });
+    }
+
+    for (const item of conversations.get(session.id) || []) {
+      if (item.type !== 'prompt') continue;
+
+      const promptSnippet = getSnippet(item.data.content || '', needle);
+      if (promptSnippet) {
+        matches.push({
+          field: 'prompt',
+          snippet: promptSnippet,
+          messageId: item.data.id,
+        });
+      }
+
+      for (const msg of item.messages) {
+        const role = msg.message?.role || msg.type;
+        if (role !== 'assistant' || !Array.isArray(msg.message?.content)) {
+          continue;
+        }
+        for (const block of msg.message.content) {
+          if (block.type !== 'text' || !block.text) continue;
+          const snippet = getSnippet(block.text, needle);
+          if (snippet) {
+            matches.push({
+              field: 'assistant',
+              snippet,
+              messageId: msg.uuid,
+            });
+          }
+        }
+      }
+    }
+
+    if (matches.length > 0) {
+      results.push({ session, matches });
+    }
+  }
+
+  return results;
+}
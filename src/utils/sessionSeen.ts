@@ -0,0 +1,44 @@
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Session } from '@/types/session';
+import { getMessageTimestamp } from './sessionTimeline';
+
+/**
+ * Whether a session changed after the seen cursor, judged by its own
+ * `updatedAt` so lists don't need its messages. Sessions without a cursor
+ * have never been opened here and count as seen, so nothing is marked new
+ * the first time cursors are used.
+ */
+export function hasUnseenChanges(session: Session, seenAt?: number): boolean {
+  if (!session.updatedAt || seenAt === undefined) return false;
+  return session.updatedAt.getTime() > seenAt;
+}
+
+/**
+ * Time of the newest message with a timestamp, or null when there is none
+ */
+export function getLatestMessageAt(messages: BackendMessage[]): number | null {
+  return messages.reduce<number | null>((latest, message) => {
+    const at = getMessageTimestamp(message)?.getTime();
+    return at !== undefined && (latest === null || at > latest) ? at : latest;
+  }, null);
+}
+
+/**
+ * The first message of a conversation stored after the seen cursor, where
+ * the thread should mark the start of new messages. Sub-agent messages are
+ * left out since the thread shows them inside the call that spawned them.
+ */
+export function findFirstUnseenMessageId(
+  conversation: ConversationItem[],
+  seenAt: number
+): string | null {
+  for (const item of conversation) {
+    const messages = item.type === 'prompt' ? item.messages : [item.data];
+    for (const message of messages) {
+      if (message.parent_tool_use_id) continue;
+      const at = getMessageTimestamp(message)?.getTime();
+      if (at !== undefined && at > seenAt) return message.uuid;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,164 @@
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Prompt } from '@/types/session';
+
+/**
+ * Shortest pause without messages or running tool calls shown as idle
+ */
+export const IDLE_GAP_MS = 30_000;
+
+/**
+ * Time range in milliseconds since the epoch
+ */
+export interface TimelineSpan {
+  start: number;
+  end: number;
+}
+
+export interface ToolCallSpan extends TimelineSpan {
+  toolCallId: string;
+  toolName: string;
+  /**
+   * uuid of the BackendMessage with the tool_use block
+   */
+  messageId: string;
+  /**
+   * False while the tool call has no result; it then runs to the end of
+   * its prompt
+   */
+  finished: boolean;
+  isError: boolean;
+}
+
+export interface PromptTimeline extends TimelineSpan {
+  prompt: Prompt;
+  toolCalls: ToolCallSpan[];
+  idleGaps: TimelineSpan[];
+  /**
+   * The prompt's final `result` message
+   */
+  result: { at: number; text: string; messageId: string } | null;
+}
+
+export interface SessionTimeline extends TimelineSpan {
+  prompts: PromptTimeline[];
+}
+
+/**
+ * When a message was stored by the backend, or null when unknown
+ */
+export function getMessageTimestamp(message: BackendMessage): Date | null {
+  if (!message.created_at) return null;
+  const date = new Date(message.created_at);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function buildPromptTimeline(
+  prompt: Prompt,
+  messages: BackendMessage[],
+  now: number
+): PromptTimeline {
+  const start = new Date(prompt.createdAt).getTime();
+  const timed = messages.flatMap((message) => {
+    const timestamp = getMessageTimestamp(message);
+    return timestamp ? [{ message, at: timestamp.getTime() }] : [];
+  });
+
+  const resultEntry = timed.find(({ message }) => message.type === 'result');
+  const lastAt = timed.reduce((latest, { at }) => Math.max(latest, at), start);
+  const isRunning =
+    prompt.status === 'pending' || prompt.status === 'processing';
+  const end = resultEntry?.at ?? (isRunning ? Math.max(now, lastAt) : lastAt);
+
+  const toolCalls = new Map<string, ToolCallSpan>();
+  for (const { message, at } of timed) {
+    for (const block of message.message?.content ?? []) {
+      if (block.type === 'tool_use' && block.id) {
+        toolCalls.set(block.id, {
+          toolCallId: block.id,
+          toolName: block.name || '',
+          messageId: message.uuid,
+          start: at,
+          end,
+          finished: false,
+          isError: false,
+        });
+      }
+      if (block.type === 'tool_result' && block.tool_use_id) {
+        const toolCall = toolCalls.get(block.tool_use_id);
+        if (toolCall) {
+          toolCall.end = at;
+          toolCall.finished = true;
+          toolCall.isError = !!block.is_error;
+        }
+      }
+    }
+  }
+
+  // A gap between two events is idle unless a tool call ran through it
+  const events = [start, ...timed.map(({ at }) => at), end].sort(
+    (a, b) => a - b
+  );
+  const idleGaps: TimelineSpan[] = [];
+  for (let i = 1; i < events.length; i++) {
+    const gap = { start: events[i - 1], end: events[i] };
+    if (gap.end - gap.start < IDLE_GAP_MS) continue;
+    const isBusy = Array.from(toolCalls.values()).some(
+      (toolCall) => toolCall.start <= gap.start && toolCall.end >= gap.end
+    );
+    if (!isBusy) idleGaps.push(gap);
+  }
+
+  return {
+    prompt,
+    start,
+    end,
+    toolCalls: Array.from(toolCalls.values()),
+    idleGaps,
+    result: resultEntry
+      ? {
+          at: resultEntry.at,
+          text: resultEntry.message.result ?? '',
+          messageId: resultEntry.message.uuid,
+        }
+      : null,
+  };
+}
+
+/**
+ * Lays out a session's prompts on a timeline, from each prompt's creation
+ * to its result, with the tool calls it made and the pauses in between.
+ * Messages without a timestamp are left out.
+ *
+ * @param now - End of prompts that are still running
+ */
+export function buildSessionTimeline(
+  conversation: ConversationItem[],
+  now = Date.now()
+): SessionTimeline | null {
+  const prompts = conversation.flatMap((item) =>
+    item.type === 'prompt'
+      ? [buildPromptTimeline(item.data, item.messages, now)]
+      : []
+  );
+  if (prompts.length === 0) return null;
+
+  return {
+    start: Math.min(...prompts.map((prompt) => prompt.start)),
+    end: Math.max(...prompts.map((prompt) => prompt.end)),
+    prompts,
+  };
+}
+
+/**
+ * Compact duration, e.g. `850ms`, `42s`, `3m 05s` or `1h 02m`
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
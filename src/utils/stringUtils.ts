@@ -26,3 +26,16 @@ export function truncateBranchName(
 
   return `${start}${ellipsis}${end}`;
 }
+
+/**
+ * Builds the GitHub URL comparing a session's branch against its target branch
+ * @param session - Session with repo, branch and target branch
+ * @returns GitHub compare URL
+ */
+export function getGitHubCompareUrl(session: {
+  repo: string;
+  branch: string;
+  targetBranch: string;
+}): string {
+  return `https://github.com/${session.repo}/compare/${session.targetBranch}...${session.branch}`;
+}
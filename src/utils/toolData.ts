@@ -0,0 +1,67 @@
+/**
+ * Whether a string is valid JSON
+ */
+export function isJSON(str: string): boolean {
+  try {
+    JSON.parse(str);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Pretty-prints a tool input or result, as JSON when possible. Returns the
+ * text and the language to highlight it with.
+ */
+export function formatToolData(data: unknown): {
+  text: string;
+  language: 'json' | 'plaintext';
+} {
+  const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  if (text !== undefined && isJSON(text)) {
+    return {
+      text: JSON.stringify(JSON.parse(text), null, 2),
+      language: 'json',
+    };
+  }
+  return { text: text ?? '', language: 'plaintext' };
+}
+
+/**
+ * Base64 image returned by a tool, e.g. a screenshot
+ */
+export interface ToolResultImage {
+  data: string;
+  mediaType: string;
+}
+
+/**
+ * Extracts the base64 images from a tool result, or null when it has none.
+ */
+export function extractImages(data: unknown): ToolResultImage[] | null {
+  try {
+    const resultData = typeof data === 'string' ? JSON.parse(data) : data;
+    if (Array.isArray(resultData)) {
+      const imageItems = resultData.filter(
+        (item) =>
+          item &&
+          typeof item === 'object' &&
+          item.type === 'image' &&
+          item.source &&
+          item.source.type === 'base64' &&
+          item.source.data &&
+          item.source.media_type
+      );
+      if (imageItems.length > 0) {
+        return imageItems.map((item) => ({
+          data: item.source.data,
+          mediaType: item.source.media_type,
+        }));
+      }
+    }
+  } catch {
+    // Not valid JSON or not an image structure
+  }
+  return null;
+}
@@ -0,0 +1,303 @@
+import { ConversationItem } from '@/hooks/useMessages';
+import { BackendMessage, Session } from '@/types/session';
+
+export interface TokenUsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadInputTokens: number;
+  cacheCreationInputTokens: number;
+}
+
+/**
+ * Token usage of a single API message
+ */
+export interface UsageEntry {
+  model: string;
+  usage: TokenUsageTotals;
+}
+
+/**
+ * USD price per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+}
+
+/**
+ * Prices keyed by model name prefix, e.g. `claude-sonnet-4` matches
+ * `claude-sonnet-4-5-20250929`. The longest matching prefix wins.
+ */
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': {
+    input: 3,
+    output: 15,
+    cacheRead: 0.3,
+    cacheWrite: 3.75,
+  },
+  'claude-3-5-sonnet': {
+    input: 3,
+    output: 15,
+    cacheRead: 0.3,
+    cacheWrite: 3.75,
+  },
+  'claude-haiku-4': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': {
+    input: 0.8,
+    output: 4,
+    cacheRead: 0.08,
+    cacheWrite: 1,
+  },
+};
+
+export const UNKNOWN_MODEL = 'unknown';
+
+export interface UsageTotals {
+  usage: TokenUsageTotals;
+  /**
+   * Estimated USD cost of the priced models
+   */
+  cost: number;
+  /**
+   * Whether some usage came from models missing in the price table
+   */
+  hasUnpricedUsage: boolean;
+}
+
+export interface SessionUsage extends UsageTotals {
+  session: Session;
+}
+
+export interface RepoUsage extends UsageTotals {
+  repo: string;
+  sessionCount: number;
+}
+
+export interface DayUsage extends UsageTotals {
+  /**
+   * Local calendar day, formatted as YYYY-MM-DD
+   */
+  day: string;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+  price: ModelPrice | null;
+}
+
+export interface UsageAnalytics {
+  totals: UsageTotals;
+  bySession: SessionUsage[];
+  byRepo: RepoUsage[];
+  byDay: DayUsage[];
+  byModel: ModelUsage[];
+}
+
+export const emptyTokenUsage = (): TokenUsageTotals => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheReadInputTokens: 0,
+  cacheCreationInputTokens: 0,
+});
+
+export function addTokenUsage(
+  target: TokenUsageTotals,
+  usage: TokenUsageTotals
+): TokenUsageTotals {
+  target.inputTokens += usage.inputTokens;
+  target.outputTokens += usage.outputTokens;
+  target.cacheReadInputTokens += usage.cacheReadInputTokens;
+  target.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+  return target;
+}
+
+export function getTotalTokens(usage: TokenUsageTotals) {
+  return (
+    usage.inputTokens +
+    usage.outputTokens +
+    usage.cacheReadInputTokens +
+    usage.cacheCreationInputTokens
+  );
+}
+
+/**
+ * Share of prompt tokens served from the cache, or null when no prompt
+ * tokens were used.
+ */
+export function getCacheHitRatio(usage: TokenUsageTotals): number | null {
+  const promptTokens =
+    usage.inputTokens +
+    usage.cacheReadInputTokens +
+    usage.cacheCreationInputTokens;
+  return promptTokens > 0 ? usage.cacheReadInputTokens / promptTokens : null;
+}
+
+/**
+ * Extracts token usage from assistant messages.
+ *
+ * Claude Code emits one BackendMessage per content block, each repeating the
+ * usage of the API message it belongs to, so usage is reported once per
+ * message ID.
+ */
+export function getUsageEntries(messages: BackendMessage[]): UsageEntry[] {
+  const entries: UsageEntry[] = [];
+  const counted = new Set<string>();
+
+  for (const msg of messages) {
+    const usage = msg.message?.usage;
+    if (msg.type !== 'assistant' || !usage) continue;
+
+    const key = msg.message.id || msg.uuid;
+    if (counted.has(key)) continue;
+    counted.add(key);
+
+    entries.push({
+      model: msg.message.model || UNKNOWN_MODEL,
+      usage: {
+        inputTokens: usage.input_tokens || 0,
+        outputTokens: usage.output_tokens || 0,
+        cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+        cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+      },
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Sums token usage across assistant messages.
+ */
+export function sumTokenUsage(messages: BackendMessage[]): TokenUsageTotals {
+  return getUsageEntries(messages).reduce(
+    (totals, entry) => addTokenUsage(totals, entry.usage),
+    emptyTokenUsage()
+  );
+}
+
+/**
+ * Finds the price of a model by longest matching prefix.
+ */
+export function findModelPrice(
+  model: string,
+  priceTable: PriceTable
+): ModelPrice | null {
+  let match: string | null = null;
+  for (const prefix of Object.keys(priceTable)) {
+    if (model.startsWith(prefix) && (!match || prefix.length > match.length)) {
+      match = prefix;
+    }
+  }
+  return match ? priceTable[match] : null;
+}
+
+export function estimateCost(usage: TokenUsageTotals, price: ModelPrice) {
+  return (
+    (usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheReadInputTokens * price.cacheRead +
+      usage.cacheCreationInputTokens * price.cacheWrite) /
+    1_000_000
+  );
+}
+
+const emptyTotals = (): UsageTotals => ({
+  usage: emptyTokenUsage(),
+  cost: 0,
+  hasUnpricedUsage: false,
+});
+
+const formatDay = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Aggregates token usage and estimated cost per session, repo, day and model.
+ *
+ * Usage is dated by the prompt it belongs to. Sessions are sorted by cost,
+ * repos by total tokens, days chronologically and models by cost.
+ *
+ * @param sessions - Sessions to include
+ * @param conversations - Loaded conversations keyed by session ID
+ * @param priceTable - Model prices used for cost estimates
+ */
+export function aggregateUsage(
+  sessions: Session[],
+  conversations: Map<string, ConversationItem[]>,
+  priceTable: PriceTable = DEFAULT_PRICE_TABLE
+): UsageAnalytics {
+  const totals = emptyTotals();
+  const bySession: SessionUsage[] = [];
+  const byRepo = new Map<string, RepoUsage>();
+  const byDay = new Map<string, DayUsage>();
+  const byModel = new Map<string, ModelUsage>();
+
+  const record = (target: UsageTotals, entry: UsageEntry, cost: number) => {
+    addTokenUsage(target.usage, entry.usage);
+    target.cost += cost;
+    if (!findModelPrice(entry.model, priceTable)) {
+      target.hasUnpricedUsage = true;
+    }
+  };
+
+  for (const session of sessions) {
+    const sessionUsage: SessionUsage = { session, ...emptyTotals() };
+    const repoUsage = byRepo.get(session.repo) || {
+      repo: session.repo,
+      sessionCount: 0,
+      ...emptyTotals(),
+    };
+    repoUsage.sessionCount++;
+    byRepo.set(session.repo, repoUsage);
+
+    for (const item of conversations.get(session.id) || []) {
+      const messages = item.type === 'prompt' ? item.messages : [item.data];
+      const date = item.type === 'prompt' ? item.data.createdAt : undefined;
+      const day = formatDay(date ?? session.createdAt);
+      const dayUsage = byDay.get(day) || { day, ...emptyTotals() };
+      byDay.set(day, dayUsage);
+
+      for (const entry of getUsageEntries(messages)) {
+        const price = findModelPrice(entry.model, priceTable);
+        const cost = price ? estimateCost(entry.usage, price) : 0;
+        const modelUsage = byModel.get(entry.model) || {
+          model: entry.model,
+          price,
+          ...emptyTotals(),
+        };
+        byModel.set(entry.model, modelUsage);
+
+        for (const target of [
+          totals,
+          sessionUsage,
+          repoUsage,
+          dayUsage,
+          modelUsage,
+        ]) {
+          record(target, entry, cost);
+        }
+      }
+    }
+
+    bySession.push(sessionUsage);
+  }
+
+  return {
+    totals,
+    bySession: bySession.sort((a, b) => b.cost - a.cost),
+    byRepo: Array.from(byRepo.values()).sort(
+      (a, b) => getTotalTokens(b.usage) - getTotalTokens(a.usage)
+    ),
+    byDay: Array.from(byDay.values()).sort((a, b) =>
+      a.day.localeCompare(b.day)
+    ),
+    byModel: Array.from(byModel.values()).sort((a, b) => b.cost - a.cost),
+  };
+}
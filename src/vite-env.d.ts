@@ -6,6 +6,14 @@ interface ImportMetaEnv {
   readonly VITE_KEYCLOAK_CLIENT_ID: string;
   readonly VITE_API_BASE_URL: string;
   readonly VITE_USE_MOCKS: string;
+  /**
+   * Backend client to use: `sdk` (default), `fetch` or `mock`
+   */
+  readonly VITE_API_CLIENT?: 'sdk' | 'fetch' | 'mock';
+  /**
+   * `true` to push conversation updates over SSE instead of polling
+   */
+  readonly VITE_ENABLE_STREAMING?: string;
   // Add other env variables as needed
 }
 